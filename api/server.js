@@ -41,6 +41,42 @@ app.post('/api/supabase/create-project', async (req, res) => {
   }
 });
 
+// Proxy for listing projects (resource inventory)
+app.get('/api/supabase/projects', async (req, res) => {
+  try {
+    const { token } = req.query;
+
+    const response = await fetch('https://api.supabase.com/v1/projects', {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+    res.status(response.status).json(data);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Proxy for listing organizations (credential checks in Settings)
+app.get('/api/supabase/organizations', async (req, res) => {
+  try {
+    const { token } = req.query;
+
+    const response = await fetch('https://api.supabase.com/v1/organizations', {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+    res.status(response.status).json(data);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Proxy for getting project status
 app.get('/api/supabase/project/:ref', async (req, res) => {
   try {
@@ -63,6 +99,29 @@ app.get('/api/supabase/project/:ref', async (req, res) => {
   }
 });
 
+// Proxy for deleting a project (rollback of failed builds)
+app.delete('/api/supabase/project/:ref', async (req, res) => {
+  try {
+    const { token } = req.query;
+    const { ref } = req.params;
+
+    const response = await fetch(
+      `https://api.supabase.com/v1/projects/${ref}`,
+      {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      }
+    );
+
+    const data = await response.json().catch(() => ({}));
+    res.status(response.status).json(data);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Proxy for getting API keys
 app.get('/api/supabase/project/:ref/api-keys', async (req, res) => {
   try {
@@ -104,7 +163,7 @@ app.post('/api/supabase/project/:ref/database/query', async (req, res) => {
     );
 
     const data = await response.json();
-    res.json(data);
+    res.status(response.status).json(data);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -1,31 +1,72 @@
 import { useState, useEffect, useRef } from 'react';
-import { Settings as SettingsIcon, Menu, X } from 'lucide-react';
+import { Settings as SettingsIcon, Lock, Menu, X } from 'lucide-react';
 import { Button } from './components/ui/Button';
 import { Settings } from './components/Settings';
+import { VaultUnlock } from './components/VaultUnlock';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
 import { Chat } from './components/Chat';
 import { StatusBar } from './components/StatusBar';
 import { ProjectHistory } from './components/ProjectHistory';
 import { RepoManager } from './components/RepoManager';
+import { ResourceInventory } from './components/ResourceInventory';
+import { SupabaseProjectPicker } from './components/SupabaseProjectPicker';
 import { CodeViewer } from './components/CodeViewer';
 import { PreviewLoading } from './components/PreviewLoading';
 import { PreviewIframe } from './components/PreviewIframe';
 import { PreviewError } from './components/PreviewError';
 import { SplitPane } from './components/SplitPane';
-import { Settings as SettingsType, AgentMessage, BuildStatus, ProjectHistory as ProjectHistoryType } from './types';
-import { hasValidSettings, loadHistory, loadSettings, saveProject } from './lib/storage';
+import { PlanApprovalPanel } from './components/PlanApprovalPanel';
+import { PullRequestBar } from './components/PullRequestBar';
+import { GenerationTimeline } from './components/GenerationTimeline';
+import { RollbackPanel } from './components/RollbackPanel';
+import { AgentMessage, BuildStatus, ProjectHistory as ProjectHistoryType, PullRequestInfo, Workspace } from './types';
+import {
+  addWorkspace,
+  deleteWorkspace,
+  hasValidSettings,
+  loadHistory,
+  loadRunJournal,
+  loadSettings,
+  loadWorkspaces,
+  saveProject,
+  switchWorkspace,
+  updateWorkspace,
+} from './lib/storage';
+import { redactValue } from './lib/secrets';
+import { isVaultUnlocked, lockVault, onVaultChange, startAutoLock } from './lib/vault';
+import { onStorageError } from './lib/db';
 import { generateId } from './lib/utils';
-import { runAgent } from './lib/agent';
+import { runAgent, AgentEvent } from './lib/agent';
+import { RunJournal, finishRunJournal } from './lib/run-journal';
+import { BuildPlan, planBuild } from './lib/planner';
+import { createProvider, ProviderUsage, resolveModel } from './lib/providers';
+import { VirtualWorkspace, createDryRunBackend } from './lib/tools/virtual-workspace';
+import { createLiveBackend } from './lib/tools/backend';
+import { GithubRestoreMode } from './lib/tools/github';
+import { SupabaseProjectSummary } from './lib/tools/supabase-backend';
+import { VercelDeploymentState } from './lib/tools/vercel';
+import { generationsFor, restoreGeneration, shortSha } from './lib/generations';
+import { CreatedResource, describeResource, rollbackResources } from './lib/resource-ledger';
 import { previewErrorHandler, PreviewError as PreviewErrorType } from './lib/preview-errors';
 import { previewManager } from './lib/preview-manager';
 import { usePreviewOptimization, usePerformanceMonitor } from './hooks/usePreviewOptimization';
+import { useDeploymentState } from './hooks/useDeploymentState';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
 
 function App() {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [repoManagerOpen, setRepoManagerOpen] = useState(false);
+  const [inventoryOpen, setInventoryOpen] = useState(false);
+  const [supabasePickerOpen, setSupabasePickerOpen] = useState(false);
+  const [attachedSupabase, setAttachedSupabase] = useState<SupabaseProjectSummary | null>(null); // Used by the next build instead of a new project
   const [hasSettings, setHasSettings] = useState(false);
+  const [vaultUnlocked, setVaultUnlocked] = useState(isVaultUnlocked());
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState('');
   const [messages, setMessages] = useState<AgentMessage[]>([]);
   const [conversationHistory, setConversationHistory] = useState<any[]>([]); // Anthropic message format
-  const [_currentProject, setCurrentProject] = useState<BuildStatus['currentProject']>();
+  const [currentProject, setCurrentProject] = useState<BuildStatus['currentProject']>();
   const [buildStatus, setBuildStatus] = useState<BuildStatus>({
     stage: 'idle',
     message: '',
@@ -35,18 +76,33 @@ function App() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [projectHistory, setProjectHistory] = useState<ProjectHistoryType[]>([]);
-  const [selectedModel, setSelectedModel] = useState<string>('claude-sonnet-4-20250514');
+  const [selectedModel, setSelectedModel] = useState<string>(DEFAULT_MODEL);
   const [previewFiles, setPreviewFiles] = useState<Record<string, string> | null>(null);
   const [currentProjectId, setCurrentProjectId] = useState<string>('');
   const [currentProjectName, setCurrentProjectName] = useState<string>('');
   const [currentDeploymentUrl, setCurrentDeploymentUrl] = useState<string>('');
+  const [knownDeploymentState, setKnownDeploymentState] = useState<VercelDeploymentState>(); // Last state the agent saw; the preview keeps following it
   const [filesGenerated, setFilesGenerated] = useState<number>(0);
   const [totalFiles, setTotalFiles] = useState<number>(0);
   const [previewError, setPreviewError] = useState<PreviewErrorType | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [dryRun, setDryRun] = useState(false);
+  const [pendingPlan, setPendingPlan] = useState<{ prompt: string; plan: BuildPlan; usage: ProviderUsage } | null>(null);
+  const [openPullRequests, setOpenPullRequests] = useState<PullRequestInfo[]>([]);
+  const [pullRequestBusy, setPullRequestBusy] = useState<number | null>(null); // PR number being merged/discarded
+  const [timelineProject, setTimelineProject] = useState<ProjectHistoryType | null>(null);
+  const [restoringSha, setRestoringSha] = useState<string | null>(null);
+  const [pendingRollback, setPendingRollback] = useState<{ runId?: string; resources: CreatedResource[] } | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
 
   // Prevent late async updates from older runs (which can make the iframe show a "random" older site)
   const activeRunIdRef = useRef<string>('');
+  // Assistant message currently receiving streamed text (null between turns)
+  const streamingMessageIdRef = useRef<string | null>(null);
+  // 🧪 In-memory GitHub/Vercel/Supabase for dry runs (kept for the session so follow-ups can edit)
+  const dryRunWorkspaceRef = useRef(new VirtualWorkspace());
+  // 🔀 Production URL to return to when a branch preview is merged or discarded
+  const productionUrlRef = useRef<string>('');
 
   const normalizeVercelPreviewUrl = (raw: unknown): string | null => {
     if (typeof raw !== 'string') return null;
@@ -72,6 +128,13 @@ function App() {
   });
   const performanceMonitor = usePerformanceMonitor('App');
 
+  // The preview waits for the deployment behind it to be ready
+  const deploymentState = useDeploymentState(
+    currentDeploymentUrl,
+    currentDeploymentUrl ? loadSettings()?.apiKeys.vercel ?? null : null,
+    knownDeploymentState
+  );
+
   useEffect(() => {
     console.log('🚀 Brainiac App mounted');
     performanceMonitor.start();
@@ -85,37 +148,126 @@ function App() {
   }, [previewOptimization, performanceMonitor]);
 
   useEffect(() => {
-    // Check if settings exist on mount
+    return onVaultChange(setVaultUnlocked);
+  }, []);
+
+  // Nothing is lost silently when the browser runs out of space or another tab holds the database
+  useEffect(() => {
+    return onStorageError(error => {
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `⚠️ ${error.message}`,
+        timestamp: new Date().toISOString(),
+      }]);
+    });
+  }, []);
+
+  // Load the active workspace: keys, defaults, model and history
+  const loadWorkspace = () => {
+    const store = loadWorkspaces();
+    const workspace = loadSettings();
+    if (!store || !workspace) return;
+
+    setWorkspaces(store.workspaces);
+    setActiveWorkspaceId(workspace.id);
+
+    // Check the decrypted settings
     const valid = hasValidSettings();
     setHasSettings(valid);
-    
+
     // Show settings modal if no valid settings
     if (!valid) {
       setSettingsOpen(true);
     }
 
-    // Load project history
+    setDryRun(!!workspace.preferences.dryRun);
+    setSelectedModel(workspace.model ?? DEFAULT_MODEL);
     setProjectHistory(loadHistory());
-  }, []);
+  };
+
+  useEffect(() => {
+    if (!vaultUnlocked) {
+      // Keys are gone from memory until the passphrase is entered again
+      setSettingsOpen(false);
+      setHasSettings(false);
+      return;
+    }
+    loadWorkspace();
+  }, [vaultUnlocked]);
+
+  useEffect(() => {
+    // A running build is not idle time
+    if (!vaultUnlocked || isGenerating) return;
+    return startAutoLock();
+  }, [vaultUnlocked, isGenerating]);
+
+  const handleSettingsSave = () => {
+    // Settings are saved in the Settings component via the vault
+    loadWorkspace();
+  };
 
-  const handleSettingsSave = (_settings: SettingsType) => {
-    setHasSettings(true);
-    // Settings are saved in the Settings component via localStorage
+  // A new workspace starts a new conversation: the current project belongs to the old keys
+  const resetConversation = () => {
+    setMessages([]);
+    setConversationHistory([]);
+    setCurrentProject(undefined);
+    setAttachedSupabase(null);
+    setOpenPullRequests([]);
+    setPreviewFiles(null);
+    setPreviewError(null);
+    setCurrentProjectName('');
+    setCurrentDeploymentUrl('');
+    setBuildStatus({ stage: 'idle', message: '', progress: 0 });
+  };
+
+  const handleSwitchWorkspace = (workspaceId: string) => {
+    if (isGenerating || workspaceId === activeWorkspaceId) return;
+    switchWorkspace(workspaceId);
+    resetConversation();
+    loadWorkspace();
+  };
+
+  const handleCreateWorkspace = (name: string) => {
+    if (isGenerating || !addWorkspace(name)) return;
+    resetConversation();
+    loadWorkspace();
+  };
+
+  const handleDeleteWorkspace = (workspaceId: string) => {
+    if (isGenerating) return;
+    deleteWorkspace(workspaceId);
+    if (workspaceId === activeWorkspaceId) resetConversation();
+    loadWorkspace();
+  };
+
+  const handleModelChange = (model: string) => {
+    setSelectedModel(model);
+    updateWorkspace({ model });
+  };
+
+  // Stop the caret on the message that was streaming (if any)
+  const finishStreamingMessage = () => {
+    const streamingId = streamingMessageIdRef.current;
+    if (!streamingId) return;
+    streamingMessageIdRef.current = null;
+    setMessages(prev => prev.map(m => (m.id === streamingId ? { ...m, streaming: false } : m)));
   };
 
-  const handleSendMessage = async (message: string) => {
+  const handleSendMessage = async (message: string, resumeFrom?: RunJournal, approvedPlan?: BuildPlan, planningUsage?: ProviderUsage) => {
     if (!hasSettings) {
       setSettingsOpen(true);
       return;
     }
 
-    // Add user message
-    const userMessage: AgentMessage = {
-      role: 'user',
-      content: message,
-      timestamp: new Date().toISOString(),
-    };
-    setMessages(prev => [...prev, userMessage]);
+    // Add user message (resumed and approved builds re-use the original prompt)
+    if (!resumeFrom && !approvedPlan) {
+      const userMessage: AgentMessage = {
+        role: 'user',
+        content: message,
+        timestamp: new Date().toISOString(),
+      };
+      setMessages(prev => [...prev, userMessage]);
+    }
 
     // Load settings
     const settings = loadSettings();
@@ -123,6 +275,7 @@ function App() {
       setSettingsOpen(true);
       return;
     }
+    const isDryRun = !!settings.preferences.dryRun;
 
     // Create abort controller for stop button
     const controller = new AbortController();
@@ -130,6 +283,34 @@ function App() {
     setIsGenerating(true);
     setMaxProgress(0);
 
+    // 📋 Plan-first mode: nothing is created until the user approves a plan
+    // (follow-ups edit the current project, which a new plan would replace)
+    if (settings.preferences.planFirst && !currentProject && !resumeFrom && !approvedPlan) {
+      const planRunId = `plan-${Date.now()}`;
+      activeRunIdRef.current = planRunId;
+      setBuildStatus({ stage: 'preparing', message: 'Planning your build...', progress: 5 });
+
+      try {
+        const { plan, usage } = await planBuild(message, createProvider(settings), resolveModel(settings, selectedModel), controller.signal);
+        if (activeRunIdRef.current !== planRunId) return;
+        setPendingPlan({ prompt: message, plan, usage });
+      } catch (error: any) {
+        if (activeRunIdRef.current !== planRunId) return;
+        console.error('Planning error:', error);
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: `❌ Planning failed: ${error.message || 'Unknown error'}`,
+          timestamp: new Date().toISOString(),
+        }]);
+      }
+
+      activeRunIdRef.current = '';
+      setIsGenerating(false);
+      setAbortController(null);
+      setBuildStatus({ stage: 'idle', message: '', progress: 0 });
+      return;
+    }
+
     // Add step messages to chat as we progress
     const addStepMessage = (step: string) => {
       const stepMessage: AgentMessage = {
@@ -140,15 +321,62 @@ function App() {
       setMessages(prev => [...prev, stepMessage]);
     };
 
+    // Render streamed text token by token and tool calls as live cards
+    const handleAgentEvent = (event: AgentEvent) => {
+      switch (event.type) {
+        case 'turn_start':
+          finishStreamingMessage();
+          break;
+
+        case 'text_delta': {
+          const streamingId = streamingMessageIdRef.current;
+          if (streamingId) {
+            setMessages(prev => prev.map(m => (m.id === streamingId ? { ...m, content: m.content + event.text } : m)));
+          } else {
+            const id = generateId();
+            streamingMessageIdRef.current = id;
+            setMessages(prev => [...prev, {
+              id,
+              role: 'assistant',
+              content: event.text,
+              timestamp: new Date().toISOString(),
+              streaming: true,
+            }]);
+          }
+          break;
+        }
+
+        case 'tool_call_start':
+          finishStreamingMessage();
+          setMessages(prev => [...prev, {
+            id: `tool-${event.id}`,
+            role: 'assistant',
+            content: '',
+            timestamp: new Date().toISOString(),
+            toolCall: { id: event.id, name: event.name, input: event.input, status: 'running' },
+          }]);
+          break;
+
+        case 'tool_call_end':
+          setMessages(prev => prev.map(m =>
+            m.toolCall?.id === event.id
+              ? { ...m, toolCall: { ...m.toolCall, status: event.status, result: event.result } }
+              : m
+          ));
+          break;
+      }
+    };
+
     try {
-      // Generate a new project ID for this build
-      const projectId = `project-${Date.now()}`;
+      // Generate a new project ID for this build (doubles as the run journal id)
+      const projectId = resumeFrom ? resumeFrom.runId : `project-${Date.now()}`;
       activeRunIdRef.current = projectId;
       setCurrentProjectId(projectId);
       setPreviewFiles(null); // Clear previous preview
       setPreviewError(null); // Clear previous errors
       setCurrentProjectName(message.slice(0, 50));
       setCurrentDeploymentUrl('');
+      setKnownDeploymentState(undefined);
       setFilesGenerated(0);
       setTotalFiles(17); // Standard template has ~17 files
 
@@ -184,7 +412,7 @@ function App() {
         },
         conversationHistory.length > 0 ? conversationHistory : undefined,
         controller.signal, // ← Pass abort signal!
-        selectedModel, // ← Pass selected model!
+        resolveModel(settings, selectedModel), // ← Pass selected model!
         // 🎬 File update callback for live preview - simplified to avoid re-render loops
         (incomingFiles) => {
           // Ignore stale file updates from previous runs
@@ -201,6 +429,26 @@ function App() {
             console.log(`🎬 Total files in preview: ${Object.keys(mergedFiles).length}`);
             return mergedFiles;
           });
+        },
+        {
+          provider: createProvider(settings),
+          runId: projectId,
+          resumeFrom,
+          backend: isDryRun ? createDryRunBackend(dryRunWorkspaceRef.current) : undefined,
+          pricing: settings.pricing,
+          budgetUsd: settings.preferences.buildBudgetUsd,
+          deployHealAttempts: settings.preferences.deployHealAttempts,
+          branchWorkflow: settings.preferences.branchWorkflow,
+          approvedPlan,
+          planningUsage,
+          projectContext: currentProject, // ← Follow-ups edit (and preview) the existing repo
+          supabaseProjectRef: attachedSupabase?.ref,
+          workspaceId: settings.id,
+          onEvent: (event) => {
+            // Ignore stale events from previous runs
+            if (activeRunIdRef.current !== projectId) return;
+            handleAgentEvent(event);
+          },
         }
       );
 
@@ -220,36 +468,69 @@ function App() {
 
       console.log('✅ UI state reset. Input should be enabled now.');
 
-      // Add assistant response
-      const assistantMessage: AgentMessage = {
-        role: 'assistant',
-        content: result.message,
-        timestamp: new Date().toISOString(),
-      };
-      setMessages(prev => [...prev, assistantMessage]);
+      // Add assistant response (unless the final turn already streamed it)
+      const finalTurnStreamed = result.success && streamingMessageIdRef.current !== null;
+      finishStreamingMessage();
+      if (!finalTurnStreamed) {
+        const assistantMessage: AgentMessage = {
+          role: 'assistant',
+          content: result.message,
+          timestamp: new Date().toISOString(),
+        };
+        setMessages(prev => [...prev, assistantMessage]);
+      }
 
-      // Update conversation history for next message
-      setConversationHistory(prev => [
+      // Update conversation history for next message (full tool history, compacted by the agent when long)
+      setConversationHistory(prev => redactValue(result.messages ?? [
         ...prev,
         { role: 'user', content: message },
         { role: 'assistant', content: result.message },
-      ]);
+      ]));
+
+      // Offer to resume if the run stopped with unresolved failures
+      if (result.resumable && result.runId) {
+        const resumeMessage: AgentMessage = {
+          role: 'assistant',
+          content: '↻ This build did not finish. Completed steps are saved and can be resumed from the first failed one.',
+          timestamp: new Date().toISOString(),
+          resumeRunId: result.runId,
+        };
+        setMessages(prev => [...prev, resumeMessage]);
+      }
+
+      // 🧾 Failed or unfinished build: offer to delete what it already created
+      if ((!result.success || result.resumable) && result.createdResources?.length) {
+        setPendingRollback({ runId: result.runId, resources: result.createdResources });
+      }
 
       // Save project context for follow-up edits
       if (result.data?.projectContext) {
         setCurrentProject(result.data.projectContext);
+        setAttachedSupabase(null); // The project context carries the attached database from here on
       }
 
-      // Update deployment URL if available with error handling
-      if (result.data?.vercelUrl) {
+      // 🔀 Branch workflow: keep the PR around for merge/discard and preview its branch
+      const pullRequest = result.data?.pullRequest;
+      if (pullRequest) {
+        setOpenPullRequests(prev => [...prev.filter(pr => pr.url !== pullRequest.url), pullRequest]);
+      }
+
+      // Update deployment URL if available with error handling (dry runs only have the local preview)
+      const deploymentUrl = pullRequest?.previewUrl ?? result.data?.vercelUrl;
+      if (deploymentUrl && !isDryRun) {
         try {
-          const normalized = normalizeVercelPreviewUrl(result.data.vercelUrl);
+          const normalized = normalizeVercelPreviewUrl(deploymentUrl);
           if (!normalized) {
-            console.warn('⚠️ Ignoring invalid Vercel URL from agent:', result.data.vercelUrl);
+            console.warn('⚠️ Ignoring invalid Vercel URL from agent:', deploymentUrl);
           } else {
+            if (!pullRequest) productionUrlRef.current = normalized;
             setCurrentDeploymentUrl(normalized);
+            setKnownDeploymentState(result.data?.deploymentState);
             console.log('✅ Deployment URL set:', normalized);
           }
+          if (result.data?.deploymentState === 'ERROR') {
+            setPreviewError(previewErrorHandler.createError(new Error('Vercel build failed'), 'deployment'));
+          }
         } catch (deployError) {
           console.error('❌ Failed to set deployment URL:', deployError);
           const error = previewErrorHandler.createError(deployError, 'deployment');
@@ -269,6 +550,26 @@ function App() {
           supabaseUrl: result.data.supabaseUrl || '',
           createdAt: new Date().toISOString(),
           success: true,
+          dryRun: isDryRun || undefined,
+          usage: result.usage,
+          projectContext: result.data.projectContext ?? currentProject,
+          commitSha: result.data.commitSha,
+        };
+        saveProject(project);
+        setProjectHistory(prev => [project, ...prev]);
+      } else if (!result.success) {
+        // Keep failed (or over-budget) runs so their cost still shows up
+        const project: ProjectHistoryType = {
+          id: generateId(),
+          name: message.slice(0, 50),
+          prompt: message,
+          githubUrl: '',
+          vercelUrl: '',
+          supabaseUrl: '',
+          createdAt: new Date().toISOString(),
+          success: false,
+          dryRun: isDryRun || undefined,
+          usage: result.usage,
         };
         saveProject(project);
         setProjectHistory(prev => [project, ...prev]);
@@ -276,6 +577,7 @@ function App() {
     } catch (error: any) {
       // Clear active run so late callbacks can't mutate UI after failure
       activeRunIdRef.current = '';
+      finishStreamingMessage();
       // IMPORTANT: Reset UI state on error
       console.log('❌ Build error! Resetting UI state...');
       
@@ -315,8 +617,10 @@ function App() {
     if (abortController) {
       console.log('⏹️ User clicked stop! Aborting build...');
       
+      const stoppedRunId = activeRunIdRef.current;
       abortController.abort();
       activeRunIdRef.current = '';
+      finishStreamingMessage();
       
       // Immediately reset UI
       setIsGenerating(false);
@@ -330,9 +634,91 @@ function App() {
         role: 'assistant',
         content: '⏹️ Generation stopped by user.',
         timestamp: new Date().toISOString(),
+        // Only runs with saved checkpoints can be resumed (not e.g. planning)
+        resumeRunId: stoppedRunId && loadRunJournal(stoppedRunId) ? stoppedRunId : undefined,
       };
       setMessages(prev => [...prev, stopMessage]);
+
+      // 🧾 Offer to delete whatever the stopped build already created
+      const resources = stoppedRunId ? loadRunJournal(stoppedRunId)?.resources : undefined;
+      if (resources?.length) {
+        setPendingRollback({ runId: stoppedRunId, resources });
+      }
+    }
+  };
+
+  const handleRollback = async () => {
+    const backend = actionBackend();
+    if (!backend || !pendingRollback) return;
+    setRollingBack(true);
+
+    const results = await rollbackResources(backend, pendingRollback.resources);
+    const failed = results.filter(r => !r.success);
+
+    // A rolled-back run can no longer be resumed (its replayed steps point at deleted resources)
+    const journal = pendingRollback.runId ? loadRunJournal(pendingRollback.runId) : null;
+    if (journal && failed.length === 0) {
+      finishRunJournal(journal, 'rolled_back');
+      setMessages(prev => prev.map(m => (m.resumeRunId === journal.runId ? { ...m, resumeRunId: undefined } : m)));
+    }
+
+    const deleted = results.filter(r => r.success).map(r => `- ${describeResource(r.resource)}`);
+    const notDeleted = failed.map(r => `- ${describeResource(r.resource)}: ${r.error}`);
+    setMessages(prev => [...prev, {
+      role: 'assistant',
+      content: [
+        failed.length === 0 ? '↩️ Rolled back the partial build.' : '⚠️ Rollback finished with errors.',
+        ...(deleted.length > 0 ? ['', 'Deleted:', ...deleted] : []),
+        ...(notDeleted.length > 0 ? ['', 'Could not delete (remove these by hand):', ...notDeleted] : []),
+      ].join('\n'),
+      timestamp: new Date().toISOString(),
+    }]);
+
+    setRollingBack(false);
+    setPendingRollback(null);
+  };
+
+  const handleResumeBuild = (runId: string) => {
+    const journal = loadRunJournal(runId);
+    if (!journal) {
+      const missingMessage: AgentMessage = {
+        role: 'assistant',
+        content: '❌ Could not find the saved checkpoints for this build.',
+        timestamp: new Date().toISOString(),
+      };
+      setMessages(prev => [...prev, missingMessage]);
+      return;
     }
+
+    const resumingMessage: AgentMessage = {
+      role: 'assistant',
+      content: '⚡ Resuming build from the last checkpoint...',
+      timestamp: new Date().toISOString(),
+    };
+    // Only one resume per checkpoint message
+    setMessages(prev => [...prev.map(m => (m.resumeRunId === runId ? { ...m, resumeRunId: undefined } : m)), resumingMessage]);
+    handleSendMessage(journal.prompt, journal);
+  };
+
+  const handleApprovePlan = (plan: BuildPlan) => {
+    if (!pendingPlan) return;
+    const { prompt, usage } = pendingPlan;
+    setPendingPlan(null);
+    setMessages(prev => [...prev, {
+      role: 'assistant',
+      content: `📋 Plan approved: ${plan.summary}`,
+      timestamp: new Date().toISOString(),
+    }]);
+    handleSendMessage(prompt, undefined, plan, usage);
+  };
+
+  const handleRejectPlan = () => {
+    setPendingPlan(null);
+    setMessages(prev => [...prev, {
+      role: 'assistant',
+      content: '🚫 Plan rejected. Nothing was created. Rephrase your request to get a new plan.',
+      timestamp: new Date().toISOString(),
+    }]);
   };
 
   const handleClearHistory = () => {
@@ -358,6 +744,146 @@ function App() {
     }
   };
 
+  // Backend for actions outside agent runs: PR merge/discard and restores (same one the agent used)
+  const actionBackend = () => {
+    const settings = loadSettings();
+    if (!settings) return null;
+    return settings.preferences.dryRun
+      ? createDryRunBackend(dryRunWorkspaceRef.current)
+      : createLiveBackend(settings.apiKeys);
+  };
+
+  const showProductionPreview = () => {
+    setPreviewError(null);
+    setKnownDeploymentState(undefined);
+    setCurrentDeploymentUrl(productionUrlRef.current);
+  };
+
+  const handlePreviewPullRequest = (pr: PullRequestInfo) => {
+    const normalized = normalizeVercelPreviewUrl(pr.previewUrl);
+    if (!normalized) return;
+    setPreviewError(null);
+    setKnownDeploymentState(undefined);
+    setCurrentDeploymentUrl(normalized);
+  };
+
+  const handleMergePullRequest = async (pr: PullRequestInfo) => {
+    const backend = actionBackend();
+    if (!backend) return;
+    setPullRequestBusy(pr.number);
+    try {
+      await backend.mergeGithubPullRequest({ repo: pr.repo, number: pr.number });
+      setOpenPullRequests(prev => prev.filter(p => p.url !== pr.url));
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `✅ Merged pull request #${pr.number} (\`${pr.branch}\`). Vercel is deploying it to production.`,
+        timestamp: new Date().toISOString(),
+      }]);
+      showProductionPreview();
+    } catch (error: any) {
+      console.error('❌ Merge failed:', error);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `❌ Could not merge pull request #${pr.number}: ${error.message || 'Unknown error'}`,
+        timestamp: new Date().toISOString(),
+      }]);
+    } finally {
+      setPullRequestBusy(null);
+    }
+  };
+
+  const handleDiscardPullRequest = async (pr: PullRequestInfo) => {
+    const backend = actionBackend();
+    if (!backend) return;
+    setPullRequestBusy(pr.number);
+    try {
+      await backend.closeGithubPullRequest({ repo: pr.repo, number: pr.number });
+      setOpenPullRequests(prev => prev.filter(p => p.url !== pr.url));
+      // Show the production code again instead of the discarded branch
+      const { files } = await backend.getGithubRepoFiles({ repo: pr.repo });
+      setPreviewFiles(files);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `🗑️ Discarded pull request #${pr.number} and deleted branch \`${pr.branch}\`. Production is unchanged.`,
+        timestamp: new Date().toISOString(),
+      }]);
+      showProductionPreview();
+    } catch (error: any) {
+      console.error('❌ Discard failed:', error);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `❌ Could not discard pull request #${pr.number}: ${error.message || 'Unknown error'}`,
+        timestamp: new Date().toISOString(),
+      }]);
+    } finally {
+      setPullRequestBusy(null);
+    }
+  };
+
+  // ↩️ Restore an earlier generation, redeploy it and show its files
+  const handleRestoreGeneration = async (generation: ProjectHistoryType, mode: GithubRestoreMode) => {
+    const backend = actionBackend();
+    const { projectContext: project, commitSha: sha } = generation;
+    if (!backend || !project || !sha) return;
+    setRestoringSha(sha);
+    try {
+      const restored = await restoreGeneration(backend, project, sha, mode);
+
+      setCurrentProject(project);
+      setCurrentProjectName(generation.name);
+      setPreviewFiles(restored.files);
+      setPreviewError(null);
+      const normalized = restored.deploymentUrl && backend.mode === 'live'
+        ? normalizeVercelPreviewUrl(restored.deploymentUrl)
+        : null;
+      if (normalized) {
+        productionUrlRef.current = normalized;
+        setKnownDeploymentState(undefined);
+        setCurrentDeploymentUrl(normalized);
+      }
+
+      const note = `↩️ Restored ${project.name} to ${shortSha(sha)} ("${generation.prompt.slice(0, 60)}") as ${mode === 'revert' ? `a new commit (${shortSha(restored.sha)})` : 'a branch reset'}.`;
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: restored.deployError ? `${note}\n\n⚠️ Redeploy failed: ${restored.deployError}` : `${note} Redeploying...`,
+        timestamp: new Date().toISOString(),
+      }]);
+      // Let the agent know later turns no longer reflect the repo
+      setConversationHistory(prev => prev.length > 0 ? [
+        ...prev,
+        { role: 'user', content: `I restored the project to commit ${shortSha(sha)} ("${generation.prompt}").` },
+        { role: 'assistant', content: `${note} Changes made after that generation are no longer in the code.` },
+      ] : prev);
+
+      const entry: ProjectHistoryType = {
+        id: generateId(),
+        name: generation.name,
+        prompt: `Restore: ${generation.prompt}`,
+        githubUrl: generation.githubUrl,
+        vercelUrl: generation.vercelUrl,
+        supabaseUrl: generation.supabaseUrl,
+        createdAt: new Date().toISOString(),
+        success: true,
+        dryRun: generation.dryRun,
+        projectContext: project,
+        commitSha: restored.sha,
+        restoredFrom: sha,
+      };
+      saveProject(entry);
+      setProjectHistory(prev => [entry, ...prev]);
+      setTimelineProject(null);
+    } catch (error: any) {
+      console.error('❌ Restore failed:', error);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `❌ Could not restore ${shortSha(sha)}: ${error.message || 'Unknown error'}`,
+        timestamp: new Date().toISOString(),
+      }]);
+    } finally {
+      setRestoringSha(null);
+    }
+  };
+
   const handleClearCacheAndRetry = () => {
     console.log('🗑️ Clearing cache and retrying...');
     
@@ -447,6 +973,16 @@ function App() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={lockVault}
+                className="h-8 w-8"
+                aria-label="Lock"
+                title="Lock saved keys"
+              >
+                <Lock className="h-4 w-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -471,6 +1007,17 @@ function App() {
             </div>
           </div>
           
+          {workspaces.length > 0 && (
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              activeWorkspaceId={activeWorkspaceId}
+              disabled={isGenerating}
+              onSwitch={handleSwitchWorkspace}
+              onCreate={handleCreateWorkspace}
+              onDelete={handleDeleteWorkspace}
+            />
+          )}
+
           {!hasSettings && (
             <div className="p-2.5 rounded-lg bg-yellow-500/10 border border-yellow-500/20 text-xs text-yellow-500/90 flex items-center gap-2">
               <span className="text-sm">⚠️</span>
@@ -488,63 +1035,91 @@ function App() {
               setRepoManagerOpen(true);
               setSidebarOpen(false);
             }}
+            onOpenInventory={() => {
+              setInventoryOpen(true);
+              setSidebarOpen(false);
+            }}
+            onOpenTimeline={(project) => {
+              setTimelineProject(project);
+              setSidebarOpen(false);
+            }}
           />
         </div>
       </div>
 
       {/* Main Content - Responsive SplitPane */}
-      <div className="flex-1 overflow-hidden md:ml-0">
-        <SplitPane
-          chatContent={
-            <Chat
-              messages={messages}
-              onSendMessage={handleSendMessage}
-              isBuilding={isGenerating}
-              buildStatus={buildStatus}
-              onStopGeneration={handleStopGeneration}
-              selectedModel={selectedModel}
-              onModelChange={setSelectedModel}
-            />
-          }
-          codeContent={
-            // Show loading state while generating and no files yet
-            isGenerating && Object.keys(previewFiles || {}).length === 0 ? (
-              <PreviewLoading
-                stage={buildStatus.stage}
-                filesGenerated={filesGenerated}
-                totalFiles={totalFiles}
-                message={buildStatus.message || 'Preparing preview...'}
-                progress={buildStatus.progress}
-              />
-            ) : previewFiles && Object.keys(previewFiles).length > 0 ? (
-              // Use stable key based on project name to prevent remounts
-              <CodeViewer
-                key={`code-viewer-${currentProjectName || 'default'}`}
-                files={previewFiles}
-                projectName={currentProjectName || 'Generated App'}
-                deploymentUrl={currentDeploymentUrl}
-                className="h-full"
-              />
-            ) : null
-          }
-          previewContent={
-            // Show preview iframe or error
-            currentDeploymentUrl && !previewError ? (
-              <PreviewIframe
-                url={currentDeploymentUrl}
-                projectName={currentProjectName || 'Generated App'}
-              />
-            ) : previewError ? (
-              <PreviewError
-                error={previewError}
-                onRetry={handleRetryPreview}
-                onClearCache={handleClearCacheAndRetry}
-              />
-            ) : null
-          }
+      <div className="flex-1 overflow-hidden md:ml-0 flex flex-col">
+        <PullRequestBar
+          pullRequests={openPullRequests}
+          busyNumber={pullRequestBusy}
+          onPreview={handlePreviewPullRequest}
+          onMerge={handleMergePullRequest}
+          onDiscard={handleDiscardPullRequest}
         />
+        <div className="flex-1 min-h-0">
+          <SplitPane
+            chatContent={
+              <Chat
+                messages={messages}
+                onSendMessage={handleSendMessage}
+                isBuilding={isGenerating}
+                buildStatus={buildStatus}
+                onStopGeneration={handleStopGeneration}
+                onResumeBuild={handleResumeBuild}
+                dryRun={dryRun}
+                databaseName={attachedSupabase?.name ?? (currentProject?.supabaseProjectRef || undefined)}
+                onPickDatabase={() => setSupabasePickerOpen(true)}
+                selectedModel={selectedModel}
+                onModelChange={handleModelChange}
+              />
+            }
+            codeContent={
+              // Show loading state while generating and no files yet
+              isGenerating && Object.keys(previewFiles || {}).length === 0 ? (
+                <PreviewLoading
+                  stage={buildStatus.stage}
+                  filesGenerated={filesGenerated}
+                  totalFiles={totalFiles}
+                  message={buildStatus.message || 'Preparing preview...'}
+                  progress={buildStatus.progress}
+                />
+              ) : previewFiles && Object.keys(previewFiles).length > 0 ? (
+                // Use stable key based on project name to prevent remounts
+                <CodeViewer
+                  key={`code-viewer-${currentProjectName || 'default'}`}
+                  files={previewFiles}
+                  projectName={currentProjectName || 'Generated App'}
+                  deploymentUrl={currentDeploymentUrl}
+                  className="h-full"
+                />
+              ) : null
+            }
+            previewContent={
+              // Show preview iframe or error
+              currentDeploymentUrl && !previewError ? (
+                <PreviewIframe
+                  url={currentDeploymentUrl}
+                  projectName={currentProjectName || 'Generated App'}
+                  deploymentState={deploymentState}
+                />
+              ) : previewError ? (
+                <PreviewError
+                  error={previewError}
+                  onRetry={handleRetryPreview}
+                  onClearCache={handleClearCacheAndRetry}
+                />
+              ) : null
+            }
+          />
+        </div>
       </div>
 
+      {/* Passphrase for the encrypted settings */}
+      <VaultUnlock
+        open={!vaultUnlocked}
+        onUnlock={() => setVaultUnlocked(true)}
+      />
+
       {/* Settings Modal */}
       <Settings
         open={settingsOpen}
@@ -552,11 +1127,54 @@ function App() {
         onSave={handleSettingsSave}
       />
 
+      {/* Build Plan Approval */}
+      <PlanApprovalPanel
+        plan={pendingPlan?.plan ?? null}
+        prompt={pendingPlan?.prompt ?? ''}
+        onApprove={handleApprovePlan}
+        onReject={handleRejectPlan}
+      />
+
+      {/* Rollback of partial builds */}
+      <RollbackPanel
+        resources={pendingRollback?.resources ?? null}
+        rollingBack={rollingBack}
+        onRollback={handleRollback}
+        onKeep={() => setPendingRollback(null)}
+      />
+
+      {/* Existing Supabase project for the next build */}
+      <SupabaseProjectPicker
+        open={supabasePickerOpen}
+        backend={supabasePickerOpen ? actionBackend() : null}
+        selectedRef={attachedSupabase?.ref ?? (currentProject?.supabaseProjectRef || undefined)}
+        onSelect={setAttachedSupabase}
+        onClose={() => setSupabasePickerOpen(false)}
+      />
+
+      {/* Generation Timeline */}
+      <GenerationTimeline
+        projectName={timelineProject?.name ?? null}
+        generations={timelineProject?.projectContext ? generationsFor(projectHistory, timelineProject.projectContext.githubRepo) : []}
+        restoringSha={restoringSha}
+        onRestore={handleRestoreGeneration}
+        onClose={() => setTimelineProject(null)}
+      />
+
       {/* Repo Manager Modal */}
       {repoManagerOpen && (
         <RepoManager onClose={() => setRepoManagerOpen(false)} />
       )}
 
+      {/* Resource Inventory Modal */}
+      {inventoryOpen && (
+        <ResourceInventory
+          backend={actionBackend()}
+          history={projectHistory}
+          onClose={() => setInventoryOpen(false)}
+        />
+      )}
+
       {/* Status Bar - Only show errors */}
       {buildStatus.stage === 'error' && <StatusBar status={buildStatus} />}
     </div>
@@ -0,0 +1,59 @@
+/**
+ * App Rollback Tests
+ * Tests for offering to clean up what an unfinished build created
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import App from '@/App';
+import { runAgent, AgentResponse } from '@/lib/agent';
+import { saveSettings } from '@/lib/storage';
+import { createVault, resetVault } from '@/lib/vault';
+import { emptySettings } from '@/lib/workspaces';
+
+vi.mock('@/lib/agent', () => ({ runAgent: vi.fn() }));
+
+const agentResult = (result: Partial<AgentResponse>): AgentResponse => ({
+  success: true,
+  message: 'Stopped after creating the repository.',
+  runId: 'run-1',
+  createdResources: [{ kind: 'github_repo', id: 'dry-run/shop', name: 'shop', createdAt: new Date().toISOString() }],
+  ...result,
+});
+
+async function sendMessage(text: string) {
+  fireEvent.change(await screen.findByPlaceholderText('Message Brainiac...'), { target: { value: text } });
+  fireEvent.submit(screen.getByPlaceholderText('Message Brainiac...').closest('form')!);
+}
+
+describe('App rollback offer', () => {
+  beforeEach(async () => {
+    resetVault();
+    localStorage.clear();
+    await createVault('correct horse', 1000);
+    const settings = emptySettings();
+    saveSettings({ ...settings, apiKeys: { ...settings.apiKeys, anthropic: 'sk-ant-test' }, preferences: { ...settings.preferences, dryRun: true } });
+    vi.mocked(runAgent).mockReset();
+    Element.prototype.scrollIntoView = vi.fn(); // Not implemented by jsdom
+  });
+
+  it('should offer rollback when a build ends unfinished even though the loop succeeded', async () => {
+    vi.mocked(runAgent).mockResolvedValue(agentResult({ resumable: true }));
+    render(<App />);
+
+    await sendMessage('Build a shop');
+
+    expect(await screen.findByText('Clean Up Partial Build?')).toBeInTheDocument();
+    expect(screen.getByText('dry-run/shop')).toBeInTheDocument();
+  });
+
+  it('should not offer rollback for a finished build', async () => {
+    vi.mocked(runAgent).mockResolvedValue(agentResult({}));
+    render(<App />);
+
+    await sendMessage('Build a shop');
+
+    expect(await screen.findByText('Stopped after creating the repository.')).toBeInTheDocument();
+    expect(screen.queryByText('Clean Up Partial Build?')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Branch Workflow Tests
+ * Tests for committing follow-ups to a branch and opening a pull request
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { branchNameFor } from '@/lib/branch-workflow';
+import { createScriptedProvider } from '@/lib/providers';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys, ProjectContext } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: '', orgId: '' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+const BLUE_HEADER = 'export function Header() {\n  return <header className="bg-blue-600">Shop</header>;\n}\n';
+const GREEN_HEADER = 'export function Header() {\n  return <header className="bg-green-600">Shop</header>;\n}\n';
+
+async function setupProject() {
+  const workspace = new VirtualWorkspace();
+  const backend = createDryRunBackend(workspace);
+  await backend.createGithubRepo({ name: 'shop' });
+  await backend.createGithubCommit({ repo: 'shop', message: 'Scaffold', files: { 'src/components/Header.tsx': BLUE_HEADER } });
+  const vercel = await backend.createVercelProject({ name: 'shop', github_repo: 'dry-run/shop' });
+
+  const projectContext: ProjectContext = {
+    name: 'shop',
+    githubRepo: 'dry-run/shop',
+    vercelProjectId: vercel.id,
+    supabaseProjectRef: '',
+  };
+  return { workspace, backend, projectContext };
+}
+
+async function runFollowUp(setup: Awaited<ReturnType<typeof setupProject>>) {
+  const provider = createScriptedProvider([
+    {
+      toolCalls: [{
+        name: 'apply_patch',
+        input: {
+          repo: 'shop',
+          message: 'Make the header green',
+          files: [{ path: 'src/components/Header.tsx', edits: [{ search: 'bg-blue-600', replace: 'bg-green-600' }] }],
+        },
+      }],
+    },
+    { text: 'The header is now green.' },
+  ]);
+
+  return runAgent('Make the header green', apiKeys, vi.fn(), [
+    { role: 'user', content: 'Build a shop' },
+    { role: 'assistant', content: 'Done.' },
+  ], undefined, 'm', vi.fn(), { provider, backend: setup.backend, projectContext: setup.projectContext, branchWorkflow: true });
+}
+
+describe('Branch Workflow', () => {
+  it('should name branches after the request', () => {
+    expect(branchNameFor('Make the header GREEN!', 0)).toBe('brainiac/make-the-header-green-0');
+    expect(branchNameFor('???', 36)).toBe('brainiac/change-10');
+  });
+
+  it('should commit follow-ups to a branch and open a pull request', async () => {
+    const setup = await setupProject();
+
+    const result = await runFollowUp(setup);
+
+    const pullRequest = result.data?.pullRequest;
+    expect(result.success).toBe(true);
+    expect(pullRequest).toMatchObject({ repo: 'dry-run/shop', number: 1, title: 'Make the header green' });
+    expect(pullRequest!.branch).toMatch(/^brainiac\/make-the-header-green-/);
+    expect(pullRequest!.previewUrl).toMatch(/^https:\/\/shop-git-.*\.dry-run\.local$/);
+
+    // Production is untouched until the PR is merged
+    expect(setup.workspace.getRepoFiles('shop')['src/components/Header.tsx']).toBe(BLUE_HEADER);
+    expect(setup.workspace.getRepoFiles('shop', pullRequest!.branch)['src/components/Header.tsx']).toBe(GREEN_HEADER);
+
+    const [pr] = setup.workspace.repos.get('shop')!.pullRequests;
+    expect(pr.body).toContain('> Make the header green');
+    expect(pr.body).toContain('The header is now green.');
+    expect(pr.body).toContain(pullRequest!.previewUrl);
+  });
+
+  it('should update production on merge and drop the branch on discard', async () => {
+    const merged = await setupProject();
+    const first = (await runFollowUp(merged)).data!.pullRequest!;
+
+    await merged.backend.mergeGithubPullRequest({ repo: first.repo, number: first.number });
+
+    expect(merged.workspace.getRepoFiles('shop')['src/components/Header.tsx']).toBe(GREEN_HEADER);
+    expect(merged.workspace.repos.get('shop')!.branches.has(first.branch)).toBe(false);
+
+    const discarded = await setupProject();
+    const second = (await runFollowUp(discarded)).data!.pullRequest!;
+
+    await discarded.backend.closeGithubPullRequest({ repo: second.repo, number: second.number });
+
+    expect(discarded.workspace.getRepoFiles('shop')['src/components/Header.tsx']).toBe(BLUE_HEADER);
+    expect(discarded.workspace.repos.get('shop')!.branches.has(second.branch)).toBe(false);
+    expect(discarded.workspace.repos.get('shop')!.pullRequests[0].state).toBe('closed');
+  });
+});
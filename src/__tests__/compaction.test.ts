@@ -0,0 +1,161 @@
+/**
+ * Compaction Tests
+ * Tests for folding long conversations into a project state digest
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { compactMessages, DIGEST_MARKER, parseDigest } from '@/lib/compaction';
+import { runAgent } from '@/lib/agent';
+import { BuildPlan, formatPlanForAgent } from '@/lib/planner';
+import { createScriptedProvider, ProviderMessage } from '@/lib/providers';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: '', orgId: '' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+function toolTurn(id: string, name: string, input: unknown, result: unknown, isError = false): ProviderMessage[] {
+  return [
+    { role: 'assistant', content: [{ type: 'tool_use', id, name, input }] },
+    {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: id, content: JSON.stringify(result), ...(isError ? { is_error: true } : {}) }],
+    },
+  ];
+}
+
+const BUILD_SESSION: ProviderMessage[] = [
+  { role: 'user', content: 'Build a todo app' },
+  ...toolTurn('t1', 'create_supabase_project', { app_name: 'todo' }, { project_ref: 'abcd1234', project_url: 'https://abcd1234.supabase.co' }),
+  ...toolTurn('t2', 'create_app_from_template', { template_id: 'todo-app', repo_name: 'todo' }, { success: true, repo_name: 'todo' }),
+  ...toolTurn('t3', 'create_vercel_project', { name: 'todo', github_repo: 'octo/todo' }, { id: 'prj_1', url: 'todo.vercel.app' }),
+  { role: 'assistant', content: [{ type: 'text', text: 'Your todo app is live with Supabase auth.' }] },
+  { role: 'user', content: 'Add dark mode' },
+  ...toolTurn('t4', 'apply_patch', { repo: 'todo', message: 'Dark mode', files: [{ path: 'src/App.tsx', edits: [] }] }, { success: true }),
+  { role: 'assistant', content: [{ type: 'text', text: 'Dark mode added.' }] },
+  { role: 'user', content: 'Now add a settings page' },
+];
+
+describe('Compaction', () => {
+  it('should leave conversations under the threshold untouched', () => {
+    const result = compactMessages(BUILD_SESSION, { thresholdTokens: 1_000_000, keepRecentMessages: 4 });
+
+    expect(result.compacted).toBe(false);
+    expect(result.messages).toBe(BUILD_SESSION);
+  });
+
+  it('should fold older turns into a digest and keep recent turns verbatim', () => {
+    const result = compactMessages(BUILD_SESSION, { thresholdTokens: 10, keepRecentMessages: 4 });
+
+    expect(result.compacted).toBe(true);
+    expect(result.messages.slice(1)).toEqual(BUILD_SESSION.slice(-4));
+    expect(result.messages[0].role).toBe('user');
+
+    const digest = parseDigest(result.messages[0])!;
+    expect(digest.supabaseRef).toBe('abcd1234');
+    expect(digest.githubRepos).toEqual(['todo']);
+    expect(digest.deployedUrls).toEqual(['https://todo.vercel.app']);
+    expect(digest.requests).toEqual(['Build a todo app', 'Add dark mode']);
+    expect(digest.decisions).toContain('Your todo app is live with Supabase auth.');
+  });
+
+  it('should never separate tool results from their calls or drop unresolved failures', () => {
+    const session: ProviderMessage[] = [
+      { role: 'user', content: 'Build a blog' },
+      ...toolTurn('t1', 'create_vercel_project', { name: 'blog', github_repo: 'octo/blog' }, { error: 'Vercel is down' }),
+      ...toolTurn('t2', 'read_github_file', { repo: 'blog', path: 'src/App.tsx' }, { sha: 'x' }),
+      ...toolTurn('t3', 'read_github_file', { repo: 'blog', path: 'README.md' }, { sha: 'y' }),
+    ];
+
+    const result = compactMessages(session, { thresholdTokens: 10, keepRecentMessages: 1 });
+
+    // The failed deployment (and everything after it) stays verbatim
+    expect(result.compacted).toBe(true);
+    expect(result.messages[0].content).toEqual(expect.stringContaining(DIGEST_MARKER));
+    expect(result.messages[0].content).toEqual(expect.stringContaining('Build a blog'));
+    expect(result.messages.slice(1)).toEqual(session.slice(1));
+  });
+
+  it('should keep compacting past failed reads that were never retried', () => {
+    const session: ProviderMessage[] = [
+      { role: 'user', content: 'Build a blog' },
+      ...toolTurn('t1', 'read_github_file', { repo: 'blog', path: 'src/Guessed.tsx' }, { error: 'Not found' }, true),
+      ...toolTurn('t2', 'create_vercel_project', { name: 'blog', github_repo: 'octo/blog' }, { id: 'prj_1', url: 'blog.vercel.app' }),
+      { role: 'assistant', content: [{ type: 'text', text: 'Your blog is live.' }] },
+      { role: 'user', content: 'Thanks!' },
+    ];
+
+    const result = compactMessages(session, {
+      thresholdTokens: 10,
+      keepRecentMessages: 1,
+      hasSideEffects: name => name !== 'read_github_file',
+    });
+
+    expect(result.messages).toHaveLength(1);
+    expect(parseDigest(result.messages[0])?.deployedUrls).toEqual(['https://blog.vercel.app']);
+  });
+
+  it('should carry an earlier digest forward when compacting again', () => {
+    const first = compactMessages(BUILD_SESSION, { thresholdTokens: 10, keepRecentMessages: 4 });
+    const next = [
+      ...first.messages,
+      ...toolTurn('t5', 'apply_patch', { repo: 'todo', message: 'Settings', files: [{ path: 'src/Settings.tsx', edits: [] }] }, { success: true }),
+      { role: 'assistant', content: [{ type: 'text', text: 'Settings page added.' }] } as ProviderMessage,
+      { role: 'user', content: 'Thanks!' } as ProviderMessage,
+    ];
+
+    const second = compactMessages(next, { thresholdTokens: 10, keepRecentMessages: 1 });
+    const digest = parseDigest(second.messages[0])!;
+
+    expect(digest.supabaseRef).toBe('abcd1234');
+    expect(digest.filesTouched).toEqual(['src/App.tsx', 'src/Settings.tsx']);
+    expect(digest.requests).toContain('Now add a settings page');
+    expect(digest.decisions).toContain('Settings page added.');
+  });
+
+  it('should keep the first build request and approved plan word for word', async () => {
+    const request = `Build a bakery landing page. ${'It must list opening hours, prices and allergens for every cake. '.repeat(6)}Use a warm colour palette.`;
+    const plan: BuildPlan = {
+      summary: 'A static landing page for a bakery',
+      template_id: 'todo-app',
+      repo_name: 'bakery-landing',
+      needs_supabase: false,
+      files: [{ path: 'src/App.tsx', action: 'modify', purpose: 'Landing page content' }],
+      env_vars: [],
+      deployment_steps: ['create_app_from_template', 'create_vercel_project'],
+    };
+    const firstRun = await runAgent(request, apiKeys, vi.fn(), undefined, undefined, 'm', vi.fn(), {
+      provider: createScriptedProvider([{ text: 'Your bakery page is live.' }]),
+      backend: createDryRunBackend(new VirtualWorkspace()),
+      approvedPlan: plan,
+    });
+
+    const history = [...firstRun.messages!, { role: 'user', content: 'Make the header brown' } as ProviderMessage];
+    const digest = parseDigest(compactMessages(history, { thresholdTokens: 10, keepRecentMessages: 1 }).messages[0])!;
+
+    expect(digest.originalRequest).toBe(request);
+    expect(digest.approvedPlan).toBe(formatPlanForAgent(plan));
+    expect(digest.requests).toEqual([]);
+  });
+
+  it('should compact the history passed to runAgent and return the conversation', async () => {
+    const workspace = new VirtualWorkspace();
+    const provider = createScriptedProvider([{ text: 'Done.' }]);
+
+    const result = await runAgent('Change the title', apiKeys, vi.fn(), BUILD_SESSION, undefined, 'm', vi.fn(), {
+      provider,
+      backend: createDryRunBackend(workspace),
+      compaction: { thresholdTokens: 10, keepRecentMessages: 2, reservedTokens: 0 },
+    });
+
+    expect(result.success).toBe(true);
+    const sent = provider.requests[0].messages;
+    expect(sent[0].content).toEqual(expect.stringContaining(DIGEST_MARKER));
+    expect(sent.length).toBeLessThan(BUILD_SESSION.length);
+    expect(result.messages?.at(-1)).toEqual({ role: 'assistant', content: [{ type: 'text', text: 'Done.' }] });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Credential Validation Tests
+ * Tests for checking each credential against its API with mocked responses
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  hasInvalidCredentials,
+  validateAnthropicCredentials,
+  validateCredentials,
+  validateGithubCredentials,
+  validateSupabaseCredentials,
+  validateVercelCredentials,
+} from '@/lib/credential-validation';
+import { Settings } from '@/types';
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Answers requests by URL prefix; anything else is a test error
+function mockFetch(routes: Record<string, () => Response>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+    const url = String(input);
+    const route = Object.keys(routes).find(prefix => url.startsWith(prefix));
+    if (!route) throw new Error(`Unexpected request to ${url}`);
+    return routes[route]();
+  });
+}
+
+describe('Credential Validation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should check GitHub scopes and the configured username', async () => {
+    mockFetch({ 'https://api.github.com/user': () => json({ login: 'octocat' }, 200, { 'X-OAuth-Scopes': 'repo, read:org' }) });
+    const missingDelete = await validateGithubCredentials({ token: 'ghp_x', owner: 'OctoCat' });
+    expect(missingDelete.status).toBe('warning');
+    expect(missingDelete.summary).toBe('Signed in as octocat');
+    expect(missingDelete.messages[0]).toContain('delete_repo');
+
+    vi.restoreAllMocks();
+    mockFetch({ 'https://api.github.com/user': () => json({ login: 'octocat' }, 200, { 'X-OAuth-Scopes': 'gist' }) });
+    const wrong = await validateGithubCredentials({ token: 'ghp_x', owner: 'someone-else' });
+    expect(wrong.status).toBe('invalid');
+    expect(wrong.messages).toEqual([
+      expect.stringContaining('set GitHub Username to octocat'),
+      expect.stringContaining('missing the repo scope'),
+      expect.stringContaining('delete_repo'),
+    ]);
+
+    vi.restoreAllMocks();
+    mockFetch({ 'https://api.github.com/user': () => json({ login: 'octocat' }) });
+    const fineGrained = await validateGithubCredentials({ token: 'github_pat_x', owner: 'octocat' });
+    expect(fineGrained.status).toBe('warning');
+    expect(fineGrained.messages[0]).toContain('Fine-grained token');
+  });
+
+  it('should report expired tokens and unreachable APIs differently', async () => {
+    mockFetch({ 'https://api.vercel.com/v2/user': () => json({ error: { code: 'forbidden' } }, 403) });
+    expect(await validateVercelCredentials({ token: 'expired' })).toMatchObject({
+      status: 'invalid',
+      messages: [expect.stringContaining('vercel.com/account/tokens')],
+    });
+
+    vi.restoreAllMocks();
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect((await validateGithubCredentials({ token: 'ghp_x', owner: 'octocat' })).status).toBe('unreachable');
+  });
+
+  it('should call a response that is not JSON unreachable instead of throwing', async () => {
+    const html = () => new Response('<html>Bad gateway</html>', { status: 200, headers: { 'Content-Type': 'text/html' } });
+    mockFetch({
+      'https://api.github.com/user': html,
+      'https://api.vercel.com/v2/user': html,
+      '/api/api/supabase/organizations': html,
+      'https://api.anthropic.com/v1/models': html,
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const checks = await Promise.all([
+      validateGithubCredentials({ token: 'ghp_x', owner: 'octocat' }),
+      validateVercelCredentials({ token: 'vercel_x' }),
+      validateSupabaseCredentials({ token: 'sbp_x', orgId: 'acme' }),
+      validateAnthropicCredentials('sk-ant-x'),
+    ]);
+
+    expect(checks.map(c => c.status)).toEqual(['unreachable', 'unreachable', 'unreachable', 'unreachable']);
+  });
+
+  it('should check Vercel team access', async () => {
+    const fetchMock = mockFetch({
+      'https://api.vercel.com/v2/user': () => json({ user: { username: 'dev' } }),
+      'https://api.vercel.com/v2/teams/team_ok': () => json({ id: 'team_ok', name: 'Acme' }),
+      'https://api.vercel.com/v2/teams/team_other': () => json({ error: { code: 'not_found' } }, 404),
+    });
+
+    expect(await validateVercelCredentials({ token: 'vc', teamId: 'team_ok' })).toMatchObject({ status: 'valid', summary: 'Signed in as dev (team Acme)' });
+    expect(await validateVercelCredentials({ token: 'vc', teamId: 'team_other' })).toMatchObject({
+      status: 'invalid',
+      messages: [expect.stringContaining('cannot access team "team_other"')],
+    });
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ headers: { Authorization: 'Bearer vc' } });
+  });
+
+  it('should check Supabase organization membership through the proxy', async () => {
+    const fetchMock = mockFetch({
+      '/api/api/supabase/organizations': () => json([{ id: 'acme-org', name: 'Acme' }, { id: 'side-org', name: 'Side project' }]),
+    });
+
+    expect(await validateSupabaseCredentials({ token: 'sbp_x', orgId: 'acme-org' })).toMatchObject({ status: 'valid', summary: 'Member of Acme' });
+    expect(await validateSupabaseCredentials({ token: 'sbp_x', orgId: 'globex' })).toMatchObject({
+      status: 'invalid',
+      messages: ['The token has no access to organization "globex". Organizations it can use: Acme (acme-org), Side project (side-org).'],
+    });
+    expect(String(fetchMock.mock.calls[0][0])).toBe('/api/api/supabase/organizations?token=sbp_x');
+  });
+
+  it('should list Anthropic models and skip what the settings do not use', async () => {
+    const fetchMock = mockFetch({
+      'https://api.anthropic.com/v1/models': () => json({ data: [{ id: 'claude-sonnet-4-20250514' }, { id: 'claude-opus-4-20250514' }] }),
+    });
+    expect(await validateAnthropicCredentials('sk-ant-x')).toMatchObject({ status: 'valid', summary: '2 models available' });
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ headers: { 'x-api-key': 'sk-ant-x', 'anthropic-version': '2023-06-01' } });
+
+    vi.restoreAllMocks();
+    mockFetch({ 'https://api.anthropic.com/v1/models': () => json({ type: 'error' }, 401) });
+    const settings: Settings = {
+      apiKeys: {
+        anthropic: 'sk-ant-revoked',
+        supabase: { token: '', orgId: '' },
+        github: { token: '', owner: '' },
+        vercel: { token: '' },
+      },
+      preferences: { defaultPlan: 'free', defaultRegion: 'ap-southeast-2', dryRun: true },
+    };
+
+    const report = await validateCredentials(settings);
+    expect(report.anthropic).toMatchObject({ status: 'invalid', summary: 'API key rejected' });
+    expect([report.github.status, report.vercel.status, report.supabase.status]).toEqual(['skipped', 'skipped', 'skipped']);
+    expect(hasInvalidCredentials(report)).toBe(true);
+  });
+});
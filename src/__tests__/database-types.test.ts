@@ -0,0 +1,157 @@
+/**
+ * Database Types Tests
+ * Tests for generating src/types/database.ts from the live schema and
+ * flagging queries against tables or columns that don't exist
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { DATABASE_TYPES_FILE, DatabaseTable, generateDatabaseTypes, parseDatabaseTypes, postgresToTsType } from '@/lib/database-types';
+import { preCheckDatabaseQueries } from '@/lib/error-checker';
+import { createScriptedProvider } from '@/lib/providers';
+import { createLiveBackend } from '@/lib/tools/backend';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { templates } from '@/lib/templates';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+const todosTable: DatabaseTable = {
+  name: 'todos',
+  columns: [
+    { name: 'id', type: 'uuid', nullable: false, has_default: true },
+    { name: 'title', type: 'text', nullable: false, has_default: false },
+    { name: 'completed', type: 'bool', nullable: false, has_default: true },
+    { name: 'user_id', type: 'uuid', nullable: false, has_default: true },
+    { name: 'created_at', type: 'timestamptz', nullable: false, has_default: true },
+  ],
+};
+
+const template = templates.find(t => t.id === 'todo-app')!;
+
+describe('Database Types', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should render tables in the generated-types shape and read them back', () => {
+    const source = generateDatabaseTypes([
+      todosTable,
+      { name: 'notes', columns: [{ name: 'tags', type: '_text', nullable: true, has_default: false }] },
+    ]);
+
+    expect(source).toContain('          completed: boolean\n');
+    expect(source).toContain('          title: string\n');
+    expect(source).toContain('          completed?: boolean\n');
+    expect(source).toContain('          tags: string[] | null\n');
+    expect(source).toContain("export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row']");
+    expect(parseDatabaseTypes(source)).toEqual({
+      notes: ['tags'],
+      todos: ['id', 'title', 'completed', 'user_id', 'created_at'],
+    });
+    expect(parseDatabaseTypes(template.files[DATABASE_TYPES_FILE])).toBeNull(); // Starter types are not checked
+    expect(['int8', 'numeric(10,2)', 'jsonb', 'integer[]', 'timestamp with time zone'].map(postgresToTsType))
+      .toEqual(['number', 'number', 'Json', 'number[]', 'string']);
+  });
+
+  it('should flag queries against unknown tables and columns', () => {
+    const files = {
+      [DATABASE_TYPES_FILE]: generateDatabaseTypes([todosTable]),
+      'src/App.tsx': template.files['src/App.tsx'],
+      'src/Stats.tsx': `export async function load() {
+  const { data } = await supabase
+    .from('todos')
+    .select('id, label:title, done, owner:profiles(name)')
+    .eq('user_id', uid)
+    .order('due_date')
+  await supabase.from('todos').update({ completed: true, archived: true, meta: { x: 1 } }).eq('id', data![0].id)
+  return supabase.from('todo').select('*')
+}`,
+    };
+
+    const errors = preCheckDatabaseQueries(files);
+
+    expect(errors.map(e => [e.id, e.line, e.message.split(' (')[0]])).toEqual([
+      ['unknown-column', 2, '[src/Stats.tsx] Column "done" does not exist on table "todos"'],
+      ['unknown-column', 2, '[src/Stats.tsx] Column "due_date" does not exist on table "todos"'],
+      ['unknown-column', 7, '[src/Stats.tsx] Column "archived" does not exist on table "todos"'],
+      ['unknown-column', 7, '[src/Stats.tsx] Column "meta" does not exist on table "todos"'],
+      ['unknown-table', 8, '[src/Stats.tsx] Table "todo" does not exist in the database'],
+    ]);
+    expect(errors.every(e => e.severity === 'error')).toBe(true);
+  });
+
+  it('should introspect the live schema through the query proxy', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify([
+      { table_name: 'todos', column_name: 'id', udt_name: 'int8', is_nullable: 'NO', column_default: null, is_identity: 'YES' },
+      { table_name: 'todos', column_name: 'note', udt_name: 'text', is_nullable: 'YES', column_default: null, is_identity: 'NO' },
+    ]), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
+    const tables = await createLiveBackend(apiKeys).getSupabaseSchema({ project_ref: 'abcd' });
+
+    expect(String(fetchMock.mock.calls[0][0])).toBe('/api/api/supabase/project/abcd/database/query');
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]!.body)).query).toContain('information_schema.columns');
+    expect(tables).toEqual([{
+      name: 'todos',
+      columns: [
+        { name: 'id', type: 'int8', nullable: false, has_default: true },
+        { name: 'note', type: 'text', nullable: true, has_default: false },
+      ],
+    }]);
+  });
+
+  it('should commit types for the designed schema and report queries it breaks', async () => {
+    const workspace = new VirtualWorkspace();
+    const backend = createDryRunBackend(workspace);
+    const supabase = await backend.createSupabaseProject('notes', vi.fn());
+    await backend.createGithubRepo({ name: 'notes' });
+    await backend.createGithubCommit({ repo: 'notes', message: 'Scaffold', files: template.files });
+    const project = { name: 'notes', githubRepo: 'dry-run/notes', vercelProjectId: 'prj_1', supabaseProjectRef: supabase.project_ref };
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: 'design_database_schema', input: { requirements: 'Users keep notes' } }] },
+      {
+        toolCalls: [{
+          name: 'submit_database_schema',
+          input: {
+            tables: [{
+              name: 'notes',
+              columns: [
+                { name: 'id', type: 'uuid', primary_key: true, default: 'gen_random_uuid()' },
+                { name: 'body', type: 'text' },
+                { name: 'price', type: 'numeric(10,2)', nullable: true },
+              ],
+              policies: [{ name: 'anyone_reads', command: 'select', using: 'true' }],
+            }],
+          },
+        }],
+      },
+      { toolCalls: [{ name: 'generate_database_types', input: {} }] },
+      { text: 'Done.' },
+    ]);
+
+    await runAgent('Store notes', apiKeys, vi.fn(), [], undefined, 'm', undefined, { provider, backend, projectContext: project });
+
+    const types = workspace.getRepoFiles('notes')[DATABASE_TYPES_FILE];
+    expect(parseDatabaseTypes(types)).toEqual({ notes: ['id', 'body', 'price'] });
+    expect(types).toContain('          price: number | null\n');
+    expect(types).toContain('          body: string\n');
+
+    const toolResults = provider.requests[3].messages
+      .filter(m => m.role === 'user' && Array.isArray(m.content))
+      .at(-1)?.content as any[];
+    const result = JSON.parse(toolResults.find(block => block.type === 'tool_result').content);
+    expect(result.tables).toEqual([{ name: 'notes', columns: ['id', 'body', 'price'] }]);
+    expect(result.query_errors).toEqual(
+      expect.arrayContaining([expect.stringContaining('[src/App.tsx] Table "todos" does not exist')])
+    );
+  });
+});
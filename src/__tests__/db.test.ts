@@ -0,0 +1,162 @@
+/**
+ * Database Tests
+ * Tests for schema migrations, the localStorage fallback and running out of space
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  BLOCKED_UPGRADE_TIMEOUT_MS,
+  SCHEMA_VERSION,
+  StorageQuotaError,
+  StorageUnavailableError,
+  getRecords,
+  initDatabase,
+  migrateContents,
+  onStorageError,
+} from '@/lib/db';
+import { createRunJournal, recordFiles } from '@/lib/run-journal';
+import { loadHistory, loadRunJournal, loadRunJournals, saveProject } from '@/lib/storage';
+import { ProjectHistory } from '@/types';
+
+const entry = (name: string): ProjectHistory => ({
+  id: name,
+  name,
+  prompt: name,
+  githubUrl: '',
+  vercelUrl: '',
+  supabaseUrl: '',
+  createdAt: new Date().toISOString(),
+  success: true,
+});
+
+function storageUsed(replacingKey = ''): number {
+  let used = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    if (key !== replacingKey) used += key.length + localStorage.getItem(key)!.length;
+  }
+  return used;
+}
+
+// Throws like a browser once everything stored would exceed the limit
+function limitStorage(limit: number) {
+  const setItem = Storage.prototype.setItem;
+  return vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+    if (storageUsed(key) + key.length + value.length > limit) {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    }
+    setItem.call(this, key, value);
+  });
+}
+
+describe('Database', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should import data saved before the database and stamp the schema version', () => {
+    localStorage.setItem('brainiac_history', JSON.stringify([entry('newer'), entry('older')]));
+    localStorage.setItem('brainiac_vault', JSON.stringify({ version: 1, ciphertext: 'abc' }));
+    localStorage.setItem('brainiac_run_journals', JSON.stringify([
+      { runId: 'run-1', updatedAt: '2024-01-01T00:00:00.000Z', turns: [], files: { 'index.html': '<h1>Hi</h1>' } },
+      { runId: 'run-2', updatedAt: '2024-01-02T00:00:00.000Z', turns: [], files: {} },
+    ]));
+
+    expect(loadHistory().map(p => p.name)).toEqual(['newer', 'older']);
+    expect(getRecords('settings')).toEqual([{ id: 'vault', value: { version: 1, ciphertext: 'abc' } }]);
+    expect(getRecords('conversations').map(c => c.runId)).toEqual(['run-1', 'run-2']);
+    expect(getRecords('conversations')[0]).not.toHaveProperty('files');
+    expect(getRecords('snapshots')).toEqual([{ id: 'run-1', createdAt: '2024-01-01T00:00:00.000Z', files: { 'index.html': '<h1>Hi</h1>' } }]);
+    expect(loadRunJournal('run-1')?.files).toEqual({ 'index.html': '<h1>Hi</h1>' });
+    expect(loadRunJournal('run-2')?.files).toEqual({});
+
+    expect(localStorage.getItem('brainiac_db_version')).toBe(String(SCHEMA_VERSION));
+    expect(localStorage.getItem('brainiac_history')).toBeNull();
+    expect(localStorage.getItem('brainiac_run_journals')).toBeNull();
+  });
+
+  it('should only run migrations newer than the stored version', () => {
+    const conversation = { runId: 'run-1', updatedAt: '2024-01-01T00:00:00.000Z', files: { 'a.ts': 'a' } };
+    localStorage.setItem('brainiac_history', JSON.stringify([entry('ignored')])); // Version 1 already ran
+
+    const migrated = migrateContents(
+      { settings: [], projects: [], conversations: [conversation as any], snapshots: [] },
+      1
+    );
+
+    expect(migrated.projects).toEqual([]);
+    expect(migrated.conversations).toEqual([{ runId: 'run-1', updatedAt: '2024-01-01T00:00:00.000Z' }]);
+    expect(migrated.snapshots.map(s => s.id)).toEqual(['run-1']);
+  });
+
+  it('should keep every project and fall back to localStorage without IndexedDB', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await initDatabase(undefined)).toBe('localstorage');
+
+    for (let i = 0; i < 60; i++) saveProject(entry(`project ${i}`));
+
+    expect(loadHistory()).toHaveLength(60);
+    expect(loadHistory()[0].name).toBe('project 59');
+  });
+
+  it('should drop old snapshots when full and report what still does not fit', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    saveProject(entry('first')); // Migrates an empty store before the limit applies
+
+    for (const runId of ['run-old', 'run-new']) {
+      const journal = createRunJournal(runId, 'Build a site', 'm', []);
+      recordFiles(journal, { 'index.html': 'x'.repeat(2000) });
+    }
+    limitStorage(storageUsed() + 100);
+
+    saveProject(entry('second'));
+    expect(loadHistory().map(p => p.name)).toEqual(['second', 'first']);
+    expect(getRecords('snapshots').map(s => s.id)).toEqual(['run-new']);
+    expect(loadRunJournals().map(j => j.runId)).toEqual(['run-new', 'run-old']);
+
+    const errors: Array<StorageQuotaError | StorageUnavailableError> = [];
+    const stop = onStorageError(error => errors.push(error));
+    saveProject({ ...entry('huge'), prompt: 'x'.repeat(20000) });
+    stop();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ name: 'StorageQuotaError', store: 'projects' });
+    expect(loadHistory().map(p => p.name)).toEqual(['second', 'first']);
+  });
+
+  it('should wait for a blocked upgrade, then tell the user it fell back to localStorage', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const open = {} as IDBOpenDBRequest & { result: { close: () => void } };
+    const factory = { open: () => open } as unknown as IDBFactory;
+
+    const opened = initDatabase(factory);
+    open.onblocked!({} as IDBVersionChangeEvent);
+    await vi.advanceTimersByTimeAsync(BLOCKED_UPGRADE_TIMEOUT_MS - 1);
+    let settled = false;
+    opened.finally(() => { settled = true; });
+    await Promise.resolve();
+    expect(settled).toBe(false); // Still waiting for the other tab
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await opened).toBe('localstorage');
+
+    const errors: Error[] = [];
+    onStorageError(error => errors.push(error))(); // Reported before anyone listened
+    expect(errors).toEqual([expect.any(StorageUnavailableError)]);
+    expect(errors[0].message).toContain('Close the other tabs and reload');
+
+    // The upgrade going through later must not keep a connection this tab never uses
+    const close = vi.fn();
+    Object.defineProperty(open, 'result', { value: { close } });
+    open.onsuccess!({} as Event);
+    expect(close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Deploy Heal Tests
+ * Tests for following Vercel builds and healing failed deployments
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { analyzeBuildLog } from '@/lib/deploy-heal';
+import { createDefaultToolRegistry } from '@/lib/agent-tools';
+import { ToolContext } from '@/lib/tool-registry';
+import { createScriptedProvider } from '@/lib/providers';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { waitForVercelDeployment, VercelDeploymentStatus } from '@/lib/tools/vercel';
+import { ToolBackend } from '@/lib/tools/backend';
+
+const FAILED_LOG = [
+  'Running "npm run build"',
+  '> tsc && vite build',
+  "src/App.tsx(2,9): error TS2322: Type 'number' is not assignable to type 'string'.",
+  'Error: Command "npm run build" exited with 2',
+].join('\n');
+
+const BROKEN_APP = 'export default function App() {\n  const title: string = 42;\n  return <h1>{title}</h1>;\n}\n';
+const FIXED_APP = 'export default function App() {\n  const title: string = "42";\n  return <h1>{title}</h1>;\n}\n';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+async function setup(builds: VercelDeploymentStatus['state'][], healText: string) {
+  const workspace = new VirtualWorkspace();
+  const dryRun = createDryRunBackend(workspace);
+  await dryRun.createGithubRepo({ name: 'shop' });
+  await dryRun.createGithubCommit({ repo: 'shop', message: 'Scaffold', files: { 'src/App.tsx': BROKEN_APP } });
+  const project = await dryRun.createVercelProject({ name: 'shop', github_repo: 'dry-run/shop' });
+
+  // Builds finish in the given order; failed ones carry the log
+  const waitForVercelDeployment = vi.fn(async ({ deployment_id }: { deployment_id: string }) => {
+    const state = builds.shift() ?? 'READY';
+    return { id: deployment_id, state, build_log: state === 'ERROR' ? FAILED_LOG : undefined } as VercelDeploymentStatus;
+  });
+  const backend: ToolBackend = { ...dryRun, waitForVercelDeployment };
+
+  const ctx: ToolContext = {
+    backend,
+    provider: createScriptedProvider([{ text: healText }]),
+    model: 'm',
+    onProgress: vi.fn(),
+    reportFiles: vi.fn(),
+    projectData: { github: { name: 'shop' }, vercel: project },
+    callIndex: 0,
+  };
+  return { workspace, ctx, project, waitForVercelDeployment };
+}
+
+describe('Deploy Heal', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should turn a build log into file-scoped errors', () => {
+    const errors = analyzeBuildLog(`${FAILED_LOG}\nError: Cannot find package 'zod' imported from /vercel/path0/src/lib/schema.ts`);
+
+    expect(errors[0]).toMatchObject({
+      id: 'ts2322',
+      line: 2,
+      column: 9,
+      message: "[src/App.tsx] (2:9) TS2322: Type 'number' is not assignable to type 'string'.",
+    });
+    expect(errors.map(e => e.id)).toEqual(expect.arrayContaining(['type-mismatch', 'missing-dependency']));
+    expect(errors.find(e => e.id === 'missing-dependency')!.message).toMatch(/^\[src\/App\.tsx\] .*zod/);
+  });
+
+  it('should fetch the build log of a failed deployment', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      if (String(url).includes('/v13/deployments/dpl_1')) {
+        return jsonResponse({ id: 'dpl_1', readyState: 'ERROR', url: 'shop-abc.vercel.app', errorMessage: 'Command failed' });
+      }
+      if (String(url).includes('/v3/deployments/dpl_1/events')) {
+        return jsonResponse([{ type: 'stdout', payload: { text: '> tsc && vite build' } }, { type: 'stderr', text: 'error TS2322' }]);
+      }
+      return jsonResponse({}, 404);
+    });
+
+    const status = await waitForVercelDeployment({ deployment_id: 'dpl_1' }, { token: 't' });
+
+    expect(status).toMatchObject({ id: 'dpl_1', state: 'ERROR', error_message: 'Command failed' });
+    expect(status.build_log).toBe('> tsc && vite build\nerror TS2322');
+  });
+
+  it('should stop polling as soon as the run is stopped', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => (
+      jsonResponse({ id: 'dpl_1', readyState: 'BUILDING', url: 'shop-abc.vercel.app' })
+    ));
+    const controller = new AbortController();
+
+    const waiting = waitForVercelDeployment({ deployment_id: 'dpl_1' }, { token: 't' }, controller.signal);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow('Aborted');
+    expect(fetchMock).toHaveBeenCalledTimes(1); // Not after the 5 s pause
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ signal: controller.signal });
+  });
+
+  it('should commit a fix and redeploy when the build fails', async () => {
+    const healText = JSON.stringify({ files: { 'src/App.tsx': { encoding: 'base64', content: btoa(FIXED_APP) } } });
+    const { workspace, ctx, project, waitForVercelDeployment } = await setup(['ERROR', 'READY'], healText);
+    const registry = createDefaultToolRegistry();
+
+    const { status, result } = await registry.execute('trigger_vercel_deployment', { project_id: project.id }, ctx);
+
+    expect(status).toBe('succeeded');
+    expect(result.deployment).toMatchObject({ state: 'READY', heal_attempts: 1, fixed_files: ['src/App.tsx'] });
+    expect(workspace.getRepoFiles('shop')['src/App.tsx']).toBe(FIXED_APP);
+    expect(workspace.vercelProjects.get(project.id)!.deployments).toHaveLength(3); // initial, triggered, redeploy
+    expect(waitForVercelDeployment).toHaveBeenCalledTimes(2);
+    expect(ctx.reportFiles).toHaveBeenCalledWith({ 'src/App.tsx': FIXED_APP });
+    expect(ctx.projectData.vercel.deployment_state).toBe('READY');
+  });
+
+  it('should report the build errors once the attempt limit is reached', async () => {
+    const { workspace, ctx, project } = await setup(['ERROR'], '{}');
+    ctx.deployHealAttempts = 0;
+    const registry = createDefaultToolRegistry();
+
+    const { status, result } = await registry.execute('trigger_vercel_deployment', { project_id: project.id }, ctx);
+
+    expect(status).toBe('failed');
+    expect(result.error).toBe('Vercel deployment failed');
+    expect(result.build_errors[0]).toContain('[src/App.tsx] (2:9) TS2322');
+    expect(workspace.getRepoFiles('shop')['src/App.tsx']).toBe(BROKEN_APP);
+  });
+});
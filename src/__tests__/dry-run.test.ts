@@ -0,0 +1,68 @@
+/**
+ * Dry Run Tests
+ * Tests for running the agent's tools against the in-memory workspace
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider } from '@/lib/providers';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: '', orgId: '' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+describe('Dry Run', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should build into the virtual workspace without calling any API', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+    const workspace = new VirtualWorkspace();
+    const onFileUpdate = vi.fn();
+
+    const result = await runAgent('Build a todo app', apiKeys, vi.fn(), undefined, undefined, 'm', onFileUpdate, {
+      provider: createScriptedProvider([
+        { toolCalls: [{ name: 'create_supabase_project', input: { app_name: 'todo' } }] },
+        { toolCalls: [{ name: 'create_github_repo', input: { name: 'todo' } }] },
+        {
+          toolCalls: [
+            { name: 'create_github_file', input: { repo: 'todo', path: 'README.md', content: '# Todo ✅', message: 'Add README' } },
+            { name: 'read_github_file', input: { repo: 'todo', path: 'README.md' } },
+          ],
+        },
+        { toolCalls: [{ name: 'create_vercel_project', input: { name: 'todo', github_repo: 'dry-run/todo' } }] },
+        { text: 'Done.' },
+      ]),
+      backend: createDryRunBackend(workspace),
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.data?.vercelUrl).toBe('https://todo.dry-run.local');
+    expect(workspace.getRepoFiles('todo')).toEqual({ 'README.md': '# Todo ✅' });
+    expect(onFileUpdate).toHaveBeenCalledWith({ 'README.md': '# Todo ✅' });
+
+    // Supabase env vars were wired into the virtual Vercel project
+    const [vercelProject] = workspace.vercelProjects.values();
+    expect(Object.keys(vercelProject.env)).toEqual(['VITE_SUPABASE_URL', 'VITE_SUPABASE_ANON_KEY']);
+  });
+
+  it('should reject updates with a stale sha like GitHub does', async () => {
+    const backend = createDryRunBackend(new VirtualWorkspace());
+    await backend.createGithubRepo({ name: 'app' });
+    await backend.createGithubFile({ repo: 'app', path: 'a.ts', content: 'one', message: 'add' });
+
+    const { sha } = await backend.getGithubFile({ repo: 'app', path: 'a.ts' });
+    await backend.updateGithubFile({ repo: 'app', path: 'a.ts', content: 'two', message: 'edit', sha });
+
+    await expect(
+      backend.updateGithubFile({ repo: 'app', path: 'a.ts', content: 'three', message: 'edit', sha })
+    ).rejects.toThrow('sha does not match');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Generations Tests
+ * Tests for recording commits per run and restoring earlier generations
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { generationsFor, restoreGeneration } from '@/lib/generations';
+import { createScriptedProvider } from '@/lib/providers';
+import { restoreGithubCommit } from '@/lib/tools/github';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys, ProjectContext, ProjectHistory } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: '', orgId: '' },
+  github: { token: 't', owner: 'me' },
+  vercel: { token: '' },
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function entry(id: string, commitSha: string, createdAt: string, githubRepo = 'dry-run/shop'): ProjectHistory {
+  return {
+    id,
+    name: 'shop',
+    prompt: `prompt ${id}`,
+    githubUrl: '',
+    vercelUrl: '',
+    supabaseUrl: '',
+    createdAt,
+    success: true,
+    projectContext: { name: 'shop', githubRepo, vercelProjectId: 'prj_1', supabaseProjectRef: '' },
+    commitSha,
+  };
+}
+
+async function setupProject() {
+  const workspace = new VirtualWorkspace();
+  const backend = createDryRunBackend(workspace);
+  await backend.createGithubRepo({ name: 'shop' });
+  const first = await backend.createGithubCommit({ repo: 'shop', message: 'Scaffold', files: { 'src/App.tsx': 'v1', 'README.md': '# Shop' } });
+  const second = await backend.createGithubCommit({ repo: 'shop', message: 'Add cart', files: { 'src/App.tsx': 'v2', 'src/Cart.tsx': 'cart' } });
+  const vercel = await backend.createVercelProject({ name: 'shop', github_repo: 'dry-run/shop' });
+  const project: ProjectContext = { name: 'shop', githubRepo: 'dry-run/shop', vercelProjectId: vercel.id, supabaseProjectRef: '' };
+  return { workspace, backend, project, first: first.sha, second: second.sha };
+}
+
+describe('Generations', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report the commit each run made', async () => {
+    const { workspace, backend, project, second } = await setupProject();
+    const history = [
+      { role: 'user' as const, content: 'Build a shop' },
+      { role: 'assistant' as const, content: 'Done.' },
+    ];
+
+    const edit = await runAgent('Rename the app', apiKeys, vi.fn(), history, undefined, 'm', vi.fn(), {
+      provider: createScriptedProvider([
+        {
+          toolCalls: [{
+            name: 'apply_patch',
+            input: { repo: 'shop', message: 'Rename', files: [{ path: 'src/App.tsx', edits: [{ search: 'v2', replace: 'v3' }] }] },
+          }],
+        },
+        { text: 'Renamed.' },
+      ]),
+      backend,
+      projectContext: project,
+    });
+    const question = await runAgent('What does the app do?', apiKeys, vi.fn(), history, undefined, 'm', vi.fn(), {
+      provider: createScriptedProvider([{ text: 'It sells things.' }]),
+      backend,
+      projectContext: project,
+    });
+
+    const head = workspace.headSha(workspace.requireRepo('shop'));
+    expect(edit.data?.commitSha).toBe(head);
+    expect(head).not.toBe(second);
+    expect(question.data?.commitSha).toBeUndefined();
+  });
+
+  it('should list each commit once, most recently current first', () => {
+    const history = [
+      entry('reset', 'aaa', '2026-01-04'), // Branch reset back to aaa
+      entry('other', 'zzz', '2026-01-05', 'dry-run/blog'),
+      entry('cart', 'bbb', '2026-01-02'),
+      entry('scaffold', 'aaa', '2026-01-01'),
+    ];
+
+    expect(generationsFor(history, 'dry-run/shop').map(g => g.id)).toEqual(['scaffold', 'cart']);
+  });
+
+  it('should restore an earlier generation as a new commit and redeploy', async () => {
+    const { workspace, backend, project, first, second } = await setupProject();
+
+    const restored = await restoreGeneration(backend, project, first, 'revert');
+
+    expect(restored.sha).not.toBe(first);
+    expect(restored.files).toEqual({ 'src/App.tsx': 'v1', 'README.md': '# Shop' });
+    expect(restored.deploymentUrl).toBe('shop.dry-run.local');
+    expect(workspace.vercelProjects.get(project.vercelProjectId)!.deployments).toHaveLength(2);
+    // History is kept, so the later generation can still be restored
+    expect((await restoreGeneration(backend, project, second, 'revert')).files['src/Cart.tsx']).toBe('cart');
+  });
+
+  it('should reset the branch to an earlier generation', async () => {
+    const { workspace, backend, project, first } = await setupProject();
+
+    const restored = await restoreGeneration(backend, project, first, 'reset');
+
+    expect(restored.sha).toBe(first);
+    expect(workspace.headSha(workspace.requireRepo('shop'))).toBe(first);
+    expect(workspace.getRepoFiles('shop')).toEqual({ 'src/App.tsx': 'v1', 'README.md': '# Shop' });
+  });
+
+  it('should revert on GitHub by committing the old tree on top of the branch', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+      const path = String(url).replace('https://api.github.com', '');
+      if (path === '/repos/me/shop') return jsonResponse({ default_branch: 'main' });
+      if (path === '/repos/me/shop/git/commits/old123') return jsonResponse({ tree: { sha: 'tree-old' } });
+      if (path === '/repos/me/shop/git/ref/heads/main') return jsonResponse({ object: { sha: 'head456' } });
+      if (path === '/repos/me/shop/git/commits' && init?.method === 'POST') return jsonResponse({ sha: 'new789' }, 201);
+      if (path === '/repos/me/shop/git/refs/heads/main' && init?.method === 'PATCH') return jsonResponse({});
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+
+    const result = await restoreGithubCommit({ repo: 'shop', sha: 'old123', mode: 'revert' }, apiKeys.github);
+
+    expect(result.sha).toBe('new789');
+    const bodies = fetchMock.mock.calls.filter(([, init]) => init?.body).map(([, init]) => JSON.parse(String(init!.body)));
+    expect(bodies).toEqual([
+      { message: 'Restore old123', tree: 'tree-old', parents: ['head456'] },
+      { sha: 'new789', force: false },
+    ]);
+  });
+});
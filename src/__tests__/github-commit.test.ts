@@ -0,0 +1,89 @@
+/**
+ * GitHub Commit Tests
+ * Tests for multi-file commits through the Git Data API
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createGithubCommit } from '@/lib/tools/github';
+
+const githubKeys = { token: 'gh', owner: 'octo' };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function mockGithub(routes: (method: string, path: string, body: any) => Response) {
+  const calls: { method: string; path: string; body: any }[] = [];
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+    const method = init?.method || 'GET';
+    const path = String(url).replace('https://api.github.com', '');
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    calls.push({ method, path, body });
+    return routes(method, path, body);
+  });
+  return calls;
+}
+
+describe('createGithubCommit', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should create blobs, one tree and one commit, then move the branch', async () => {
+    const calls = mockGithub((method, path) => {
+      if (path === '/repos/octo/app') return jsonResponse({ default_branch: 'main' });
+      if (path === '/repos/octo/app/git/ref/heads/main') return jsonResponse({ object: { sha: 'parent' } });
+      if (path === '/repos/octo/app/git/commits/parent') return jsonResponse({ tree: { sha: 'base-tree' } });
+      if (path === '/repos/octo/app/git/blobs') return jsonResponse({ sha: `blob-${calls.length}` }, 201);
+      if (path === '/repos/octo/app/git/trees') return jsonResponse({ sha: 'new-tree' }, 201);
+      if (path === '/repos/octo/app/git/commits' && method === 'POST') return jsonResponse({ sha: 'new-commit' }, 201);
+      if (path === '/repos/octo/app/git/refs/heads/main') return jsonResponse({ object: { sha: 'new-commit' } });
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+
+    const result = await createGithubCommit(
+      { repo: 'app', message: 'Scaffold', files: { 'a.ts': 'a', 'b.ts': 'b', 'README.md': '# App' } },
+      githubKeys
+    );
+
+    expect(result).toEqual({ success: true, sha: 'new-commit', files_committed: 3 });
+    expect(calls.filter(c => c.path.endsWith('/git/blobs'))).toHaveLength(3);
+
+    const tree = calls.find(c => c.path.endsWith('/git/trees'))!;
+    expect(tree.body.base_tree).toBe('base-tree');
+    expect(tree.body.tree.map((t: any) => t.path)).toEqual(['a.ts', 'b.ts', 'README.md']);
+
+    const commit = calls.find(c => c.path.endsWith('/git/commits') && c.method === 'POST')!;
+    expect(commit.body).toEqual({ message: 'Scaffold', tree: 'new-tree', parents: ['parent'] });
+
+    expect(calls.at(-1)).toMatchObject({ method: 'PATCH', path: '/repos/octo/app/git/refs/heads/main', body: { sha: 'new-commit' } });
+  });
+
+  it('should bootstrap an empty repository and never move the branch when a blob fails', async () => {
+    let bootstrapped = false;
+    const calls = mockGithub((method, path) => {
+      if (path === '/repos/octo/app/git/ref/heads/main') {
+        return bootstrapped
+          ? jsonResponse({ object: { sha: 'first' } })
+          : jsonResponse({ message: 'Git Repository is empty.' }, 409);
+      }
+      if (path === '/repos/octo/app/contents/README.md' && method === 'PUT') {
+        bootstrapped = true;
+        return jsonResponse({}, 201);
+      }
+      if (path === '/repos/octo/app/git/commits/first') return jsonResponse({ tree: { sha: 'tree' } });
+      if (path === '/repos/octo/app/git/blobs') return new Response('secondary rate limit', { status: 403 });
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+
+    await expect(
+      createGithubCommit(
+        { repo: 'app', message: 'Scaffold', branch: 'main', files: { 'src/App.tsx': 'app', 'README.md': '# App' } },
+        githubKeys
+      )
+    ).rejects.toThrow('Failed to upload src/App.tsx: secondary rate limit');
+
+    expect(bootstrapped).toBe(true);
+    expect(calls.some(c => c.method === 'PATCH')).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * LLM Provider Tests
+ * Tests for the scripted and OpenAI-compatible providers and the agent loop
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createScriptedProvider, createOpenAICompatibleProvider, ProviderToolUseBlock } from '@/lib/providers';
+import { toOpenAIMessages } from '@/lib/providers/openai-compatible';
+import { runAgent } from '@/lib/agent';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: 'gh', owner: 'octo' },
+  vercel: { token: 'vc' },
+};
+
+describe('LLM Providers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createScriptedProvider', () => {
+    it('should replay turns in order with deterministic tool ids', async () => {
+      const provider = createScriptedProvider([
+        { toolCalls: [{ name: 'read_github_file', input: { repo: 'app', path: 'src/App.tsx' } }] },
+        { text: 'Done!' },
+      ]);
+
+      const first = await provider.createMessage({ model: 'test', maxTokens: 100, messages: [] });
+      expect(first.stopReason).toBe('tool_use');
+      expect(first.content[0]).toEqual({
+        type: 'tool_use',
+        id: 'scripted_0_0',
+        name: 'read_github_file',
+        input: { repo: 'app', path: 'src/App.tsx' },
+      });
+
+      const second = await provider.createMessage({ model: 'test', maxTokens: 100, messages: [] });
+      expect(second.stopReason).toBe('end_turn');
+      expect(second.content).toEqual([{ type: 'text', text: 'Done!' }]);
+
+      expect(provider.requests).toHaveLength(2);
+      expect(provider.remaining()).toBe(0);
+    });
+
+    it('should throw when the script is exhausted', async () => {
+      const provider = createScriptedProvider([]);
+
+      await expect(
+        provider.createMessage({ model: 'test', maxTokens: 100, messages: [] })
+      ).rejects.toThrow('exhausted');
+    });
+  });
+
+  describe('createOpenAICompatibleProvider', () => {
+    it('should convert tool calls and tool results', () => {
+      const converted = toOpenAIMessages('system prompt', [
+        { role: 'user', content: 'Build a todo app' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Creating repo' },
+            { type: 'tool_use', id: 't1', name: 'create_github_repo', input: { name: 'todo' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 't1', content: '{"name":"todo"}' }],
+        },
+      ]);
+
+      expect(converted).toEqual([
+        { role: 'system', content: 'system prompt' },
+        { role: 'user', content: 'Build a todo app' },
+        {
+          role: 'assistant',
+          content: 'Creating repo',
+          tool_calls: [
+            { id: 't1', type: 'function', function: { name: 'create_github_repo', arguments: '{"name":"todo"}' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 't1', content: '{"name":"todo"}' },
+      ]);
+    });
+
+    it('should map responses back to tool_use blocks', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            model: 'local-model',
+            choices: [
+              {
+                finish_reason: 'tool_calls',
+                message: {
+                  content: null,
+                  tool_calls: [
+                    { id: 'c1', type: 'function', function: { name: 'create_github_repo', arguments: '{"name":"x"}' } },
+                  ],
+                },
+              },
+            ],
+            usage: { prompt_tokens: 12, completion_tokens: 3 },
+          }),
+          { status: 200 }
+        )
+      );
+
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1/' });
+      const response = await provider.createMessage({ model: 'local-model', maxTokens: 100, messages: [] });
+
+      expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.any(Object));
+      expect(response.stopReason).toBe('tool_use');
+      expect(response.content).toEqual([
+        { type: 'tool_use', id: 'c1', name: 'create_github_repo', input: { name: 'x' } },
+      ]);
+      expect(response.usage.input_tokens).toBe(12);
+    });
+
+    it('should give tool calls without ids a different id every turn', async () => {
+      const noIdResponse = () => new Response(JSON.stringify({
+        choices: [{
+          finish_reason: 'tool_calls',
+          message: { content: null, tool_calls: [{ type: 'function', function: { name: 'read_github_file', arguments: '{}' } }] },
+        }],
+      }), { status: 200 });
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async () => noIdResponse());
+
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1' });
+      const ids = await Promise.all([1, 2].map(async () => {
+        const [block] = (await provider.createMessage({ model: 'm', maxTokens: 100, messages: [] })).content;
+        return (block as ProviderToolUseBlock).id;
+      }));
+
+      expect(ids[0]).toMatch(/^call_/);
+      expect(ids[0]).not.toBe(ids[1]);
+    });
+
+    it('should surface HTTP status on failure', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('slow down', { status: 429 }));
+
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1' });
+      await expect(
+        provider.createMessage({ model: 'm', maxTokens: 100, messages: [] })
+      ).rejects.toMatchObject({ status: 429 });
+    });
+  });
+
+  describe('runAgent with a scripted provider', () => {
+    it('should complete without network access', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch');
+      const provider = createScriptedProvider([{ text: 'Nothing to build.' }]);
+      const onProgress = vi.fn();
+
+      const result = await runAgent('Say hello', apiKeys, onProgress, undefined, undefined, 'test-model', undefined, {
+        provider,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Nothing to build.');
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(provider.requests[0].tools?.length).toBeGreaterThan(0);
+      expect(onProgress).toHaveBeenCalledWith('complete', expect.any(String), 100);
+    });
+
+    it('should stream text deltas and tool-call lifecycle events', async () => {
+      const provider = createScriptedProvider([
+        { text: 'Checking tools', toolCalls: [{ name: 'not_a_tool', input: {} }] },
+        { text: 'All done here.' },
+      ]);
+      const events: any[] = [];
+
+      const result = await runAgent('Hi', apiKeys, vi.fn(), undefined, undefined, 'test-model', undefined, {
+        provider,
+        onEvent: (event) => events.push(event),
+      });
+
+      const streamedFinal = events
+        .filter(e => e.type === 'text_delta' && e.turn === 2)
+        .map(e => e.text)
+        .join('');
+      expect(streamedFinal).toBe(result.message);
+
+      expect(events).toContainEqual({ type: 'tool_call_start', id: 'scripted_0_0', name: 'not_a_tool', input: {} });
+      expect(events).toContainEqual(expect.objectContaining({
+        type: 'tool_call_end',
+        id: 'scripted_0_0',
+        status: 'failed',
+      }));
+    });
+  });
+});
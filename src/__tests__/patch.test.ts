@@ -0,0 +1,119 @@
+/**
+ * Patch Tests
+ * Tests for unified diff / search-replace application and the apply_patch tool
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { applyFilePatch } from '@/lib/patch';
+import { createDefaultToolRegistry } from '@/lib/agent-tools';
+import { ToolContext } from '@/lib/tool-registry';
+import { createScriptedProvider } from '@/lib/providers';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+
+const APP = ['import React from "react";', '', 'export default function App() {', '  return <h1>Hello</h1>;', '}', ''].join('\n');
+
+async function setupWorkspace() {
+  const workspace = new VirtualWorkspace();
+  const backend = createDryRunBackend(workspace);
+  await backend.createGithubRepo({ name: 'demo' });
+  await backend.createGithubFile({ repo: 'demo', path: 'src/App.tsx', content: APP, message: 'Add App' });
+  await backend.createGithubFile({ repo: 'demo', path: 'README.md', content: '# Demo\n', message: 'Add README' });
+
+  const ctx: ToolContext = {
+    backend,
+    provider: createScriptedProvider([]),
+    model: 'm',
+    onProgress: vi.fn(),
+    reportFiles: vi.fn(),
+    projectData: {},
+    callIndex: 0,
+  };
+  return { workspace, ctx };
+}
+
+describe('Patch', () => {
+  describe('applyFilePatch', () => {
+    it('should apply a unified diff even when the hunk header line is off', () => {
+      const result = applyFilePatch(APP, {
+        path: 'src/App.tsx',
+        diff: [
+          '--- a/src/App.tsx',
+          '+++ b/src/App.tsx',
+          '@@ -1,3 +1,3 @@',
+          ' export default function App() {',
+          '-  return <h1>Hello</h1>;',
+          '+  return <h1>Hello, world</h1>;',
+          ' }',
+        ].join('\n'),
+      });
+
+      expect(result.applied).toBe(true);
+      expect(result.hunks).toEqual([{ hunk: 1, status: 'applied', line: 3 }]);
+      expect(result.content).toBe(APP.replace('Hello', 'Hello, world'));
+      expect(result).toMatchObject({ linesAdded: 1, linesRemoved: 1 });
+    });
+
+    it('should report search/replace hunks that are missing or ambiguous', () => {
+      const result = applyFilePatch('a\nb\na\n', {
+        path: 'x.txt',
+        edits: [
+          { search: 'b', replace: 'B' },
+          { search: 'a', replace: 'A' },
+          { search: 'zzz', replace: 'Z' },
+        ],
+      });
+
+      expect(result.applied).toBe(false);
+      expect(result.hunks.map(h => h.status)).toEqual(['applied', 'failed', 'failed']);
+      expect(result.hunks[1].error).toContain('matches 2 times');
+      expect(result.hunks[2].error).toContain('not found');
+    });
+  });
+
+  describe('apply_patch tool', () => {
+    it('should commit nothing when any hunk fails', async () => {
+      const { workspace, ctx } = await setupWorkspace();
+      const registry = createDefaultToolRegistry();
+
+      const execution = await registry.execute('apply_patch', {
+        repo: 'demo',
+        message: 'Update copy',
+        files: [
+          { path: 'README.md', edits: [{ search: '# Demo', replace: '# Demo App' }] },
+          { path: 'src/App.tsx', edits: [{ search: 'Goodbye', replace: 'Hi' }] },
+        ],
+      }, ctx);
+
+      expect(execution.status).toBe('failed');
+      expect(execution.result.error).toContain('1 of 2 hunks failed');
+      expect(execution.result.files[1].hunks[0]).toMatchObject({ hunk: 1, status: 'failed' });
+      expect(workspace.getRepoFiles('demo')['README.md']).toBe('# Demo\n');
+      expect(ctx.reportFiles).not.toHaveBeenCalled();
+    });
+
+    it('should update existing files and create new ones when every hunk applies', async () => {
+      const { workspace, ctx } = await setupWorkspace();
+      const registry = createDefaultToolRegistry();
+
+      const execution = await registry.execute('apply_patch', {
+        repo: 'demo',
+        message: 'Add footer',
+        files: [
+          { path: 'src/App.tsx', edits: [{ search: '<h1>Hello</h1>', replace: '<><h1>Hello</h1><Footer /></>' }] },
+          { path: 'src/Footer.tsx', edits: [{ search: '', replace: 'export const Footer = () => <footer>Brainiac</footer>;\n' }] },
+        ],
+      }, ctx);
+
+      expect(execution.status).toBe('succeeded');
+      expect(execution.result.files).toEqual([
+        { path: 'src/App.tsx', created: false, lines_added: 1, lines_removed: 1 },
+        { path: 'src/Footer.tsx', created: true, lines_added: 1, lines_removed: 0 },
+      ]);
+
+      const files = workspace.getRepoFiles('demo');
+      expect(files['src/App.tsx']).toContain('<Footer />');
+      expect(files['src/Footer.tsx']).toContain('Brainiac');
+      expect(ctx.reportFiles).toHaveBeenCalledWith(expect.objectContaining({ 'src/Footer.tsx': files['src/Footer.tsx'] }));
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Planner Tests
+ * Tests for plan-first builds: structured plans and approved-plan runs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BuildPlan, planBuild, SUBMIT_PLAN_TOOL } from '@/lib/planner';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider } from '@/lib/providers';
+import { loadRunJournal } from '@/lib/storage';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: 'gh', owner: 'octo' },
+  vercel: { token: 'vc' },
+};
+
+const plan: BuildPlan = {
+  summary: 'A static landing page for a bakery',
+  template_id: 'todo-app',
+  repo_name: 'bakery-landing',
+  needs_supabase: false,
+  supabase_reason: 'No stored data',
+  files: [{ path: 'src/App.tsx', action: 'modify', purpose: 'Landing page content' }],
+  env_vars: [],
+  deployment_steps: ['create_app_from_template', 'create_vercel_project'],
+};
+
+describe('Planner', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should force a plan tool call and return the plan without side effects', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: SUBMIT_PLAN_TOOL, input: plan as unknown as Record<string, unknown> }], usage: { input_tokens: 900, output_tokens: 300 } },
+    ]);
+
+    const result = await planBuild('Landing page for my bakery', provider, 'm');
+
+    expect(result.plan).toEqual(plan);
+    expect(result.usage).toEqual({ input_tokens: 900, output_tokens: 300 });
+    expect(provider.requests[0].toolChoice).toEqual({ type: 'tool', name: SUBMIT_PLAN_TOOL });
+    expect(fetchMock).not.toHaveBeenCalled();
+    fetchMock.mockRestore();
+  });
+
+  it('should reject plans that do not match the schema', async () => {
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: SUBMIT_PLAN_TOOL, input: { ...plan, needs_supabase: 'no' } }] },
+    ]);
+
+    await expect(planBuild('Landing page', provider, 'm')).rejects.toThrow('plan.needs_supabase');
+  });
+
+  it('should hold the run to the approved plan', async () => {
+    const provider = createScriptedProvider([{ text: 'Following the plan.', usage: { input_tokens: 100, output_tokens: 50 } }]);
+
+    const result = await runAgent('Landing page for my bakery', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider,
+      runId: 'planned-run',
+      approvedPlan: plan,
+      planningUsage: { input_tokens: 900, output_tokens: 300 },
+    });
+
+    const request = provider.requests[0];
+    expect(request.tools?.map(t => t.name)).not.toContain('create_supabase_project');
+    expect(request.messages[0].content).toContain('APPROVED BUILD PLAN');
+    expect(request.messages[0].content).toContain('bakery-landing');
+    expect(loadRunJournal('planned-run')?.approvedPlan).toEqual(plan);
+    expect(result.usage?.total).toMatchObject({ inputTokens: 1000, outputTokens: 350, requests: 2 }); // Planning included
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Repo Tools Tests
+ * Tests for listing and searching repository files on follow-up edits
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { createDefaultToolRegistry } from '@/lib/agent-tools';
+import { ToolContext } from '@/lib/tool-registry';
+import { createScriptedProvider } from '@/lib/providers';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys, ProjectContext } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: '', orgId: '' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+const projectContext: ProjectContext = {
+  name: 'shop',
+  githubRepo: 'dry-run/shop',
+  vercelProjectId: 'prj_1',
+  supabaseProjectRef: '',
+};
+
+async function setupWorkspace() {
+  const workspace = new VirtualWorkspace();
+  const backend = createDryRunBackend(workspace);
+  await backend.createGithubRepo({ name: 'shop' });
+  await backend.createGithubCommit({
+    repo: 'shop',
+    message: 'Scaffold',
+    files: {
+      'src/App.tsx': 'import { Header } from "./components/Header";\nexport default function App() {\n  return <Header />;\n}\n',
+      'src/components/Header.tsx': 'export function Header() {\n  return <header className="bg-blue-600">Shop</header>;\n}\n',
+      'README.md': '# Shop\n',
+    },
+  });
+
+  const ctx: ToolContext = {
+    backend,
+    provider: createScriptedProvider([]),
+    model: 'm',
+    onProgress: vi.fn(),
+    reportFiles: vi.fn(),
+    projectData: {},
+    projectContext,
+    callIndex: 0,
+  };
+  return { workspace, backend, ctx };
+}
+
+describe('Repo Tools', () => {
+  it('should list files of the project being edited', async () => {
+    const { ctx } = await setupWorkspace();
+    const registry = createDefaultToolRegistry();
+
+    const { status, result } = await registry.execute('list_repo_files', { path_prefix: 'src/' }, ctx);
+
+    expect(status).toBe('succeeded');
+    expect(result.repo).toBe('dry-run/shop');
+    expect(result.files.map((f: any) => f.path)).toEqual(['src/App.tsx', 'src/components/Header.tsx']);
+  });
+
+  it('should return matching lines with paths and line numbers', async () => {
+    const { ctx } = await setupWorkspace();
+    const registry = createDefaultToolRegistry();
+
+    const plain = await registry.execute('search_repo', { query: 'header' }, ctx);
+    expect(plain.result.total_matches).toBe(4);
+    expect(plain.result.matches[0]).toEqual({ path: 'src/App.tsx', line: 1, text: 'import { Header } from "./components/Header";' });
+
+    const regex = await registry.execute('search_repo', { query: 'bg-\\w+-600', is_regex: true }, ctx);
+    expect(regex.result.matches).toEqual([
+      { path: 'src/components/Header.tsx', line: 2, text: 'return <header className="bg-blue-600">Shop</header>;' },
+    ]);
+
+    const invalid = await registry.execute('search_repo', { query: '(', is_regex: true }, ctx);
+    expect(invalid.status).toBe('failed');
+    expect(invalid.result.error).toContain('Invalid regular expression');
+  });
+
+  it('should say when a large repo was only partly searched or shown', async () => {
+    const { backend, ctx } = await setupWorkspace();
+    const pages = Object.fromEntries(Array.from({ length: 160 }, (_, i) => [`src/pages/Page${String(i).padStart(3, '0')}.tsx`, 'export {};\n']));
+    await backend.createGithubCommit({ repo: 'shop', message: 'Add pages', files: pages });
+    const registry = createDefaultToolRegistry();
+
+    const { result } = await registry.execute('search_repo', { query: 'export' }, ctx);
+    expect(result.files_searched).toBe(150);
+    expect(result.files_not_searched).toBe(13);
+
+    const onProgress = vi.fn();
+    const onFileUpdate = vi.fn();
+    await runAgent('Make the header green', apiKeys, onProgress, [
+      { role: 'user', content: 'Build a shop' },
+      { role: 'assistant', content: 'Done.' },
+    ], undefined, 'm', onFileUpdate, { provider: createScriptedProvider([{ text: 'Which color?' }]), backend, projectContext });
+
+    expect(Object.keys(onFileUpdate.mock.calls[0][0])).toHaveLength(150);
+    expect(onProgress).toHaveBeenCalledWith('preparing', expect.stringContaining('Showing 150 of 163 project files'), 8);
+  });
+
+  it('should load the whole project into the preview on follow-up turns', async () => {
+    const { backend } = await setupWorkspace();
+    const onFileUpdate = vi.fn();
+    const provider = createScriptedProvider([{ text: 'Which color?' }]);
+
+    await runAgent('Make the header green', apiKeys, vi.fn(), [
+      { role: 'user', content: 'Build a shop' },
+      { role: 'assistant', content: 'Done.' },
+    ], undefined, 'm', onFileUpdate, { provider, backend, projectContext });
+
+    expect(Object.keys(onFileUpdate.mock.calls[0][0]).sort()).toEqual(['README.md', 'src/App.tsx', 'src/components/Header.tsx']);
+    expect(provider.requests[0].messages[2].content).toContain('Editing existing project: GitHub repo "shop"');
+  });
+});
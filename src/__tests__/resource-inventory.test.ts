@@ -0,0 +1,222 @@
+/**
+ * Resource Inventory Tests
+ * Tests for linking cloud resources to builds, flagging orphans and cleanup
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildInventory, cleanupResources, loadResourceInventory } from '@/lib/resource-inventory';
+import { RunJournal } from '@/lib/run-journal';
+import { createLiveBackend } from '@/lib/tools/backend';
+import { GitHubRepo } from '@/lib/tools/github-manager';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys, ProjectHistory } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: 'gh', owner: 'octo' },
+  vercel: { token: 'vc' },
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function githubRepo(name: string): GitHubRepo {
+  return {
+    id: name.length,
+    name,
+    full_name: `octo/${name}`,
+    description: null,
+    html_url: `https://github.com/octo/${name}`,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    size: 1,
+    language: 'TypeScript',
+    private: false,
+    default_branch: 'main',
+  };
+}
+
+function historyEntry(
+  name: string,
+  vercelProjectId: string,
+  supabaseProjectRef: string,
+  createdAt: string,
+  githubRepo = `octo/${name}`
+): ProjectHistory {
+  return {
+    id: `${name}-${createdAt}`,
+    name,
+    prompt: `Build ${name}`,
+    githubUrl: `https://github.com/octo/${name}`,
+    vercelUrl: '',
+    supabaseUrl: '',
+    createdAt,
+    success: true,
+    projectContext: { name, githubRepo, vercelProjectId, supabaseProjectRef },
+  };
+}
+
+function failedJournal(runId: string, resources: RunJournal['resources']): RunJournal {
+  return {
+    runId,
+    prompt: 'Build a blog',
+    model: 'm',
+    createdAt: '2026-01-03T00:00:00Z',
+    updatedAt: '2026-01-03T00:00:00Z',
+    status: 'failed',
+    initialMessages: [],
+    turns: [],
+    projectData: {},
+    files: {},
+    resources,
+  };
+}
+
+describe('Resource Inventory', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should group resources by build and flag orphans', () => {
+    const inventory = buildInventory(
+      {
+        githubRepos: [githubRepo('todo'), githubRepo('notes')],
+        vercelProjects: [
+          { id: 'prj_todo', name: 'todo', github_repo: 'octo/todo', created_at: '2026-01-01T00:00:00Z' },
+          { id: 'prj_shop', name: 'shop', github_repo: 'octo/shop', created_at: '2026-01-02T00:00:00Z' },
+        ],
+        supabaseProjects: [
+          { ref: 'todoref', name: 'brainiac-todo-1', region: 'ap-southeast-2', status: 'ACTIVE_HEALTHY', created_at: '2026-01-01T00:00:00Z' },
+          { ref: 'shopref', name: 'brainiac-shop-2', region: 'ap-southeast-2', status: 'ACTIVE_HEALTHY', created_at: '2026-01-02T00:00:00Z' },
+          { ref: 'blogref', name: 'brainiac-blog-3', region: 'ap-southeast-2', status: 'ACTIVE_HEALTHY', created_at: '2026-01-03T00:00:00Z' },
+          { ref: 'oldref', name: 'brainiac-old-0', region: 'ap-southeast-2', status: 'INACTIVE', created_at: '2025-12-01T00:00:00Z' },
+          { ref: 'prodref', name: 'production', region: 'us-east-1', status: 'ACTIVE_HEALTHY', created_at: '2025-06-01T00:00:00Z' },
+        ],
+      },
+      [
+        historyEntry('todo', 'prj_todo', 'todoref', '2026-01-01T00:00:00Z'),
+        historyEntry('todo', 'prj_todo', 'todoref', '2026-01-04T00:00:00Z'), // Follow-up edit
+        historyEntry('shop', 'prj_shop', 'shopref', '2026-01-02T00:00:00Z'), // Repo deleted since
+      ],
+      [failedJournal('run-blog', [{ kind: 'supabase_project', id: 'blogref', name: 'blog', createdAt: '2026-01-03T00:00:00Z' }])]
+    );
+
+    expect(inventory.builds.map(build => [build.name, build.resources.map(r => r.id)])).toEqual([
+      ['todo', ['octo/todo', 'prj_todo', 'todoref']],
+      ['blog', ['blogref']],
+      ['shop', ['prj_shop', 'shopref']],
+    ]);
+    expect(inventory.unlinked.map(r => r.id)).toEqual(['octo/notes', 'oldref', 'prodref']);
+    expect(Object.fromEntries(inventory.orphans.map(r => [r.id, r.orphanReason]))).toEqual({
+      blogref: 'Its build never created a repo',
+      prj_shop: 'Repo octo/shop was deleted',
+      shopref: 'Repo octo/shop was deleted',
+      oldref: 'No Brainiac build uses it',
+    });
+  });
+
+  it('should list all three providers through the live APIs', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      const target = String(url);
+      if (target.startsWith('https://api.github.com/user/repos')) return jsonResponse([githubRepo('todo')]);
+      if (target.startsWith('https://api.vercel.com/v9/projects')) {
+        return jsonResponse({ projects: [{ id: 'prj_1', name: 'todo', link: { type: 'github', org: 'octo', repo: 'todo' }, createdAt: 1767225600000 }] });
+      }
+      if (target === '/api/api/supabase/projects?token=sb') {
+        return jsonResponse([{ id: 'abcd', name: 'brainiac-todo-1', region: 'ap-southeast-2', status: 'ACTIVE_HEALTHY', created_at: '2026-01-01T00:00:00Z' }]);
+      }
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+
+    const inventory = await loadResourceInventory(
+      createLiveBackend(apiKeys),
+      [historyEntry('todo', 'prj_1', 'abcd', '2026-01-01T00:00:00Z')],
+      []
+    );
+
+    expect(inventory.errors).toEqual({});
+    expect(inventory.orphans).toEqual([]);
+    expect(inventory.builds).toHaveLength(1);
+    expect(inventory.builds[0].resources).toEqual([
+      expect.objectContaining({ kind: 'github_repo', id: 'octo/todo', url: 'https://github.com/octo/todo' }),
+      expect.objectContaining({ kind: 'vercel_project', id: 'prj_1', linkedRepo: 'octo/todo', createdAt: '2026-01-01T00:00:00.000Z' }),
+      expect.objectContaining({ kind: 'supabase_project', id: 'abcd', url: 'https://supabase.com/dashboard/project/abcd' }),
+    ]);
+  });
+
+  it('should page through listings and only call a repo deleted when GitHub returns 404', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      const target = String(url);
+      if (target.startsWith('https://api.github.com/user/repos')) {
+        const page = new URL(target).searchParams.get('page');
+        return jsonResponse(page === '1' ? Array.from({ length: 100 }, (_, i) => githubRepo(`repo-${i}`)) : [githubRepo('todo')]);
+      }
+      if (target.startsWith('https://api.vercel.com/v9/projects')) {
+        const until = new URL(target).searchParams.get('until');
+        const project = (id: string, repo: string) => ({ id, name: repo, link: { type: 'github', org: 'octo', repo }, createdAt: 1767225600000 });
+        return until
+          ? jsonResponse({ projects: [project('prj_gone', 'gone')], pagination: { next: null } })
+          : jsonResponse({ projects: [project('prj_todo', 'todo'), project('prj_org', 'org-app')], pagination: { next: 1767225600000 } });
+      }
+      if (target.startsWith('/api/api/supabase/projects')) return jsonResponse([]);
+      if (target === 'https://api.github.com/repos/octo/org-app') return jsonResponse(githubRepo('org-app')); // Not listable, but there
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+
+    const inventory = await loadResourceInventory(createLiveBackend(apiKeys), [], []);
+
+    expect(inventory.unlinked.filter(r => r.kind === 'github_repo')).toHaveLength(101);
+    expect(inventory.unlinked.filter(r => r.kind === 'vercel_project').map(r => r.id)).toEqual(['prj_todo', 'prj_org', 'prj_gone']);
+    expect(inventory.orphans.map(r => [r.id, r.orphanReason])).toEqual([['prj_gone', 'Repo octo/gone was deleted']]);
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toContain('https://api.github.com/repos/octo/gone');
+  });
+
+  it('should not flag repo-dependent orphans when GitHub cannot be listed', async () => {
+    const workspace = new VirtualWorkspace();
+    const dryRun = createDryRunBackend(workspace);
+    await dryRun.createGithubRepo({ name: 'todo' });
+    await dryRun.createVercelProject({ name: 'todo', github_repo: 'dry-run/todo' });
+
+    const inventory = await loadResourceInventory(
+      { ...dryRun, listGithubRepos: () => Promise.reject(new Error('Bad credentials')) },
+      [],
+      []
+    );
+
+    expect(inventory.errors).toEqual({ github_repo: 'Bad credentials' });
+    expect(inventory.unlinked.map(r => r.kind)).toEqual(['vercel_project']);
+    expect(inventory.orphans).toEqual([]);
+  });
+
+  it('should clean up orphans left behind by a deleted repo', async () => {
+    const workspace = new VirtualWorkspace();
+    const backend = createDryRunBackend(workspace);
+    const supabase = await backend.createSupabaseProject('todo', vi.fn());
+    await backend.createGithubRepo({ name: 'todo' });
+    const vercel = await backend.createVercelProject({ name: 'todo', github_repo: 'dry-run/todo' });
+    await backend.createGithubRepo({ name: 'keep' });
+    const history = [historyEntry('todo', vercel.id, supabase.project_ref, '2026-01-01T00:00:00Z', 'dry-run/todo')];
+
+    await backend.deleteGithubRepo({ repo: 'todo' });
+    const inventory = await loadResourceInventory(backend, history, []);
+    expect(inventory.orphans.map(r => r.id)).toEqual([vercel.id, supabase.project_ref]);
+
+    const deleteOrder: string[] = [];
+    const results = await cleanupResources(
+      {
+        ...backend,
+        deleteVercelProject: (input) => { deleteOrder.push('vercel'); return backend.deleteVercelProject(input); },
+        deleteSupabaseProject: (input) => { deleteOrder.push('supabase'); return backend.deleteSupabaseProject(input); },
+      },
+      inventory.orphans
+    );
+
+    expect(results.every(r => r.success)).toBe(true);
+    expect(deleteOrder).toEqual(['vercel', 'supabase']);
+    expect(workspace.vercelProjects.size).toBe(0);
+    expect(workspace.supabaseProjects.size).toBe(0);
+    expect([...workspace.repos.keys()]).toEqual(['keep']);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Resource Ledger Tests
+ * Tests for recording created cloud resources and rolling them back
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { rollbackResources, withResourceLedger, CreatedResource } from '@/lib/resource-ledger';
+import { createScriptedProvider } from '@/lib/providers';
+import { loadRunJournal } from '@/lib/storage';
+import { createLiveBackend } from '@/lib/tools/backend';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: 'gh', owner: 'octo' },
+  vercel: { token: 'vc' },
+};
+
+const repo = { name: 'todo', full_name: 'octo/todo', html_url: 'https://github.com/octo/todo', clone_url: '' };
+
+function resource(kind: CreatedResource['kind'], id: string): CreatedResource {
+  return { kind, id, name: id, createdAt: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('Resource Ledger', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record created resources of a failed run in its journal', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(JSON.stringify(repo), { status: 201 }))
+      .mockResolvedValue(new Response('boom', { status: 500 }));
+
+    const result = await runAgent('Build a todo app', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider: createScriptedProvider([
+        {
+          toolCalls: [
+            { name: 'create_github_repo', input: { name: 'todo' } },
+            { name: 'create_github_file', input: { repo: 'todo', path: 'README.md', content: '# Todo', message: 'Add README' } },
+          ],
+        },
+        { text: 'Giving up.' },
+      ]),
+      runId: 'run-1',
+    });
+
+    expect(result.resumable).toBe(true);
+    expect(result.createdResources).toEqual([expect.objectContaining({ kind: 'github_repo', id: 'octo/todo', name: 'todo' })]);
+    expect(loadRunJournal('run-1')?.resources).toEqual(result.createdResources);
+  });
+
+  it('should record a Supabase project as soon as it exists, even if provisioning fails', async () => {
+    const dryRun = createDryRunBackend(new VirtualWorkspace());
+    const onCreated = vi.fn();
+    const backend = withResourceLedger({
+      ...dryRun,
+      async createSupabaseProject(_appName, _onProgress, created) {
+        created?.('abcd1234');
+        throw new Error('Project provisioning timed out. Status: COMING_UP');
+      },
+    }, onCreated);
+
+    await expect(backend.createSupabaseProject('todo', vi.fn())).rejects.toThrow('provisioning timed out');
+    expect(onCreated).toHaveBeenCalledWith(expect.objectContaining({ kind: 'supabase_project', id: 'abcd1234', name: 'todo' }));
+  });
+
+  it('should delete resources newest first through the live APIs', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      // The Vercel project is already gone, which counts as deleted
+      if (String(url).includes('api.vercel.com')) return new Response('{"error":"not found"}', { status: 404 });
+      return new Response(null, { status: 204 });
+    });
+
+    const results = await rollbackResources(createLiveBackend(apiKeys), [
+      resource('supabase_project', 'abcd1234'),
+      resource('github_repo', 'octo/todo'),
+      resource('vercel_project', 'prj_1'),
+    ]);
+
+    expect(results.every(r => r.success)).toBe(true);
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init?.method} ${url}`)).toEqual([
+      'DELETE https://api.vercel.com/v9/projects/prj_1',
+      'DELETE https://api.github.com/repos/octo/todo',
+      'DELETE /api/api/supabase/project/abcd1234?token=sb',
+    ]);
+  });
+
+  it('should keep rolling back when one deletion fails', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      if (String(url).includes('api.github.com')) return new Response('Must have admin rights', { status: 403 });
+      return new Response(null, { status: 204 });
+    });
+
+    const results = await rollbackResources(createLiveBackend(apiKeys), [
+      resource('github_repo', 'octo/todo'),
+      resource('vercel_project', 'prj_1'),
+    ]);
+
+    expect(results).toEqual([
+      { resource: expect.objectContaining({ kind: 'vercel_project' }), success: true },
+      { resource: expect.objectContaining({ kind: 'github_repo' }), success: false, error: 'Failed to delete repository: Must have admin rights' },
+    ]);
+  });
+
+  it('should roll back a dry run in the virtual workspace', async () => {
+    const workspace = new VirtualWorkspace();
+    const resources: CreatedResource[] = [];
+    const backend = withResourceLedger(createDryRunBackend(workspace), r => resources.push(r));
+
+    await backend.createSupabaseProject('todo', vi.fn());
+    await backend.createGithubRepo({ name: 'todo' });
+    await backend.createVercelProject({ name: 'todo', github_repo: 'dry-run/todo' });
+    expect(resources.map(r => r.kind)).toEqual(['supabase_project', 'github_repo', 'vercel_project']);
+
+    await rollbackResources(backend, resources);
+
+    expect(workspace.repos.size).toBe(0);
+    expect(workspace.vercelProjects.size).toBe(0);
+    expect(workspace.supabaseProjects.size).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Run Journal Tests
+ * Tests for checkpointing tool calls and resuming failed builds
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider } from '@/lib/providers';
+import { createRunJournal, findReplayableStep, getResumePoint, recordStep, recordTurn } from '@/lib/run-journal';
+import { createDefaultToolRegistry } from '@/lib/agent-tools';
+import { loadRunJournal } from '@/lib/storage';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: 'gh', owner: 'octo' },
+  vercel: { token: 'vc' },
+};
+
+const repo = { name: 'todo', full_name: 'octo/todo', html_url: 'https://github.com/octo/todo', clone_url: '' };
+
+describe('Run Journal', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should checkpoint each tool call and mark failed runs resumable', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('boom', { status: 500 }));
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: 'create_github_repo', input: { name: 'todo' } }] },
+      { text: 'The repository could not be created.' },
+    ]);
+
+    const result = await runAgent('Build a todo app', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider,
+      runId: 'run-1',
+    });
+
+    expect(result.resumable).toBe(true);
+
+    const journal = loadRunJournal('run-1');
+    expect(journal?.status).toBe('failed');
+    expect(journal?.turns[0].steps[0]).toMatchObject({ name: 'create_github_repo', status: 'failed' });
+  });
+
+  it('should not fail a run over a read that was never retried', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('Not Found', { status: 404 }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: 'read_github_file', input: { repo: 'todo', path: 'src/Guessed.tsx' } }] },
+      { text: 'That file does not exist; nothing else to change.' },
+    ]);
+
+    const result = await runAgent('Check the app', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider,
+      runId: 'run-read',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.resumable).toBe(false);
+    expect(loadRunJournal('run-read')?.status).toBe('completed');
+    expect(loadRunJournal('run-read')?.turns[0].steps[0].status).toBe('failed');
+  });
+
+  it('should resume from the first failed step and replay completed ones', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(JSON.stringify(repo), { status: 201 }))
+      .mockResolvedValueOnce(new Response('boom', { status: 500 }));
+
+    await runAgent('Build a todo app', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider: createScriptedProvider([
+        {
+          toolCalls: [
+            { name: 'create_github_repo', input: { name: 'todo' } },
+            { name: 'create_github_file', input: { repo: 'todo', path: 'README.md', content: '# Todo', message: 'Add README' } },
+          ],
+        },
+        { text: 'Giving up.' },
+      ]),
+      runId: 'run-2',
+    });
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(new Response('{}', { status: 201 }));
+
+    const resumeProvider = createScriptedProvider([{ text: 'All done.' }]);
+    const journal = loadRunJournal('run-2')!;
+    const result = await runAgent(journal.prompt, apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider: resumeProvider,
+      resumeFrom: journal,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('All done.');
+    // Only the failed file creation ran again; the repo was replayed from the journal
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('/contents/README.md');
+
+    // The model never saw the discarded "Giving up." turn
+    const sent = resumeProvider.requests[0].messages;
+    expect(JSON.stringify(sent)).not.toContain('Giving up.');
+    expect(loadRunJournal('run-2')?.status).toBe('completed');
+  });
+
+  it('should resume past a failed read and stop at the failed write after it', () => {
+    const registry = createDefaultToolRegistry();
+    const journal = createRunJournal('run-3', 'Edit the app', 'm', [{ role: 'user', content: 'Edit the app' }]);
+    const step = (id: string, name: string, status: 'succeeded' | 'failed') => {
+      const turn = recordTurn(journal, [{ type: 'tool_use', id, name, input: {} }]);
+      recordStep(journal, turn, { toolUseId: id, name, input: {}, status, result: status === 'failed' ? { error: 'nope' } : {} }, {});
+    };
+    step('t1', 'read_github_file', 'failed');
+    step('t2', 'list_repo_files', 'succeeded');
+    step('t3', 'apply_patch', 'failed');
+    step('t4', 'search_repo', 'succeeded');
+
+    const { messages, pendingTurn } = getResumePoint(journal, name => registry.hasSideEffects(name));
+
+    expect(journal.turns).toHaveLength(3);
+    expect(pendingTurn?.assistantContent).toEqual([{ type: 'tool_use', id: 't3', name: 'apply_patch', input: {} }]);
+    expect(pendingTurn?.steps).toEqual([]);
+    expect(messages).toHaveLength(6); // Request, two complete turns with results, then the pending turn
+    expect(JSON.stringify(messages[2])).toContain('nope'); // The failed read stays as it was
+  });
+
+  it('should only replay a recorded step for the same tool', () => {
+    const journal = createRunJournal('run-4', 'Edit the app', 'm', []);
+    const turn = recordTurn(journal, [{ type: 'tool_use', id: 'call_0', name: 'list_repo_files', input: {} }]);
+    recordStep(journal, turn, { toolUseId: 'call_0', name: 'list_repo_files', input: {}, status: 'succeeded', result: { files: [] } }, {});
+
+    expect(findReplayableStep(journal, { type: 'tool_use', id: 'call_0', name: 'list_repo_files', input: {} }, [])).toBeDefined();
+    expect(findReplayableStep(journal, { type: 'tool_use', id: 'call_0', name: 'apply_patch', input: {} }, [])).toBeUndefined();
+  });
+});
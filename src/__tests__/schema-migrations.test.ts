@@ -0,0 +1,146 @@
+/**
+ * Schema Migration Tests
+ * Tests for designing database schemas and turning them into versioned migrations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider } from '@/lib/providers';
+import { DatabaseSchema, diffSchemas, migrationPath, validateDatabaseSchema } from '@/lib/schema-sql';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: '', orgId: '' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+const ownerPolicy = { name: 'owners_manage_rows', command: 'all' as const, using: 'auth.uid() = user_id', with_check: 'auth.uid() = user_id' };
+
+const projectsSchema: DatabaseSchema = {
+  tables: [
+    {
+      name: 'projects',
+      columns: [
+        { name: 'id', type: 'uuid', primary_key: true, default: 'gen_random_uuid()' },
+        { name: 'user_id', type: 'uuid', default: 'auth.uid()', references: 'auth.users(id)', on_delete: 'cascade' },
+        { name: 'name', type: 'text' },
+      ],
+      indexes: [{ columns: ['user_id'] }],
+      policies: [ownerPolicy],
+    },
+  ],
+};
+
+const tasksSchema: DatabaseSchema = {
+  tables: [
+    {
+      ...projectsSchema.tables[0],
+      columns: [...projectsSchema.tables[0].columns, { name: 'archived', type: 'boolean' }],
+    },
+    {
+      name: 'tasks',
+      columns: [
+        { name: 'id', type: 'uuid', primary_key: true, default: 'gen_random_uuid()' },
+        { name: 'user_id', type: 'uuid', default: 'auth.uid()', references: 'auth.users(id)', on_delete: 'cascade' },
+        { name: 'project_id', type: 'uuid', references: 'projects(id)', on_delete: 'cascade' },
+        { name: 'title', type: 'text' },
+      ],
+      indexes: [{ columns: ['project_id'] }],
+      policies: [ownerPolicy],
+    },
+  ],
+};
+
+describe('Schema Migrations', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should create every table with its indexes and row level security', () => {
+    const { statements, notes } = diffSchemas(null, projectsSchema);
+
+    expect(notes).toEqual([]);
+    expect(statements[0]).toContain('CREATE TABLE IF NOT EXISTS projects');
+    expect(statements[0]).toContain('user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE');
+    expect(statements).toContain('ALTER TABLE projects ENABLE ROW LEVEL SECURITY;');
+    expect(statements).toContain('CREATE INDEX IF NOT EXISTS projects_user_id_idx ON projects (user_id);');
+    expect(statements.some(s => s.startsWith('CREATE POLICY "owners_manage_rows" ON projects FOR ALL'))).toBe(true);
+  });
+
+  it('should only add what changed between two schemas', () => {
+    const { statements, notes } = diffSchemas(projectsSchema, tasksSchema);
+
+    expect(statements.some(s => s.includes('CREATE TABLE IF NOT EXISTS projects'))).toBe(false);
+    expect(statements).toContain('ALTER TABLE projects ADD COLUMN IF NOT EXISTS archived boolean;');
+    expect(statements.some(s => s.includes('CREATE TABLE IF NOT EXISTS tasks'))).toBe(true);
+    expect(notes[0]).toContain('projects.archived');
+
+    const removed = diffSchemas(tasksSchema, projectsSchema);
+    expect(removed.statements).toEqual([]);
+    expect(removed.notes).toEqual(expect.arrayContaining([expect.stringContaining('tasks')]));
+  });
+
+  it('should reject schemas that cannot be migrated safely', () => {
+    const errors = validateDatabaseSchema({
+      tables: [
+        {
+          name: 'tasks',
+          columns: [{ name: 'project_id', type: 'uuid; drop table users', references: 'projects(id)' }],
+          policies: [{ name: 'Anyone', command: 'select' }],
+        },
+      ],
+    });
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('primary key'),
+      expect.stringContaining('uuid; drop table users'),
+      expect.stringContaining('table "projects" is not in the schema'),
+      expect.stringContaining('Anyone'),
+    ]));
+  });
+
+  it('should name migrations by timestamp so they sort in order', () => {
+    expect(migrationPath('Add Tasks!', new Date(Date.UTC(2026, 0, 2, 3, 4, 5)))).toBe('supabase/migrations/20260102030405_add_tasks.sql');
+  });
+
+  it('should apply and commit an initial migration, then an incremental one', async () => {
+    const workspace = new VirtualWorkspace();
+    const backend = createDryRunBackend(workspace);
+    const supabase = await backend.createSupabaseProject('planner', vi.fn());
+    await backend.createGithubRepo({ name: 'planner' });
+    const project = { name: 'planner', githubRepo: 'dry-run/planner', vercelProjectId: 'prj_1', supabaseProjectRef: supabase.project_ref };
+
+    const design = (schema: DatabaseSchema, requirements: string) => createScriptedProvider([
+      { toolCalls: [{ name: 'attach_supabase_project', input: {} }] },
+      { toolCalls: [{ name: 'design_database_schema', input: { requirements } }] },
+      { toolCalls: [{ name: 'submit_database_schema', input: schema }] },
+      { text: 'Done.' },
+    ]);
+
+    const first = design(projectsSchema, 'Users keep projects');
+    await runAgent('Store projects', apiKeys, vi.fn(), [], undefined, 'm', undefined, { provider: first, backend, projectContext: project });
+
+    const second = design(tasksSchema, 'Projects have tasks');
+    await runAgent('Add tasks to projects', apiKeys, vi.fn(), [], undefined, 'm', undefined, { provider: second, backend, projectContext: project });
+
+    // The designer sees the schema recorded by the first migration
+    expect(second.requests[2].messages[0].content).toContain('Current schema');
+    expect(second.requests[2].messages[0].content).toContain('"projects"');
+
+    const files = workspace.getRepoFiles('planner');
+    const migrations = Object.keys(files).filter(path => path.startsWith('supabase/migrations/')).sort();
+    expect(migrations).toHaveLength(2);
+    expect(migrations[0]).toMatch(/_initial_schema\.sql$/);
+    expect(files[migrations[1]]).not.toContain('CREATE TABLE IF NOT EXISTS projects');
+    expect(files[migrations[1]]).toContain('ADD COLUMN IF NOT EXISTS archived');
+    expect(JSON.parse(files['supabase/schema.json'])).toEqual(tasksSchema);
+
+    const database = workspace.supabaseProjects.get(supabase.project_ref)!;
+    // Initial, re-applied when the second run attached, then the update
+    expect(database.migrations).toHaveLength(3);
+    expect(database.tables.map(t => t.name)).toEqual(['projects', 'tasks']);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Secrets Tests
+ * Tests for secret:// handles, resolving them inside tools and redaction
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider, ProviderRequest } from '@/lib/providers';
+import { loadRunJournals } from '@/lib/storage';
+import {
+  clearSecrets,
+  installConsoleRedaction,
+  redactSecrets,
+  redactValue,
+  resolveSecret,
+  sealSecrets,
+} from '@/lib/secrets';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: '', orgId: '' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+function jwt(payload: object): string {
+  const encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.c2lnbmF0dXJl`;
+}
+
+// Text of every tool result the model was sent
+function toolResultsSent(requests: ProviderRequest[]): string {
+  return JSON.stringify(requests.map(request => request.messages));
+}
+
+describe('Secrets', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    clearSecrets();
+  });
+
+  it('should swap credentials for handles and resolve them again', () => {
+    const sealed = sealSecrets(
+      { project_ref: 'abcd', anon_key: 'public-anon-key', service_key: 'very-secret-service-key', db_password: 'hunter2-hunter2' },
+      'supabase',
+      'abcd',
+      ['service_key', 'db_password']
+    );
+
+    expect(sealed).toEqual({
+      project_ref: 'abcd',
+      anon_key: 'public-anon-key',
+      service_key: 'secret://supabase/abcd/service_key',
+      db_password: 'secret://supabase/abcd/db_password',
+    });
+    expect(resolveSecret(sealed.service_key)).toBe('very-secret-service-key');
+    expect(resolveSecret('plain value')).toBe('plain value');
+    expect(() => resolveSecret('secret://supabase/other/service_key')).toThrow('not available in this session');
+
+    expect(redactValue({ log: ['key=very-secret-service-key', 42] })).toEqual({ log: ['key=secret://supabase/abcd/service_key', 42] });
+  });
+
+  it('should redact service keys it never stored but keep anon keys', () => {
+    const serviceJwt = jwt({ role: 'service_role', ref: 'abcd' });
+    const anonJwt = jwt({ role: 'anon', ref: 'abcd' });
+
+    expect(redactSecrets(`service=${serviceJwt} anon=${anonJwt} new=sb_secret_abcdefgh12345678`))
+      .toBe(`service=[redacted] anon=${anonJwt} new=[redacted]`);
+  });
+
+  it('should redact everything written to the console', () => {
+    sealSecrets({ service_key: 'very-secret-service-key' }, 'supabase', 'abcd', ['service_key']);
+    const log = vi.fn();
+    const target = { log, info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as unknown as Console;
+
+    installConsoleRedaction(target);
+    target.log('Created', { service_key: 'very-secret-service-key' });
+
+    expect(log).toHaveBeenCalledWith('Created', { service_key: 'secret://supabase/abcd/service_key' });
+  });
+
+  it('should redact the message and stack of errors', () => {
+    sealSecrets({ service_key: 'very-secret-service-key' }, 'supabase', 'abcd', ['service_key']);
+    const error = Object.assign(new TypeError('Bad key very-secret-service-key'), { detail: 'very-secret-service-key' });
+
+    const redacted = redactValue(error);
+
+    expect(redacted).toBeInstanceOf(TypeError);
+    expect(redacted.message).toBe('Bad key secret://supabase/abcd/service_key');
+    expect(redacted.stack).not.toContain('very-secret-service-key');
+    expect(redacted.detail).toBe('secret://supabase/abcd/service_key');
+    expect(error.message).toBe('Bad key very-secret-service-key'); // The original is left alone
+  });
+
+  it('should keep the service key out of the model context and history but set it on Vercel', async () => {
+    const workspace = new VirtualWorkspace();
+    const backend = createDryRunBackend(workspace);
+    await backend.createGithubRepo({ name: 'todo' });
+    const vercel = await backend.createVercelProject({ name: 'todo', github_repo: 'dry-run/todo' });
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: 'create_supabase_project', input: { app_name: 'todo' } }] },
+      (request) => {
+        const results = request.messages.at(-1)!.content as any[];
+        const { service_key } = JSON.parse(results[0].content);
+        return {
+          toolCalls: [{
+            name: 'add_vercel_env_var',
+            input: { project_id: vercel.id, key: 'SUPABASE_SERVICE_ROLE_KEY', value: service_key },
+          }],
+        };
+      },
+      { text: 'Done.' },
+    ]);
+
+    const result = await runAgent('Build a todo app', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, { provider, backend });
+
+    const [ref] = workspace.supabaseProjects.keys();
+    const serviceKey = workspace.supabaseProjects.get(ref)!.service_key;
+    expect(workspace.vercelProjects.get(vercel.id)!.env.SUPABASE_SERVICE_ROLE_KEY).toBe(serviceKey);
+
+    expect(toolResultsSent(provider.requests)).toContain(`secret://supabase/${ref}/service_key`);
+    expect(toolResultsSent(provider.requests)).not.toContain(serviceKey);
+    expect(JSON.stringify(result.messages)).not.toContain(serviceKey);
+    expect(result.data?.supabaseCredentials).toMatchObject({
+      service_key: `secret://supabase/${ref}/service_key`,
+      db_password: `secret://supabase/${ref}/db_password`,
+    });
+    expect(JSON.stringify(loadRunJournals())).not.toContain(serviceKey);
+  });
+
+  it('should fetch the service key again when this session never saw it', async () => {
+    const workspace = new VirtualWorkspace();
+    const backend = createDryRunBackend(workspace);
+    const supabase = await backend.createSupabaseProject('todo', vi.fn());
+    await backend.createGithubRepo({ name: 'todo' });
+    const vercel = await backend.createVercelProject({ name: 'todo', github_repo: 'dry-run/todo' });
+    const envVar = (key: string, name: string) => ({
+      name: 'add_vercel_env_var',
+      input: { project_id: vercel.id, key, value: `secret://supabase/${supabase.project_ref}/${name}` },
+    });
+    const provider = createScriptedProvider([
+      { toolCalls: [envVar('SUPABASE_SERVICE_ROLE_KEY', 'service_key'), envVar('DB_PASSWORD', 'db_password')] },
+      { text: 'Done.' },
+    ]);
+
+    await runAgent('Add the service key', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, { provider, backend });
+
+    const env = workspace.vercelProjects.get(vercel.id)!.env;
+    expect(env.SUPABASE_SERVICE_ROLE_KEY).toBe(supabase.service_key);
+    expect(env.DB_PASSWORD).toBeUndefined(); // Only known when the project is created
+    expect(toolResultsSent(provider.requests)).toContain(`The db_password of Supabase project ${supabase.project_ref} is only known to the session that created the project`);
+  });
+});
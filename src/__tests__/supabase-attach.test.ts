@@ -0,0 +1,122 @@
+/**
+ * Supabase Attach Tests
+ * Tests for reusing an existing Supabase project instead of creating one
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider } from '@/lib/providers';
+import { attachSupabaseProject } from '@/lib/tools/supabase-backend';
+import { VirtualWorkspace, createDryRunBackend } from '@/lib/tools/virtual-workspace';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: '', owner: '' },
+  vercel: { token: '' },
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function mockSupabaseApi(status: string, tables: string[]) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+    const path = String(url);
+    if (path === '/api/api/supabase/project/abcd?token=sb') return jsonResponse({ id: 'abcd', status });
+    if (path === '/api/api/supabase/project/abcd/api-keys?token=sb') {
+      return jsonResponse([{ type: 'publishable', api_key: 'anon' }, { type: 'secret', api_key: 'service' }]);
+    }
+    if (path === '/api/api/supabase/project/abcd/database/query') {
+      const { query } = JSON.parse(String(init?.body));
+      return jsonResponse(query.includes('information_schema') ? tables.map(table_name => ({ table_name })) : []);
+    }
+    return jsonResponse({ message: 'Not Found' }, 404);
+  });
+}
+
+describe('Supabase Attach', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fetch the keys and list the existing tables without changing them', async () => {
+    const fetchMock = mockSupabaseApi('ACTIVE_HEALTHY', ['profiles']);
+
+    const project = await attachSupabaseProject('abcd', apiKeys.supabase, vi.fn());
+
+    expect(project).not.toHaveProperty('created_tables');
+    expect(project).toMatchObject({
+      project_ref: 'abcd',
+      project_url: 'https://abcd.supabase.co',
+      anon_key: 'anon',
+      service_key: 'service',
+      existing_tables: ['profiles'],
+    });
+    const queries = fetchMock.mock.calls.filter(([, init]) => init?.body).map(([, init]) => JSON.parse(String(init!.body)).query);
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('information_schema');
+  });
+
+  it('should refuse a paused project', async () => {
+    mockSupabaseApi('INACTIVE', []);
+
+    await expect(attachSupabaseProject('abcd', apiKeys.supabase, vi.fn())).rejects.toThrow('is not available (status: INACTIVE)');
+  });
+
+  it('should attach the picked project instead of creating one', async () => {
+    const workspace = new VirtualWorkspace();
+    const backend = createDryRunBackend(workspace);
+    const existing = await backend.createSupabaseProject('shared', vi.fn());
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: 'attach_supabase_project', input: {} }] },
+      { text: 'Attached.' },
+    ]);
+
+    const result = await runAgent('Build a todo app', apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider,
+      backend,
+      supabaseProjectRef: existing.project_ref,
+    });
+
+    const tools = provider.requests[0].tools?.map(t => t.name);
+    expect(tools).not.toContain('create_supabase_project');
+    expect(tools).toContain('attach_supabase_project');
+    expect(provider.requests[0].messages[0].content).toContain(`existing project "${existing.project_ref}"`);
+    expect(result.data?.supabaseCredentials).toMatchObject({ project_ref: existing.project_ref, existing_tables: [] });
+    expect(workspace.supabaseProjects.get(existing.project_ref)!.migrations).toEqual([]);
+    expect(workspace.supabaseProjects.size).toBe(1);
+  });
+
+  it("should attach a follow-up edit to the project's known database and apply its migrations", async () => {
+    const workspace = new VirtualWorkspace();
+    const backend = createDryRunBackend(workspace);
+    const existing = await backend.createSupabaseProject('shop', vi.fn());
+    await backend.createGithubRepo({ name: 'shop' });
+    await backend.createGithubCommit({
+      repo: 'shop',
+      message: 'Add migration',
+      files: { 'supabase/migrations/20260101000000_initial_schema.sql': 'CREATE TABLE IF NOT EXISTS carts (id uuid PRIMARY KEY);\n' },
+    });
+    const project = { name: 'shop', githubRepo: 'dry-run/shop', vercelProjectId: 'prj_1', supabaseProjectRef: existing.project_ref };
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: 'attach_supabase_project', input: {} }] },
+      { text: 'Done.' },
+    ]);
+
+    const result = await runAgent('Save the cart in the database', apiKeys, vi.fn(), [
+      { role: 'user', content: 'Build a shop' },
+      { role: 'assistant', content: 'Done.' },
+    ], undefined, 'm', undefined, { provider, backend, projectContext: project });
+
+    expect(provider.requests[0].messages[2].content).toContain(`Its database is Supabase project "${existing.project_ref}"`);
+    expect(result.data?.supabaseCredentials).toMatchObject({ project_ref: existing.project_ref, existing_tables: [] });
+    expect(workspace.supabaseProjects.get(existing.project_ref)!.tables.map(t => t.name)).toEqual(['carts']);
+    expect(result.data?.projectContext).toEqual(project);
+  });
+});
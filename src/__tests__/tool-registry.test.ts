@@ -0,0 +1,118 @@
+/**
+ * Tool Registry Tests
+ * Tests for schema validation and registry-driven tool execution
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { validateJsonSchema } from '@/lib/json-schema';
+import { ToolRegistry } from '@/lib/tool-registry';
+import { createDefaultToolRegistry } from '@/lib/agent-tools';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider } from '@/lib/providers';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: 'gh', owner: 'octo' },
+  vercel: { token: 'vc' },
+};
+
+describe('Tool Registry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('validateJsonSchema', () => {
+    it('should report missing, mistyped and unknown values with paths', () => {
+      const errors = validateJsonSchema(
+        { name: 42, tags: ['a', 3], mode: 'fast' },
+        {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            repo: { type: 'string' },
+            tags: { type: 'array', items: { type: 'string' } },
+            mode: { type: 'string', enum: ['live', 'dry-run'] },
+          },
+          required: ['name', 'repo'],
+        }
+      );
+
+      expect(errors).toEqual([
+        { path: 'input.repo', message: 'Required property is missing' },
+        { path: 'input.name', message: 'Expected string, got integer' },
+        { path: 'input.tags[1]', message: 'Expected string, got integer' },
+        { path: 'input.mode', message: 'Must be one of: "live", "dry-run"' },
+      ]);
+    });
+  });
+
+  describe('ToolRegistry', () => {
+    it('should expose every built-in tool to the model', () => {
+      const registry = createDefaultToolRegistry();
+      const names = registry.toProviderTools().map(t => t.name);
+
+      expect(names).toContain('create_app_from_template');
+      expect(names).toContain('trigger_vercel_deployment');
+      expect(registry.replayableTools()).not.toContain('read_github_file');
+    });
+
+    it('should return validation errors without running the handler', async () => {
+      const handler = vi.fn();
+      const registry = new ToolRegistry().register({
+        name: 'echo',
+        description: 'Echo text',
+        inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        stage: 'preparing',
+        progress: 5,
+        sideEffects: false,
+        handler,
+      });
+
+      const execution = await registry.execute('echo', { text: 7 }, {} as any);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(execution).toMatchObject({
+        status: 'failed',
+        isError: true,
+        result: { validation_errors: [{ path: 'input.text', message: 'Expected string, got integer' }] },
+      });
+    });
+
+    it('should flag calls to unknown tools as errors', async () => {
+      const execution = await new ToolRegistry().execute('nope', {}, {} as any);
+
+      expect(execution).toEqual({ status: 'failed', isError: true, result: { error: 'Unknown tool: nope' } });
+    });
+
+    it('should let runAgent use custom tools without touching the loop', async () => {
+      const registry = new ToolRegistry().register<{ text: string }>({
+        name: 'shout',
+        description: 'Upper-cases text',
+        inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        stage: 'preparing',
+        progress: 5,
+        progressMessage: (input) => `Shouting ${input.text}...`,
+        sideEffects: false,
+        handler: async (input) => ({ text: input.text.toUpperCase() }),
+      });
+      const provider = createScriptedProvider([
+        { toolCalls: [{ name: 'shout', input: {} }, { name: 'shout', input: { text: 'hi' } }] },
+        { text: 'Done.' },
+      ]);
+      const onProgress = vi.fn();
+
+      await runAgent('Shout', apiKeys, onProgress, undefined, undefined, 'm', undefined, { provider, tools: registry });
+
+      expect(provider.requests[0].tools?.map(t => t.name)).toEqual(['shout']);
+      expect(onProgress).toHaveBeenCalledWith('preparing', 'Shouting hi...', 5);
+
+      const toolResults = provider.requests[1].messages
+        .find(m => m.role === 'user' && Array.isArray(m.content))?.content as any[];
+      expect(toolResults[0].is_error).toBe(true);
+      expect(JSON.parse(toolResults[0].content).validation_errors[0].path).toBe('input.text');
+      expect(JSON.parse(toolResults[1].content)).toEqual({ text: 'HI' });
+    });
+  });
+});
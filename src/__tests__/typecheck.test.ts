@@ -0,0 +1,114 @@
+/**
+ * Type Check Tests
+ * Tests for running the TypeScript compiler over an in-memory FileSet
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { BUNDLED_DECLARATIONS, DeclarationFiles, loadLibFiles, resolveCompilerOptions, runTypeCheck } from '@/workers/typecheck-host';
+import { diagnosticsToErrors } from '@/lib/typecheck';
+import { runPreDeploymentChecks } from '@/lib/pre-deploy-checks';
+import { templates } from '@/lib/templates';
+
+const NODE_MODULES = path.resolve(__dirname, '../../node_modules');
+
+// What the worker bundles: read straight from node_modules here
+function readDeclarations(): DeclarationFiles {
+  const files = [
+    '@types/react/index.d.ts',
+    '@types/react/global.d.ts',
+    '@types/react/jsx-runtime.d.ts',
+    '@types/react-dom/index.d.ts',
+    '@types/react-dom/client.d.ts',
+    '@types/prop-types/index.d.ts',
+    'csstype/index.d.ts',
+  ];
+  const supabase = fs.readdirSync(path.join(NODE_MODULES, '@supabase'), { recursive: true, encoding: 'utf8' })
+    .map(f => `@supabase/${f}`)
+    .filter(f => /^@supabase\/[^/]+\/package\.json$/.test(f)
+      || /^@supabase\/(supabase|postgrest|storage)-js\/dist\/[^/]+\.d\.mts$/.test(f)
+      || /^@supabase\/(auth|functions|realtime)-js\/dist\/module\/.+\.d\.ts$/.test(f)
+      || /^@supabase\/phoenix\/priv\/static\/types\/[^/]+\.d\.ts$/.test(f));
+  return Object.fromEntries([...files, ...supabase].map(f => [`/node_modules/${f}`, fs.readFileSync(path.join(NODE_MODULES, f), 'utf8')]));
+}
+
+const template = templates.find(t => t.id === 'todo-app') ?? templates[0];
+let declarations: DeclarationFiles;
+
+describe('Type Check', () => {
+  beforeAll(async () => {
+    const libs = await loadLibFiles(ts, resolveCompilerOptions(ts, template.files), async (fileName) => {
+      const file = path.join(NODE_MODULES, 'typescript/lib', fileName);
+      return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined;
+    });
+    declarations = { ...libs, ...readDeclarations(), ...BUNDLED_DECLARATIONS };
+  });
+
+  it('should report no errors for a template as shipped', () => {
+    const diagnostics = runTypeCheck(ts, template.files, declarations);
+    expect(diagnostics).toEqual([]);
+  }, 30_000);
+
+  it('should report real diagnostics with file, line and code', () => {
+    const files = {
+      ...template.files,
+      'tsconfig.json': template.files['tsconfig.json'].replace('"noUnusedLocals": false', '"noUnusedLocals": true'),
+      'src/components/Broken.tsx': [
+        'import { useState } from "react";',
+        'import { Missing } from "./does-not-exist";',
+        '',
+        'export function Broken() {',
+        '  const title: string = 42;',
+        '  return <div>{title}</div>;',
+        '}',
+      ].join('\n'),
+    };
+
+    const diagnostics = runTypeCheck(ts, files, declarations).filter(d => d.file === 'src/components/Broken.tsx');
+    const find = (code: number) => diagnostics.find(d => d.code === code);
+
+    expect(find(6133)).toMatchObject({ line: 1, category: 'error' }); // useState never read
+    expect(find(2307)).toMatchObject({ line: 2 }); // Cannot find module
+    expect(find(2322)).toMatchObject({ line: 5, column: 9 }); // number is not assignable to string
+
+    const [error] = diagnosticsToErrors([find(2322)!]);
+    expect(error.message).toMatch(/^\[src\/components\/Broken\.tsx\] \(5:9\) TS2322: Type 'number' is not assignable/);
+  }, 30_000);
+
+  it('should check supabase-js calls against its real types', () => {
+    const files = {
+      ...template.files,
+      'src/lib/auth.ts': [
+        'import { createClient } from "@supabase/supabase-js";',
+        '',
+        'const supabase = createClient("https://example.supabase.co", "anon-key");',
+        '',
+        'export async function currentEmail(): Promise<string | undefined> {',
+        '  const { data } = await supabase.auth.getUser();',
+        '  return data.user?.email;',
+        '}',
+        '',
+        'export const legacySignIn = () => supabase.auth.signIn({ email: "a@b.c" });',
+      ].join('\n'),
+    };
+
+    const diagnostics = runTypeCheck(ts, files, declarations).filter(d => d.file === 'src/lib/auth.ts');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 10, code: 2339 }); // signIn() was removed in v2
+  }, 30_000);
+
+  it('should put compiler diagnostics in place of the regex guesses', async () => {
+    const files = { ...template.files, 'src/Extra.tsx': 'export const x: number = "nope";\n' };
+    const result = await runPreDeploymentChecks(files, undefined, () => {}, async (checked) => ({
+      available: true,
+      diagnostics: runTypeCheck(ts, checked, declarations),
+      durationMs: 0,
+    }));
+
+    expect(result.errors.map(e => e.id)).toContain('ts2322');
+    expect(result.hasBlockingErrors).toBe(true);
+  }, 30_000);
+});
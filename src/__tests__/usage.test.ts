@@ -0,0 +1,65 @@
+/**
+ * Usage Tests
+ * Tests for token/cost accounting and per-build budgets
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { calculateCost, UsageTracker } from '@/lib/usage';
+import { runAgent } from '@/lib/agent';
+import { createScriptedProvider } from '@/lib/providers';
+import { loadRunJournal } from '@/lib/storage';
+import { ApiKeys } from '@/types';
+
+const apiKeys: ApiKeys = {
+  anthropic: '',
+  supabase: { token: 'sb', orgId: 'org' },
+  github: { token: 'gh', owner: 'octo' },
+  vercel: { token: 'vc' },
+};
+
+describe('Usage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should price input, output and cache tokens per million', () => {
+    const cost = calculateCost(
+      { input_tokens: 1_000_000, output_tokens: 100_000, cache_creation_input_tokens: 0, cache_read_input_tokens: 1_000_000 },
+      { input: 3, output: 15, cacheRead: 0.3 }
+    );
+    expect(cost).toBeCloseTo(3 + 1.5 + 0.3);
+    expect(calculateCost({ input_tokens: 500, output_tokens: 500 }, undefined)).toBe(0);
+  });
+
+  it('should accumulate totals per model with price overrides', () => {
+    const tracker = new UsageTracker({ 'local-model': { input: 1, output: 2 } });
+    tracker.record('local-model', { input_tokens: 1_000_000, output_tokens: 0 });
+    tracker.record('claude-3-haiku-20240307', { input_tokens: 1_000_000, output_tokens: 0 });
+
+    const usage = tracker.snapshot();
+    expect(usage.total.inputTokens).toBe(2_000_000);
+    expect(usage.total.requests).toBe(2);
+    expect(usage.byModel['local-model'].costUsd).toBeCloseTo(1);
+    expect(usage.total.costUsd).toBeCloseTo(1.25);
+  });
+
+  it('should report usage and stop the build once the budget is exceeded', async () => {
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: 'not_a_tool', input: {} }], usage: { input_tokens: 100_000, output_tokens: 10_000 } },
+      { text: 'Never reached.' },
+    ]);
+
+    const result = await runAgent('Build it', apiKeys, vi.fn(), undefined, undefined, 'claude-sonnet-4-20250514', undefined, {
+      provider,
+      runId: 'budget-run',
+      budgetUsd: 0.25,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('budget of $0.25 exceeded');
+    expect(result.usage?.total.costUsd).toBeCloseTo(0.45);
+    expect(provider.requests).toHaveLength(1);
+    expect(loadRunJournal('budget-run')?.status).toBe('cancelled');
+    expect(result.resumable).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Vault Tests
+ * Tests for encrypting settings with a passphrase, migrating plaintext
+ * settings and locking after idle time
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getRecord } from '@/lib/db';
+import { hasValidSettings, loadSettings, saveSettings } from '@/lib/storage';
+import {
+  VaultError,
+  createVault,
+  flushVault,
+  hasVault,
+  isVaultUnlocked,
+  lockVault,
+  resetVault,
+  startAutoLock,
+  unlockVault,
+} from '@/lib/vault';
+import { Settings } from '@/types';
+
+// Fewer PBKDF2 rounds keep the tests fast; the count is stored with the vault
+const ITERATIONS = 1000;
+
+const settings: Settings = {
+  apiKeys: {
+    anthropic: 'sk-ant-test-key',
+    supabase: { token: 'sbp_test_token', orgId: 'org' },
+    github: { token: 'ghp_test_token', owner: 'octocat' },
+    vercel: { token: 'vercel_test_token' },
+  },
+  preferences: { defaultPlan: 'free', defaultRegion: 'ap-southeast-2' },
+};
+
+const storedVault = () => JSON.stringify(getRecord('settings', 'vault')?.value ?? null);
+
+describe('Vault', () => {
+  beforeEach(() => {
+    resetVault();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store settings encrypted and read them back after unlocking', async () => {
+    await createVault('correct horse', ITERATIONS);
+    expect(hasValidSettings()).toBe(false);
+    const empty = JSON.parse(storedVault());
+
+    saveSettings(settings);
+    expect(hasValidSettings()).toBe(true); // Visible before the encryption finishes
+    await flushVault();
+
+    const stored = storedVault();
+    expect(stored).not.toContain('sk-ant-test-key');
+    expect(JSON.parse(stored).iv).not.toBe(empty.iv); // Fresh IV for every write
+    expect(getRecord('settings', 'plaintext')).toBeUndefined();
+
+    lockVault();
+    expect(loadSettings()).toBeNull();
+    expect(hasValidSettings()).toBe(false);
+
+    await expect(unlockVault('wrong horse')).rejects.toThrow(VaultError);
+    expect(isVaultUnlocked()).toBe(false);
+
+    await unlockVault('correct horse');
+    expect(loadSettings()).toMatchObject(settings);
+  });
+
+  it('should migrate plaintext settings into a new vault', async () => {
+    localStorage.setItem('brainiac_settings', JSON.stringify(settings));
+
+    await createVault('correct horse', ITERATIONS);
+
+    expect(localStorage.getItem('brainiac_settings')).toBeNull();
+    expect(getRecord('settings', 'plaintext')).toBeUndefined();
+    expect(storedVault()).not.toContain('ghp_test_token');
+    expect(loadSettings()).toMatchObject(settings);
+
+    lockVault();
+    await unlockVault('correct horse');
+    expect(loadSettings()).toMatchObject(settings);
+    await expect(createVault('another', ITERATIONS)).rejects.toThrow('already exists');
+  });
+
+  it('should lock after the idle time unless there is activity', async () => {
+    await createVault('correct horse', ITERATIONS);
+    vi.useFakeTimers();
+    const target = new EventTarget();
+
+    const stop = startAutoLock(1000, target);
+    vi.advanceTimersByTime(800);
+    target.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(800);
+    expect(isVaultUnlocked()).toBe(true);
+
+    vi.advanceTimersByTime(200);
+    expect(isVaultUnlocked()).toBe(false);
+    expect(hasVault()).toBe(true);
+    stop();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Workspace Tests
+ * Tests for separate keys, defaults and history per workspace
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runAgent } from '@/lib/agent';
+import { createRunJournal } from '@/lib/run-journal';
+import { getRecords } from '@/lib/db';
+import { createScriptedProvider } from '@/lib/providers';
+import {
+  addWorkspace,
+  deleteWorkspace,
+  loadHistory,
+  loadRunJournal,
+  loadRunJournals,
+  loadSettings,
+  loadWorkspaces,
+  saveProject,
+  saveSettings,
+  switchWorkspace,
+  updateWorkspace,
+} from '@/lib/storage';
+import { createVault, flushVault, lockVault, resetVault, unlockVault } from '@/lib/vault';
+import { DEFAULT_WORKSPACE_ID, emptySettings } from '@/lib/workspaces';
+import { ProjectHistory, Settings } from '@/types';
+
+const ITERATIONS = 1000;
+
+const clientSettings = (owner: string): Settings => ({
+  ...emptySettings(),
+  apiKeys: {
+    anthropic: `sk-ant-${owner}`,
+    supabase: { token: `sbp_${owner}`, orgId: `${owner}-org` },
+    github: { token: `ghp_${owner}`, owner },
+    vercel: { token: `vercel_${owner}`, teamId: `team_${owner}` },
+  },
+});
+
+const entry = (name: string, workspaceId?: string): ProjectHistory => ({
+  id: name,
+  name,
+  prompt: name,
+  githubUrl: '',
+  vercelUrl: '',
+  supabaseUrl: '',
+  createdAt: new Date().toISOString(),
+  success: true,
+  workspaceId,
+});
+
+describe('Workspaces', () => {
+  beforeEach(() => {
+    resetVault();
+    localStorage.clear();
+  });
+
+  it('should move existing settings and history into a default workspace', async () => {
+    localStorage.setItem('brainiac_settings', JSON.stringify(clientSettings('acme')));
+    localStorage.setItem('brainiac_history', JSON.stringify([entry('old build')]));
+
+    await createVault('correct horse', ITERATIONS);
+
+    expect(loadWorkspaces()).toMatchObject({
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: 'Default', apiKeys: { github: { owner: 'acme' } } }],
+    });
+    expect(loadHistory().map(p => p.name)).toEqual(['old build']);
+  });
+
+  it('should keep keys, defaults, model and history apart', async () => {
+    await createVault('correct horse', ITERATIONS);
+    saveSettings(clientSettings('acme'));
+    saveProject(entry('acme site'));
+
+    const globex = addWorkspace('Globex')!;
+    expect(loadSettings()?.apiKeys.anthropic).toBe(''); // New workspaces start empty
+    saveSettings({ ...clientSettings('globex'), preferences: { defaultPlan: 'pro', defaultRegion: 'eu-west-1' } });
+    updateWorkspace({ model: 'claude-opus-4-20250514' });
+    saveProject(entry('globex site'));
+    expect(loadHistory().map(p => p.name)).toEqual(['globex site']);
+
+    switchWorkspace(DEFAULT_WORKSPACE_ID);
+    expect(loadSettings()).toMatchObject({ apiKeys: { github: { owner: 'acme' } }, preferences: { defaultRegion: 'ap-southeast-2' } });
+    expect(loadSettings()?.model).toBeUndefined();
+    expect(loadHistory().map(p => p.name)).toEqual(['acme site']);
+
+    // Survives locking
+    await flushVault();
+    lockVault();
+    await unlockVault('correct horse');
+    switchWorkspace(globex.id);
+    expect(loadSettings()).toMatchObject({
+      name: 'Globex',
+      model: 'claude-opus-4-20250514',
+      apiKeys: { vercel: { teamId: 'team_globex' } },
+      preferences: { defaultPlan: 'pro', defaultRegion: 'eu-west-1' },
+    });
+
+    deleteWorkspace(globex.id);
+    expect(loadSettings()?.id).toBe(DEFAULT_WORKSPACE_ID);
+    expect(getRecords('projects').map(p => p.name)).toEqual(['acme site']);
+    deleteWorkspace(DEFAULT_WORKSPACE_ID); // The last workspace stays
+    expect(loadWorkspaces()?.workspaces).toHaveLength(1);
+  });
+
+  it('should tag each run with its workspace', async () => {
+    await createVault('correct horse', ITERATIONS);
+    const globex = addWorkspace('Globex')!;
+    saveSettings(clientSettings('globex'));
+    const provider = createScriptedProvider([{ text: 'Nothing to build.' }]);
+
+    await runAgent('Hello', loadSettings()!.apiKeys, vi.fn(), undefined, undefined, 'm', undefined, {
+      provider,
+      runId: 'run-globex',
+      workspaceId: globex.id,
+    });
+
+    expect(loadRunJournal('run-globex')?.workspaceId).toBe(globex.id);
+    expect(loadRunJournals().map(j => j.runId)).toEqual(['run-globex']);
+    switchWorkspace(DEFAULT_WORKSPACE_ID);
+    expect(loadRunJournals()).toEqual([]);
+  });
+
+  it('should only prune older journals of the same workspace', async () => {
+    await createVault('correct horse', ITERATIONS);
+    const globex = addWorkspace('Globex')!;
+    createRunJournal('run-default', 'Hello', 'm', [], undefined, DEFAULT_WORKSPACE_ID);
+    for (let i = 0; i < 12; i++) createRunJournal(`run-globex-${i}`, 'Hello', 'm', [], undefined, globex.id);
+
+    expect(loadRunJournals()).toHaveLength(10);
+    switchWorkspace(DEFAULT_WORKSPACE_ID);
+    expect(loadRunJournals().map(j => j.runId)).toEqual(['run-default']);
+  });
+});
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Sparkles, ChevronDown, Check, Cpu } from 'lucide-react';
+import { Send, Sparkles, ChevronDown, Check, Cpu, RotateCcw, Database } from 'lucide-react';
 import { Button } from './ui/Button';
+import { ToolCallCard } from './ToolCallCard';
 import { AgentMessage } from '@/types';
 import { cn } from '@/lib/utils';
 
@@ -14,8 +15,12 @@ interface ChatProps {
     progress: number;
   };
   onStopGeneration?: () => void;
+  onResumeBuild?: (runId: string) => void;
   selectedModel?: string;
   onModelChange?: (model: string) => void;
+  dryRun?: boolean; // Tools run against an in-memory workspace
+  databaseName?: string; // Existing Supabase project the next build uses
+  onPickDatabase?: () => void;
 }
 
 export const Chat: React.FC<ChatProps> = ({ 
@@ -24,8 +29,12 @@ export const Chat: React.FC<ChatProps> = ({
   isBuilding, 
   buildStatus, 
   onStopGeneration, 
+  onResumeBuild,
   selectedModel = 'claude-sonnet-4-20250514', 
-  onModelChange 
+  onModelChange,
+  dryRun = false,
+  databaseName,
+  onPickDatabase
 }) => {
   const [input, setInput] = useState('');
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
@@ -142,9 +151,13 @@ export const Chat: React.FC<ChatProps> = ({
           </div>
         ) : (
           <div className="p-4 space-y-4">
-            {messages.map((message, i) => (
+            {messages.map((message, i) => message.toolCall ? (
+              <div key={message.id || i} className="flex justify-start animate-in fade-in-0 duration-300">
+                <ToolCallCard toolCall={message.toolCall} />
+              </div>
+            ) : (
               <div
-                key={i}
+                key={message.id || i}
                 className={cn(
                   'flex animate-in fade-in-0 slide-in-from-bottom-2 duration-300',
                   message.role === 'user' ? 'justify-end' : 'justify-start'
@@ -165,8 +178,24 @@ export const Chat: React.FC<ChatProps> = ({
                     message.content.startsWith('⚡') ? 'text-xs' : 'text-sm leading-relaxed'
                   )}>
                     {message.content}
+                    {message.streaming && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-red-400 animate-pulse" />
+                    )}
                   </p>
-                  {!message.content.startsWith('⚡') && (
+                  {message.resumeRunId && onResumeBuild && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={isBuilding}
+                      onClick={() => onResumeBuild(message.resumeRunId!)}
+                      className="mt-3 border-zinc-700 text-zinc-300 hover:text-white hover:border-zinc-600"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+                      Resume build
+                    </Button>
+                  )}
+                  {!message.content.startsWith('⚡') && !message.streaming && (
                     <p className="text-xs opacity-50 mt-2">
                       {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                     </p>
@@ -176,7 +205,7 @@ export const Chat: React.FC<ChatProps> = ({
             ))}
             
             {/* Thinking Animation */}
-            {isBuilding && (!buildStatus || buildStatus.stage === 'idle' || buildStatus.progress === 0) && (
+            {isBuilding && !messages[messages.length - 1]?.streaming && (!buildStatus || buildStatus.stage === 'idle' || buildStatus.progress === 0) && (
               <div className="flex justify-start animate-in fade-in-0 slide-in-from-bottom-2 duration-300">
                 <div className="bg-zinc-900 rounded-2xl px-4 py-3">
                   <div className="flex items-center gap-2">
@@ -316,6 +345,25 @@ export const Chat: React.FC<ChatProps> = ({
                   </div>
                 )}
               </div>
+
+              {/* Database Picker */}
+              {onPickDatabase && (
+                <button
+                  type="button"
+                  onClick={onPickDatabase}
+                  disabled={isBuilding}
+                  className={cn(
+                    "mr-auto ml-1 flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-colors",
+                    isBuilding
+                      ? "text-zinc-600 cursor-not-allowed"
+                      : "text-zinc-400 hover:text-zinc-300 hover:bg-zinc-800"
+                  )}
+                  title="Choose the Supabase project for the next build"
+                >
+                  <Database className="h-3.5 w-3.5" />
+                  <span className="font-medium max-w-[10rem] truncate">{databaseName ?? 'New database'}</span>
+                </button>
+              )}
               
               {/* Send Button */}
               <button
@@ -339,6 +387,9 @@ export const Chat: React.FC<ChatProps> = ({
           
           {/* Footer */}
           <p className="text-[11px] text-zinc-600 mt-2 text-center">
+            {dryRun && (
+              <span className="text-amber-500/80">🧪 Dry run: nothing is created or deployed • </span>
+            )}
             Press Enter to send • Shift+Enter for new line
           </p>
         </form>
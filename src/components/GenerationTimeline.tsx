@@ -0,0 +1,97 @@
+/**
+ * GenerationTimeline Component
+ * The commits a project went through, one per agent run, with restore actions
+ */
+
+import React, { useState } from 'react';
+import { GitCommit, RotateCcw, Loader2 } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { ProjectHistory } from '@/types';
+import { shortSha } from '@/lib/generations';
+import { GithubRestoreMode } from '@/lib/tools/github';
+
+interface GenerationTimelineProps {
+  projectName: string | null; // Modal is open while set
+  generations: ProjectHistory[]; // Newest first
+  restoringSha: string | null;
+  onRestore: (generation: ProjectHistory, mode: GithubRestoreMode) => void;
+  onClose: () => void;
+}
+
+export const GenerationTimeline: React.FC<GenerationTimelineProps> = ({
+  projectName,
+  generations,
+  restoringSha,
+  onRestore,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<GithubRestoreMode>('revert');
+
+  return (
+    <Modal open={projectName !== null} onClose={onClose} className="max-w-2xl">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-xl font-bold text-white">Generations</h2>
+          <p className="text-sm text-zinc-400 mt-1">
+            Every change to <span className="text-white">{projectName}</span>. Restoring commits the selected version and redeploys it.
+          </p>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium text-zinc-300 mb-2 block">
+            Restore As
+          </label>
+          <div className="flex space-x-4">
+            <Button variant={mode === 'revert' ? 'default' : 'outline'} onClick={() => setMode('revert')}>
+              Revert Commit
+            </Button>
+            <Button variant={mode === 'reset' ? 'default' : 'outline'} onClick={() => setMode('reset')}>
+              Reset Branch
+            </Button>
+          </div>
+          <p className="text-xs text-zinc-500 mt-2">
+            {mode === 'revert'
+              ? 'Adds a new commit with the old files. Later generations stay in the history.'
+              : 'Moves the branch back to the old commit. Later commits are dropped from the branch.'}
+          </p>
+        </div>
+
+        <ol className="relative border-l border-zinc-800 ml-2 space-y-4">
+          {generations.map((generation, index) => {
+            const sha = generation.commitSha!;
+            const restoring = restoringSha === sha;
+            return (
+              <li key={sha} className="ml-5">
+                <GitCommit className={`absolute -left-2 h-4 w-4 bg-zinc-900 ${index === 0 ? 'text-green-400' : 'text-zinc-500'}`} />
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white line-clamp-2">{generation.prompt}</p>
+                    <p className="text-xs text-zinc-500 mt-1">
+                      <code className="text-zinc-400">{shortSha(sha)}</code>
+                      {' • '}
+                      {new Date(generation.createdAt).toLocaleString()}
+                      {generation.restoredFrom && ` • restored ${shortSha(generation.restoredFrom)}`}
+                      {index === 0 && ' • latest'}
+                    </p>
+                  </div>
+                  {index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onRestore(generation, mode)}
+                      disabled={restoringSha !== null}
+                    >
+                      {restoring ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1.5 h-4 w-4" />}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, Check, X, Plus, Trash2 } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from './ui/Card';
+import { templates } from '@/lib/templates';
+import { BuildPlan, PlannedFile } from '@/lib/planner';
+
+interface PlanApprovalPanelProps {
+  plan: BuildPlan | null;
+  prompt: string;
+  onApprove: (plan: BuildPlan) => void;
+  onReject: () => void;
+}
+
+const textareaClass =
+  'w-full rounded-xl border border-zinc-700 bg-zinc-900 px-4 py-2 text-sm text-white placeholder:text-zinc-500 focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/20';
+
+export const PlanApprovalPanel: React.FC<PlanApprovalPanelProps> = ({ plan, prompt, onApprove, onReject }) => {
+  const [draft, setDraft] = useState<BuildPlan | null>(plan);
+
+  // Start every review from the plan the model returned
+  useEffect(() => {
+    setDraft(plan);
+  }, [plan]);
+
+  if (!draft) return null;
+
+  const updateFile = (index: number, changes: Partial<PlannedFile>) => {
+    setDraft({
+      ...draft,
+      files: draft.files.map((f, i) => (i === index ? { ...f, ...changes } : f)),
+    });
+  };
+
+  const handleApprove = () => {
+    onApprove({
+      ...draft,
+      repo_name: draft.repo_name.trim(),
+      files: draft.files.filter(f => f.path.trim()),
+      env_vars: draft.env_vars.map(v => v.trim()).filter(Boolean),
+      deployment_steps: draft.deployment_steps.map(s => s.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <Modal open={!!plan} onClose={onReject} className="max-w-3xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-red-600/20">
+            <ClipboardList className="h-6 w-6 text-red-500" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold">Review Build Plan</h2>
+            <p className="text-sm text-zinc-400 line-clamp-1">{prompt}</p>
+          </div>
+        </div>
+
+        <div className="rounded-xl bg-zinc-800/40 border border-zinc-800 p-3 text-xs text-zinc-400">
+          Nothing has been created yet. Edit anything that looks wrong, then approve to start the build.
+        </div>
+
+        {/* Overview */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">📋 Overview</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">Summary</label>
+              <textarea
+                className={textareaClass}
+                rows={2}
+                value={draft.summary}
+                onChange={(e) => setDraft({ ...draft, summary: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">Template</label>
+              <select
+                className={textareaClass}
+                value={draft.template_id}
+                onChange={(e) => setDraft({ ...draft, template_id: e.target.value })}
+              >
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>
+                    {t.thumbnail} {t.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <Input
+              label="Repository Name"
+              type="text"
+              value={draft.repo_name}
+              onChange={(e) => setDraft({ ...draft, repo_name: e.target.value })}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Database */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">🗄️ Database</CardTitle>
+            <CardDescription>{draft.supabase_reason || 'Whether this build creates a Supabase project'}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex space-x-4">
+              <Button
+                variant={draft.needs_supabase ? 'default' : 'outline'}
+                onClick={() => setDraft({ ...draft, needs_supabase: true })}
+              >
+                Create Supabase project
+              </Button>
+              <Button
+                variant={!draft.needs_supabase ? 'default' : 'outline'}
+                onClick={() => setDraft({ ...draft, needs_supabase: false })}
+              >
+                No database
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Files */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">📄 Files</CardTitle>
+            <CardDescription>Created or changed on top of the template</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {draft.files.map((file, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <select
+                  className="h-9 rounded-lg border border-zinc-700 bg-zinc-900 px-2 text-xs text-white"
+                  value={file.action}
+                  onChange={(e) => updateFile(i, { action: e.target.value as PlannedFile['action'] })}
+                >
+                  <option value="create">create</option>
+                  <option value="modify">modify</option>
+                </select>
+                <input
+                  className="h-9 w-48 rounded-lg border border-zinc-700 bg-zinc-900 px-2 text-xs text-white font-mono"
+                  value={file.path}
+                  onChange={(e) => updateFile(i, { path: e.target.value })}
+                />
+                <input
+                  className="h-9 flex-1 rounded-lg border border-zinc-700 bg-zinc-900 px-2 text-xs text-zinc-300"
+                  value={file.purpose}
+                  onChange={(e) => updateFile(i, { purpose: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft({ ...draft, files: draft.files.filter((_, j) => j !== i) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, files: [...draft.files, { path: '', action: 'create', purpose: '' }] })}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add file
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Deployment */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">🚀 Deployment</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              label="Environment Variables (comma separated)"
+              type="text"
+              value={draft.env_vars.join(', ')}
+              onChange={(e) => setDraft({ ...draft, env_vars: e.target.value.split(',') })}
+            />
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">Steps (one per line)</label>
+              <textarea
+                className={textareaClass}
+                rows={4}
+                value={draft.deployment_steps.join('\n')}
+                onChange={(e) => setDraft({ ...draft, deployment_steps: e.target.value.split('\n') })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-4">
+          <Button variant="outline" onClick={onReject}>
+            <X className="mr-2 h-4 w-4" />
+            Reject
+          </Button>
+          <Button onClick={handleApprove} disabled={!draft.repo_name.trim()}>
+            <Check className="mr-2 h-4 w-4" />
+            Approve &amp; Build
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
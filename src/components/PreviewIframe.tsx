@@ -1,7 +1,7 @@
 /**
  * PreviewIframe Component
  * Advanced preview with device frames, devtools, and keyboard shortcuts
- * Includes build waiting animation to give Vercel time to deploy
+ * Shows the Vercel build progress until the deployment is ready
  */
 
 import React, { useState, useRef, useEffect } from 'react';
@@ -20,32 +20,30 @@ import {
   NetworkRequest 
 } from '@/types/preview-controls';
 import { generateId } from '@/lib/utils';
+import { VercelDeploymentState, isTerminalDeploymentState } from '@/lib/tools/vercel';
 
 interface PreviewIframeProps {
   url: string;
   projectName?: string;
   className?: string;
-  buildDelay?: number; // Delay in ms before showing iframe (default 60 seconds)
+  deploymentState?: VercelDeploymentState; // Undefined when unknown; the preview is shown as is
 }
 
-// Build stages for the animation
-const BUILD_STAGES = [
-  { id: 'queued', label: 'Build queued', icon: Clock, duration: 5 },
-  { id: 'installing', label: 'Installing dependencies', icon: Server, duration: 15 },
-  { id: 'building', label: 'Building application', icon: Zap, duration: 25 },
-  { id: 'deploying', label: 'Deploying to edge', icon: Rocket, duration: 10 },
-  { id: 'ready', label: 'Ready!', icon: CheckCircle2, duration: 5 },
+// Build stages for the animation, one per Vercel deployment state
+const BUILD_STAGES: Array<{ state: VercelDeploymentState; label: string; icon: typeof Clock }> = [
+  { state: 'QUEUED', label: 'Build queued', icon: Clock },
+  { state: 'INITIALIZING', label: 'Preparing build environment', icon: Server },
+  { state: 'BUILDING', label: 'Building application', icon: Zap },
+  { state: 'READY', label: 'Ready!', icon: CheckCircle2 },
 ];
 
 export const PreviewIframe: React.FC<PreviewIframeProps> = ({
   url,
   projectName = 'Preview',
   className = '',
-  buildDelay = 60000, // 60 seconds default
+  deploymentState,
 }) => {
-  const [isBuilding, setIsBuilding] = useState(true);
-  const [buildProgress, setBuildProgress] = useState(0);
-  const [currentBuildStage, setCurrentBuildStage] = useState(0);
+  const [skippedBuild, setSkippedBuild] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [currentDevice, setCurrentDevice] = useState<DeviceFrame>(DEVICE_PRESETS[0]); // Desktop
@@ -57,63 +55,19 @@ export const PreviewIframe: React.FC<PreviewIframeProps> = ({
   const [networkRequests, setNetworkRequests] = useState<NetworkRequest[]>([]);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [iframeKey, setIframeKey] = useState(0);
-  const buildTimerRef = useRef<number | null>(null);
-  
-  // Build waiting animation
+
+  // Follow the real deployment; a new URL waits for its own build
   useEffect(() => {
-    if (!isBuilding) return;
-    
-    const totalDuration = buildDelay;
-    const startTime = Date.now();
-    
-    // Calculate stage durations proportionally
-    const totalStageDuration = BUILD_STAGES.reduce((acc, s) => acc + s.duration, 0);
-    
-    buildTimerRef.current = window.setInterval(() => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min((elapsed / totalDuration) * 100, 100);
-      setBuildProgress(progress);
-      
-      // Determine current stage based on progress
-      let accumulatedProgress = 0;
-      for (let i = 0; i < BUILD_STAGES.length; i++) {
-        const stageProgress = (BUILD_STAGES[i].duration / totalStageDuration) * 100;
-        accumulatedProgress += stageProgress;
-        if (progress < accumulatedProgress) {
-          setCurrentBuildStage(i);
-          break;
-        }
-      }
-      
-      // Finish building
-      if (elapsed >= totalDuration) {
-        if (buildTimerRef.current) {
-          window.clearInterval(buildTimerRef.current);
-        }
-        setCurrentBuildStage(BUILD_STAGES.length - 1);
-        setBuildProgress(100);
-        
-        // Small delay before showing iframe
-        setTimeout(() => {
-          setIsBuilding(false);
-          console.log('✅ Build wait complete, showing preview');
-        }, 500);
-      }
-    }, 100);
-    
-    return () => {
-      if (buildTimerRef.current) {
-        window.clearInterval(buildTimerRef.current);
-      }
-    };
-  }, [isBuilding, buildDelay]);
-  
+    setSkippedBuild(false);
+  }, [url]);
+
+  const isBuilding = !skippedBuild && !!deploymentState && !isTerminalDeploymentState(deploymentState);
+  const currentBuildStage = Math.max(0, BUILD_STAGES.findIndex(stage => stage.state === deploymentState));
+  const buildProgress = ((currentBuildStage + 0.5) / BUILD_STAGES.length) * 100;
+
   // Skip build animation handler
   const handleSkipBuild = () => {
-    if (buildTimerRef.current) {
-      window.clearInterval(buildTimerRef.current);
-    }
-    setIsBuilding(false);
+    setSkippedBuild(true);
     console.log('⏭️ Build wait skipped');
   };
 
@@ -342,7 +296,7 @@ export const PreviewIframe: React.FC<PreviewIframeProps> = ({
                       
                       return (
                         <motion.div
-                          key={stage.id}
+                          key={stage.state}
                           className={`flex items-center gap-3 p-2 rounded-lg transition-colors ${
                             isActive ? 'bg-red-500/10 border border-red-500/20' :
                             isComplete ? 'opacity-60' : 'opacity-30'
@@ -1,17 +1,20 @@
 import React from 'react';
-import { History, ExternalLink, Trash2, CheckCircle2, XCircle } from 'lucide-react';
+import { History, ExternalLink, Trash2, CheckCircle2, XCircle, GitCommit, Boxes } from 'lucide-react';
 import { Button } from './ui/Button';
 import { ProjectHistory as ProjectHistoryType } from '@/types';
 import { clearHistory } from '@/lib/storage';
+import { formatCost, formatTokens } from '@/lib/usage';
 import { GitBranch } from 'lucide-react';
 
 interface ProjectHistoryProps {
   projects: ProjectHistoryType[];
   onClearHistory: () => void;
   onOpenRepoManager: () => void; // NEW!
+  onOpenInventory: () => void; // Repos, Vercel and Supabase projects across builds
+  onOpenTimeline: (project: ProjectHistoryType) => void; // Generations of the project's repo
 }
 
-export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ projects, onClearHistory, onOpenRepoManager }) => {
+export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ projects, onClearHistory, onOpenRepoManager, onOpenInventory, onOpenTimeline }) => {
   const handleClear = () => {
     if (window.confirm('Are you sure you want to clear all project history?')) {
       clearHistory();
@@ -56,6 +59,16 @@ export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ projects, onClea
           <GitBranch className="h-3 w-3 mr-1" />
           Manage Repositories
         </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onOpenInventory}
+          className="w-full text-xs text-zinc-400 hover:text-red-400 h-8 mb-2"
+        >
+          <Boxes className="h-3 w-3 mr-1" />
+          Resource Inventory
+        </Button>
         
         {projects.length > 0 && (
           <Button
@@ -97,6 +110,11 @@ export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ projects, onClea
               <h3 className="text-sm font-medium text-white mb-1 pr-6 truncate">
                 {project.name}
               </h3>
+              {project.dryRun && (
+                <span className="inline-block mb-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/10 text-amber-500">
+                  🧪 Dry run
+                </span>
+              )}
 
               {/* Prompt Preview */}
               <p className="text-xs text-zinc-400 mb-2 line-clamp-2 leading-relaxed">
@@ -104,7 +122,7 @@ export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ projects, onClea
               </p>
 
               {/* Quick Links */}
-              {project.success && (
+              {project.success && !project.dryRun && (
                 <div className="flex items-center gap-1.5 mb-2">
                   {project.githubUrl && (
                     <a
@@ -145,9 +163,38 @@ export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ projects, onClea
                 </div>
               )}
 
-              {/* Timestamp */}
+              {project.commitSha && project.projectContext && (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 px-2 py-1 mb-2 text-xs text-zinc-400 hover:text-red-400 bg-zinc-800/50 hover:bg-zinc-800 rounded transition-colors"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onOpenTimeline(project);
+                  }}
+                >
+                  <GitCommit className="h-3 w-3" />
+                  {project.commitSha.slice(0, 7)} • Timeline
+                </button>
+              )}
+
+              {/* Timestamp + Usage */}
               <p className="text-xs text-zinc-600">
                 {formatDate(project.createdAt)}
+                {project.usage && (
+                  <span
+                    title={Object.entries(project.usage.byModel)
+                      .map(([model, u]) => `${model}: ${formatTokens(u.inputTokens)} in / ${formatTokens(u.outputTokens)} out, ${formatCost(u.costUsd)}`)
+                      .join('\n')}
+                  >
+                    {' • '}
+                    {formatTokens(
+                      project.usage.total.inputTokens +
+                      project.usage.total.outputTokens +
+                      project.usage.total.cacheCreationTokens +
+                      project.usage.total.cacheReadTokens
+                    )} tokens • {formatCost(project.usage.total.costUsd)}
+                  </span>
+                )}
               </p>
             </div>
           ))
@@ -0,0 +1,69 @@
+/**
+ * PullRequestBar Component
+ * Open pull requests from the branch workflow, with preview, merge and discard actions
+ */
+
+import React from 'react';
+import { GitPullRequest, GitMerge, Trash2, ExternalLink, Eye, Loader2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { PullRequestInfo } from '@/types';
+
+interface PullRequestBarProps {
+  pullRequests: PullRequestInfo[];
+  busyNumber: number | null; // PR with a merge/discard in flight
+  onPreview: (pr: PullRequestInfo) => void;
+  onMerge: (pr: PullRequestInfo) => void;
+  onDiscard: (pr: PullRequestInfo) => void;
+}
+
+export const PullRequestBar: React.FC<PullRequestBarProps> = ({
+  pullRequests,
+  busyNumber,
+  onPreview,
+  onMerge,
+  onDiscard,
+}) => {
+  if (pullRequests.length === 0) return null;
+
+  return (
+    <div className="border-b border-zinc-800/50 bg-zinc-950/60 backdrop-blur-xl">
+      {pullRequests.map(pr => {
+        const busy = busyNumber === pr.number;
+        return (
+          <div key={`${pr.repo}#${pr.number}`} className="flex items-center gap-3 px-4 py-2 text-sm">
+            <GitPullRequest className="h-4 w-4 shrink-0 text-green-400" />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate font-medium text-white">{pr.title}</span>
+                <a
+                  href={pr.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex shrink-0 items-center gap-1 text-xs text-zinc-400 hover:text-white"
+                >
+                  #{pr.number}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </div>
+              <code className="block truncate text-xs text-zinc-500">{pr.branch}</code>
+            </div>
+            {pr.previewUrl && (
+              <Button variant="ghost" size="sm" onClick={() => onPreview(pr)} disabled={busy}>
+                <Eye className="mr-1.5 h-4 w-4" />
+                Preview
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => onDiscard(pr)} disabled={busyNumber !== null}>
+              <Trash2 className="mr-1.5 h-4 w-4" />
+              Discard
+            </Button>
+            <Button size="sm" onClick={() => onMerge(pr)} disabled={busyNumber !== null}>
+              {busy ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <GitMerge className="mr-1.5 h-4 w-4" />}
+              Merge
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { X, Trash2, ExternalLink, Boxes, Github, Triangle, Database, AlertCircle, AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from './ui/Button';
+import { ProjectHistory } from '@/types';
+import { loadRunJournals } from '@/lib/storage';
+import { ToolBackend } from '@/lib/tools/backend';
+import { ResourceKind, RESOURCE_LABELS, describeResource } from '@/lib/resource-ledger';
+import { InventoryResource, ResourceInventory as Inventory, cleanupResources, loadResourceInventory } from '@/lib/resource-inventory';
+
+interface ResourceInventoryProps {
+  backend: ToolBackend | null; // Null until API keys are configured
+  history: ProjectHistory[];
+  onClose: () => void;
+}
+
+const RESOURCE_ICONS: Record<ResourceKind, React.ElementType> = {
+  github_repo: Github,
+  vercel_project: Triangle,
+  supabase_project: Database,
+};
+
+const resourceKey = (resource: InventoryResource) => `${resource.kind}:${resource.id}`;
+
+export const ResourceInventory: React.FC<ResourceInventoryProps> = ({ backend, history, onClose }) => {
+  const [inventory, setInventory] = useState<Inventory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Map<string, InventoryResource>>(new Map());
+  const [orphansOnly, setOrphansOnly] = useState(false);
+
+  useEffect(() => {
+    loadInventory();
+  }, []);
+
+  const loadInventory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSelected(new Map());
+
+      if (!backend) {
+        setError('API keys not configured');
+        return;
+      }
+
+      setInventory(await loadResourceInventory(backend, history, loadRunJournals()));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load resources');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (resource: InventoryResource) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(resourceKey(resource))) {
+        next.delete(resourceKey(resource));
+      } else {
+        next.set(resourceKey(resource), resource);
+      }
+      return next;
+    });
+  };
+
+  const selectOrphans = () => {
+    setSelected(new Map(inventory?.orphans.map(resource => [resourceKey(resource), resource])));
+  };
+
+  const handleCleanup = async () => {
+    const resources = [...selected.values()];
+    if (!backend || resources.length === 0) return;
+
+    const list = resources.map(resource => `• ${describeResource(resource)}`).join('\n');
+    if (!confirm(`⚠️ Delete these ${resources.length} resources?\n\n${list}\n\nThis action CANNOT be undone!`)) {
+      return;
+    }
+
+    // Double confirmation for safety
+    const confirmText = prompt(`Type "delete ${resources.length}" to confirm deletion:`);
+
+    if (confirmText !== `delete ${resources.length}`) {
+      alert('Confirmation does not match. Deletion cancelled.');
+      return;
+    }
+
+    setDeleting(true);
+    const results = await cleanupResources(backend, resources);
+    const failed = results.filter(r => !r.success);
+    setDeleting(false);
+
+    if (failed.length === 0) {
+      alert(`✅ Deleted ${results.length} resources`);
+    } else {
+      alert(`❌ Could not delete ${failed.length} of ${results.length} resources:\n\n${failed.map(r => `• ${describeResource(r.resource)}: ${r.error}`).join('\n')}`);
+    }
+    loadInventory();
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const renderResource = (resource: InventoryResource) => {
+    const Icon = RESOURCE_ICONS[resource.kind];
+    const checked = selected.has(resourceKey(resource));
+    return (
+      <label
+        key={resourceKey(resource)}
+        className={`flex items-center gap-3 rounded-lg border px-3 py-2.5 cursor-pointer transition-colors ${
+          checked ? 'border-red-500/40 bg-red-500/5' : 'border-zinc-700/50 bg-zinc-800/30 hover:bg-zinc-800/50'
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={() => toggle(resource)}
+          disabled={deleting}
+          className="accent-red-500"
+        />
+        <Icon className="h-4 w-4 shrink-0 text-zinc-400" />
+        <div className="flex-1 min-w-0">
+          <p className="truncate text-sm text-white">{resource.name}</p>
+          <p className="truncate text-xs text-zinc-500">
+            {RESOURCE_LABELS[resource.kind]} • <code>{resource.id}</code> • {formatDate(resource.createdAt)}
+          </p>
+          {resource.orphanReason && (
+            <p className="flex items-center gap-1 text-xs text-yellow-500 mt-0.5">
+              <AlertTriangle className="h-3 w-3" />
+              Orphaned: {resource.orphanReason}
+            </p>
+          )}
+        </div>
+        {resource.url && (
+          <a
+            href={resource.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors"
+            title="Open"
+          >
+            <ExternalLink className="h-4 w-4 text-zinc-400 hover:text-red-400" />
+          </a>
+        )}
+      </label>
+    );
+  };
+
+  const visible = (resources: InventoryResource[]) =>
+    orphansOnly ? resources.filter(resource => resource.orphanReason) : resources;
+  const builds = inventory?.builds.filter(build => visible(build.resources).length > 0) ?? [];
+  const unlinked = visible(inventory?.unlinked ?? []);
+  const total = inventory ? inventory.builds.reduce((sum, build) => sum + build.resources.length, 0) + inventory.unlinked.length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-zinc-800 flex items-center justify-between bg-zinc-900/50 backdrop-blur-xl">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+              <Boxes className="h-6 w-6 text-red-400" />
+              Resource Inventory
+            </h2>
+            <p className="text-sm text-zinc-400 mt-1">
+              {total} resources • {inventory?.orphans.length ?? 0} orphaned • GitHub, Vercel and Supabase
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={loadInventory}
+              disabled={loading || deleting}
+              className="h-10 w-10"
+            >
+              <RefreshCw className={`h-5 w-5 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onClose} disabled={deleting} className="h-10 w-10">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 border-b border-zinc-800/50 bg-zinc-900/30 flex items-center gap-2">
+          <Button variant={orphansOnly ? 'outline' : 'default'} size="sm" onClick={() => setOrphansOnly(false)}>
+            All Resources
+          </Button>
+          <Button variant={orphansOnly ? 'default' : 'outline'} size="sm" onClick={() => setOrphansOnly(true)}>
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            Orphans Only
+          </Button>
+        </div>
+
+        {/* Resource List */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {loading ? (
+            <div className="flex flex-col items-center justify-center h-64 text-zinc-500">
+              <Loader2 className="h-12 w-12 animate-spin mb-4" />
+              <p>Loading resources...</p>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center h-64 text-red-400">
+              <AlertCircle className="h-12 w-12 mb-4" />
+              <p className="text-lg font-medium">{error}</p>
+              <Button onClick={loadInventory} className="mt-4">
+                Try Again
+              </Button>
+            </div>
+          ) : (
+            <>
+              {Object.entries(inventory?.errors ?? {}).map(([kind, message]) => (
+                <div key={kind} className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20 text-xs text-yellow-500/90 flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <span>Could not list {RESOURCE_LABELS[kind as ResourceKind]}s: {message}</span>
+                </div>
+              ))}
+
+              {builds.length === 0 && unlinked.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-64 text-zinc-500">
+                  <Boxes className="h-12 w-12 mb-4 opacity-20" />
+                  <p className="text-lg">{orphansOnly ? 'No orphaned resources' : 'No resources found'}</p>
+                </div>
+              ) : (
+                <>
+                  {builds.map(build => (
+                    <section key={build.githubRepo ?? `${build.name}-${build.lastBuiltAt}`}>
+                      <h3 className="text-sm font-semibold text-white mb-2">
+                        {build.name}
+                        <span className="ml-2 text-xs font-normal text-zinc-500">
+                          Brainiac build • {formatDate(build.lastBuiltAt)}
+                        </span>
+                      </h3>
+                      <div className="grid grid-cols-1 gap-2">
+                        {visible(build.resources).map(renderResource)}
+                      </div>
+                    </section>
+                  ))}
+
+                  {unlinked.length > 0 && (
+                    <section>
+                      <h3 className="text-sm font-semibold text-white mb-2">
+                        Other Resources
+                        <span className="ml-2 text-xs font-normal text-zinc-500">Not recorded by any Brainiac build</span>
+                      </h3>
+                      <div className="grid grid-cols-1 gap-2">
+                        {unlinked.map(renderResource)}
+                      </div>
+                    </section>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-zinc-800/50 bg-zinc-900/50 flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2 text-zinc-600">
+            <AlertCircle className="h-4 w-4" />
+            <span>Deletion is permanent and cannot be undone</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={selectOrphans}
+              disabled={loading || deleting || !inventory?.orphans.length}
+            >
+              Select Orphans
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleCleanup}
+              disabled={loading || deleting || selected.size === 0}
+            >
+              {deleting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+              Delete Selected ({selected.size})
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
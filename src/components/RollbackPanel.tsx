@@ -0,0 +1,75 @@
+/**
+ * RollbackPanel Component
+ * Offers to delete the cloud resources a failed or cancelled build left behind
+ */
+
+import React from 'react';
+import { Undo2, Github, Triangle, Database, Loader2 } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { CreatedResource, ResourceKind, RESOURCE_LABELS } from '@/lib/resource-ledger';
+
+interface RollbackPanelProps {
+  resources: CreatedResource[] | null; // Modal is open while set
+  rollingBack: boolean;
+  onRollback: () => void;
+  onKeep: () => void;
+}
+
+const RESOURCE_ICONS: Record<ResourceKind, React.ElementType> = {
+  github_repo: Github,
+  vercel_project: Triangle,
+  supabase_project: Database,
+};
+
+export const RollbackPanel: React.FC<RollbackPanelProps> = ({ resources, rollingBack, onRollback, onKeep }) => {
+  return (
+    <Modal open={!!resources} onClose={rollingBack ? () => {} : onKeep} className="max-w-lg">
+      <div className="space-y-6">
+        <div className="flex items-center space-x-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-red-600/20">
+            <Undo2 className="h-6 w-6 text-red-500" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold">Clean Up Partial Build?</h2>
+            <p className="text-sm text-zinc-400">The build did not finish. These resources were already created.</p>
+          </div>
+        </div>
+
+        <ul className="space-y-2">
+          {resources?.map(resource => {
+            const Icon = RESOURCE_ICONS[resource.kind];
+            return (
+              <li
+                key={`${resource.kind}-${resource.id}`}
+                className="flex items-center gap-3 rounded-lg border border-zinc-800 bg-zinc-950/50 px-4 py-3"
+              >
+                <Icon className="h-4 w-4 shrink-0 text-zinc-400" />
+                <div className="min-w-0">
+                  <p className="truncate text-sm text-white">{resource.name}</p>
+                  <p className="text-xs text-zinc-500">
+                    {RESOURCE_LABELS[resource.kind]} • <code>{resource.id}</code>
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className="text-xs text-zinc-500">
+          Rolling back deletes them permanently. Keep them to resume the build or finish it by hand.
+        </p>
+
+        <div className="flex justify-end space-x-4">
+          <Button variant="outline" onClick={onKeep} disabled={rollingBack}>
+            Keep Resources
+          </Button>
+          <Button variant="destructive" onClick={onRollback} disabled={rollingBack}>
+            {rollingBack ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+            Roll Back
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
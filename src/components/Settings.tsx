@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Settings as SettingsIcon, Save, Eye, EyeOff } from 'lucide-react';
+import { Settings as SettingsIcon, Save, Eye, EyeOff, ShieldCheck, Loader2, CheckCircle2, AlertTriangle, XCircle, WifiOff, MinusCircle } from 'lucide-react';
 import { Modal } from './ui/Modal';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from './ui/Card';
 import { Settings as SettingsType } from '@/types';
-import { saveSettings, loadSettings, validateSettings } from '@/lib/storage';
+import { loadSettings, updateWorkspace, validateSettings } from '@/lib/storage';
+import { CredentialCheck, CredentialReport, CredentialStatus, hasInvalidCredentials, validateCredentials } from '@/lib/credential-validation';
+import { cn } from '@/lib/utils';
 
 interface SettingsProps {
   open: boolean;
@@ -13,6 +15,38 @@ interface SettingsProps {
   onSave: (settings: SettingsType) => void;
 }
 
+const STATUS_STYLES: Record<CredentialStatus, { icon: React.ElementType; className: string }> = {
+  valid: { icon: CheckCircle2, className: 'text-green-500' },
+  warning: { icon: AlertTriangle, className: 'text-yellow-500' },
+  invalid: { icon: XCircle, className: 'text-red-500' },
+  unreachable: { icon: WifiOff, className: 'text-zinc-400' },
+  skipped: { icon: MinusCircle, className: 'text-zinc-500' },
+};
+
+// Result of the live check for one provider
+const CredentialStatusLine: React.FC<{ result?: CredentialCheck; checking: boolean }> = ({ result, checking }) => {
+  if (checking) {
+    return (
+      <p className="flex items-center gap-2 text-xs text-zinc-400">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" /> Checking...
+      </p>
+    );
+  }
+  if (!result) return null;
+
+  const { icon: Icon, className } = STATUS_STYLES[result.status];
+  return (
+    <div className="space-y-1">
+      <p className={cn('flex items-center gap-2 text-xs font-medium', className)}>
+        <Icon className="h-3.5 w-3.5" /> {result.summary}
+      </p>
+      {result.messages.map(message => (
+        <p key={message} className="pl-5 text-xs text-zinc-400">{message}</p>
+      ))}
+    </div>
+  );
+};
+
 export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) => {
   const [settings, setSettings] = useState<SettingsType>({
     apiKeys: {
@@ -42,23 +76,60 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
     vercel: false,
   });
 
+  const [workspaceName, setWorkspaceName] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
+  const [report, setReport] = useState<CredentialReport | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  // Results no longer apply once a key changes
+  useEffect(() => {
+    setReport(null);
+  }, [settings.apiKeys, settings.llm, settings.preferences.dryRun]);
 
   useEffect(() => {
     const saved = loadSettings();
     if (saved) {
-      setSettings(saved);
+      const { id: _id, name, model: _model, ...workspaceSettings } = saved;
+      setSettings(workspaceSettings);
+      setWorkspaceName(name);
     }
   }, [open]);
 
-  const handleSave = () => {
+  const testCredentials = async (): Promise<CredentialReport> => {
+    setChecking(true);
+    try {
+      const result = await validateCredentials(settings);
+      setReport(result);
+      return result;
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const credentialCheckFailed = (err: any) => {
+    console.error('Credential check failed:', err);
+    setError(`Could not check the credentials: ${err?.message || 'unknown error'}. Try again in a moment.`);
+  };
+
+  const handleSave = async (force = false) => {
     if (!validateSettings(settings)) {
       setError('Please fill in all required fields');
       return;
     }
 
-    saveSettings(settings);
+    // Check the keys first unless they were just tested or the user chose to keep them
+    try {
+      if (!force && hasInvalidCredentials(report ?? await testCredentials())) {
+        setError('Some credentials were rejected. Fix them, or save anyway if you know they are right.');
+        return;
+      }
+    } catch (err) {
+      credentialCheckFailed(err);
+      return;
+    }
+
+    updateWorkspace({ ...settings, name: workspaceName.trim() || 'Untitled' });
     setSuccess(true);
     setError('');
     
@@ -83,36 +154,55 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
           </div>
           <div>
             <h2 className="text-3xl font-bold">Settings</h2>
-            <p className="text-sm text-zinc-400">Configure your API keys and preferences</p>
+            <p className="text-sm text-zinc-400">API keys and preferences for the {workspaceName || 'current'} workspace</p>
           </div>
         </div>
 
+        <Input
+          label="Workspace Name"
+          type="text"
+          placeholder="Acme Corp"
+          value={workspaceName}
+          onChange={(e) => setWorkspaceName(e.target.value)}
+        />
+
         {/* API Keys Section */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-xl">🔑 API Keys</CardTitle>
-            <CardDescription>Your keys are stored securely in your browser</CardDescription>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="text-xl">🔑 API Keys</CardTitle>
+                <CardDescription>Your keys are encrypted with your passphrase and stored in this browser</CardDescription>
+              </div>
+              <Button variant="outline" onClick={() => testCredentials().catch(credentialCheckFailed)} disabled={checking}>
+                {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+                Test Credentials
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
             {/* Anthropic */}
-            <div className="relative">
-              <Input
-                label="Anthropic API Key"
-                type={showKeys.anthropic ? 'text' : 'password'}
-                placeholder="sk-ant-..."
-                value={settings.apiKeys.anthropic}
-                onChange={(e) => setSettings({
-                  ...settings,
-                  apiKeys: { ...settings.apiKeys, anthropic: e.target.value }
-                })}
-              />
-              <button
-                type="button"
-                onClick={() => toggleShowKey('anthropic')}
-                className="absolute right-3 top-9 text-zinc-400 hover:text-white"
-              >
-                {showKeys.anthropic ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-              </button>
+            <div className="space-y-3">
+              <div className="relative">
+                <Input
+                  label="Anthropic API Key"
+                  type={showKeys.anthropic ? 'text' : 'password'}
+                  placeholder="sk-ant-..."
+                  value={settings.apiKeys.anthropic}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    apiKeys: { ...settings.apiKeys, anthropic: e.target.value }
+                  })}
+                />
+                <button
+                  type="button"
+                  onClick={() => toggleShowKey('anthropic')}
+                  className="absolute right-3 top-9 text-zinc-400 hover:text-white"
+                >
+                  {showKeys.anthropic ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </button>
+              </div>
+              <CredentialStatusLine result={report?.anthropic} checking={checking} />
             </div>
 
             {/* Supabase */}
@@ -152,6 +242,7 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
                   }
                 })}
               />
+              <CredentialStatusLine result={report?.supabase} checking={checking} />
             </div>
 
             {/* GitHub */}
@@ -191,10 +282,11 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
                   }
                 })}
               />
+              <CredentialStatusLine result={report?.github} checking={checking} />
             </div>
 
             {/* Vercel */}
-            <div className="border-t border-zinc-800 pt-4">
+            <div className="space-y-3 border-t border-zinc-800 pt-4">
               <div className="relative">
                 <Input
                   label="Vercel Access Token"
@@ -205,7 +297,7 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
                     ...settings,
                     apiKeys: { 
                       ...settings.apiKeys, 
-                      vercel: { token: e.target.value }
+                      vercel: { ...settings.apiKeys.vercel, token: e.target.value }
                     }
                   })}
                 />
@@ -217,7 +309,86 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
                   {showKeys.vercel ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                 </button>
               </div>
+              <Input
+                label="Vercel Team ID (optional)"
+                type="text"
+                placeholder="team_..."
+                value={settings.apiKeys.vercel.teamId || ''}
+                onChange={(e) => setSettings({
+                  ...settings,
+                  apiKeys: {
+                    ...settings.apiKeys,
+                    vercel: { ...settings.apiKeys.vercel, teamId: e.target.value || undefined }
+                  }
+                })}
+              />
+              <CredentialStatusLine result={report?.vercel} checking={checking} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Model Provider Section */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">🧠 Model Provider</CardTitle>
+            <CardDescription>Use Anthropic or any OpenAI-compatible server (Ollama, LM Studio, vLLM)</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex space-x-4">
+              <Button
+                variant={(settings.llm?.provider ?? 'anthropic') === 'anthropic' ? 'default' : 'outline'}
+                onClick={() => setSettings({
+                  ...settings,
+                  llm: { ...settings.llm, provider: 'anthropic' }
+                })}
+              >
+                Anthropic
+              </Button>
+              <Button
+                variant={settings.llm?.provider === 'openai-compatible' ? 'default' : 'outline'}
+                onClick={() => setSettings({
+                  ...settings,
+                  llm: { ...settings.llm, provider: 'openai-compatible' }
+                })}
+              >
+                OpenAI-compatible
+              </Button>
             </div>
+
+            {settings.llm?.provider === 'openai-compatible' && (
+              <div className="space-y-3">
+                <Input
+                  label="Base URL"
+                  type="text"
+                  placeholder="http://localhost:11434/v1"
+                  value={settings.llm.baseUrl || ''}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    llm: { ...settings.llm!, baseUrl: e.target.value }
+                  })}
+                />
+                <Input
+                  label="Model"
+                  type="text"
+                  placeholder="qwen2.5-coder:32b"
+                  value={settings.llm.model || ''}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    llm: { ...settings.llm!, model: e.target.value }
+                  })}
+                />
+                <Input
+                  label="API Key (optional)"
+                  type="password"
+                  placeholder="Leave empty for local servers"
+                  value={settings.llm.apiKey || ''}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    llm: { ...settings.llm!, apiKey: e.target.value }
+                  })}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -263,6 +434,126 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
                 preferences: { ...settings.preferences, defaultRegion: e.target.value }
               })}
             />
+
+            <Input
+              label="Budget per Build (USD)"
+              type="number"
+              min="0"
+              step="0.5"
+              placeholder="No limit"
+              value={settings.preferences.buildBudgetUsd ?? ''}
+              onChange={(e) => setSettings({
+                ...settings,
+                preferences: {
+                  ...settings.preferences,
+                  buildBudgetUsd: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                }
+              })}
+            />
+
+            <Input
+              label="Fix Attempts for Failed Deployments"
+              type="number"
+              min="0"
+              max="5"
+              step="1"
+              placeholder="2"
+              value={settings.preferences.deployHealAttempts ?? ''}
+              onChange={(e) => setSettings({
+                ...settings,
+                preferences: {
+                  ...settings.preferences,
+                  deployHealAttempts: e.target.value === '' ? undefined : Math.min(5, Math.max(0, Math.round(Number(e.target.value)))),
+                }
+              })}
+            />
+
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">
+                Build Plan
+              </label>
+              <div className="flex space-x-4">
+                <Button
+                  variant={!settings.preferences.planFirst ? 'default' : 'outline'}
+                  onClick={() => setSettings({
+                    ...settings,
+                    preferences: { ...settings.preferences, planFirst: false }
+                  })}
+                >
+                  Build Immediately
+                </Button>
+                <Button
+                  variant={settings.preferences.planFirst ? 'default' : 'outline'}
+                  onClick={() => setSettings({
+                    ...settings,
+                    preferences: { ...settings.preferences, planFirst: true }
+                  })}
+                >
+                  📋 Review Plan First
+                </Button>
+              </div>
+              <p className="text-xs text-zinc-500 mt-2">
+                Shows the template, files, database and deployment steps for approval before any repo or project is created. Follow-up edits to the current project run straight away.
+              </p>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">
+                Build Mode
+              </label>
+              <div className="flex space-x-4">
+                <Button
+                  variant={!settings.preferences.dryRun ? 'default' : 'outline'}
+                  onClick={() => setSettings({
+                    ...settings,
+                    preferences: { ...settings.preferences, dryRun: false }
+                  })}
+                >
+                  Live
+                </Button>
+                <Button
+                  variant={settings.preferences.dryRun ? 'default' : 'outline'}
+                  onClick={() => setSettings({
+                    ...settings,
+                    preferences: { ...settings.preferences, dryRun: true }
+                  })}
+                >
+                  🧪 Dry Run
+                </Button>
+              </div>
+              <p className="text-xs text-zinc-500 mt-2">
+                Dry runs build into an in-memory workspace and only update the preview. No repos, Vercel or Supabase projects are created.
+              </p>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">
+                Follow-up Changes
+              </label>
+              <div className="flex space-x-4">
+                <Button
+                  variant={!settings.preferences.branchWorkflow ? 'default' : 'outline'}
+                  onClick={() => setSettings({
+                    ...settings,
+                    preferences: { ...settings.preferences, branchWorkflow: false }
+                  })}
+                >
+                  Commit to Main
+                </Button>
+                <Button
+                  variant={settings.preferences.branchWorkflow ? 'default' : 'outline'}
+                  onClick={() => setSettings({
+                    ...settings,
+                    preferences: { ...settings.preferences, branchWorkflow: true }
+                  })}
+                >
+                  🔀 Branch + Pull Request
+                </Button>
+              </div>
+              <p className="text-xs text-zinc-500 mt-2">
+                Each follow-up request is committed to a new branch with its own Vercel preview and opened as a pull request you can merge or discard. Production only changes when you merge.
+              </p>
+            </div>
           </CardContent>
         </Card>
 
@@ -283,8 +574,13 @@ export const Settings: React.FC<SettingsProps> = ({ open, onClose, onSave }) =>
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handleSave}>
-            <Save className="mr-2 h-4 w-4" />
+          {error && report && hasInvalidCredentials(report) && (
+            <Button variant="outline" onClick={() => handleSave(true)}>
+              Save Anyway
+            </Button>
+          )}
+          <Button onClick={() => handleSave()} disabled={checking}>
+            {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
             Save Settings
           </Button>
         </div>
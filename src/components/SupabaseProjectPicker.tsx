@@ -0,0 +1,132 @@
+/**
+ * SupabaseProjectPicker Component
+ * Picks an existing Supabase project for the next build instead of creating one
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Database, Plus, Check, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { ToolBackend } from '@/lib/tools/backend';
+import { SupabaseProjectSummary } from '@/lib/tools/supabase-backend';
+
+interface SupabaseProjectPickerProps {
+  open: boolean;
+  backend: ToolBackend | null; // Null until API keys are configured
+  selectedRef?: string;
+  onSelect: (project: SupabaseProjectSummary | null) => void; // Null: create a new project
+  onClose: () => void;
+}
+
+export const SupabaseProjectPicker: React.FC<SupabaseProjectPickerProps> = ({
+  open,
+  backend,
+  selectedRef,
+  onSelect,
+  onClose,
+}) => {
+  const [projects, setProjects] = useState<SupabaseProjectSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) loadProjects();
+  }, [open]);
+
+  const loadProjects = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!backend) {
+        setError('API keys not configured');
+        return;
+      }
+
+      setProjects(await backend.listSupabaseProjects());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load Supabase projects');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const choose = (project: SupabaseProjectSummary | null) => {
+    onSelect(project);
+    onClose();
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} className="max-w-2xl">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Database</h2>
+            <p className="text-sm text-zinc-400 mt-1">
+              Reuse one of your Supabase projects: the build fetches its keys and applies the app's migrations to it.
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={loadProjects} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        <button
+          onClick={() => choose(null)}
+          className={`w-full flex items-center gap-3 rounded-lg border px-4 py-3 text-left transition-colors ${
+            !selectedRef ? 'border-red-500/40 bg-red-500/5' : 'border-zinc-800 bg-zinc-950/50 hover:bg-zinc-800/50'
+          }`}
+        >
+          <Plus className="h-4 w-4 shrink-0 text-zinc-400" />
+          <div className="flex-1">
+            <p className="text-sm text-white">Create a new project</p>
+            <p className="text-xs text-zinc-500">Only when the app needs a database • takes about 3 minutes</p>
+          </div>
+          {!selectedRef && <Check className="h-4 w-4 text-red-400" />}
+        </button>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-zinc-500">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading projects...
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        ) : projects.length === 0 ? (
+          <p className="text-sm text-zinc-500 text-center py-4">No existing Supabase projects</p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {projects.map(project => {
+              const available = project.status === 'ACTIVE_HEALTHY';
+              const selected = project.ref === selectedRef;
+              return (
+                <li key={project.ref}>
+                  <button
+                    onClick={() => choose(project)}
+                    disabled={!available}
+                    className={`w-full flex items-center gap-3 rounded-lg border px-4 py-3 text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      selected ? 'border-red-500/40 bg-red-500/5' : 'border-zinc-800 bg-zinc-950/50 hover:bg-zinc-800/50'
+                    }`}
+                  >
+                    <Database className="h-4 w-4 shrink-0 text-zinc-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-sm text-white">{project.name}</p>
+                      <p className="text-xs text-zinc-500">
+                        <code>{project.ref}</code> • {project.region}
+                        {!available && ` • ${project.status} (restore it in the Supabase dashboard first)`}
+                      </p>
+                    </div>
+                    {selected && <Check className="h-4 w-4 text-red-400" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Wrench, CheckCircle2, XCircle, ChevronDown } from 'lucide-react';
+import { ToolCallInfo } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ToolCallCardProps {
+  toolCall: ToolCallInfo;
+}
+
+// Human-friendly labels for the agent's tools
+const TOOL_LABELS: Record<string, string> = {
+  create_app_from_template: 'Create app from template',
+  create_supabase_project: 'Create Supabase project',
+  create_github_repo: 'Create GitHub repo',
+  read_github_file: 'Read file',
+  create_github_file: 'Create file',
+  update_github_file: 'Update file',
+  create_vercel_project: 'Deploy to Vercel',
+  add_vercel_env_var: 'Add env variable',
+  trigger_vercel_deployment: 'Trigger deployment',
+};
+
+// Never render these values (secrets or huge blobs)
+const HIDDEN_INPUT_KEYS = ['value', 'content', 'customize_app', 'sha'];
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+const summarizeInput = (input: unknown): string[] => {
+  if (!input || typeof input !== 'object') return [];
+
+  return Object.entries(input as Record<string, unknown>).map(([key, value]) => {
+    if (typeof value === 'string' && HIDDEN_INPUT_KEYS.includes(key)) {
+      return key === 'content' || key === 'customize_app' ? `${key}: [${value.length} chars]` : `${key}: ••••`;
+    }
+    if (typeof value === 'string') return `${key}: ${truncate(value, 60)}`;
+    return `${key}: ${truncate(JSON.stringify(value), 60)}`;
+  });
+};
+
+const summarizeResult = (result: unknown): string => {
+  if (result === undefined || result === null) return '';
+  if (typeof result !== 'object') return truncate(String(result), 200);
+
+  const r = result as Record<string, any>;
+  if (r.error) return String(r.error);
+  if (r.repo_url) return `${r.repo_url}${r.files_created ? ` • ${r.files_created} files` : ''}`;
+  if (r.html_url) return r.html_url;
+  if (r.url) return r.url;
+  if (r.dashboard_url) return r.dashboard_url;
+  if (r.path) return r.path;
+  return truncate(JSON.stringify(result), 200);
+};
+
+export const ToolCallCard: React.FC<ToolCallCardProps> = ({ toolCall }) => {
+  const [expanded, setExpanded] = useState(false);
+  const inputLines = summarizeInput(toolCall.input);
+  const resultSummary = summarizeResult(toolCall.result);
+
+  return (
+    <div
+      className={cn(
+        'w-full max-w-md rounded-xl border bg-zinc-900/60 text-xs transition-colors',
+        toolCall.status === 'running' && 'border-zinc-700',
+        toolCall.status === 'succeeded' && 'border-green-500/20',
+        toolCall.status === 'failed' && 'border-red-500/30'
+      )}
+    >
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+      >
+        {toolCall.status === 'running' ? (
+          <div className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-red-500 border-t-transparent" />
+        ) : toolCall.status === 'succeeded' ? (
+          <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+        ) : (
+          <XCircle className="h-3.5 w-3.5 text-red-500" />
+        )}
+        <Wrench className="h-3 w-3 text-zinc-500" />
+        <span className="font-medium text-zinc-200 flex-1 truncate">
+          {TOOL_LABELS[toolCall.name] || toolCall.name}
+        </span>
+        <span className="text-zinc-500 capitalize">{toolCall.status}</span>
+        <ChevronDown className={cn('h-3 w-3 text-zinc-500 transition-transform', expanded && 'rotate-180')} />
+      </button>
+
+      {/* Summarized input is always visible; details on expand */}
+      {inputLines.length > 0 && (
+        <p className="px-3 pb-2 text-zinc-500 font-mono truncate">{inputLines.join(' • ')}</p>
+      )}
+
+      {resultSummary && toolCall.status !== 'running' && (
+        <p
+          className={cn(
+            'px-3 pb-2 break-all',
+            toolCall.status === 'failed' ? 'text-red-400' : 'text-zinc-400'
+          )}
+        >
+          {resultSummary}
+        </p>
+      )}
+
+      {expanded && (
+        <div className="border-t border-zinc-800 px-3 py-2 space-y-1 font-mono text-zinc-500">
+          {inputLines.map((line, i) => (
+            <p key={i} className="break-all">{line}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
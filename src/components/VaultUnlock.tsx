@@ -0,0 +1,144 @@
+/**
+ * VaultUnlock Component
+ * Asks for the passphrase that encrypts saved settings: unlocks an existing
+ * vault, or creates one (moving any plaintext settings into it)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { AUTO_LOCK_AFTER_MS, VaultError, createVault, hasVault, loadPlaintextSettings, resetVault, unlockVault } from '@/lib/vault';
+
+interface VaultUnlockProps {
+  open: boolean;
+  onUnlock: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const VaultUnlock: React.FC<VaultUnlockProps> = ({ open, onUnlock }) => {
+  const [mode, setMode] = useState<'unlock' | 'create'>('unlock');
+  const [migrating, setMigrating] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode(hasVault() ? 'unlock' : 'create');
+    setMigrating(!!loadPlaintextSettings());
+    setPassphrase('');
+    setConfirmation('');
+    setError('');
+    setConfirmReset(false);
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'create') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    setBusy(true);
+    setError('');
+    try {
+      if (mode === 'create') {
+        await createVault(passphrase);
+      } else {
+        await unlockVault(passphrase);
+      }
+      onUnlock();
+    } catch (err) {
+      setError(err instanceof VaultError ? err.message : 'Could not open the vault');
+      console.error('❌ Vault error:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReset = () => {
+    resetVault();
+    setMode('create');
+    setMigrating(false);
+    setPassphrase('');
+    setError('');
+    setConfirmReset(false);
+  };
+
+  const description = mode === 'unlock'
+    ? 'Enter your passphrase to decrypt your saved API keys'
+    : migrating
+      ? 'Your API keys are saved unencrypted. Choose a passphrase to encrypt them.'
+      : 'Choose a passphrase to encrypt the API keys you save';
+
+  return (
+    <Modal open={open} onClose={() => {}} className="max-w-md">
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        <div className="flex items-center space-x-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-red-600/20">
+            <Lock className="h-6 w-6 text-red-500" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold">{mode === 'unlock' ? 'Unlock Brainiac' : 'Protect Your Keys'}</h2>
+            <p className="text-sm text-zinc-400">{description}</p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <Input
+            label="Passphrase"
+            type="password"
+            autoFocus
+            autoComplete={mode === 'unlock' ? 'current-password' : 'new-password'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            error={mode === 'unlock' ? error : undefined}
+          />
+          {mode === 'create' && (
+            <Input
+              label="Confirm Passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              error={error}
+            />
+          )}
+        </div>
+
+        {mode === 'create' && (
+          <p className="text-xs text-zinc-500">
+            The passphrase never leaves this browser and cannot be recovered. Brainiac locks itself after {AUTO_LOCK_AFTER_MS / 60_000} minutes without activity.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          {mode === 'unlock' ? (
+            <button
+              type="button"
+              onClick={() => (confirmReset ? handleReset() : setConfirmReset(true))}
+              className="text-xs text-zinc-500 hover:text-red-400"
+            >
+              {confirmReset ? 'Delete saved keys and start over?' : 'Forgot passphrase?'}
+            </button>
+          ) : <span />}
+          <Button type="submit" disabled={busy || !passphrase}>
+            {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+            {mode === 'unlock' ? 'Unlock' : migrating ? 'Encrypt Keys' : 'Create Vault'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
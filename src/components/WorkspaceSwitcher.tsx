@@ -0,0 +1,131 @@
+/**
+ * WorkspaceSwitcher Component
+ * Sidebar dropdown for picking, adding and removing workspaces
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Briefcase, Check, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Workspace } from '@/types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  disabled?: boolean; // While a build runs
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (workspaceId: string) => void;
+}
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeWorkspaceId,
+  disabled = false,
+  onSwitch,
+  onCreate,
+  onDelete,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const active = workspaces.find(w => w.id === activeWorkspaceId);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+    setOpen(false);
+  };
+
+  const handleDelete = (workspace: Workspace) => {
+    if (window.confirm(`Delete the "${workspace.name}" workspace? Its keys, history and saved runs are removed from this browser.`)) {
+      onDelete(workspace.id);
+    }
+  };
+
+  return (
+    <div className="relative mb-3" ref={dropdownRef}>
+      <button
+        type="button"
+        onClick={() => !disabled && setOpen(!open)}
+        disabled={disabled}
+        className={cn(
+          'w-full flex items-center gap-2 px-3 py-2 rounded-lg border border-zinc-800 text-xs transition-colors',
+          disabled ? 'text-zinc-600 cursor-not-allowed' : 'text-zinc-300 hover:bg-zinc-800/60'
+        )}
+        title={disabled ? 'Workspaces cannot be switched during a build' : undefined}
+      >
+        <Briefcase className="h-3.5 w-3.5 shrink-0" />
+        <span className="flex-1 truncate text-left font-medium">{active?.name ?? 'Workspace'}</span>
+        <ChevronDown className={cn('h-3 w-3 transition-transform', open && 'rotate-180')} />
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 right-0 mt-2 rounded-xl border border-zinc-800 bg-zinc-900 shadow-xl z-50 overflow-hidden">
+          <div className="p-2 space-y-0.5">
+            {workspaces.map(workspace => (
+              <div
+                key={workspace.id}
+                className={cn(
+                  'group flex items-center gap-2 px-3 py-2 rounded-lg transition-colors',
+                  workspace.id === activeWorkspaceId ? 'bg-red-500/10 text-white' : 'hover:bg-zinc-800 text-zinc-400 hover:text-white'
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSwitch(workspace.id);
+                    setOpen(false);
+                  }}
+                  className="flex-1 min-w-0 truncate text-left text-sm"
+                >
+                  {workspace.name}
+                </button>
+                {workspace.id === activeWorkspaceId ? (
+                  <Check className="h-4 w-4 text-red-400 shrink-0" />
+                ) : workspaces.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(workspace)}
+                    className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400"
+                    aria-label={`Delete ${workspace.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <form onSubmit={handleCreate} className="flex items-center gap-2 border-t border-zinc-800 p-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New workspace"
+              className="flex-1 min-w-0 rounded-lg bg-zinc-950 px-3 py-1.5 text-xs text-white placeholder:text-zinc-500 focus:outline-none focus:ring-1 focus:ring-red-500/40"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="rounded-lg p-1.5 text-zinc-400 hover:bg-zinc-800 hover:text-white disabled:opacity-40"
+              aria-label="Add workspace"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+/**
+ * React Hook for following a Vercel deployment
+ * Polls the deployment behind a preview URL until it is READY, ERROR or
+ * CANCELED, so the preview shows the real build progress instead of guessing.
+ */
+
+import { useEffect, useState } from 'react';
+import { ApiKeys } from '@/types';
+import { sleep } from '@/lib/utils';
+import { VercelDeploymentState, getVercelDeploymentStatus, isTerminalDeploymentState } from '@/lib/tools/vercel';
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * State of the deployment serving `url`. Starts at `knownState` (e.g. what the
+ * agent last saw); undefined once the state cannot be checked.
+ */
+export function useDeploymentState(
+  url: string,
+  vercelKeys: ApiKeys['vercel'] | null,
+  knownState?: VercelDeploymentState
+): VercelDeploymentState | undefined {
+  const [state, setState] = useState<VercelDeploymentState | undefined>(knownState ?? 'QUEUED');
+  const token = vercelKeys?.token;
+  const teamId = vercelKeys?.teamId;
+
+  useEffect(() => {
+    setState(knownState ?? 'QUEUED');
+    if (!url || (knownState && isTerminalDeploymentState(knownState))) return;
+    if (!token) {
+      setState(undefined);
+      return;
+    }
+
+    const controller = new AbortController();
+    const host = url.replace(/^https?:\/\//, '').replace(/\/.*$/, ''); // The API accepts a hostname in place of the id
+
+    (async () => {
+      for (;;) {
+        const status = await getVercelDeploymentStatus({ deployment_id: host }, { token, teamId }, controller.signal);
+        setState(status.state);
+        if (isTerminalDeploymentState(status.state)) return;
+        await sleep(POLL_INTERVAL_MS, controller.signal);
+      }
+    })().catch(error => {
+      if (controller.signal.aborted) return;
+      console.warn('⚠️ Could not follow the deployment; showing the preview as is:', error);
+      setState(undefined);
+    });
+
+    return () => controller.abort();
+  }, [url, token, teamId, knownState]);
+
+  return state;
+}
@@ -0,0 +1,1207 @@
+/**
+ * Agent Tools
+ * Built-in tools the agent can call to scaffold, edit and deploy an app.
+ * Register new tools here (or on the registry passed to runAgent).
+ */
+
+import { templates } from './templates';
+import { ERROR_CHECKER, PackageJson } from './error-checker';
+import { runPreDeploymentChecks } from './pre-deploy-checks';
+import { decodeBase64Utf8, selfHealWithFallbackModels } from './self-heal';
+import { applyFilePatch, FilePatch, HunkResult, isNewFilePatch } from './patch';
+import { DEFAULT_DEPLOY_HEAL_ATTEMPTS, DeploymentOutcome, followDeployment } from './deploy-heal';
+import { applyRepoMigrations, designDatabaseSchema as runSchemaDesign, loadRepoSchema } from './schema-design';
+import { diffSchemas, migrationPath, renderMigration, SCHEMA_FILE } from './schema-sql';
+import { DATABASE_TYPES_FILE, generateDatabaseTypes as renderDatabaseTypes } from './database-types';
+import { SecretUnavailableError, hasSecret, isSecretHandle, parseSecretHandle, resolveSecret, sealSecrets } from './secrets';
+import { ToolContext, ToolDefinition, ToolRegistry } from './tool-registry';
+
+// =============================================================================
+// TOOL INPUTS
+// =============================================================================
+
+export interface CreateAppFromTemplateInput {
+  template_id: string;
+  repo_name: string;
+  repo_description?: string;
+  customize_app?: string;
+}
+
+export interface CreateSupabaseProjectInput {
+  app_name: string;
+}
+
+export interface AttachSupabaseProjectInput {
+  project_ref?: string;
+}
+
+export interface DesignDatabaseSchemaInput {
+  requirements: string;
+  repo?: string;
+  migration_name?: string;
+}
+
+export interface GenerateDatabaseTypesInput {
+  repo?: string;
+}
+
+export interface CreateGithubRepoInput {
+  name: string;
+  description?: string;
+  private?: boolean;
+}
+
+export interface ReadGithubFileInput {
+  repo: string;
+  path: string;
+}
+
+export interface CreateGithubFileInput {
+  repo: string;
+  path: string;
+  content: string;
+  message: string;
+}
+
+export interface UpdateGithubFileInput extends CreateGithubFileInput {
+  sha: string;
+}
+
+export interface ApplyPatchInput {
+  repo: string;
+  message: string;
+  files: FilePatch[];
+}
+
+export interface ListRepoFilesInput {
+  repo?: string;
+  path_prefix?: string;
+}
+
+export interface SearchRepoInput {
+  repo?: string;
+  query: string;
+  is_regex?: boolean;
+  path_prefix?: string;
+  max_results?: number;
+}
+
+export interface CreateVercelProjectInput {
+  name: string;
+  github_repo: string;
+}
+
+export interface AddVercelEnvVarInput {
+  project_id: string;
+  key: string;
+  value: string;
+}
+
+export interface TriggerVercelDeploymentInput {
+  project_id?: string;
+  project_name?: string;
+}
+
+function isCodeFile(path: string): boolean {
+  return path.endsWith('.tsx') || path.endsWith('.ts') || path.endsWith('.jsx') || path.endsWith('.js');
+}
+
+// Repo from the input, else the project being edited, else the one created this run
+function resolveRepo(repo: string | undefined, ctx: ToolContext): string | undefined {
+  return repo || ctx.projectContext?.githubRepo || ctx.projectData.github?.name;
+}
+
+function sameRepo(a: string, b: string): boolean {
+  return a.split('/').pop() === b.split('/').pop();
+}
+
+// Branch workflow: reads see the working branch once it exists...
+function readBranch(repo: string, ctx: ToolContext): string | undefined {
+  const branch = ctx.projectData.branch;
+  return branch && sameRepo(repo, branch.repo) ? branch.name : undefined;
+}
+
+// ...and the first write to the edited project's repo creates it
+async function writeBranch(repo: string, ctx: ToolContext): Promise<string | undefined> {
+  if (!ctx.branch || !ctx.projectContext || !sameRepo(repo, ctx.projectContext.githubRepo)) return undefined;
+  if (!ctx.projectData.branch) {
+    await ctx.backend.createGithubBranch({ repo: ctx.projectContext.githubRepo, branch: ctx.branch });
+    ctx.projectData.branch = { name: ctx.branch, repo: ctx.projectContext.githubRepo };
+    console.log(`🌿 Created branch ${ctx.branch} for this change`);
+  }
+  return ctx.branch;
+}
+
+// 🕓 Remember the run's latest commit for the generation timeline
+function recordCommit(projectData: ToolContext['projectData'], sha: string | undefined): void {
+  if (sha) projectData.commit_sha = sha;
+}
+
+// 🔐 Service keys and passwords only leave the handler as secret:// handles
+function sealSupabaseCredentials<T extends { project_ref: string; service_key: string; db_password?: string }>(project: T): T {
+  return sealSecrets(project, 'supabase', project.project_ref, ['service_key', 'db_password']);
+}
+
+// Real value for a handle; Supabase service keys are fetched again when this
+// session never saw them, but the database password is only returned on create
+async function revealSecret(value: string, backend: ToolContext['backend']): Promise<string> {
+  const handle = isSecretHandle(value) ? parseSecretHandle(value) : null;
+  if (handle?.service === 'supabase' && !hasSecret(value)) {
+    if (handle.name !== 'service_key') {
+      throw new SecretUnavailableError(
+        value,
+        `The ${handle.name} of Supabase project ${handle.scope} is only known to the session that created the project and cannot be fetched again. Ask the user to reset it in the Supabase dashboard and set it on Vercel themselves.`
+      );
+    }
+    sealSupabaseCredentials(await backend.attachSupabaseProject({ project_ref: handle.scope }, () => {}));
+  }
+  return resolveSecret(value);
+}
+
+// Tool result for a deployment that did not come up
+function deploymentFailure(outcome: DeploymentOutcome) {
+  return {
+    error: outcome.timed_out
+      ? 'Vercel deployment is still building; check it again later'
+      : `Vercel deployment ${outcome.state === 'CANCELED' ? 'was canceled' : 'failed'}${outcome.heal_attempts > 0 ? ` after ${outcome.heal_attempts} heal attempt(s)` : ''}`,
+    build_errors: outcome.build_errors,
+  };
+}
+
+// =============================================================================
+// TOOL DEFINITIONS
+// =============================================================================
+
+const createAppFromTemplate: ToolDefinition<CreateAppFromTemplateInput> = {
+  name: 'create_app_from_template',
+  description: 'Creates ALL files for an app using a pre-built template in ONE operation. This is the FASTEST way to build apps! Creates repo + all template files (15+) instantly. Use this instead of manually creating files.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      template_id: {
+        type: 'string',
+        description: 'Template ID - use "todo-app" for most apps',
+        enum: templates.map(t => t.id),
+      },
+      repo_name: {
+        type: 'string',
+        description: 'GitHub repository name (e.g., "my-landing-page")',
+      },
+      repo_description: {
+        type: 'string',
+        description: 'Repository description',
+      },
+      customize_app: {
+        type: 'string',
+        description: 'Optional: Custom App.tsx content if you want to replace the template App (leave empty to use template App)',
+      },
+    },
+    required: ['template_id', 'repo_name'],
+  },
+  stage: 'creating_repo',
+  progress: 55,
+  progressMessage: (input) => `Creating app from template: ${input.template_id}...`,
+  sideEffects: true,
+  replayOnResume: true,
+  async handler(input, { backend, provider, model, onProgress, reportFiles, projectData }) {
+    const template = templates.find(t => t.id === input.template_id);
+    if (!template) {
+      return { error: `Template ${input.template_id} not found` };
+    }
+
+    console.log(`📦 Using template: ${template.name} with ${Object.keys(template.files).length} files`);
+
+    // 🎬 Collect files for preview
+    let previewFiles: Record<string, string> = { ...template.files };
+
+    // If custom App.tsx provided, update preview files
+    if (input.customize_app) {
+      previewFiles['src/App.tsx'] = input.customize_app;
+      console.log('🎨 Custom App.tsx detected, updating preview...');
+    }
+
+    // =============================================================
+    // 🔍 COMPREHENSIVE PRE-DEPLOYMENT ERROR CHECKING
+    // =============================================================
+
+    // Parse package.json from template for validation
+    let packageJson: PackageJson | undefined;
+    try {
+      if (previewFiles['package.json']) {
+        packageJson = JSON.parse(previewFiles['package.json']);
+      }
+    } catch {
+      console.log('⚠️ Could not parse package.json');
+    }
+
+    // Run comprehensive checks with progress updates
+    let checkResult = await runPreDeploymentChecks(previewFiles, packageJson, onProgress);
+
+    // =============================================================
+    // 🩹 SELF-HEAL LOOP (when blocking errors exist)
+    // =============================================================
+    if (checkResult.hasBlockingErrors) {
+      const maxHealAttempts = 2;
+      for (let attempt = 1; attempt <= maxHealAttempts && checkResult.hasBlockingErrors; attempt++) {
+        try {
+          onProgress('self_heal', `🩹 Attempting self-heal (${attempt}/${maxHealAttempts})...`, 45);
+          const healed = await selfHealWithFallbackModels(
+            provider,
+            model,
+            previewFiles,
+            checkResult.errors,
+            onProgress,
+            attempt,
+            maxHealAttempts
+          );
+
+          previewFiles = healed.updatedFiles;
+
+          // Re-parse package.json in case it was changed (shouldn't, but safe)
+          try {
+            if (previewFiles['package.json']) {
+              packageJson = JSON.parse(previewFiles['package.json']);
+            }
+          } catch {
+            // ignore
+          }
+
+          // Re-run checks after healing
+          checkResult = await runPreDeploymentChecks(previewFiles, packageJson, onProgress);
+        } catch (healErr: any) {
+          console.error('❌ Self-heal attempt failed:', healErr);
+          break;
+        }
+      }
+    }
+
+    // Check for blocking errors
+    if (checkResult.hasBlockingErrors) {
+      const criticalErrors = ERROR_CHECKER.getCriticalErrors(checkResult.errors);
+      const allBlocking = checkResult.errors.filter(e =>
+        e.severity === 'error' || e.severity === 'critical' || e.action === 'BLOCK_DEPLOYMENT'
+      );
+      console.error('🛑 BLOCKING ERRORS - Cannot deploy:', allBlocking);
+
+      return {
+        error: 'Deployment blocked due to build errors',
+        critical_errors: criticalErrors.map(e => e.message),
+        blocking_errors: allBlocking.map(e => e.message),
+        stats: checkResult.stats,
+        recommendation: 'Brainiac attempted self-heal, but some build errors remain. Please review the blocking errors and retry.',
+      };
+    }
+
+    // Use fixed files (with auto-fixed issues)
+    previewFiles = checkResult.fixedFiles;
+
+    // Log any remaining warnings
+    if (checkResult.stats.warning > 0 || checkResult.stats.error > 0) {
+      console.log(`⚠️ Proceeding with ${checkResult.stats.error} errors and ${checkResult.stats.warning} warnings`);
+    }
+
+    // 🎬 Send (fixed) files to preview IMMEDIATELY (before GitHub)
+    reportFiles(previewFiles);
+    console.log(`🎬 Sent ${Object.keys(previewFiles).length} files to preview (after error fixes)`);
+
+    onProgress('creating_repo', 'Creating GitHub repository...', 62);
+
+    // Create the GitHub repo
+    const repo = await backend.createGithubRepo({
+      name: input.repo_name,
+      description: input.repo_description,
+      private: false,
+    });
+
+    projectData.github = repo;
+    console.log(`✅ Repo created: ${repo.name}`);
+
+    // Commit ALL template files at once (using potentially fixed files)
+    const fileCount = Object.keys(previewFiles).length;
+    onProgress('creating_repo', `Committing ${fileCount} files...`, 65);
+
+    const commit = await backend.createGithubCommit({
+      repo: repo.name,
+      message: `Scaffold ${template.name} template`,
+      files: previewFiles,
+    });
+
+    recordCommit(projectData, commit.sha);
+    onProgress('creating_repo', `Committed ${commit.files_committed} files`, 77);
+    console.log(`✅ All ${commit.files_committed} files committed in one commit (${commit.sha.slice(0, 7)})`);
+
+    return {
+      success: true,
+      repo_name: repo.name,
+      repo_url: repo.html_url,
+      files_created: commit.files_committed,
+      commit_sha: commit.sha,
+      template_used: template.name,
+      error_check: {
+        issues_found: checkResult.stats.total,
+        auto_fixed: checkResult.stats.autoFixed,
+        warnings: checkResult.stats.warning,
+      },
+    };
+  },
+};
+
+const createSupabaseProject: ToolDefinition<CreateSupabaseProjectInput> = {
+  name: 'create_supabase_project',
+  description: 'Creates a Supabase project with database. Returns project_url, anon_key, and service_key/db_password as secret:// handles (pass a handle as-is to add_vercel_env_var; never write it into code). Takes ~3 minutes.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      app_name: {
+        type: 'string',
+        description: 'Name of the app (e.g., "todo", "blog")',
+      },
+    },
+    required: ['app_name'],
+  },
+  stage: 'creating_supabase',
+  progress: 10,
+  progressMessage: (input) => `Creating Supabase project: ${input.app_name}...`,
+  sideEffects: true,
+  replayOnResume: true,
+  async handler(input, { backend, onProgress, projectData }) {
+    const result = sealSupabaseCredentials(await backend.createSupabaseProject(
+      input.app_name,
+      (stage, msg, prog) => onProgress(stage, msg, prog)
+    ));
+    projectData.supabase = result;
+    return result;
+  },
+};
+
+const listSupabaseProjects: ToolDefinition<Record<string, never>> = {
+  name: 'list_supabase_projects',
+  description: 'Lists the existing Supabase projects of the user (ref, name, region, status). Use attach_supabase_project to reuse one instead of creating a new project.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+  stage: 'creating_supabase',
+  progress: 10,
+  progressMessage: () => 'Listing Supabase projects...',
+  sideEffects: false,
+  async handler(_input, { backend }) {
+    const projects = await backend.listSupabaseProjects();
+    return { projects, count: projects.length };
+  },
+};
+
+const attachSupabaseProject: ToolDefinition<AttachSupabaseProjectInput> = {
+  name: 'attach_supabase_project',
+  description: 'Uses an existing Supabase project for this app instead of creating one: returns project_url, anon_key, service_key (a secret:// handle) and its existing tables. When editing an app, its migrations are applied so only missing tables are created. Takes seconds.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project_ref: {
+        type: 'string',
+        description: 'Project ref from list_supabase_projects (defaults to the project picked for this build or used by the app being edited)',
+      },
+    },
+  },
+  stage: 'creating_supabase',
+  progress: 10,
+  progressMessage: (input) => `Attaching Supabase project${input.project_ref ? ` ${input.project_ref}` : ''}...`,
+  sideEffects: true,
+  replayOnResume: true,
+  async handler(input, ctx) {
+    const { backend, onProgress, projectData, projectContext, supabaseProjectRef } = ctx;
+    const projectRef = input.project_ref || supabaseProjectRef || projectContext?.supabaseProjectRef;
+    if (!projectRef) {
+      return { error: 'No Supabase project to attach. Pass project_ref (see list_supabase_projects).' };
+    }
+
+    const result = sealSupabaseCredentials(await backend.attachSupabaseProject(
+      { project_ref: projectRef },
+      (stage, msg, prog) => onProgress(stage, msg, prog)
+    ));
+    projectData.supabase = result;
+
+    // 🗄️ An app that already has migrations brings its tables along (all re-runnable)
+    const repo = resolveRepo(undefined, ctx);
+    const appliedMigrations = repo ? await applyRepoMigrations(backend, repo, projectRef, readBranch(repo, ctx)) : [];
+    return { ...result, applied_migrations: appliedMigrations };
+  },
+};
+
+const designDatabaseSchema: ToolDefinition<DesignDatabaseSchemaInput> = {
+  name: 'design_database_schema',
+  description: 'Designs the database from the app requirements (tables, relations, indexes, row level security), writes it as a timestamped SQL migration under supabase/migrations/ and applies it to the Supabase project. On later calls only the changes go into a new migration. Call it after the repo and the Supabase project exist, whenever the app needs new data.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      requirements: {
+        type: 'string',
+        description: 'What the app stores and who may read or change it (e.g., "Users keep projects; each project has tasks with a title, due date and done flag; only the owner sees them")',
+      },
+      repo: {
+        type: 'string',
+        description: 'Repository for the migration files (defaults to the project being edited or the one created this run)',
+      },
+      migration_name: {
+        type: 'string',
+        description: 'Short name for the migration file (e.g., "add_tasks")',
+      },
+    },
+    required: ['requirements'],
+  },
+  stage: 'creating_supabase',
+  progress: 57,
+  progressMessage: () => 'Designing database schema...',
+  sideEffects: true,
+  async handler(input, ctx) {
+    const { backend, provider, model, reportFiles, projectData, projectContext, supabaseProjectRef, signal } = ctx;
+    const repo = resolveRepo(input.repo, ctx);
+    if (!repo) {
+      return { error: 'No repository for the migration files. Create the app first (create_app_from_template).' };
+    }
+    const projectRef = projectData.supabase?.project_ref || supabaseProjectRef || projectContext?.supabaseProjectRef;
+    if (!projectRef) {
+      return { error: 'No Supabase project. Call create_supabase_project or attach_supabase_project first.' };
+    }
+
+    const current = await loadRepoSchema(backend, repo, readBranch(repo, ctx));
+    const schema = await runSchemaDesign(input.requirements, current, provider, model, signal);
+    const diff = diffSchemas(current, schema);
+    const tables = schema.tables.map(table => table.name);
+
+    if (diff.statements.length === 0) {
+      return { success: true, migration: null, tables, notes: diff.notes, message: 'Schema already up to date; no migration needed' };
+    }
+
+    const path = migrationPath(input.migration_name || (current ? 'update_schema' : 'initial_schema'));
+    const sql = renderMigration(input.requirements.split('\n')[0].slice(0, 120), diff);
+
+    // Applied before it is committed, so the repo never records a migration the database rejected
+    await backend.applySupabaseMigration({ project_ref: projectRef, sql });
+
+    const files = { [path]: sql, [SCHEMA_FILE]: `${JSON.stringify(schema, null, 2)}\n` };
+    const commit = await backend.createGithubCommit({
+      repo,
+      message: `Add migration ${path.split('/').pop()}`,
+      files,
+      branch: await writeBranch(repo, ctx),
+    });
+    recordCommit(projectData, commit.sha);
+    reportFiles(files);
+    console.log(`🗄️ Applied and committed ${path} (${diff.statements.length} statements)`);
+
+    return { success: true, migration: path, tables, statements: diff.statements.length, notes: diff.notes };
+  },
+};
+
+const generateDatabaseTypes: ToolDefinition<GenerateDatabaseTypesInput> = {
+  name: 'generate_database_types',
+  description: `Reads the tables and columns the Supabase project really has and commits them as ${DATABASE_TYPES_FILE} (Supabase's generated-types shape: Database, Tables<'name'>, TablesInsert, TablesUpdate). Also reports queries in the repo that use tables or columns the database lacks. Call it after every design_database_schema, and type rows with Tables<'name'> instead of hand-written interfaces.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository to write the types to (defaults to the project being edited or the one created this run)',
+      },
+    },
+  },
+  stage: 'creating_supabase',
+  progress: 58,
+  progressMessage: () => 'Generating database types...',
+  sideEffects: true,
+  async handler(input, ctx) {
+    const { backend, reportFiles, projectData, projectContext, supabaseProjectRef } = ctx;
+    const repo = resolveRepo(input.repo, ctx);
+    if (!repo) {
+      return { error: 'No repository for the types file. Create the app first (create_app_from_template).' };
+    }
+    const projectRef = projectData.supabase?.project_ref || supabaseProjectRef || projectContext?.supabaseProjectRef;
+    if (!projectRef) {
+      return { error: 'No Supabase project. Call create_supabase_project or attach_supabase_project first.' };
+    }
+
+    const tables = await backend.getSupabaseSchema({ project_ref: projectRef });
+    const content = renderDatabaseTypes(tables);
+
+    const { files: repoFiles } = await backend.getGithubRepoFiles({ repo, branch: readBranch(repo, ctx) });
+    const queryErrors = ERROR_CHECKER.preCheckDatabase({ ...repoFiles, [DATABASE_TYPES_FILE]: content });
+
+    const commit = await backend.createGithubCommit({
+      repo,
+      message: 'Generate database types from the live schema',
+      files: { [DATABASE_TYPES_FILE]: content },
+      branch: await writeBranch(repo, ctx),
+    });
+    recordCommit(projectData, commit.sha);
+    reportFiles({ [DATABASE_TYPES_FILE]: content });
+    console.log(`🧬 Generated ${DATABASE_TYPES_FILE} for ${tables.length} tables`);
+
+    return {
+      success: true,
+      path: DATABASE_TYPES_FILE,
+      tables: tables.map(table => ({ name: table.name, columns: table.columns.map(column => column.name) })),
+      query_errors: queryErrors.map(error => `${error.message} (line ${error.line})`),
+    };
+  },
+};
+
+const createGithubRepo: ToolDefinition<CreateGithubRepoInput> = {
+  name: 'create_github_repo',
+  description: 'Creates a new GitHub repository',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Repository name (e.g., "my-todo-app")',
+      },
+      description: {
+        type: 'string',
+        description: 'Repository description',
+      },
+      private: {
+        type: 'boolean',
+        description: 'Whether the repo should be private',
+      },
+    },
+    required: ['name'],
+  },
+  stage: 'creating_repo',
+  progress: 60,
+  progressMessage: (input) => `Creating GitHub repository: ${input.name}...`,
+  sideEffects: true,
+  replayOnResume: true,
+  async handler(input, { backend, projectData }) {
+    const result = await backend.createGithubRepo(input);
+    projectData.github = result;
+    return result;
+  },
+};
+
+const readGithubFile: ToolDefinition<ReadGithubFileInput> = {
+  name: 'read_github_file',
+  description: 'Reads a file from a GitHub repository to see its current contents',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name',
+      },
+      path: {
+        type: 'string',
+        description: 'File path (e.g., "src/App.tsx")',
+      },
+    },
+    required: ['repo', 'path'],
+  },
+  stage: 'creating_repo',
+  progress: 62,
+  progressMessage: (input) => `Reading file: ${input.path}...`,
+  sideEffects: false,
+  async handler(input, ctx) {
+    const { backend, reportFiles } = ctx;
+    const result = await backend.getGithubFile({ ...input, branch: readBranch(input.repo, ctx) });
+    // Decode base64 content for the agent
+    if (result.content) {
+      result.decoded_content = atob(result.content);
+
+      // 🎬 Send file to preview when reading
+      if (result.decoded_content) {
+        reportFiles({ [input.path]: result.decoded_content });
+        console.log(`🎬 Sent ${input.path} to preview (read)`);
+      }
+    }
+    return result;
+  },
+};
+
+const MAX_LISTED_FILES = 500;
+
+const listRepoFiles: ToolDefinition<ListRepoFilesInput> = {
+  name: 'list_repo_files',
+  description: 'Lists every file in a GitHub repository (path and size). Use this before editing an existing app to find the right files instead of guessing paths.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name or owner/repo (defaults to the project being edited)',
+      },
+      path_prefix: {
+        type: 'string',
+        description: 'Only list files under this folder (e.g., "src/components")',
+      },
+    },
+  },
+  stage: 'creating_repo',
+  progress: 62,
+  progressMessage: () => 'Listing repository files...',
+  sideEffects: false,
+  async handler(input, ctx) {
+    const repo = resolveRepo(input.repo, ctx);
+    if (!repo) {
+      return { error: 'No repository to list. Pass repo.' };
+    }
+
+    const entries = (await ctx.backend.listGithubFiles({ repo, branch: readBranch(repo, ctx) }))
+      .filter(entry => !input.path_prefix || entry.path.startsWith(input.path_prefix))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    return {
+      repo,
+      total: entries.length,
+      truncated: entries.length > MAX_LISTED_FILES,
+      files: entries.slice(0, MAX_LISTED_FILES).map(({ path, size }) => ({ path, size })),
+    };
+  },
+};
+
+const searchRepo: ToolDefinition<SearchRepoInput> = {
+  name: 'search_repo',
+  description: 'Searches the text of every file in a GitHub repository and returns matching lines with paths and line numbers. Use this to find the component, hook or style to change before reading and patching it.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name or owner/repo (defaults to the project being edited)',
+      },
+      query: {
+        type: 'string',
+        description: 'Text to search for (case-insensitive), or a regular expression when is_regex is true',
+        minLength: 1,
+      },
+      is_regex: {
+        type: 'boolean',
+        description: 'Treat query as a JavaScript regular expression',
+      },
+      path_prefix: {
+        type: 'string',
+        description: 'Only search files under this folder (e.g., "src")',
+      },
+      max_results: {
+        type: 'integer',
+        description: 'Maximum matching lines to return (default 50)',
+        minimum: 1,
+        maximum: 200,
+      },
+    },
+    required: ['query'],
+  },
+  stage: 'creating_repo',
+  progress: 62,
+  progressMessage: (input) => `Searching repository for "${input.query}"...`,
+  sideEffects: false,
+  async handler(input, ctx) {
+    const repo = resolveRepo(input.repo, ctx);
+    if (!repo) {
+      return { error: 'No repository to search. Pass repo.' };
+    }
+
+    let matcher: (line: string) => boolean;
+    if (input.is_regex) {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(input.query, 'i');
+      } catch (error: any) {
+        return { error: `Invalid regular expression: ${error.message}` };
+      }
+      matcher = (line) => pattern.test(line);
+    } else {
+      const needle = input.query.toLowerCase();
+      matcher = (line) => line.toLowerCase().includes(needle);
+    }
+
+    const repoFiles = await ctx.backend.getGithubRepoFiles({ repo, branch: readBranch(repo, ctx) });
+    const { files } = repoFiles;
+    const maxResults = input.max_results ?? 50;
+    const matches: { path: string; line: number; text: string }[] = [];
+    let totalMatches = 0;
+    let filesSearched = 0;
+
+    for (const path of Object.keys(files).sort()) {
+      if (input.path_prefix && !path.startsWith(input.path_prefix)) continue;
+      filesSearched++;
+      files[path].split('\n').forEach((text, i) => {
+        if (!matcher(text)) return;
+        totalMatches++;
+        if (matches.length < maxResults) {
+          matches.push({ path, line: i + 1, text: text.trim().slice(0, 200) });
+        }
+      });
+    }
+
+    return {
+      repo,
+      query: input.query,
+      files_searched: filesSearched,
+      total_matches: totalMatches,
+      truncated: totalMatches > matches.length,
+      matches,
+      // Large repos are only partly loaded; say so instead of implying nothing else matches
+      ...(repoFiles.truncated && {
+        files_not_searched: repoFiles.total_files - Object.keys(files).length,
+        note: 'Only part of the repo was searched. Use list_repo_files and read_github_file for files outside it.',
+      }),
+    };
+  },
+};
+
+const createGithubFile: ToolDefinition<CreateGithubFileInput> = {
+  name: 'create_github_file',
+  description: 'Creates a file in a GitHub repository. IMPORTANT: When creating multiple files (like from a template), call this tool multiple times IN THE SAME RESPONSE for all files at once. Do NOT call once, wait, then call again - batch all calls together to prevent rate limits.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name',
+      },
+      path: {
+        type: 'string',
+        description: 'File path (e.g., "src/App.tsx")',
+      },
+      content: {
+        type: 'string',
+        description: 'File content',
+      },
+      message: {
+        type: 'string',
+        description: 'Commit message',
+      },
+    },
+    required: ['repo', 'path', 'content', 'message'],
+  },
+  stage: 'creating_repo',
+  progress: (ctx) => 65 + (ctx.callIndex * 2),
+  progressMessage: (input) => `Creating file: ${input.path}...`,
+  sideEffects: true,
+  replayOnResume: true,
+  async handler(input, ctx) {
+    const { backend, reportFiles } = ctx;
+    // 🔍 Pre-check file for errors before creating
+    if (isCodeFile(input.path)) {
+      const fileErrors = ERROR_CHECKER.preCheck(input.content, input.path);
+      if (fileErrors.length > 0) {
+        console.log(`⚠️ Pre-check found ${fileErrors.length} issues in ${input.path}`);
+        const { fixedCode, fixedCount } = ERROR_CHECKER.autoFix(input.content, fileErrors);
+        if (fixedCount > 0) {
+          console.log(`✅ Auto-fixed ${fixedCount} issues in ${input.path}`);
+          input.content = fixedCode;
+        }
+      }
+    }
+
+    const result = await backend.createGithubFile({ ...input, branch: await writeBranch(input.repo, ctx) });
+    recordCommit(ctx.projectData, result.commit_sha);
+
+    // 🎬 Send file to preview
+    if (input.content) {
+      reportFiles({ [input.path]: input.content });
+      console.log(`🎬 Sent ${input.path} to preview (created)`);
+    }
+    return result;
+  },
+};
+
+const updateGithubFile: ToolDefinition<UpdateGithubFileInput> = {
+  name: 'update_github_file',
+  description: 'Updates an existing file in a GitHub repository. Use read_github_file first to get the current SHA.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name',
+      },
+      path: {
+        type: 'string',
+        description: 'File path (e.g., "src/App.tsx")',
+      },
+      content: {
+        type: 'string',
+        description: 'New file content',
+      },
+      message: {
+        type: 'string',
+        description: 'Commit message',
+      },
+      sha: {
+        type: 'string',
+        description: 'Current file SHA (get from read_github_file)',
+      },
+    },
+    required: ['repo', 'path', 'content', 'message', 'sha'],
+  },
+  stage: 'creating_repo',
+  progress: 68,
+  progressMessage: (input) => `Updating file: ${input.path}...`,
+  sideEffects: true,
+  async handler(input, ctx) {
+    const { backend, reportFiles } = ctx;
+    // 🔍 Pre-check updated file for errors
+    if (isCodeFile(input.path)) {
+      const updateFileErrors = ERROR_CHECKER.preCheck(input.content, input.path);
+
+      // Check for critical security issues
+      const criticalSecurityErrors = updateFileErrors.filter(e =>
+        e.severity === 'critical' && e.action === 'BLOCK_DEPLOYMENT'
+      );
+
+      if (criticalSecurityErrors.length > 0) {
+        console.error('🛑 CRITICAL SECURITY ISSUES - Blocking update:', criticalSecurityErrors);
+        return {
+          error: 'Update blocked due to security issues',
+          issues: criticalSecurityErrors.map(e => e.message),
+        };
+      }
+
+      if (updateFileErrors.length > 0) {
+        console.log(`⚠️ Pre-check found ${updateFileErrors.length} issues in ${input.path}`);
+        const { fixedCode, fixedCount } = ERROR_CHECKER.autoFix(input.content, updateFileErrors);
+        if (fixedCount > 0) {
+          console.log(`✅ Auto-fixed ${fixedCount} issues in ${input.path}`);
+          input.content = fixedCode;
+        }
+      }
+    }
+
+    const result = await backend.updateGithubFile({ ...input, branch: await writeBranch(input.repo, ctx) });
+    recordCommit(ctx.projectData, result.commit_sha);
+
+    // 🎬 Send updated file to preview immediately
+    if (input.content) {
+      reportFiles({ [input.path]: input.content });
+      console.log(`🎬 Sent ${input.path} to preview (updated)`);
+    }
+    return result;
+  },
+};
+
+const applyPatch: ToolDefinition<ApplyPatchInput> = {
+  name: 'apply_patch',
+  description: 'Edits one or more files in a GitHub repository with a unified diff or search/replace hunks, without sending whole files. Nothing is committed unless every hunk applies; failed hunks are reported so you can fix and retry them. Prefer this over update_github_file for changes to existing files.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name',
+      },
+      message: {
+        type: 'string',
+        description: 'Commit message',
+      },
+      files: {
+        type: 'array',
+        description: 'One entry per file. Give either a diff or edits for each file.',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'File path (e.g., "src/App.tsx")',
+            },
+            diff: {
+              type: 'string',
+              description: 'Unified diff for this file (@@ hunks with a few lines of context)',
+            },
+            edits: {
+              type: 'array',
+              description: 'Search/replace hunks. Each search text must appear exactly once in the file. Use an empty search to create a new file.',
+              items: {
+                type: 'object',
+                properties: {
+                  search: { type: 'string' },
+                  replace: { type: 'string' },
+                },
+                required: ['search', 'replace'],
+              },
+            },
+          },
+          required: ['path'],
+        },
+      },
+    },
+    required: ['repo', 'message', 'files'],
+  },
+  stage: 'creating_repo',
+  progress: 68,
+  progressMessage: (input) => `Patching ${input.files.length === 1 ? input.files[0].path : `${input.files.length} files`}...`,
+  sideEffects: true,
+  async handler(input, ctx) {
+    const { backend, reportFiles } = ctx;
+    const patched: { path: string; content: string; sha?: string; linesAdded: number; linesRemoved: number }[] = [];
+    const report: { path: string; hunks: HunkResult[] }[] = [];
+    let failedHunks = 0;
+    let totalHunks = 0;
+
+    // Apply every patch in memory first
+    for (const filePatch of input.files) {
+      let original = '';
+      let sha: string | undefined;
+      try {
+        const file = await backend.getGithubFile({ repo: input.repo, path: filePatch.path, branch: readBranch(input.repo, ctx) });
+        original = file.content ? decodeBase64Utf8(file.content) : '';
+        sha = file.sha;
+      } catch (error) {
+        if (!isNewFilePatch(filePatch)) throw error;
+      }
+
+      const result = applyFilePatch(original, filePatch);
+      totalHunks += result.hunks.length;
+      failedHunks += result.hunks.filter(h => h.status === 'failed').length;
+      report.push({ path: filePatch.path, hunks: result.hunks });
+      patched.push({ path: filePatch.path, content: result.content, sha, linesAdded: result.linesAdded, linesRemoved: result.linesRemoved });
+    }
+
+    if (failedHunks > 0) {
+      console.warn(`⚠️ Patch rejected: ${failedHunks}/${totalHunks} hunks failed`);
+      return {
+        error: `Patch not applied: ${failedHunks} of ${totalHunks} hunks failed. Nothing was committed.`,
+        files: report,
+        recommendation: 'Read the failing files again, then resend the whole patch with corrected hunks.',
+      };
+    }
+
+    // 🔍 Pre-check the patched files before anything is committed
+    for (const file of patched) {
+      if (!isCodeFile(file.path)) continue;
+
+      const fileErrors = ERROR_CHECKER.preCheck(file.content, file.path);
+      const criticalSecurityErrors = fileErrors.filter(e =>
+        e.severity === 'critical' && e.action === 'BLOCK_DEPLOYMENT'
+      );
+
+      if (criticalSecurityErrors.length > 0) {
+        console.error('🛑 CRITICAL SECURITY ISSUES - Blocking patch:', criticalSecurityErrors);
+        return {
+          error: `Patch blocked due to security issues in ${file.path}. Nothing was committed.`,
+          issues: criticalSecurityErrors.map(e => e.message),
+        };
+      }
+
+      if (fileErrors.length > 0) {
+        console.log(`⚠️ Pre-check found ${fileErrors.length} issues in ${file.path}`);
+        const { fixedCode, fixedCount } = ERROR_CHECKER.autoFix(file.content, fileErrors);
+        if (fixedCount > 0) {
+          console.log(`✅ Auto-fixed ${fixedCount} issues in ${file.path}`);
+          file.content = fixedCode;
+        }
+      }
+    }
+
+    // Several files go in as one commit so the repo never ends up half-patched
+    const branch = await writeBranch(input.repo, ctx);
+    if (patched.length > 1) {
+      const commit = await backend.createGithubCommit({
+        repo: input.repo,
+        message: input.message,
+        files: Object.fromEntries(patched.map(f => [f.path, f.content])),
+        branch,
+      });
+      recordCommit(ctx.projectData, commit.sha);
+    } else {
+      const [file] = patched;
+      const written = file.sha
+        ? await backend.updateGithubFile({ repo: input.repo, path: file.path, content: file.content, message: input.message, sha: file.sha, branch })
+        : await backend.createGithubFile({ repo: input.repo, path: file.path, content: file.content, message: input.message, branch });
+      recordCommit(ctx.projectData, written.commit_sha);
+    }
+
+    // 🎬 Send patched files to preview
+    reportFiles(Object.fromEntries(patched.map(f => [f.path, f.content])));
+    console.log(`🩹 Patched ${patched.length} files (${totalHunks} hunks)`);
+
+    return {
+      success: true,
+      files: patched.map(f => ({
+        path: f.path,
+        created: !f.sha,
+        lines_added: f.linesAdded,
+        lines_removed: f.linesRemoved,
+      })),
+    };
+  },
+};
+
+const createVercelProject: ToolDefinition<CreateVercelProjectInput> = {
+  name: 'create_vercel_project',
+  description: 'Creates and deploys a Vercel project from a GitHub repo. Waits for the build; if it fails, the build errors are fixed, committed and redeployed automatically',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Project name',
+      },
+      github_repo: {
+        type: 'string',
+        description: 'GitHub repo (owner/repo)',
+      },
+    },
+    required: ['name', 'github_repo'],
+  },
+  stage: 'deploying',
+  progress: 80,
+  progressMessage: (input) => `Deploying to Vercel: ${input.name}...`,
+  sideEffects: true,
+  replayOnResume: true,
+  async handler(input, ctx) {
+    const { backend, onProgress, projectData } = ctx;
+    const result = await backend.createVercelProject(input);
+    projectData.vercel = result;
+
+    // Automatically add Supabase env vars if we have them
+    if (projectData.supabase && result.id) {
+      onProgress('deploying', 'Adding environment variables...', 85);
+
+      // Add Supabase URL
+      await backend.addVercelEnvVar({
+        project_id: result.id,
+        key: 'VITE_SUPABASE_URL',
+        value: projectData.supabase.project_url,
+      });
+
+      // Add Supabase Anon Key
+      await backend.addVercelEnvVar({
+        project_id: result.id,
+        key: 'VITE_SUPABASE_ANON_KEY',
+        value: projectData.supabase.anon_key,
+      });
+
+      onProgress('deploying', 'Environment variables added!', 87);
+    }
+
+    if (!result.deployment_id) return result;
+
+    const deployment = await followDeployment(
+      { deployment_id: result.deployment_id, project_id: result.id, repo: input.github_repo },
+      ctx,
+      ctx.deployHealAttempts ?? DEFAULT_DEPLOY_HEAL_ATTEMPTS
+    );
+    projectData.vercel = { ...result, deployment_state: deployment.state };
+    return deployment.state === 'READY'
+      ? { ...result, deployment }
+      : { ...result, deployment, ...deploymentFailure(deployment) };
+  },
+};
+
+const addVercelEnvVar: ToolDefinition<AddVercelEnvVarInput> = {
+  name: 'add_vercel_env_var',
+  description: 'Adds an environment variable to a Vercel project',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project_id: {
+        type: 'string',
+        description: 'Vercel project ID',
+      },
+      key: {
+        type: 'string',
+        description: 'Environment variable key',
+      },
+      value: {
+        type: 'string',
+        description: 'Environment variable value, or a secret:// handle returned by another tool (resolved here, never shown)',
+      },
+    },
+    required: ['project_id', 'key', 'value'],
+  },
+  stage: 'deploying',
+  progress: 85,
+  progressMessage: (input) => `Adding environment variable: ${input.key}...`,
+  sideEffects: true,
+  replayOnResume: true,
+  async handler(input, { backend }) {
+    return backend.addVercelEnvVar({ ...input, value: await revealSecret(input.value, backend) });
+  },
+};
+
+const triggerVercelDeployment: ToolDefinition<TriggerVercelDeploymentInput> = {
+  name: 'trigger_vercel_deployment',
+  description: 'Triggers a new deployment of a Vercel project (use after updating code). Waits for the build and heals build errors like create_vercel_project',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project_id: {
+        type: 'string',
+        description: 'Vercel project ID',
+      },
+      project_name: {
+        type: 'string',
+        description: 'Vercel project name (the GitHub repo name) when the ID is not known',
+      },
+    },
+  },
+  stage: 'deploying',
+  progress: 90,
+  progressMessage: () => 'Triggering new deployment...',
+  sideEffects: true,
+  async handler(input, ctx) {
+    const { backend, projectData } = ctx;
+    if (!input.project_id && !input.project_name) {
+      return { error: 'Provide project_id or project_name' };
+    }
+    // Branch workflow: deploy the working branch as a preview, never production
+    const repo = resolveRepo(undefined, ctx);
+    const branch = repo ? readBranch(repo, ctx) : undefined;
+    const result = await backend.triggerVercelDeployment({ ...input, ref: branch });
+    if (result.url) {
+      projectData.vercel = { ...projectData.vercel, url: result.url };
+    }
+    if (branch) {
+      projectData.branch.previewUrl = result.url;
+    }
+
+    const deployment = await followDeployment(
+      {
+        deployment_id: result.id,
+        project_id: input.project_id,
+        project_name: input.project_name,
+        repo,
+        branch,
+      },
+      ctx,
+      ctx.deployHealAttempts ?? DEFAULT_DEPLOY_HEAL_ATTEMPTS
+    );
+    projectData.vercel = { ...projectData.vercel, deployment_state: deployment.state };
+    return deployment.state === 'READY'
+      ? { ...result, deployment }
+      : { ...result, deployment, ...deploymentFailure(deployment) };
+  },
+};
+
+// Tools that give the app a database (left out when the approved plan has none)
+export const SUPABASE_TOOLS = [createSupabaseProject.name, listSupabaseProjects.name, attachSupabaseProject.name, designDatabaseSchema.name, generateDatabaseTypes.name];
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  createAppFromTemplate,
+  createSupabaseProject,
+  listSupabaseProjects,
+  attachSupabaseProject,
+  designDatabaseSchema,
+  generateDatabaseTypes,
+  createGithubRepo,
+  readGithubFile,
+  listRepoFiles,
+  searchRepo,
+  createGithubFile,
+  updateGithubFile,
+  applyPatch,
+  createVercelProject,
+  addVercelEnvVar,
+  triggerVercelDeployment,
+];
+
+/**
+ * Registry with all built-in tools (add more with registry.register)
+ */
+export function createDefaultToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  BUILTIN_TOOLS.forEach(tool => registry.register(tool));
+  return registry;
+}
@@ -0,0 +1,11 @@
+/**
+ * Callback types shared by the agent loop, its tools and the build checks
+ */
+
+export interface ProgressCallback {
+  (stage: string, message: string, progress: number): void;
+}
+
+export interface FileUpdateCallback {
+  (files: Record<string, string>): void;
+}
@@ -0,0 +1,85 @@
+/**
+ * Branch Workflow
+ * Opt-in mode for projects shared with others: each follow-up request is
+ * committed to its own branch instead of the production branch, deployed as a
+ * Vercel preview and opened as a pull request to merge or discard.
+ */
+
+import { PullRequestInfo } from '@/types';
+import { ToolBackend } from './tools/backend';
+
+export interface WorkingBranch {
+  name: string;
+  repo: string; // owner/repo
+  previewUrl?: string; // Vercel preview deployment of the branch (no protocol)
+  pullRequest?: PullRequestInfo;
+}
+
+/**
+ * Branch name for a request, e.g. "brainiac/make-the-header-green-lx2k9a"
+ */
+export function branchNameFor(request: string, now: number = Date.now()): string {
+  const slug = request
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return `brainiac/${slug || 'change'}-${now.toString(36)}`;
+}
+
+function pullRequestBody(request: string, summary: string, previewUrl?: string): string {
+  const quoted = request.trim().split('\n').map(line => `> ${line}`).join('\n');
+  return [
+    '## Request',
+    quoted,
+    '',
+    '## Summary',
+    summary.trim() || 'No summary was generated for this change.',
+    ...(previewUrl ? ['', '## Preview', previewUrl] : []),
+    '',
+    '_Opened by Brainiac. Merging deploys this change to production._',
+  ].join('\n');
+}
+
+/**
+ * Open the pull request for a run's branch. Makes sure the branch has a
+ * preview deployment first, so reviewers can try the change.
+ */
+export async function openPullRequest(
+  backend: ToolBackend,
+  branch: WorkingBranch,
+  request: string,
+  summary: string,
+  vercelProjectId?: string
+): Promise<PullRequestInfo> {
+  let previewUrl = branch.previewUrl;
+  if (!previewUrl && vercelProjectId) {
+    try {
+      const deployment = await backend.triggerVercelDeployment({ project_id: vercelProjectId, ref: branch.name });
+      previewUrl = deployment.url;
+    } catch (error) {
+      // The PR is still useful without a preview
+      console.warn(`⚠️ Could not deploy a preview of ${branch.name}:`, error);
+    }
+  }
+  const previewHref = previewUrl ? `https://${previewUrl.replace(/^https?:\/\//, '')}` : undefined;
+
+  const title = request.trim().split('\n')[0].slice(0, 72) || 'Brainiac change';
+  const pr = await backend.createGithubPullRequest({
+    repo: branch.repo,
+    head: branch.name,
+    title,
+    body: pullRequestBody(request, summary, previewHref),
+  });
+  console.log(`🔀 Opened pull request #${pr.number}: ${pr.html_url}`);
+
+  return {
+    repo: branch.repo,
+    number: pr.number,
+    url: pr.html_url,
+    branch: branch.name,
+    title,
+    previewUrl: previewHref,
+  };
+}
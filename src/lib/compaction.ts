@@ -0,0 +1,302 @@
+/**
+ * Conversation Compaction
+ * Long editing sessions resend the whole conversation on every turn. Once the
+ * history crosses a token threshold, older turns are folded into a project
+ * state digest (files touched, deployed URLs, Supabase ref, decisions) while
+ * recent turns and unresolved tool calls stay verbatim. The digest is built
+ * from the messages themselves, so compaction costs no extra model call.
+ */
+
+import { APPROVED_PLAN_MARKER } from './planner';
+import { ProviderContentBlock, ProviderMessage, ProviderToolResultBlock } from './providers';
+import { ToolCallOutcome, firstUnresolvedCall } from './tool-registry';
+
+export interface CompactionOptions {
+  /** Compact once the estimated prompt size goes over this many tokens */
+  thresholdTokens: number;
+  /** Messages at the end of the conversation that are always kept verbatim */
+  keepRecentMessages: number;
+  /** Tokens used outside the messages (system prompt, tool schemas) */
+  reservedTokens?: number;
+  /** Whether a tool changes something outside the app; unknown tools are assumed to */
+  hasSideEffects?: (name: string) => boolean;
+}
+
+export interface ProjectDigest {
+  originalRequest?: string; // What the first build was asked to do, word for word
+  approvedPlan?: string; // Latest plan the user approved, word for word
+  requests: string[];
+  filesTouched: string[];
+  deployedUrls: string[];
+  githubRepos: string[];
+  supabaseRef?: string;
+  decisions: string[];
+  compactedMessages: number;
+}
+
+export interface CompactionResult {
+  messages: ProviderMessage[];
+  compacted: boolean;
+  tokensBefore: number;
+  tokensAfter: number;
+  digest?: ProjectDigest;
+}
+
+export const DEFAULT_COMPACTION: CompactionOptions = {
+  thresholdTokens: 80_000,
+  keepRecentMessages: 6,
+};
+
+export const DIGEST_MARKER = '📋 PROJECT STATE DIGEST';
+// Starts the user's own words in a first-turn message; everything after it
+// (up to an approved plan) is the request
+export const USER_REQUEST_LABEL = 'User Request: ';
+
+const MAX_DIGEST_ITEMS = 20;
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for thresholds
+ */
+export function estimateTokens(value: string | ProviderMessage[]): number {
+  const text = typeof value === 'string' ? value : value.map(m => JSON.stringify(m.content)).join('');
+  return Math.ceil(text.length / 4);
+}
+
+function blocksOf(message: ProviderMessage): ProviderContentBlock[] {
+  return typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content;
+}
+
+function textOf(message: ProviderMessage): string {
+  return blocksOf(message)
+    .filter((b): b is Extract<ProviderContentBlock, { type: 'text' }> => b.type === 'text')
+    .map(b => b.text)
+    .join('\n');
+}
+
+function hasToolResults(message: ProviderMessage): boolean {
+  return blocksOf(message).some(b => b.type === 'tool_result');
+}
+
+function truncate(text: string, max: number): string {
+  const line = text.trim().replace(/\s+/g, ' ');
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+/**
+ * A user message split into the request and the approved plan appended to it.
+ * First-turn messages wrap the request in workflow instructions; only the
+ * part after USER_REQUEST_LABEL is the user's.
+ */
+function splitUserMessage(text: string): { request: string; plan?: string; firstTurn: boolean } {
+  const planStart = text.indexOf(APPROVED_PLAN_MARKER);
+  const plan = planStart === -1 ? undefined : text.slice(planStart).trim();
+  const beforePlan = planStart === -1 ? text : text.slice(0, planStart);
+  const labelStart = beforePlan.indexOf(USER_REQUEST_LABEL);
+  return labelStart === -1
+    ? { request: beforePlan.trim(), plan, firstTurn: false }
+    : { request: beforePlan.slice(labelStart + USER_REQUEST_LABEL.length).trim(), plan, firstTurn: true };
+}
+
+function pushUnique(list: string[], value: string | undefined): void {
+  if (value && !list.includes(value)) list.push(value);
+}
+
+function parseResult(block: ProviderToolResultBlock): any {
+  try {
+    return JSON.parse(block.content);
+  } catch {
+    return undefined;
+  }
+}
+
+function isFailedResult(block: ProviderToolResultBlock): boolean {
+  if (block.is_error) return true;
+  const result = parseResult(block);
+  return !!(result && typeof result === 'object' && result.error);
+}
+
+export function emptyDigest(): ProjectDigest {
+  return { requests: [], filesTouched: [], deployedUrls: [], githubRepos: [], decisions: [], compactedMessages: 0 };
+}
+
+/**
+ * Digest carried over from an earlier compaction, if the message holds one
+ */
+export function parseDigest(message: ProviderMessage): ProjectDigest | undefined {
+  const text = textOf(message);
+  if (!text.startsWith(DIGEST_MARKER)) return undefined;
+  const json = /```json\n([\s\S]*?)\n```/.exec(text);
+  if (!json) return undefined;
+  try {
+    return { ...emptyDigest(), ...JSON.parse(json[1]) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * What is left of a message once an earlier digest is taken out of it
+ */
+function withoutDigest(message: ProviderMessage): ProviderMessage | undefined {
+  if (typeof message.content === 'string') {
+    const rest = message.content.replace(/^[\s\S]*?\n```json\n[\s\S]*?\n```/, '').trim();
+    return rest ? { role: message.role, content: rest } : undefined;
+  }
+  const rest = message.content.filter(b => !(b.type === 'text' && b.text.startsWith(DIGEST_MARKER)));
+  return rest.length > 0 ? { role: message.role, content: rest } : undefined;
+}
+
+/**
+ * Fold messages into a digest (starting from an earlier digest, if any)
+ */
+export function buildProjectDigest(messages: ProviderMessage[], previous: ProjectDigest = emptyDigest()): ProjectDigest {
+  const digest: ProjectDigest = {
+    originalRequest: previous.originalRequest,
+    approvedPlan: previous.approvedPlan,
+    requests: [...previous.requests],
+    filesTouched: [...previous.filesTouched],
+    deployedUrls: [...previous.deployedUrls],
+    githubRepos: [...previous.githubRepos],
+    supabaseRef: previous.supabaseRef,
+    decisions: [...previous.decisions],
+    compactedMessages: previous.compactedMessages + messages.length,
+  };
+  const toolNames = new Map<string, string>();
+
+  for (const message of messages) {
+    const blocks = blocksOf(message);
+
+    if (message.role === 'user' && !hasToolResults(message)) {
+      // The build's own request and plan are requirements, so they are kept whole
+      const { request, plan, firstTurn } = splitUserMessage(textOf(message));
+      if (firstTurn && !digest.originalRequest) digest.originalRequest = request;
+      else pushUnique(digest.requests, truncate(request, 200));
+      if (plan) digest.approvedPlan = plan;
+      continue;
+    }
+
+    for (const block of blocks) {
+      if (block.type === 'tool_use') {
+        toolNames.set(block.id, block.name);
+        const input = (block.input ?? {}) as Record<string, any>;
+        if (typeof input.path === 'string' && block.name !== 'read_github_file') {
+          pushUnique(digest.filesTouched, input.path);
+        }
+        if (Array.isArray(input.files)) {
+          input.files.forEach((f: any) => pushUnique(digest.filesTouched, f?.path));
+        }
+        if (block.name === 'create_app_from_template') {
+          pushUnique(digest.decisions, `Scaffolded from template "${input.template_id}"`);
+        }
+      } else if (block.type === 'tool_result') {
+        if (isFailedResult(block)) continue;
+        const result = parseResult(block);
+        if (!result || typeof result !== 'object') continue;
+        const tool = toolNames.get(block.tool_use_id);
+
+        pushUnique(digest.githubRepos, result.full_name || result.repo_name);
+        if (result.project_ref) digest.supabaseRef = result.project_ref;
+        if (typeof result.url === 'string' && (tool === 'create_vercel_project' || tool === 'trigger_vercel_deployment')) {
+          pushUnique(digest.deployedUrls, result.url.startsWith('http') ? result.url : `https://${result.url}`);
+        }
+      } else if (block.type === 'text' && message.role === 'assistant' && !blocks.some(b => b.type === 'tool_use')) {
+        // Final answers of earlier turns: what was built or decided
+        pushUnique(digest.decisions, truncate(block.text, 300));
+      }
+    }
+  }
+
+  digest.requests = digest.requests.slice(-MAX_DIGEST_ITEMS);
+  digest.decisions = digest.decisions.slice(-MAX_DIGEST_ITEMS);
+  return digest;
+}
+
+export function formatDigest(digest: ProjectDigest): string {
+  return `${DIGEST_MARKER}
+Earlier parts of this conversation (${digest.compactedMessages} messages) were compacted. This is the project state they produced; treat it as established context. Read files again before editing them.
+
+\`\`\`json
+${JSON.stringify(digest, null, 2)}
+\`\`\``;
+}
+
+/**
+ * Index of the first message that must stay verbatim: an assistant turn with a
+ * tool call that has no result yet, or an unresolved side-effecting failure
+ */
+function firstUnresolvedIndex(messages: ProviderMessage[], hasSideEffects: (name: string) => boolean): number {
+  const uses: Array<{ id: string; name: string; index: number }> = [];
+  const results = new Map<string, ProviderToolResultBlock>();
+
+  messages.forEach((message, index) => {
+    for (const block of blocksOf(message)) {
+      if (block.type === 'tool_use') uses.push({ id: block.id, name: block.name, index });
+      if (block.type === 'tool_result') results.set(block.tool_use_id, block);
+    }
+  });
+
+  const calls: ToolCallOutcome[] = uses.map(({ id, name }) => {
+    const result = results.get(id);
+    return { name, status: result ? (isFailedResult(result) ? 'failed' : 'succeeded') : undefined };
+  });
+  const first = firstUnresolvedCall(calls, hasSideEffects);
+  return first === -1 ? messages.length : uses[first].index;
+}
+
+/**
+ * Where the verbatim tail may start: an assistant message, or a user message
+ * without tool results (so no tool_result is separated from its tool_use)
+ */
+function isCutPoint(messages: ProviderMessage[], index: number): boolean {
+  const message = messages[index];
+  return message.role === 'assistant' || !hasToolResults(message);
+}
+
+/**
+ * Compact the conversation if it is over the threshold. Returns the messages
+ * unchanged when it is not (or when there is nothing old enough to fold).
+ */
+export function compactMessages(
+  messages: ProviderMessage[],
+  options: CompactionOptions = DEFAULT_COMPACTION
+): CompactionResult {
+  const tokensBefore = estimateTokens(messages) + (options.reservedTokens ?? 0);
+  const unchanged: CompactionResult = { messages, compacted: false, tokensBefore, tokensAfter: tokensBefore };
+
+  if (tokensBefore <= options.thresholdTokens) return unchanged;
+
+  const previous = messages.length > 0 ? parseDigest(messages[0]) : undefined;
+  const start = previous ? 1 : 0;
+  let cut = Math.min(messages.length - options.keepRecentMessages, firstUnresolvedIndex(messages, options.hasSideEffects ?? (() => true)));
+  while (cut > start && !isCutPoint(messages, cut)) cut--;
+  if (cut <= start) return unchanged;
+
+  const folded = messages.slice(start, cut);
+  const firstRest = previous ? withoutDigest(messages[0]) : undefined;
+  if (firstRest) folded.unshift(firstRest);
+
+  const digest = buildProjectDigest(folded, previous);
+  const digestText = formatDigest(digest);
+  const tail = messages.slice(cut);
+
+  // Conversations must start with a user message; merge into it when the tail already does
+  const compacted: ProviderMessage[] = tail[0].role === 'user'
+    ? [
+        {
+          role: 'user',
+          content: typeof tail[0].content === 'string'
+            ? `${digestText}\n\n${tail[0].content}`
+            : [{ type: 'text', text: digestText }, ...tail[0].content],
+        },
+        ...tail.slice(1),
+      ]
+    : [{ role: 'user', content: digestText }, ...tail];
+
+  return {
+    messages: compacted,
+    compacted: true,
+    tokensBefore,
+    tokensAfter: estimateTokens(compacted) + (options.reservedTokens ?? 0),
+    digest,
+  };
+}
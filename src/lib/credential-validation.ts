@@ -0,0 +1,243 @@
+/**
+ * Credential Validation
+ * Tries each saved credential against its API before a build needs it, so a
+ * missing GitHub scope or an expired Vercel token is reported in Settings
+ * instead of ten minutes into a build.
+ */
+
+import { ApiKeys, Settings } from '@/types';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || '/api';
+
+export type CredentialProvider = 'anthropic' | 'github' | 'vercel' | 'supabase';
+
+export type CredentialStatus =
+  | 'valid'
+  | 'warning' // Works, but something will fail later (e.g. a missing optional scope)
+  | 'invalid' // Rejected or unusable; builds will fail
+  | 'unreachable' // The API could not be reached, so nothing is known
+  | 'skipped'; // Not used with the current settings
+
+export interface CredentialCheck {
+  provider: CredentialProvider;
+  status: CredentialStatus;
+  summary: string; // One line, e.g. "Signed in as octocat"
+  messages: string[]; // What to fix, most important first
+}
+
+export type CredentialReport = Record<CredentialProvider, CredentialCheck>;
+
+// Scopes of classic GitHub tokens the tools rely on
+const REQUIRED_GITHUB_SCOPES = ['repo'];
+const OPTIONAL_GITHUB_SCOPES: Record<string, string> = {
+  delete_repo: 'Rollbacks and the resource inventory cannot delete repositories without the delete_repo scope.',
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+function check(provider: CredentialProvider, status: CredentialStatus, summary: string, messages: string[] = []): CredentialCheck {
+  return { provider, status, summary, messages };
+}
+
+/**
+ * fetch that reports network failures as null instead of throwing
+ */
+async function tryFetch(url: string, init?: RequestInit): Promise<Response | null> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    console.warn(`⚠️ Credential check could not reach ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Response body as JSON, or null when it is not JSON (e.g. an HTML error page from a proxy)
+ */
+async function tryJson<T>(response: Response): Promise<T | null> {
+  try {
+    return (await response.json()) ?? null;
+  } catch (error) {
+    console.warn(`⚠️ Credential check got a response that is not JSON from ${response.url}:`, error);
+    return null;
+  }
+}
+
+export async function validateGithubCredentials(githubKeys: ApiKeys['github']): Promise<CredentialCheck> {
+  if (!githubKeys.token) return check('github', 'invalid', 'No token', ['Add a GitHub personal access token.']);
+
+  const response = await tryFetch('https://api.github.com/user', {
+    headers: {
+      'Authorization': `Bearer ${githubKeys.token}`,
+      'Accept': 'application/vnd.github+json',
+    },
+  });
+  if (!response) return check('github', 'unreachable', 'Could not reach GitHub', ['Check your connection and try again.']);
+  if (response.status === 401) {
+    return check('github', 'invalid', 'Token rejected', [
+      'GitHub did not accept the token. It may have expired or been revoked; create a new one at https://github.com/settings/tokens.',
+    ]);
+  }
+  if (!response.ok) {
+    return check('github', 'unreachable', `GitHub returned ${response.status}`, ['Try again in a moment.']);
+  }
+
+  const user = await tryJson<{ login: string }>(response);
+  if (!user) return check('github', 'unreachable', 'Unexpected response from GitHub', ['Try again in a moment.']);
+  const messages: string[] = [];
+  let status: CredentialStatus = 'valid';
+
+  if (githubKeys.owner && githubKeys.owner.toLowerCase() !== String(user.login).toLowerCase()) {
+    status = 'invalid';
+    messages.push(`The token belongs to ${user.login}, but GitHub Username is "${githubKeys.owner}". New repositories are created under ${user.login}; set GitHub Username to ${user.login}.`);
+  } else if (!githubKeys.owner) {
+    status = 'invalid';
+    messages.push(`Set GitHub Username to ${user.login}.`);
+  }
+
+  // Classic tokens list their scopes; fine-grained tokens send no header
+  const scopeHeader = response.headers.get('x-oauth-scopes');
+  if (scopeHeader === null) {
+    if (status === 'valid') status = 'warning';
+    messages.push('Fine-grained token: its permissions cannot be checked. It needs read and write access to Administration and Contents, and Pull requests for the branch workflow, on all repositories.');
+  } else {
+    const scopes = scopeHeader.split(',').map(scope => scope.trim()).filter(Boolean);
+    const missing = REQUIRED_GITHUB_SCOPES.filter(scope => !scopes.includes(scope));
+    if (missing.length > 0) {
+      status = 'invalid';
+      messages.push(`The token is missing the ${missing.join(', ')} scope. Edit it at https://github.com/settings/tokens and tick ${missing.join(', ')}.`);
+    }
+    for (const [scope, consequence] of Object.entries(OPTIONAL_GITHUB_SCOPES)) {
+      if (!scopes.includes(scope)) {
+        if (status === 'valid') status = 'warning';
+        messages.push(consequence);
+      }
+    }
+  }
+
+  return check('github', status, `Signed in as ${user.login}`, messages);
+}
+
+export async function validateVercelCredentials(vercelKeys: ApiKeys['vercel']): Promise<CredentialCheck> {
+  if (!vercelKeys.token) return check('vercel', 'invalid', 'No token', ['Add a Vercel access token.']);
+
+  const headers = { 'Authorization': `Bearer ${vercelKeys.token}` };
+  const response = await tryFetch('https://api.vercel.com/v2/user', { headers });
+  if (!response) return check('vercel', 'unreachable', 'Could not reach Vercel', ['Check your connection and try again.']);
+  if (response.status === 401 || response.status === 403) {
+    return check('vercel', 'invalid', 'Token rejected', [
+      'Vercel did not accept the token. It may have expired; create a new one at https://vercel.com/account/tokens.',
+    ]);
+  }
+  if (!response.ok) {
+    return check('vercel', 'unreachable', `Vercel returned ${response.status}`, ['Try again in a moment.']);
+  }
+
+  const body = await tryJson<{ user?: { username?: string; email?: string } }>(response);
+  if (!body) return check('vercel', 'unreachable', 'Unexpected response from Vercel', ['Try again in a moment.']);
+  const { user } = body;
+  const account = user?.username ?? user?.email ?? 'your account';
+  if (!vercelKeys.teamId) return check('vercel', 'valid', `Signed in as ${account}`);
+
+  const teamResponse = await tryFetch(`https://api.vercel.com/v2/teams/${encodeURIComponent(vercelKeys.teamId)}`, { headers });
+  if (!teamResponse) return check('vercel', 'unreachable', `Signed in as ${account}`, ['Could not check team access; try again.']);
+  if (!teamResponse.ok) {
+    return check('vercel', 'invalid', `Signed in as ${account}`, [
+      `The token cannot access team "${vercelKeys.teamId}". Create the token with that team in its scope, or clear Team ID to deploy to your personal account.`,
+    ]);
+  }
+  const team = await tryJson<{ name?: string }>(teamResponse);
+  if (!team) return check('vercel', 'unreachable', `Signed in as ${account}`, ['Could not check team access; try again.']);
+  return check('vercel', 'valid', `Signed in as ${account} (team ${team.name ?? vercelKeys.teamId})`);
+}
+
+export async function validateSupabaseCredentials(supabaseKeys: ApiKeys['supabase']): Promise<CredentialCheck> {
+  if (!supabaseKeys.token) return check('supabase', 'invalid', 'No token', ['Add a Supabase access token.']);
+
+  const response = await tryFetch(`${BACKEND_URL}/api/supabase/organizations?token=${supabaseKeys.token}`);
+  if (!response) {
+    return check('supabase', 'unreachable', 'Could not reach the backend', ['Supabase is checked through the backend proxy; make sure it is running.']);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return check('supabase', 'invalid', 'Token rejected', [
+      'Supabase did not accept the token. Create a new one at https://supabase.com/dashboard/account/tokens.',
+    ]);
+  }
+  if (!response.ok) {
+    return check('supabase', 'unreachable', `Supabase returned ${response.status}`, ['Try again in a moment.']);
+  }
+
+  const organizations = await tryJson<Array<{ id: string; slug?: string; name: string }>>(response);
+  if (!Array.isArray(organizations)) {
+    return check('supabase', 'unreachable', 'Unexpected response from the backend', ['Supabase is checked through the backend proxy; make sure it is running.']);
+  }
+  const available = organizations.map(org => `${org.name} (${org.slug ?? org.id})`).join(', ') || 'none';
+  if (!supabaseKeys.orgId) {
+    return check('supabase', 'invalid', 'No organization', [`Set Organization ID to one of: ${available}.`]);
+  }
+
+  const organization = organizations.find(org => org.id === supabaseKeys.orgId || org.slug === supabaseKeys.orgId);
+  if (!organization) {
+    return check('supabase', 'invalid', 'Not a member of the organization', [
+      `The token has no access to organization "${supabaseKeys.orgId}". Organizations it can use: ${available}.`,
+    ]);
+  }
+  return check('supabase', 'valid', `Member of ${organization.name}`);
+}
+
+export async function validateAnthropicCredentials(apiKey: string): Promise<CredentialCheck> {
+  if (!apiKey) return check('anthropic', 'invalid', 'No API key', ['Add an Anthropic API key.']);
+
+  const response = await tryFetch('https://api.anthropic.com/v1/models?limit=100', {
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'anthropic-dangerous-direct-browser-access': 'true',
+    },
+  });
+  if (!response) return check('anthropic', 'unreachable', 'Could not reach Anthropic', ['Check your connection and try again.']);
+  if (response.status === 401) {
+    return check('anthropic', 'invalid', 'API key rejected', [
+      'Anthropic did not accept the key. Create a new one at https://console.anthropic.com/settings/keys.',
+    ]);
+  }
+  if (response.status === 403) {
+    return check('anthropic', 'invalid', 'API key not permitted', ['The key cannot list models; check that its workspace is active.']);
+  }
+  if (!response.ok) {
+    return check('anthropic', 'unreachable', `Anthropic returned ${response.status}`, ['Try again in a moment.']);
+  }
+
+  const body = await tryJson<{ data?: unknown }>(response);
+  if (!body) return check('anthropic', 'unreachable', 'Unexpected response from Anthropic', ['Try again in a moment.']);
+  const { data } = body;
+  const count = Array.isArray(data) ? data.length : 0;
+  return check('anthropic', 'valid', `${count} model${count === 1 ? '' : 's'} available`);
+}
+
+/**
+ * Check every credential the settings will use, in parallel
+ */
+export async function validateCredentials(settings: Settings): Promise<CredentialReport> {
+  const { apiKeys } = settings;
+  const dryRun = !!settings.preferences.dryRun;
+  const notUsed = (provider: CredentialProvider, reason: string) => Promise.resolve(check(provider, 'skipped', reason));
+
+  const [anthropic, github, vercel, supabase] = await Promise.all([
+    settings.llm?.provider === 'openai-compatible'
+      ? notUsed('anthropic', 'Using an OpenAI-compatible server')
+      : validateAnthropicCredentials(apiKeys.anthropic),
+    dryRun ? notUsed('github', 'Not used in dry runs') : validateGithubCredentials(apiKeys.github),
+    dryRun ? notUsed('vercel', 'Not used in dry runs') : validateVercelCredentials(apiKeys.vercel),
+    dryRun ? notUsed('supabase', 'Not used in dry runs') : validateSupabaseCredentials(apiKeys.supabase),
+  ]);
+
+  return { anthropic, github, vercel, supabase };
+}
+
+/**
+ * Whether a build will fail because of a credential in the report
+ */
+export function hasInvalidCredentials(report: CredentialReport): boolean {
+  return Object.values(report).some(result => result.status === 'invalid');
+}
@@ -0,0 +1,122 @@
+/**
+ * Database Types
+ * Renders a project's live tables as src/types/database.ts in the shape of
+ * `supabase gen types typescript`, and reads that file back so the error
+ * checker knows which tables and columns exist.
+ */
+
+export interface DatabaseColumn {
+  name: string;
+  type: string; // Postgres type as introspected, e.g. "int4", "_text", "timestamp with time zone"
+  nullable: boolean;
+  has_default: boolean; // Includes identity columns
+}
+
+export interface DatabaseTable {
+  name: string;
+  columns: DatabaseColumn[];
+}
+
+export const DATABASE_TYPES_FILE = 'src/types/database.ts';
+
+// Only files carrying this header describe the live database
+const GENERATED_HEADER = '// Generated by Brainiac from the live Supabase schema (generate_database_types). Do not edit by hand.';
+
+const TS_TYPES: Record<string, string> = {
+  int2: 'number', int4: 'number', int8: 'number', smallint: 'number', integer: 'number', bigint: 'number',
+  serial: 'number', bigserial: 'number', float4: 'number', float8: 'number', real: 'number',
+  'double precision': 'number', numeric: 'number', decimal: 'number',
+  bool: 'boolean', boolean: 'boolean',
+  json: 'Json', jsonb: 'Json',
+};
+
+/**
+ * TypeScript type of a column value, ignoring nullability
+ */
+export function postgresToTsType(type: string): string {
+  const normalized = type.toLowerCase().replace(/\(.*?\)/, '').trim();
+  if (normalized.endsWith('[]')) return `${postgresToTsType(normalized.slice(0, -2))}[]`;
+  if (normalized.startsWith('_')) return `${postgresToTsType(normalized.slice(1))}[]`;
+  // Text, uuids, dates, times and enums all arrive as strings
+  return TS_TYPES[normalized] ?? 'string';
+}
+
+function tsField(column: DatabaseColumn, optional: boolean): string {
+  const type = postgresToTsType(column.type);
+  return `${column.name}${optional ? '?' : ''}: ${column.nullable ? `${type} | null` : type}`;
+}
+
+function tsBlock(name: string, lines: string[], indent: string): string[] {
+  if (lines.length === 0) return [`${indent}${name}: {}`];
+  return [`${indent}${name}: {`, ...lines.map(line => `${indent}  ${line}`), `${indent}}`];
+}
+
+/**
+ * Contents of src/types/database.ts for the given tables
+ */
+export function generateDatabaseTypes(tables: DatabaseTable[]): string {
+  const tableBlocks = [...tables]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(table => [
+      `      ${table.name}: {`,
+      ...tsBlock('Row', table.columns.map(c => tsField(c, false)), '        '),
+      ...tsBlock('Insert', table.columns.map(c => tsField(c, c.nullable || c.has_default)), '        '),
+      ...tsBlock('Update', table.columns.map(c => tsField(c, true)), '        '),
+      '        Relationships: []',
+      '      }',
+    ]);
+
+  const tablesType = tableBlocks.length > 0 ? `{\n${tableBlocks.join('\n')}\n    }` : '{ [_ in never]: never }';
+
+  return `${GENERATED_HEADER}
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+export type Database = {
+  public: {
+    Tables: ${tablesType}
+    Views: { [_ in never]: never }
+    Functions: { [_ in never]: never }
+    Enums: { [_ in never]: never }
+    CompositeTypes: { [_ in never]: never }
+  }
+}
+
+type PublicTables = Database['public']['Tables']
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row']
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert']
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update']
+`;
+}
+
+/**
+ * Table name → column names from a generated types file; null when the file
+ * was not generated from the live schema (e.g. the template's starter types)
+ */
+export function parseDatabaseTypes(source: string): Record<string, string[]> | null {
+  if (!source.startsWith(GENERATED_HEADER)) return null;
+
+  const tables: Record<string, string[]> = {};
+  let table: string | null = null;
+  let inRow = false;
+  for (const line of source.split('\n')) {
+    const tableMatch = /^ {6}(\w+): \{$/.exec(line);
+    if (tableMatch) {
+      table = tableMatch[1];
+      tables[table] = [];
+      continue;
+    }
+    if (/^ {8}Row: \{$/.test(line)) {
+      inRow = true;
+      continue;
+    }
+    if (inRow && /^ {8}\}/.test(line)) {
+      inRow = false;
+      continue;
+    }
+    const columnMatch = inRow && table ? /^ {10}(\w+): /.exec(line) : null;
+    if (columnMatch && table) tables[table].push(columnMatch[1]);
+  }
+  return tables;
+}
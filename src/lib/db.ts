@@ -0,0 +1,514 @@
+/**
+ * Database
+ * Typed stores for everything kept between sessions: settings, projects,
+ * conversations (run journals) and file snapshots. Backed by IndexedDB once
+ * initDatabase() has run, and by localStorage where IndexedDB is unavailable.
+ * Reads come from memory so callers stay synchronous; IndexedDB writes are
+ * persisted behind them. Stored shapes are versioned: bump SCHEMA_VERSION with
+ * a migration whenever one changes.
+ */
+
+import { ProjectHistory } from '@/types';
+import type { FileSet } from './error-checker';
+import type { RunJournal } from './run-journal';
+
+export interface SettingsRecord {
+  id: string; // 'vault', or 'plaintext' for settings saved before the vault
+  value: unknown;
+}
+
+// A run journal without its files (those live in the snapshot with the same id)
+export type ConversationRecord = Omit<RunJournal, 'files'>;
+
+export interface FileSnapshot {
+  id: string; // Run id
+  createdAt: string;
+  files: FileSet;
+}
+
+export interface StoreRecords {
+  settings: SettingsRecord;
+  projects: ProjectHistory;
+  conversations: ConversationRecord;
+  snapshots: FileSnapshot;
+}
+
+export type StoreName = keyof StoreRecords;
+export type StoreContents = { [S in StoreName]: StoreRecords[S][] };
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (contents: StoreContents) => StoreContents;
+}
+
+const STORE_NAMES: StoreName[] = ['settings', 'projects', 'conversations', 'snapshots'];
+
+const RECORD_KEYS: { [S in StoreName]: (record: StoreRecords[S]) => string } = {
+  settings: record => record.id,
+  projects: record => record.id,
+  conversations: record => record.runId,
+  snapshots: record => record.id,
+};
+
+// Records are kept newest first; IndexedDB returns them by key, so they are sorted on load
+const RECORD_TIMES: { [S in StoreName]?: (record: StoreRecords[S]) => string } = {
+  projects: record => record.createdAt,
+  conversations: record => record.updatedAt,
+  snapshots: record => record.createdAt,
+};
+
+// Where data lived before the database
+const LEGACY_KEYS = {
+  settings: 'brainiac_settings',
+  vault: 'brainiac_vault',
+  history: 'brainiac_history',
+  journals: 'brainiac_run_journals',
+};
+
+function readLegacy(key: string): any {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return null;
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Import settings, history and run journals saved in localStorage before the database',
+    migrate: (contents) => {
+      const settings: SettingsRecord[] = [];
+      const vault = readLegacy(LEGACY_KEYS.vault);
+      if (vault) settings.push({ id: 'vault', value: vault });
+      const plaintext = readLegacy(LEGACY_KEYS.settings);
+      if (plaintext) settings.push({ id: 'plaintext', value: plaintext });
+
+      return {
+        ...contents,
+        settings: [...contents.settings, ...settings],
+        projects: [...contents.projects, ...(readLegacy(LEGACY_KEYS.history) ?? [])],
+        // Still carry their files until version 2
+        conversations: [...contents.conversations, ...(readLegacy(LEGACY_KEYS.journals) ?? [])],
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Move the files of each run out of its conversation into a snapshot',
+    migrate: (contents) => {
+      const snapshots: FileSnapshot[] = [];
+      const conversations = contents.conversations.map(conversation => {
+        const { files, ...rest } = conversation as RunJournal;
+        if (files && Object.keys(files).length > 0) {
+          snapshots.push({ id: rest.runId, createdAt: rest.updatedAt, files });
+        }
+        return rest;
+      });
+      return { ...contents, conversations, snapshots: [...contents.snapshots, ...snapshots] };
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring contents saved at fromVersion up to SCHEMA_VERSION
+ */
+export function migrateContents(contents: StoreContents, fromVersion: number): StoreContents {
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((migrated, migration) => {
+      console.log(`🗄️ Migrating storage to v${migration.version}: ${migration.description}`);
+      return migration.migrate(migrated);
+    }, contents);
+}
+
+function emptyContents(): StoreContents {
+  return { settings: [], projects: [], conversations: [], snapshots: [] };
+}
+
+/**
+ * Thrown (and reported to onStorageError listeners) when a write does not fit
+ * even after old snapshots and conversations were dropped
+ */
+export class StorageQuotaError extends Error {
+  store: StoreName;
+
+  constructor(store: StoreName) {
+    super(`Browser storage is full; could not save ${store}. Delete old projects or workspaces to free space.`);
+    this.name = 'StorageQuotaError';
+    this.store = store;
+  }
+}
+
+/**
+ * Reported when this tab cannot keep its data in IndexedDB (another tab
+ * blocks the upgrade, or upgraded the database under this one)
+ */
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  if (!(error instanceof DOMException) && !(error instanceof Error)) return false;
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED'; // Firefox
+}
+
+type StorageError = StorageQuotaError | StorageUnavailableError;
+
+const errorListeners = new Set<(error: StorageError) => void>();
+// Reported before anyone listened (e.g. while the database opens, before the app renders)
+const unheardErrors: StorageError[] = [];
+
+export function onStorageError(listener: (error: StorageError) => void): () => void {
+  errorListeners.add(listener);
+  unheardErrors.splice(0).forEach(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+function reportStorageError<E extends StorageError>(error: E): E {
+  console.error('❌', error.message);
+  if (errorListeners.size === 0) unheardErrors.push(error);
+  for (const listener of errorListeners) listener(error);
+  return error;
+}
+
+function reportQuotaError(store: StoreName): StorageQuotaError {
+  return reportStorageError(new StorageQuotaError(store));
+}
+
+/**
+ * Oldest record that can be dropped to make room: snapshots first, then
+ * conversations. Projects and settings are never evicted.
+ */
+function evictionCandidate(contents: StoreContents, keep: { store: StoreName; key: string }): { store: StoreName; key: string } | null {
+  for (const store of ['snapshots', 'conversations'] as const) {
+    const records = contents[store] as Array<StoreRecords[typeof store]>;
+    for (let i = records.length - 1; i >= 0; i--) {
+      const key = (RECORD_KEYS[store] as (record: unknown) => string)(records[i]);
+      if (store !== keep.store || key !== keep.key) return { store, key };
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// localStorage (fallback, and where data waits until IndexedDB is opened)
+// ---------------------------------------------------------------------------
+
+const LOCAL_VERSION_KEY = 'brainiac_db_version';
+const localKey = (store: StoreName) => `brainiac_db_${store}`;
+
+function readLocalStore<S extends StoreName>(store: S): StoreRecords[S][] {
+  try {
+    const data = localStorage.getItem(localKey(store));
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error(`Failed to load ${store}:`, error);
+    return [];
+  }
+}
+
+function writeLocalStore<S extends StoreName>(store: S, records: StoreRecords[S][], keepKey = ''): void {
+  for (;;) {
+    try {
+      localStorage.setItem(localKey(store), JSON.stringify(records));
+      return;
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      const contents = readLocalContents();
+      contents[store] = records as StoreContents[S];
+      const victim = evictionCandidate(contents, { store, key: keepKey });
+      if (!victim) throw reportQuotaError(store);
+
+      console.warn(`⚠️ Storage full; dropping ${victim.store} ${victim.key}`);
+      if (victim.store === store) {
+        records = records.filter(r => (RECORD_KEYS[store] as (record: unknown) => string)(r) !== victim.key);
+      } else {
+        const remaining = contents[victim.store].filter(r => (RECORD_KEYS[victim.store] as (record: unknown) => string)(r) !== victim.key);
+        localStorage.setItem(localKey(victim.store), JSON.stringify(remaining));
+      }
+    }
+  }
+}
+
+function readLocalContents(): StoreContents {
+  const contents = emptyContents();
+  for (const store of STORE_NAMES) {
+    (contents as Record<StoreName, unknown[]>)[store] = readLocalStore(store);
+  }
+  return contents;
+}
+
+function removeLegacyKeys(): void {
+  for (const key of Object.values(LEGACY_KEYS)) localStorage.removeItem(key);
+}
+
+// Migrated lazily, on first use in this session (or after localStorage was cleared)
+function ensureLocalSchema(): void {
+  const version = Number(localStorage.getItem(LOCAL_VERSION_KEY) ?? 0);
+  if (version >= SCHEMA_VERSION) return;
+
+  const contents = migrateContents(version === 0 ? emptyContents() : readLocalContents(), version);
+  for (const store of STORE_NAMES) writeLocalStore(store, contents[store]);
+  localStorage.setItem(LOCAL_VERSION_KEY, String(SCHEMA_VERSION));
+  removeLegacyKeys();
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB
+// ---------------------------------------------------------------------------
+
+const DB_NAME = 'brainiac';
+const META_STORE = 'meta';
+
+let database: IDBDatabase | null = null;
+let memory: StoreContents | null = null; // What IndexedDB holds, newest first
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// How long an upgrade waits for older tabs to let go of the database
+export const BLOCKED_UPGRADE_TIMEOUT_MS = 10_000;
+
+// A newer tab wants to upgrade: let it, and tell the user this tab stopped saving
+function releaseOnVersionChange(db: IDBDatabase): void {
+  db.onversionchange = () => {
+    db.close();
+    if (database !== db) return;
+    database = null;
+    reportStorageError(new StorageUnavailableError(
+      'Brainiac was opened in a newer version in another tab. Reload this tab; changes made here are no longer saved.'
+    ));
+  };
+}
+
+function openIndexedDb(factory: IDBFactory): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = factory.open(DB_NAME, SCHEMA_VERSION);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let gaveUp = false;
+
+    // Object stores only ever get added; record shapes are migrated after opening
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      for (const store of [...STORE_NAMES, META_STORE]) {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+      }
+    };
+    open.onsuccess = () => {
+      clearTimeout(timer);
+      const db = open.result;
+      if (gaveUp) {
+        db.close(); // Too late: this tab already uses localStorage
+        return;
+      }
+      releaseOnVersionChange(db);
+      resolve(db);
+    };
+    open.onerror = () => {
+      clearTimeout(timer);
+      reject(open.error);
+    };
+    // Other tabs close their connection on versionchange; older builds may not, so wait only so long
+    open.onblocked = () => {
+      console.warn('⚠️ Storage upgrade is waiting for other Brainiac tabs to close');
+      timer ??= setTimeout(() => {
+        gaveUp = true;
+        reject(new StorageUnavailableError(
+          'Another Brainiac tab is blocking the storage upgrade, so this tab saves to localStorage for now. Close the other tabs and reload to keep everything in one place.'
+        ));
+      }, BLOCKED_UPGRADE_TIMEOUT_MS);
+    };
+  });
+}
+
+async function readIndexedDb(db: IDBDatabase): Promise<{ version: number; contents: StoreContents }> {
+  const tx = db.transaction([...STORE_NAMES, META_STORE], 'readonly');
+  const contents = emptyContents();
+  for (const store of STORE_NAMES) {
+    const records = await request(tx.objectStore(store).getAll());
+    const time = RECORD_TIMES[store] as ((record: unknown) => string) | undefined;
+    (contents as Record<StoreName, unknown[]>)[store] = time
+      ? records.sort((a, b) => time(b).localeCompare(time(a)))
+      : records;
+  }
+  const version = (await request(tx.objectStore(META_STORE).get('schemaVersion'))) ?? 0;
+  return { version, contents };
+}
+
+async function writeIndexedDb(
+  db: IDBDatabase,
+  changes: Array<{ store: StoreName; put?: unknown; deleteKey?: string; replaceWith?: unknown[] }>,
+  version?: number
+): Promise<void> {
+  const tx = db.transaction([...STORE_NAMES, META_STORE], 'readwrite');
+  for (const change of changes) {
+    const objectStore = tx.objectStore(change.store);
+    const key = RECORD_KEYS[change.store] as (record: unknown) => string;
+    if (change.replaceWith) {
+      objectStore.clear();
+      for (const record of change.replaceWith) objectStore.put(record, key(record));
+    }
+    if (change.put) objectStore.put(change.put, key(change.put));
+    if (change.deleteKey !== undefined) objectStore.delete(change.deleteKey);
+  }
+  if (version !== undefined) tx.objectStore(META_STORE).put(version, 'schemaVersion');
+  await transactionDone(tx);
+}
+
+// Queue a write; on a full disk drop old snapshots/conversations and retry
+function persist(store: StoreName, change: { put?: unknown; deleteKey?: string; replaceWith?: unknown[] }): void {
+  const db = database;
+  if (!db) return;
+
+  pendingWrite = pendingWrite.then(async () => {
+    const keep = change.put ? (RECORD_KEYS[store] as (record: unknown) => string)(change.put) : '';
+    for (;;) {
+      try {
+        await writeIndexedDb(db, [{ store, ...change }]);
+        return;
+      } catch (error) {
+        if (!isQuotaError(error) || !memory) {
+          console.error(`Failed to save ${store}:`, error);
+          return;
+        }
+        const victim = evictionCandidate(memory, { store, key: keep });
+        if (!victim) {
+          reportQuotaError(store);
+          return;
+        }
+        console.warn(`⚠️ Storage full; dropping ${victim.store} ${victim.key}`);
+        removeFromMemory(victim.store, victim.key);
+        await writeIndexedDb(db, [{ store: victim.store, deleteKey: victim.key }]).catch(() => undefined);
+      }
+    }
+  });
+}
+
+function removeFromMemory(store: StoreName, key: string): void {
+  if (!memory) return;
+  const recordKey = RECORD_KEYS[store] as (record: unknown) => string;
+  (memory as Record<StoreName, unknown[]>)[store] = memory[store].filter(r => recordKey(r) !== key);
+}
+
+/**
+ * Open IndexedDB, migrate what it (or localStorage) holds to the current
+ * schema and serve every store from it. Falls back to localStorage when
+ * IndexedDB is unavailable; either way the app can start afterwards.
+ */
+export async function initDatabase(factory: IDBFactory | undefined = globalThis.indexedDB): Promise<'indexeddb' | 'localstorage'> {
+  if (database) return 'indexeddb';
+  if (!factory) {
+    console.warn('⚠️ IndexedDB unavailable; keeping data in localStorage');
+    return 'localstorage';
+  }
+
+  let db: IDBDatabase | undefined;
+  try {
+    db = await openIndexedDb(factory);
+    const stored = await readIndexedDb(db);
+    let contents: StoreContents;
+    if (stored.version === 0) {
+      // First open: take over whatever localStorage holds (migrated to the current schema)
+      ensureLocalSchema();
+      contents = readLocalContents();
+    } else {
+      contents = migrateContents(stored.contents, stored.version);
+    }
+
+    if (stored.version < SCHEMA_VERSION) {
+      await writeIndexedDb(db, STORE_NAMES.map(store => ({ store, replaceWith: contents[store] })), SCHEMA_VERSION);
+      for (const store of STORE_NAMES) localStorage.removeItem(localKey(store));
+      localStorage.removeItem(LOCAL_VERSION_KEY);
+    }
+
+    memory = contents;
+    database = db;
+    console.log(`🗄️ Storage ready (IndexedDB, schema v${SCHEMA_VERSION})`);
+    return 'indexeddb';
+  } catch (error) {
+    db?.close();
+    reportStorageError(error instanceof StorageUnavailableError
+      ? error
+      : new StorageUnavailableError(`Could not open the browser database (${error instanceof Error ? error.message : String(error)}); this tab saves to localStorage for now.`));
+    return 'localstorage';
+  }
+}
+
+/**
+ * Settles once every queued IndexedDB write has finished
+ */
+export function flushDatabase(): Promise<void> {
+  return pendingWrite;
+}
+
+// ---------------------------------------------------------------------------
+// Store access
+// ---------------------------------------------------------------------------
+
+export function getRecords<S extends StoreName>(store: S): StoreRecords[S][] {
+  if (memory) return [...memory[store]] as StoreRecords[S][];
+  ensureLocalSchema();
+  return readLocalStore(store);
+}
+
+export function getRecord<S extends StoreName>(store: S, key: string): StoreRecords[S] | undefined {
+  const recordKey = RECORD_KEYS[store] as (record: StoreRecords[S]) => string;
+  return getRecords(store).find(record => recordKey(record) === key);
+}
+
+/**
+ * Insert or replace a record; it becomes the newest in its store
+ */
+export function putRecord<S extends StoreName>(store: S, record: StoreRecords[S]): void {
+  const recordKey = RECORD_KEYS[store] as (record: StoreRecords[S]) => string;
+  const key = recordKey(record);
+  const records = [record, ...getRecords(store).filter(r => recordKey(r) !== key)];
+
+  if (memory) {
+    (memory as Record<StoreName, unknown[]>)[store] = records;
+    persist(store, { put: record });
+    return;
+  }
+  writeLocalStore(store, records, key);
+}
+
+/**
+ * Delete every record of the store that matches
+ */
+export function deleteRecords<S extends StoreName>(store: S, matches: (record: StoreRecords[S]) => boolean): void {
+  const recordKey = RECORD_KEYS[store] as (record: StoreRecords[S]) => string;
+  const records = getRecords(store);
+  const remaining = records.filter(record => !matches(record));
+  if (remaining.length === records.length) return;
+
+  if (memory) {
+    (memory as Record<StoreName, unknown[]>)[store] = remaining;
+    for (const record of records.filter(matches)) persist(store, { deleteKey: recordKey(record) });
+    return;
+  }
+  writeLocalStore(store, remaining);
+}
@@ -0,0 +1,154 @@
+/**
+ * Deploy Heal
+ * Follows a Vercel deployment until it finishes. When the build fails, the
+ * build log is parsed into errors, the self-heal flow fixes the repo files,
+ * the fix is committed and the project is redeployed (up to an attempt limit).
+ */
+
+import { ERROR_CHECKER, DetectedError, FileSet } from './error-checker';
+import { selfHealWithFallbackModels } from './self-heal';
+import { ToolContext } from './tool-registry';
+import { VercelDeploymentState, VercelDeploymentStatus } from './tools/vercel';
+
+export const DEFAULT_DEPLOY_HEAL_ATTEMPTS = 2;
+
+export interface DeploymentTarget {
+  deployment_id: string;
+  project_id?: string;
+  project_name?: string; // Used to redeploy when the ID is not known
+  repo?: string; // Repo the project deploys from; without it failures are only reported
+  branch?: string; // Deployed branch (preview); fixes are committed there
+}
+
+export interface DeploymentOutcome {
+  state: VercelDeploymentState;
+  deployment_id: string;
+  url?: string;
+  heal_attempts: number;
+  fixed_files: string[];
+  build_errors?: string[]; // Errors from the last failed build
+  timed_out?: boolean;
+}
+
+// tsc output in both plain ("src/App.tsx(12,5): error TS2322: ...") and pretty ("src/App.tsx:12:5 - error TS2322: ...") form
+const COMPILER_ERROR = /(src\/[\w./@-]+\.[tj]sx?)(?:\((\d+),(\d+)\)|:(\d+):(\d+))\s*[-:]?\s*error\s+TS(\d+):\s*(.+)/g;
+const SOURCE_PATH = /(?:\/vercel\/path\d+\/)?(src\/[\w./@-]+\.[tj]sx?)/;
+const LOG_TAIL_LINES = 20;
+
+/**
+ * Errors in a Vercel build log, in the error checker's format ("[path] ..." so self-heal can find the file)
+ */
+export function analyzeBuildLog(log: string): DetectedError[] {
+  const errors: DetectedError[] = [];
+
+  for (const match of log.matchAll(COMPILER_ERROR)) {
+    const [, file, parenLine, parenColumn, colonLine, colonColumn, code, message] = match;
+    const line = parseInt(parenLine ?? colonLine);
+    const column = parseInt(parenColumn ?? colonColumn);
+    errors.push({
+      id: `ts${code}`,
+      line,
+      column,
+      message: `[${file}] (${line}:${column}) TS${code}: ${message.trim()}`,
+      severity: 'error',
+      canAutoFix: false,
+    });
+  }
+
+  // Known failure patterns (missing packages, bad config, ...) point at the first file the log mentions
+  const mentionedFile = SOURCE_PATH.exec(log)?.[1];
+  const patternErrors = [
+    ...ERROR_CHECKER.detectFromBuildOutput(log),
+    ...ERROR_CHECKER.detectPackageErrors(log),
+    ...ERROR_CHECKER.detectBuildConfigErrors(log),
+  ].map(e => (mentionedFile ? { ...e, message: `[${mentionedFile}] ${e.message}` } : e));
+
+  for (const error of patternErrors) {
+    if (!errors.some(e => e.message === error.message)) errors.push(error);
+  }
+
+  return errors;
+}
+
+// Something for the healer to go on when no known pattern matched
+function unrecognizedFailure(status: VercelDeploymentStatus): DetectedError {
+  const log = status.build_log || '';
+  const tail = log.split('\n').slice(-LOG_TAIL_LINES).join('\n');
+  const mentionedFile = SOURCE_PATH.exec(log)?.[1];
+  return {
+    id: 'vercel_build_failed',
+    message: `${mentionedFile ? `[${mentionedFile}] ` : ''}Vercel build failed${status.error_message ? `: ${status.error_message}` : ''}${tail ? `\nBuild log (last lines):\n${tail}` : ''}`,
+    severity: 'error',
+    canAutoFix: false,
+  };
+}
+
+function changedFiles(before: FileSet, after: FileSet): FileSet {
+  return Object.fromEntries(Object.entries(after).filter(([path, content]) => before[path] !== content));
+}
+
+/**
+ * Wait for a deployment; heal and redeploy while it fails
+ */
+export async function followDeployment(
+  target: DeploymentTarget,
+  ctx: ToolContext,
+  maxAttempts: number = DEFAULT_DEPLOY_HEAL_ATTEMPTS
+): Promise<DeploymentOutcome> {
+  const { backend, provider, model, onProgress, reportFiles } = ctx;
+  const fixedFiles = new Set<string>();
+  let healAttempts = 0;
+
+  onProgress('deploying', '⏳ Waiting for the Vercel build...', 90);
+  let status = await backend.waitForVercelDeployment({ deployment_id: target.deployment_id }, ctx.signal);
+  let errors: DetectedError[] = [];
+
+  while (status.state === 'ERROR') {
+    errors = analyzeBuildLog(status.build_log || '');
+    if (errors.length === 0) errors = [unrecognizedFailure(status)];
+    console.error(`❌ Vercel build failed with ${errors.length} error(s):`, errors.map(e => e.message));
+
+    if (!target.repo || healAttempts >= maxAttempts || ctx.signal?.aborted) break;
+    healAttempts++;
+
+    try {
+      onProgress('self_heal', `🩹 Deployment failed. Healing build errors (${healAttempts}/${maxAttempts})...`, 91);
+      const { files } = await backend.getGithubRepoFiles({ repo: target.repo, branch: target.branch });
+      const healed = await selfHealWithFallbackModels(provider, model, files, errors, onProgress, healAttempts, maxAttempts);
+
+      const changed = changedFiles(files, healed.updatedFiles);
+      if (Object.keys(changed).length === 0) {
+        console.warn('⚠️ Self-heal changed no files; not redeploying');
+        break;
+      }
+
+      const commit = await backend.createGithubCommit({
+        repo: target.repo,
+        message: `Fix Vercel build errors (attempt ${healAttempts})`,
+        files: changed,
+        branch: target.branch,
+      });
+      ctx.projectData.commit_sha = commit.sha; // Generation timeline
+      Object.keys(changed).forEach(path => fixedFiles.add(path));
+      reportFiles(changed);
+
+      onProgress('deploying', '🚀 Redeploying with fixes...', 92);
+      const redeploy = await backend.triggerVercelDeployment({ project_id: target.project_id, project_name: target.project_name, ref: target.branch });
+      status = await backend.waitForVercelDeployment({ deployment_id: redeploy.id }, ctx.signal);
+    } catch (healErr: any) {
+      if (ctx.signal?.aborted) throw healErr; // Stopped (or over budget): end the run, not just the heal
+      console.error('❌ Deployment heal attempt failed:', healErr);
+      break;
+    }
+  }
+
+  return {
+    state: status.state,
+    deployment_id: status.id,
+    url: status.url,
+    heal_attempts: healAttempts,
+    fixed_files: [...fixedFiles],
+    ...(status.state === 'ERROR' ? { build_errors: errors.map(e => e.message) } : {}),
+    ...(status.timed_out ? { timed_out: true } : {}),
+  };
+}
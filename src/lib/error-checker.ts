@@ -17,6 +17,8 @@
  * 10. Security Issues
  */
 
+import { DATABASE_TYPES_FILE, parseDatabaseTypes } from './database-types';
+
 export type ErrorCategory = 
   | 'typescript' | 'react' | 'tailwind' | 'import' | 'jsx' | 'env' 
   | 'package' | 'config' | 'css' | 'supabase' | 'vercel' | 'performance' | 'security';
@@ -2256,6 +2258,149 @@ export function autoFixBuildConfig(
  */
 export const BUILD_CONFIG_ERROR_PATTERNS = buildConfigErrors;
 
+// =============================================================================
+// DATABASE QUERY CHECKS (against the generated src/types/database.ts)
+// =============================================================================
+
+const QUERY_START = /\bsupabase\s*\.from\(\s*(['"`])(\w+)\1\s*\)/g;
+const COLUMN_ARG_METHODS = /\.(eq|neq|gt|gte|lt|lte|like|ilike|is|in|contains|containedBy|order|not|filter|textSearch)\(\s*(['"`])([^'"`]+)\2/g;
+const WRITE_METHODS = /\.(insert|update|upsert)\(\s*\[?\s*\{/g;
+
+// The rest of a `.from(...)` chain: ends at a `;`, at a line that does not
+// continue it with `.method`, or where its enclosing parentheses close
+function queryChain(code: string, start: number): string {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < code.length; i++) {
+    const ch = code[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === '`') quote = ch;
+    else if ('([{'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) {
+      if (depth === 0) return code.slice(start, i);
+      depth--;
+    } else if (depth === 0 && ch === ';') return code.slice(start, i);
+    else if (depth === 0 && ch === '\n' && !/^\s*\./.test(code.slice(i + 1))) return code.slice(start, i);
+  }
+  return code.slice(start);
+}
+
+// Split on commas outside parentheses, braces and brackets
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if ('([{'.includes(ch)) depth++;
+    if (')]}'.includes(ch)) depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  return [...parts, current];
+}
+
+// "alias:column::text" or "data->>key" → "column" / "data"; null for * and embedded relations
+function selectedColumn(item: string): string | null {
+  const trimmed = item.trim();
+  if (!trimmed || trimmed === '*' || trimmed.includes('(')) return null;
+  return trimmed.replace(/^\w+:(?!:)/, '').split('::')[0].split('->')[0].trim() || null;
+}
+
+// Top-level keys of the object literal whose `{` is at `start`
+function objectKeys(code: string, start: number): string[] {
+  let depth = 0;
+  let end = start;
+  while (end < code.length) {
+    if ('([{'.includes(code[end])) depth++;
+    if (')]}'.includes(code[end])) depth--;
+    if (depth === 0) break;
+    end++;
+  }
+  return splitTopLevel(code.slice(start + 1, end))
+    .map(entry => /^\s*['"]?(\w+)['"]?\s*(?::|$)/.exec(entry)?.[1]) // Spreads have no key
+    .filter((key): key is string => Boolean(key));
+}
+
+function lineAt(code: string, index: number): number {
+  return code.slice(0, index).split('\n').length;
+}
+
+/**
+ * Flag Supabase queries against tables or columns the database does not have.
+ * Needs the types generated from the live schema; without them nothing is checked.
+ */
+export function preCheckDatabaseQueries(files: FileSet): DetectedError[] {
+  const typesSource = files[DATABASE_TYPES_FILE];
+  const tables = typesSource ? parseDatabaseTypes(typesSource) : null;
+  if (!tables) return [];
+
+  const errors: DetectedError[] = [];
+  const tableNames = Object.keys(tables);
+
+  for (const [path, code] of Object.entries(files)) {
+    if (path === DATABASE_TYPES_FILE || !/\.(tsx?|jsx?)$/.test(path)) continue;
+
+    for (const match of code.matchAll(QUERY_START)) {
+      const table = match[2];
+      const line = lineAt(code, match.index ?? 0);
+      const columns = tables[table];
+      if (!columns) {
+        errors.push({
+          id: 'unknown-table',
+          line,
+          message: `[${path}] Table "${table}" does not exist in the database (tables: ${tableNames.join(', ') || 'none'})`,
+          severity: 'error',
+          canAutoFix: false,
+          recommendation: 'Fix the table name, or add the table with design_database_schema and run generate_database_types',
+        });
+        continue;
+      }
+
+      const chainStart = (match.index ?? 0) + match[0].length;
+      const chain = queryChain(code, chainStart);
+      const used = new Set<string>();
+
+      for (const select of chain.matchAll(/\.select\(\s*(['"`])([^'"`]*)\1/g)) {
+        for (const item of splitTopLevel(select[2])) {
+          const column = selectedColumn(item);
+          if (column) used.add(column);
+        }
+      }
+      for (const call of chain.matchAll(COLUMN_ARG_METHODS)) {
+        const column = call[3].split('->')[0].trim();
+        if (!column.includes('.')) used.add(column); // "relation.column" filters an embedded table
+      }
+      for (const write of chain.matchAll(WRITE_METHODS)) {
+        const braceIndex = chainStart + (write.index ?? 0) + write[0].length - 1;
+        objectKeys(code, braceIndex).forEach(key => used.add(key));
+      }
+
+      for (const column of used) {
+        if (/^\w+$/.test(column) && !columns.includes(column)) {
+          errors.push({
+            id: 'unknown-column',
+            line,
+            message: `[${path}] Column "${column}" does not exist on table "${table}" (columns: ${columns.join(', ')})`,
+            severity: 'error',
+            canAutoFix: false,
+            recommendation: 'Fix the column name, or add the column with design_database_schema and run generate_database_types',
+          });
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Generate error summary for system prompt
  */
@@ -2412,6 +2557,7 @@ export const ERROR_CHECKER = {
   preCheck: preCheckCode,
   preCheckPackage: preCheckPackageJson,
   preCheckBuildConfig: preCheckBuildConfig,
+  preCheckDatabase: preCheckDatabaseQueries,
   
   // Auto-fix functions
   autoFix: autoFixErrors,
@@ -0,0 +1,73 @@
+/**
+ * Generations
+ * Every agent run that changes a project ends at a commit. Project history
+ * keeps those commits so any earlier generation can be restored and
+ * redeployed.
+ */
+
+import { ProjectContext, ProjectHistory } from '@/types';
+import { FileSet } from './error-checker';
+import { ToolBackend } from './tools/backend';
+import { GithubRestoreMode } from './tools/github';
+
+export interface RestoredGeneration {
+  sha: string; // Commit the default branch points at now
+  files: FileSet; // Restored files, for the preview and CodeViewer
+  deploymentUrl?: string;
+  deployError?: string; // The restore went through but the redeploy did not start
+}
+
+export function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
+
+/**
+ * Generations of a repo, most recently current first. A branch reset brings an
+ * existing SHA back, so each commit is listed once under the run that produced
+ * it, ordered by when the repo was last at it.
+ */
+export function generationsFor(history: ProjectHistory[], githubRepo: string): ProjectHistory[] {
+  const byCommit = new Map<string, { producer: ProjectHistory; lastSeen: string }>();
+  const oldestFirst = [...history]
+    .filter(entry => entry.commitSha && entry.projectContext?.githubRepo === githubRepo)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const entry of oldestFirst) {
+    const seen = byCommit.get(entry.commitSha!);
+    byCommit.set(entry.commitSha!, { producer: seen?.producer ?? entry, lastSeen: entry.createdAt });
+  }
+  return [...byCommit.values()]
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+    .map(({ producer }) => producer);
+}
+
+/**
+ * Put the project's default branch back to a generation's commit and redeploy it
+ */
+export async function restoreGeneration(
+  backend: ToolBackend,
+  project: ProjectContext,
+  sha: string,
+  mode: GithubRestoreMode
+): Promise<RestoredGeneration> {
+  const restored = await backend.restoreGithubCommit({
+    repo: project.githubRepo,
+    sha,
+    mode,
+    message: `Restore generation ${shortSha(sha)}`,
+  });
+  console.log(`↩️ Restored ${project.githubRepo} to ${shortSha(sha)} (${mode})`);
+
+  const { files } = await backend.getGithubRepoFiles({ repo: project.githubRepo });
+
+  if (!project.vercelProjectId) {
+    return { sha: restored.sha, files };
+  }
+  try {
+    const deployment = await backend.triggerVercelDeployment({ project_id: project.vercelProjectId });
+    return { sha: restored.sha, files, deploymentUrl: deployment.url };
+  } catch (error: any) {
+    console.error('❌ Redeploy after restore failed:', error);
+    return { sha: restored.sha, files, deployError: error?.message || String(error) };
+  }
+}
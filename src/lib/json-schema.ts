@@ -0,0 +1,103 @@
+/**
+ * JSON Schema
+ * The subset of JSON Schema used by tool input schemas, plus a small
+ * validator so tool inputs can be checked before a handler runs.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface SchemaValidationError {
+  path: string; // e.g. "input.files[2].path"
+  message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType | 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a schema. Returns every problem found (empty when valid).
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = 'input'): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push({ path, message: `Expected ${schema.type}, got ${typeOf(value)}` });
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `Must be one of: ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, message: `Must be at least ${schema.minLength} characters` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `Must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `Must have at least ${schema.minItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'Required property is missing' });
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(obj)) {
+      const propSchema = properties[key];
+      if (propSchema) {
+        if (propValue !== undefined) {
+          errors.push(...validateJsonSchema(propValue, propSchema, `${path}.${key}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'Unknown property' });
+      }
+    }
+  }
+
+  return errors;
+}
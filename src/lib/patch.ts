@@ -0,0 +1,222 @@
+/**
+ * Patch
+ * Applies unified diffs or search/replace hunks to file contents so the
+ * agent can edit files without sending them back in full. Every hunk is
+ * reported individually, so the model can fix just the ones that failed.
+ */
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export interface FilePatch {
+  path: string;
+  diff?: string; // Unified diff for this file (headers optional)
+  edits?: SearchReplaceEdit[];
+}
+
+export interface HunkResult {
+  hunk: number; // 1-based, in the order given
+  status: 'applied' | 'failed';
+  line?: number; // 1-based line in the original file where the hunk applied
+  error?: string;
+}
+
+export interface PatchResult {
+  content: string;
+  applied: boolean; // Every hunk applied
+  hunks: HunkResult[];
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  lines: DiffLine[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Parse the hunks of a single-file unified diff. Line counts in the headers
+ * are ignored (models often get them wrong); a hunk ends at the next header.
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  let current: DiffHunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const header = HUNK_HEADER.exec(line);
+
+    if (header) {
+      current = { oldStart: parseInt(header[1], 10), lines: [] };
+      hunks.push(current);
+      continue;
+    }
+
+    // File headers end the current hunk
+    if (line.startsWith('diff ') || (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))) {
+      current = null;
+      continue;
+    }
+
+    if (!current || line.startsWith('\\')) continue; // "\ No newline at end of file"
+
+    if (line.startsWith('+') || line.startsWith('-') || line.startsWith(' ')) {
+      current.lines.push({ type: line[0] as DiffLine['type'], text: line.slice(1) });
+    } else if (line === '' && i < lines.length - 1) {
+      // Blank context lines often lose their leading space
+      current.lines.push({ type: ' ', text: '' });
+    }
+  }
+
+  return hunks;
+}
+
+function blockMatchesAt(lines: string[], block: string[], at: number, loose: boolean): boolean {
+  if (at < 0 || at + block.length > lines.length) return false;
+  return block.every((text, i) => (loose ? lines[at + i].trimEnd() === text.trimEnd() : lines[at + i] === text));
+}
+
+/**
+ * Closest position to `expected` where `block` matches (exact first, then ignoring trailing whitespace)
+ */
+function findBlock(lines: string[], block: string[], expected: number): number {
+  for (const loose of [false, true]) {
+    for (let distance = 0; distance <= lines.length; distance++) {
+      if (blockMatchesAt(lines, block, expected - distance, loose)) return expected - distance;
+      if (distance > 0 && blockMatchesAt(lines, block, expected + distance, loose)) return expected + distance;
+    }
+  }
+  return -1;
+}
+
+function applyUnifiedDiff(content: string, diff: string): PatchResult {
+  const hunks = parseUnifiedDiff(diff);
+  const endsWithNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const results: HunkResult[] = [];
+  let offset = 0;
+  let linesAdded = 0;
+  let linesRemoved = 0;
+
+  if (hunks.length === 0) {
+    return { content, applied: false, hunks: [{ hunk: 1, status: 'failed', error: 'No @@ hunks found in diff' }], linesAdded, linesRemoved };
+  }
+
+  hunks.forEach((hunk, i) => {
+    const oldBlock = hunk.lines.filter(l => l.type !== '+').map(l => l.text);
+    const newBlock = hunk.lines.filter(l => l.type !== '-').map(l => l.text);
+    const expected = Math.max(0, hunk.oldStart - 1 + offset);
+
+    const at = oldBlock.length === 0 ? Math.min(expected, lines.length) : findBlock(lines, oldBlock, expected);
+    if (at < 0) {
+      results.push({
+        hunk: i + 1,
+        status: 'failed',
+        error: `Context not found near line ${hunk.oldStart}: ${JSON.stringify(oldBlock[0] ?? '')}`,
+      });
+      return;
+    }
+
+    results.push({ hunk: i + 1, status: 'applied', line: at - offset + 1 });
+    lines.splice(at, oldBlock.length, ...newBlock);
+    offset += newBlock.length - oldBlock.length;
+    linesAdded += hunk.lines.filter(l => l.type === '+').length;
+    linesRemoved += hunk.lines.filter(l => l.type === '-').length;
+  });
+
+  const patched = lines.join('\n') + (endsWithNewline && lines.length > 0 ? '\n' : '');
+  return {
+    content: patched,
+    applied: results.every(r => r.status === 'applied'),
+    hunks: results,
+    linesAdded,
+    linesRemoved,
+  };
+}
+
+function countLines(text: string): number {
+  return text === '' ? 0 : text.replace(/\n$/, '').split('\n').length;
+}
+
+function applySearchReplace(content: string, edits: SearchReplaceEdit[]): PatchResult {
+  let patched = content;
+  const results: HunkResult[] = [];
+  let linesAdded = 0;
+  let linesRemoved = 0;
+
+  edits.forEach((edit, i) => {
+    // An empty search only makes sense for a new (empty) file
+    if (edit.search === '') {
+      if (patched !== '') {
+        results.push({ hunk: i + 1, status: 'failed', error: 'Empty search text is only allowed for new files' });
+        return;
+      }
+      patched = edit.replace;
+      linesAdded += countLines(edit.replace);
+      results.push({ hunk: i + 1, status: 'applied', line: 1 });
+      return;
+    }
+
+    const first = patched.indexOf(edit.search);
+    if (first < 0) {
+      results.push({ hunk: i + 1, status: 'failed', error: `Search text not found: ${JSON.stringify(edit.search.slice(0, 80))}` });
+      return;
+    }
+
+    const matches = patched.split(edit.search).length - 1;
+    if (matches > 1) {
+      results.push({
+        hunk: i + 1,
+        status: 'failed',
+        error: `Search text matches ${matches} times; include more surrounding lines so it is unique`,
+      });
+      return;
+    }
+
+    patched = patched.slice(0, first) + edit.replace + patched.slice(first + edit.search.length);
+    linesAdded += countLines(edit.replace);
+    linesRemoved += countLines(edit.search);
+    results.push({ hunk: i + 1, status: 'applied', line: patched.slice(0, first).split('\n').length });
+  });
+
+  return {
+    content: patched,
+    applied: results.every(r => r.status === 'applied'),
+    hunks: results,
+    linesAdded,
+    linesRemoved,
+  };
+}
+
+/**
+ * Apply a file patch. The returned content is only meaningful when `applied` is true.
+ */
+export function applyFilePatch(content: string, patch: FilePatch): PatchResult {
+  if (patch.diff && patch.edits?.length) {
+    return { content, applied: false, hunks: [{ hunk: 1, status: 'failed', error: 'Use either diff or edits, not both' }], linesAdded: 0, linesRemoved: 0 };
+  }
+  if (patch.diff) return applyUnifiedDiff(content, patch.diff);
+  if (patch.edits?.length) return applySearchReplace(content, patch.edits);
+  return { content, applied: false, hunks: [{ hunk: 1, status: 'failed', error: 'Provide a diff or at least one edit' }], linesAdded: 0, linesRemoved: 0 };
+}
+
+/**
+ * Whether the patch creates a file from nothing (diff from line 0 or an empty search)
+ */
+export function isNewFilePatch(patch: FilePatch): boolean {
+  if (patch.diff) {
+    const hunks = parseUnifiedDiff(patch.diff);
+    return hunks.length > 0 && hunks.every(h => h.oldStart === 0 && h.lines.every(l => l.type === '+'));
+  }
+  return !!patch.edits?.length && patch.edits.every(e => e.search === '');
+}
@@ -0,0 +1,169 @@
+/**
+ * Build Planner
+ * Asks the model for a structured build plan before anything is created, so
+ * the user can review (and edit or reject) it. Planning makes no external
+ * calls besides the model request itself.
+ */
+
+import { templates } from './templates';
+import { JsonSchema, validateJsonSchema } from './json-schema';
+import { LLMProvider, ProviderToolUseBlock, ProviderUsage } from './providers';
+
+export interface PlannedFile {
+  path: string;
+  action: 'create' | 'modify';
+  purpose: string;
+}
+
+export interface BuildPlan {
+  summary: string;
+  template_id: string;
+  repo_name: string;
+  needs_supabase: boolean;
+  supabase_reason?: string;
+  files: PlannedFile[];
+  env_vars: string[];
+  deployment_steps: string[];
+}
+
+export interface PlannedBuild {
+  plan: BuildPlan;
+  usage: ProviderUsage; // Counted toward the build once the plan is approved
+}
+
+export const SUBMIT_PLAN_TOOL = 'submit_build_plan';
+
+export const BUILD_PLAN_SCHEMA: JsonSchema & { type: 'object' } = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: 'One or two sentences describing the app that will be built',
+    },
+    template_id: {
+      type: 'string',
+      description: 'Template to start from',
+      enum: templates.map(t => t.id),
+    },
+    repo_name: {
+      type: 'string',
+      description: 'GitHub repository name (lowercase, dashes)',
+    },
+    needs_supabase: {
+      type: 'boolean',
+      description: 'Whether the app needs a database or auth. Only true when the request clearly needs stored data or user accounts.',
+    },
+    supabase_reason: {
+      type: 'string',
+      description: 'Why a database is (or is not) needed',
+    },
+    files: {
+      type: 'array',
+      description: 'Files that will be created or changed on top of the template',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          action: { type: 'string', enum: ['create', 'modify'] },
+          purpose: { type: 'string' },
+        },
+        required: ['path', 'action', 'purpose'],
+      },
+    },
+    env_vars: {
+      type: 'array',
+      description: 'Environment variables the deployment needs (names only)',
+      items: { type: 'string' },
+    },
+    deployment_steps: {
+      type: 'array',
+      description: 'Ordered steps from repo creation to a live deployment',
+      items: { type: 'string' },
+    },
+  },
+  required: ['summary', 'template_id', 'repo_name', 'needs_supabase', 'files', 'env_vars', 'deployment_steps'],
+};
+
+const PLANNER_PROMPT = `You are Brainiac's build planner. Do NOT build anything yet.
+Read the user's request and describe how you would build it by calling ${SUBMIT_PLAN_TOOL} exactly once.
+
+Guidelines:
+- Pick the template that fits best.
+- Only set needs_supabase to true when the app must store data or have user accounts. Static sites, landing pages and portfolios do not need a database.
+- List the files you will create or modify (src/App.tsx is usually modified).
+- env_vars: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY only when needs_supabase is true.
+- deployment_steps: the tool calls you will make, in order.
+
+Available templates:
+${templates.map(t => `- ${t.id}: ${t.description}${t.hasSupabase ? ' (uses Supabase)' : ''}`).join('\n')}`;
+
+/**
+ * Request a plan from the model (forced tool call, no side effects)
+ */
+export async function planBuild(
+  userMessage: string,
+  provider: LLMProvider,
+  model: string,
+  signal?: AbortSignal
+): Promise<PlannedBuild> {
+  const response = await provider.createMessage({
+    model,
+    maxTokens: 4000,
+    system: PLANNER_PROMPT,
+    messages: [{ role: 'user', content: userMessage }],
+    tools: [
+      {
+        name: SUBMIT_PLAN_TOOL,
+        description: 'Submit the build plan for the user to review',
+        input_schema: { ...BUILD_PLAN_SCHEMA },
+      },
+    ],
+    toolChoice: { type: 'tool', name: SUBMIT_PLAN_TOOL },
+    signal,
+  });
+
+  const call = response.content.find(
+    (block): block is ProviderToolUseBlock => block.type === 'tool_use' && block.name === SUBMIT_PLAN_TOOL
+  );
+  if (!call) {
+    throw new Error('The model did not return a build plan');
+  }
+
+  const errors = validateBuildPlan(call.input);
+  if (errors.length > 0) {
+    throw new Error(`The model returned an invalid build plan: ${errors.join('; ')}`);
+  }
+
+  return { plan: call.input as BuildPlan, usage: response.usage };
+}
+
+export function validateBuildPlan(plan: unknown): string[] {
+  return validateJsonSchema(plan, BUILD_PLAN_SCHEMA, 'plan').map(e => `${e.path}: ${e.message}`);
+}
+
+/**
+ * Plan as instructions for the agent loop
+ */
+export const APPROVED_PLAN_MARKER = '✅ APPROVED BUILD PLAN';
+
+export function formatPlanForAgent(plan: BuildPlan): string {
+  const files = plan.files.length > 0
+    ? plan.files.map(f => `- ${f.action} ${f.path}: ${f.purpose}`).join('\n')
+    : '- (template files only)';
+
+  return `${APPROVED_PLAN_MARKER}
+The user reviewed and approved this plan. Follow it exactly and do not create resources it does not list.
+
+Summary: ${plan.summary}
+Template: ${plan.template_id}
+Repository name: ${plan.repo_name}
+Supabase: ${plan.needs_supabase ? 'needed' : 'NOT needed - do not create a Supabase project'}${plan.supabase_reason ? ` (${plan.supabase_reason})` : ''}
+
+Files:
+${files}
+
+Environment variables: ${plan.env_vars.length > 0 ? plan.env_vars.join(', ') : 'none'}
+
+Deployment steps:
+${plan.deployment_steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`;
+}
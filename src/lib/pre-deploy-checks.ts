@@ -0,0 +1,381 @@
+import { sleep } from './utils';
+import { ProgressCallback } from './agent-types';
+import { diagnosticsToErrors, TypeChecker, typeCheckFiles } from './typecheck';
+import { 
+  ERROR_CHECKER, 
+  DetectedError, 
+  FileSet,
+  PackageJson 
+} from './error-checker';
+
+// =============================================================================
+// COMPREHENSIVE PRE-DEPLOYMENT ERROR CHECKING
+// =============================================================================
+
+export interface ErrorCheckResult {
+  hasBlockingErrors: boolean;
+  errors: DetectedError[];
+  stats: {
+    total: number;
+    critical: number;
+    error: number;
+    warning: number;
+    info: number;
+    autoFixed: number;
+  };
+  fixedFiles: FileSet;
+}
+
+/**
+ * Comprehensive pre-deployment error check
+ * Runs all error checkers and auto-fixes what it can
+ * Now with progress callbacks for UI feedback
+ * Code errors come from the TypeScript compiler when it can run, regex heuristics otherwise
+ */
+export async function runPreDeploymentChecks(
+  files: FileSet,
+  packageJson: PackageJson | undefined,
+  onProgress: ProgressCallback,
+  typeCheck: TypeChecker = typeCheckFiles // ← NEW! Real compiler diagnostics
+): Promise<ErrorCheckResult> {
+  let allErrors: DetectedError[] = [];
+  const heuristicCodeErrors = new Set<DetectedError>();
+  let fixedFiles = { ...files };
+  let totalAutoFixed = 0;
+  const totalFiles = Object.keys(files).length;
+  let filesChecked = 0;
+  
+  console.log('🔍 Running pre-deployment error checks...');
+  
+  // ========================================
+  // PHASE 1: Scanning Files (40-50%)
+  // ========================================
+  onProgress('error_check', '🔍 Scanning files for errors...', 40);
+  await sleep(200); // Small delay for animation
+  
+  // 1. Check each file for code errors
+  for (const [path, content] of Object.entries(files)) {
+    filesChecked++;
+    const scanProgress = 40 + ((filesChecked / totalFiles) * 5);
+    onProgress('error_check', `🔍 Scanning ${path}...`, Math.floor(scanProgress));
+    
+    if (path.endsWith('.tsx') || path.endsWith('.ts') || path.endsWith('.jsx') || path.endsWith('.js')) {
+      // First, check for and fix invalid characters (TS1127)
+      let currentContent = content;
+      
+      // Check if there are problematic Unicode characters that need fixing (causes TS1127)
+      // This pattern catches: zero-width chars, smart quotes, special spaces, dashes, control chars
+      const hasProblematicChars = /[\u200B-\u200F\u2028-\u202F\uFEFF\u00A0\u2018\u2019\u201C\u201D\u2013\u2014\u2026\u00AD\u2010-\u2015\u2032\u2033\u2039\u203A\u00AB\u00BB\u2060\u180E\u3000\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/.test(currentContent);
+      
+      if (hasProblematicChars) {
+        allErrors.push({
+          id: 'invalid-characters',
+          message: `[${path}] Contains invalid Unicode characters (TS1127)`,
+          severity: 'error',
+          canAutoFix: true,
+        });
+        
+        // Auto-fix: comprehensive replacement of ALL problematic characters
+        currentContent = currentContent
+          // Zero-width and invisible characters - REMOVE
+          .replace(/[\u200B-\u200F]/g, '')  // Zero-width spaces & direction marks
+          .replace(/[\u2028\u2029]/g, '\n') // Line/paragraph separators → newline
+          .replace(/[\u202A-\u202F]/g, '')  // Direction formatting - remove
+          .replace(/\uFEFF/g, '')           // BOM - remove
+          .replace(/\u00AD/g, '')           // Soft hyphen - remove
+          .replace(/\u2060/g, '')           // Word joiner - remove
+          .replace(/\u180E/g, '')           // Mongolian vowel separator - remove
+          
+          // Special spaces → regular space
+          .replace(/[\u00A0\u2000-\u200A\u3000]/g, ' ')
+          
+          // Smart quotes → straight quotes
+          .replace(/[\u2018\u2019\u201A\u201B\u2032\u2039\u203A]/g, "'") // Single quotes
+          .replace(/[\u201C\u201D\u201E\u201F\u2033\u00AB\u00BB]/g, '"') // Double quotes
+          
+          // Special dashes → regular hyphen
+          .replace(/[\u2010-\u2015\u2212]/g, '-') // Various dashes
+          .replace(/\u2013/g, '-')  // En dash
+          .replace(/\u2014/g, '-')  // Em dash
+          
+          // Ellipsis → three dots
+          .replace(/\u2026/g, '...')
+          
+          // Remove any remaining control characters (except newline, tab, carriage return)
+          .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, '');
+        
+        fixedFiles[path] = currentContent;
+        totalAutoFixed++;
+        onProgress('auto_fix', `✅ Fixed invalid characters in ${path}`, Math.floor(scanProgress));
+        console.log(`✅ Auto-fixed invalid characters in ${path}`);
+        await sleep(100);
+      }
+      
+      const fileErrors = ERROR_CHECKER.preCheck(currentContent, path);
+      
+      if (fileErrors.length > 0) {
+        console.log(`⚠️ Found ${fileErrors.length} issues in ${path}`);
+        onProgress('error_check', `⚠️ Found ${fileErrors.length} issues in ${path}`, Math.floor(scanProgress));
+        await sleep(100);
+        
+        // Try to auto-fix
+        const { fixedCode, fixedCount, remainingErrors } = ERROR_CHECKER.autoFix(currentContent, fileErrors);
+        
+        if (fixedCount > 0) {
+          console.log(`✅ Auto-fixed ${fixedCount} issues in ${path}`);
+          onProgress('auto_fix', `✅ Auto-fixed ${fixedCount} issues in ${path}`, Math.floor(scanProgress));
+          fixedFiles[path] = fixedCode;
+          totalAutoFixed += fixedCount;
+          await sleep(100);
+        }
+        
+        // Add remaining errors with file context
+        remainingErrors.forEach(err => {
+          const error = { ...err, message: `[${path}] ${err.message}` };
+          heuristicCodeErrors.add(error);
+          allErrors.push(error);
+        });
+      }
+    }
+    
+    // Check CSS files
+    if (path.endsWith('.css')) {
+      if (!content.includes('@tailwind') && path.includes('index.css')) {
+        allErrors.push({
+          id: 'missing-tailwind-directives',
+          message: `[${path}] Missing @tailwind directives`,
+          severity: 'error',
+          canAutoFix: true,
+        });
+        
+        // Auto-fix: add tailwind directives
+        fixedFiles[path] = `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+${content}`;
+        totalAutoFixed++;
+        onProgress('auto_fix', `✅ Added @tailwind directives to ${path}`, Math.floor(scanProgress));
+        console.log(`✅ Auto-added @tailwind directives to ${path}`);
+        await sleep(100);
+      }
+    }
+    
+    // Check HTML files for escaped quotes (parse5 error prevention)
+    if (path.endsWith('.html')) {
+      // Check for escaped quotes that will cause parse5 errors
+      const escapedQuotePattern = /\\"/g;
+      if (escapedQuotePattern.test(content)) {
+        allErrors.push({
+          id: 'html-escaped-quotes',
+          message: `[${path}] Contains escaped quotes (\\"  ) that will cause HTML parse error`,
+          severity: 'error',
+          canAutoFix: true,
+        });
+        
+        // Auto-fix: replace escaped quotes with normal quotes
+        const fixedHtml = content.replace(/\\"/g, '"');
+        fixedFiles[path] = fixedHtml;
+        totalAutoFixed++;
+        onProgress('auto_fix', `✅ Fixed escaped quotes in ${path}`, Math.floor(scanProgress));
+        console.log(`✅ Auto-fixed escaped quotes in ${path}`);
+        await sleep(100);
+      }
+      
+      // Also check for other common HTML issues
+      if (content.includes('type=\\"module\\"') || content.includes("type=\\'module\\'")) {
+        allErrors.push({
+          id: 'html-malformed-script-type',
+          message: `[${path}] Script tag has malformed type attribute`,
+          severity: 'error',
+          canAutoFix: true,
+        });
+        
+        // Already fixed above with escaped quote replacement
+      }
+    }
+  }
+  
+  // ========================================
+  // PHASE 1b: Type-check (46-49%)
+  // ========================================
+  onProgress('error_check', '🧠 Type-checking with the TypeScript compiler...', 46);
+  const typeResult = await typeCheck(fixedFiles);
+
+  if (typeResult.available) {
+    // The compiler knows better than the regex guesses; keep only security blockers from those
+    allErrors = allErrors.filter(e =>
+      !heuristicCodeErrors.has(e) || e.severity === 'critical' || e.action === 'BLOCK_DEPLOYMENT'
+    );
+    const typeErrors = diagnosticsToErrors(typeResult.diagnostics);
+    allErrors.push(...typeErrors);
+
+    console.log(`🧠 Type-check: ${typeErrors.length} diagnostics in ${typeResult.durationMs}ms`);
+    onProgress(
+      'error_check',
+      typeErrors.length > 0 ? `⚠️ Compiler found ${typeErrors.length} type errors` : '✅ Type-check passed',
+      49
+    );
+  } else {
+    console.log(`ℹ️ Type-check unavailable (${typeResult.error}), using heuristic checks`);
+  }
+
+  // ========================================
+  // PHASE 2: Checking package.json (50-52%)
+  // ========================================
+  onProgress('error_check', '📦 Checking package.json...', 50);
+  await sleep(150);
+  
+  if (packageJson) {
+    const packageErrors = ERROR_CHECKER.preCheckPackage(packageJson);
+    
+    if (packageErrors.length > 0) {
+      console.log(`⚠️ Found ${packageErrors.length} package.json issues`);
+      onProgress('error_check', `⚠️ Found ${packageErrors.length} package.json issues`, 51);
+      await sleep(100);
+      
+      const { fixedPackageJson, fixedCount, remainingErrors } = ERROR_CHECKER.autoFixPackage(
+        packageJson,
+        packageErrors
+      );
+      
+      if (fixedCount > 0) {
+        console.log(`✅ Auto-fixed ${fixedCount} package.json issues`);
+        onProgress('auto_fix', `✅ Fixed ${fixedCount} package.json issues`, 51);
+        fixedFiles['package.json'] = JSON.stringify(fixedPackageJson, null, 2);
+        totalAutoFixed += fixedCount;
+        await sleep(100);
+      }
+      
+      remainingErrors.forEach(err => {
+        allErrors.push({
+          ...err,
+          message: `[package.json] ${err.message}`,
+        });
+      });
+    }
+  }
+  
+  // ========================================
+  // PHASE 3: Build Config Check (52-54%)
+  // ========================================
+  onProgress('error_check', '⚙️ Validating build configuration...', 52);
+  await sleep(150);
+  
+  const configErrors = ERROR_CHECKER.preCheckBuildConfig(files);
+  
+  if (configErrors.length > 0) {
+    console.log(`⚠️ Found ${configErrors.length} build config issues`);
+    onProgress('error_check', `⚠️ Found ${configErrors.length} config issues`, 53);
+    await sleep(100);
+    
+    const { fixedFiles: newFixedFiles, fixedCount, remainingErrors } = ERROR_CHECKER.autoFixBuildConfig(
+      fixedFiles,
+      configErrors
+    );
+    
+    if (fixedCount > 0) {
+      console.log(`✅ Auto-generated ${fixedCount} missing config files`);
+      onProgress('auto_fix', `✅ Generated ${fixedCount} missing config files`, 53);
+      fixedFiles = newFixedFiles;
+      totalAutoFixed += fixedCount;
+      await sleep(100);
+    }
+    
+    allErrors.push(...remainingErrors);
+  }
+
+  // Queries against tables/columns the live database lacks (needs generated types)
+  const databaseErrors = ERROR_CHECKER.preCheckDatabase(fixedFiles);
+  if (databaseErrors.length > 0) {
+    console.log(`⚠️ Found ${databaseErrors.length} queries against unknown tables or columns`);
+    onProgress('error_check', `⚠️ Found ${databaseErrors.length} unknown tables or columns in queries`, 53);
+    allErrors.push(...databaseErrors);
+  }
+  
+  // ========================================
+  // PHASE 4: Security Scan (54-58%)
+  // ========================================
+  onProgress('security_scan', '🔒 Running security scan...', 54);
+  await sleep(200);
+  
+  const securityPatterns = ERROR_CHECKER.securityPatterns;
+  let securityIssues = 0;
+  
+  for (const [path, content] of Object.entries(fixedFiles)) {
+    for (const pattern of securityPatterns) {
+      if (pattern.pattern && pattern.pattern.test(content)) {
+        securityIssues++;
+        const severity = pattern.severity;
+        allErrors.push({
+          id: pattern.id,
+          message: `[${path}] ${pattern.description}`,
+          severity: severity,
+          canAutoFix: pattern.autoFix !== null,
+          action: pattern.action,
+        });
+        
+        if (severity === 'critical') {
+          onProgress('security_scan', `🚨 CRITICAL: ${pattern.description}`, 56);
+          await sleep(150);
+        }
+        
+        // Try to auto-fix security issues
+        if (pattern.autoFix) {
+          const fixed = pattern.autoFix(content);
+          if (fixed !== content) {
+            fixedFiles[path] = fixed;
+            totalAutoFixed++;
+            onProgress('auto_fix', `🔒 Fixed security issue: ${pattern.id}`, 57);
+            console.log(`🔒 Auto-fixed security issue in ${path}: ${pattern.id}`);
+            await sleep(100);
+          }
+        }
+      }
+    }
+  }
+  
+  if (securityIssues === 0) {
+    onProgress('security_scan', '✅ No security issues found', 58);
+  } else {
+    onProgress('security_scan', `⚠️ Found ${securityIssues} security issues`, 58);
+  }
+  await sleep(100);
+  
+  // Get final stats
+  const stats = ERROR_CHECKER.getErrorStats(allErrors);
+  const hasBlockingErrors = ERROR_CHECKER.shouldBlockDeployment(allErrors);
+  
+  // ========================================
+  // PHASE 5: Summary (58-60%)
+  // ========================================
+  if (hasBlockingErrors) {
+    onProgress('error_blocked', `🛑 ${stats.critical} critical errors found - deployment blocked`, 58);
+    console.log('\n🛑 DEPLOYMENT BLOCKED: Critical errors found!');
+  } else if (stats.total > 0) {
+    const summaryMsg = totalAutoFixed > 0 
+      ? `✅ Fixed ${totalAutoFixed} issues, ${stats.total - totalAutoFixed} remaining`
+      : `⚠️ ${stats.total} issues found (${stats.warning} warnings)`;
+    onProgress('error_check', summaryMsg, 59);
+  } else {
+    onProgress('error_check', '✅ All checks passed!', 59);
+  }
+  
+  await sleep(200);
+  
+  // Log summary
+  console.log('\n📊 Pre-deployment check summary:');
+  console.log(`   Total issues: ${stats.total}`);
+  if (stats.critical > 0) console.log(`   🚨 Critical: ${stats.critical}`);
+  if (stats.error > 0) console.log(`   ❌ Errors: ${stats.error}`);
+  if (stats.warning > 0) console.log(`   ⚠️ Warnings: ${stats.warning}`);
+  if (stats.info > 0) console.log(`   ℹ️ Info: ${stats.info}`);
+  console.log(`   ✅ Auto-fixed: ${totalAutoFixed}`);
+  
+  return {
+    hasBlockingErrors,
+    errors: allErrors,
+    stats: { ...stats, autoFixed: totalAutoFixed },
+    fixedFiles,
+  };
+}
@@ -0,0 +1,87 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LLMProvider,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStopReason,
+  ProviderStreamHandlers,
+  ProviderTextBlock,
+  ProviderToolUseBlock,
+  ProviderUsage,
+} from './types';
+
+/**
+ * Anthropic Messages API provider (the default)
+ */
+export function createAnthropicProvider(apiKey: string): LLMProvider {
+  const client = new Anthropic({
+    apiKey,
+    dangerouslyAllowBrowser: true, // Allow browser usage
+  });
+
+  return {
+    id: 'anthropic',
+
+    async createMessage(request: ProviderRequest, stream?: ProviderStreamHandlers): Promise<ProviderResponse> {
+      const params: Anthropic.MessageCreateParamsNonStreaming = {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.system ? { system: request.system } : {}),
+        ...(request.tools && request.tools.length > 0 ? { tools: request.tools as Anthropic.Tool[] } : {}),
+        ...(request.toolChoice ? { tool_choice: request.toolChoice } : {}),
+        messages: request.messages as Anthropic.MessageParam[],
+      };
+
+      if (!stream) {
+        const response = await client.messages.create(params, { signal: request.signal });
+        return fromAnthropicMessage(response);
+      }
+
+      const messageStream = client.messages.stream(params, { signal: request.signal });
+
+      if (stream.onTextDelta) {
+        messageStream.on('text', (delta) => stream.onTextDelta?.(delta));
+      }
+      if (stream.onToolUseStart) {
+        messageStream.on('streamEvent', (event) => {
+          if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+            stream.onToolUseStart?.({ id: event.content_block.id, name: event.content_block.name });
+          }
+        });
+      }
+
+      return fromAnthropicMessage(await messageStream.finalMessage());
+    },
+  };
+}
+
+function fromAnthropicMessage(message: Anthropic.Message): ProviderResponse {
+  const content: Array<ProviderTextBlock | ProviderToolUseBlock> = [];
+  for (const block of message.content) {
+    if (block.type === 'text') {
+      content.push({ type: 'text', text: block.text });
+    } else if (block.type === 'tool_use') {
+      content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
+    }
+  }
+
+  // Cache token counts are returned at runtime but not declared by older SDK typings
+  const rawUsage = message.usage as Anthropic.Usage & {
+    cache_creation_input_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
+  };
+  const usage: ProviderUsage = {
+    input_tokens: rawUsage.input_tokens,
+    output_tokens: rawUsage.output_tokens,
+    cache_creation_input_tokens: rawUsage.cache_creation_input_tokens ?? undefined,
+    cache_read_input_tokens: rawUsage.cache_read_input_tokens ?? undefined,
+  };
+
+  return {
+    model: message.model,
+    content,
+    stopReason: message.stop_reason as ProviderStopReason,
+    usage,
+  };
+}
@@ -0,0 +1,37 @@
+import { Settings } from '@/types';
+import { createAnthropicProvider } from './anthropic';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { createAnthropicProvider } from './anthropic';
+export { createOpenAICompatibleProvider } from './openai-compatible';
+export { createScriptedProvider } from './scripted';
+export type { ScriptedProvider, ScriptedStep, ScriptedToolCall, ScriptedTurn } from './scripted';
+
+/**
+ * Build the provider configured in Settings (defaults to Anthropic)
+ */
+export function createProvider(settings: Settings): LLMProvider {
+  const llm = settings.llm;
+
+  if (llm?.provider === 'openai-compatible') {
+    if (!llm.baseUrl) {
+      throw new Error('OpenAI-compatible provider requires a base URL');
+    }
+    return createOpenAICompatibleProvider({ baseUrl: llm.baseUrl, apiKey: llm.apiKey });
+  }
+
+  return createAnthropicProvider(settings.apiKeys.anthropic);
+}
+
+/**
+ * Model to use for a run: local servers use the model configured in Settings,
+ * Anthropic uses the model picked in the chat dropdown.
+ */
+export function resolveModel(settings: Settings, selectedModel: string): string {
+  if (settings.llm?.provider === 'openai-compatible' && settings.llm.model) {
+    return settings.llm.model;
+  }
+  return selectedModel;
+}
@@ -0,0 +1,295 @@
+import {
+  LLMProvider,
+  ProviderError,
+  ProviderMessage,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStopReason,
+  ProviderStreamHandlers,
+  ProviderTextBlock,
+  ProviderToolUseBlock,
+} from './types';
+import { generateId } from '../utils';
+
+/**
+ * OpenAI-compatible Chat Completions provider
+ * Works with local model servers (Ollama, LM Studio, vLLM, llama.cpp) and
+ * any endpoint that implements POST /chat/completions with function tools.
+ */
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. "http://localhost:11434/v1"
+  apiKey?: string; // Most local servers ignore this
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: 'openai-compatible',
+
+    async createMessage(request: ProviderRequest, stream?: ProviderStreamHandlers): Promise<ProviderResponse> {
+      const body: Record<string, unknown> = {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages: toOpenAIMessages(request.system, request.messages),
+      };
+
+      if (request.temperature !== undefined) {
+        body.temperature = request.temperature;
+      }
+
+      if (request.tools && request.tools.length > 0) {
+        body.tools = request.tools.map(tool => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.input_schema,
+          },
+        }));
+
+        if (request.toolChoice) {
+          body.tool_choice =
+            request.toolChoice.type === 'tool'
+              ? { type: 'function', function: { name: request.toolChoice.name } }
+              : request.toolChoice.type === 'any'
+              ? 'required'
+              : 'auto';
+        }
+      }
+
+      if (stream) {
+        body.stream = true;
+        body.stream_options = { include_usage: true };
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new ProviderError(`OpenAI-compatible request failed: ${error}`, response.status);
+      }
+
+      const data = stream && response.body
+        ? await readStreamedCompletion(response.body, stream)
+        : await response.json();
+      return fromOpenAIResponse(data, request.model);
+    },
+  };
+}
+
+/**
+ * Convert Anthropic-shaped messages into Chat Completions messages.
+ * tool_use blocks become assistant tool_calls, tool_result blocks become
+ * role "tool" messages.
+ */
+export function toOpenAIMessages(system: string | undefined, messages: ProviderMessage[]): OpenAIMessage[] {
+  const result: OpenAIMessage[] = [];
+
+  if (system) {
+    result.push({ role: 'system', content: system });
+  }
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      result.push(
+        message.role === 'user'
+          ? { role: 'user', content: message.content }
+          : { role: 'assistant', content: message.content }
+      );
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const text = message.content
+        .filter((b): b is ProviderTextBlock => b.type === 'text')
+        .map(b => b.text)
+        .join('\n');
+      const toolCalls: OpenAIToolCall[] = message.content
+        .filter((b): b is ProviderToolUseBlock => b.type === 'tool_use')
+        .map(b => ({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // User turn: tool results first (they must directly follow the assistant tool_calls)
+    const texts: string[] = [];
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        result.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.content });
+      } else if (block.type === 'text') {
+        texts.push(block.text);
+      }
+    }
+    if (texts.length > 0) {
+      result.push({ role: 'user', content: texts.join('\n') });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a server-sent-events completion stream and reassemble it into the
+ * same shape as a non-streamed response.
+ */
+async function readStreamedCompletion(
+  body: ReadableStream<Uint8Array>,
+  handlers: ProviderStreamHandlers
+): Promise<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let model: string | undefined;
+  let content = '';
+  let finishReason: string | undefined;
+  let usage: any;
+  const toolCalls: OpenAIToolCall[] = [];
+
+  const handleChunk = (chunk: any) => {
+    model = chunk.model || model;
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+
+    const delta = choice.delta || {};
+    if (typeof delta.content === 'string' && delta.content.length > 0) {
+      content += delta.content;
+      handlers.onTextDelta?.(delta.content);
+    }
+
+    for (const callDelta of delta.tool_calls || []) {
+      const index = callDelta.index ?? toolCalls.length;
+      if (!toolCalls[index]) {
+        toolCalls[index] = {
+          id: callDelta.id || fallbackToolCallId(),
+          type: 'function',
+          function: { name: callDelta.function?.name || '', arguments: '' },
+        };
+        handlers.onToolUseStart?.({ id: toolCalls[index].id, name: toolCalls[index].function.name });
+      }
+      if (callDelta.function?.arguments) {
+        toolCalls[index].function.arguments += callDelta.function.arguments;
+      }
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (!payload || payload === '[DONE]') continue;
+      try {
+        handleChunk(JSON.parse(payload));
+      } catch {
+        // Ignore keep-alive or malformed lines
+      }
+    }
+  }
+
+  return {
+    model,
+    choices: [
+      {
+        finish_reason: finishReason,
+        message: { content, tool_calls: toolCalls.filter(Boolean) },
+      },
+    ],
+    usage,
+  };
+}
+
+// Some local servers send tool calls without ids; results and journal
+// checkpoints are matched by id, so it must be unique across the whole run
+function fallbackToolCallId(): string {
+  return `call_${generateId()}`;
+}
+
+function fromOpenAIResponse(data: any, requestedModel: string): ProviderResponse {
+  const choice = data?.choices?.[0];
+  if (!choice) {
+    throw new ProviderError('OpenAI-compatible response contained no choices');
+  }
+
+  const content: Array<ProviderTextBlock | ProviderToolUseBlock> = [];
+  const message = choice.message || {};
+
+  if (typeof message.content === 'string' && message.content.length > 0) {
+    content.push({ type: 'text', text: message.content });
+  }
+
+  const toolCalls: OpenAIToolCall[] = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+  toolCalls.forEach(call => {
+    let input: unknown = {};
+    try {
+      input = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      // Local models occasionally emit invalid JSON; pass it through so the tool reports it
+      input = { _raw_arguments: call.function?.arguments };
+    }
+    content.push({
+      type: 'tool_use',
+      id: call.id || fallbackToolCallId(),
+      name: call.function?.name || '',
+      input,
+    });
+  });
+
+  const stopReasons: Record<string, ProviderStopReason> = {
+    stop: 'end_turn',
+    tool_calls: 'tool_use',
+    function_call: 'tool_use',
+    length: 'max_tokens',
+  };
+
+  return {
+    model: data.model || requestedModel,
+    content,
+    stopReason: toolCalls.length > 0 ? 'tool_use' : stopReasons[choice.finish_reason] ?? 'end_turn',
+    usage: {
+      input_tokens: data.usage?.prompt_tokens ?? 0,
+      output_tokens: data.usage?.completion_tokens ?? 0,
+      cache_read_input_tokens: data.usage?.prompt_tokens_details?.cached_tokens,
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import {
+  LLMProvider,
+  ProviderError,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStreamHandlers,
+  ProviderTextBlock,
+  ProviderToolUseBlock,
+} from './types';
+
+/**
+ * Scripted provider
+ * Replays a fixed list of turns so the whole build loop can run offline and
+ * in CI without spending tokens. Every response is deterministic.
+ */
+
+export interface ScriptedToolCall {
+  name: string;
+  input: Record<string, unknown>;
+  id?: string;
+}
+
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: ScriptedToolCall[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export type ScriptedStep = ScriptedTurn | ((request: ProviderRequest, turnIndex: number) => ScriptedTurn);
+
+export interface ScriptedProvider extends LLMProvider {
+  /** Every request received, in order (useful for assertions) */
+  readonly requests: ProviderRequest[];
+  /** Number of scripted turns not yet consumed */
+  remaining(): number;
+}
+
+export function createScriptedProvider(script: ScriptedStep[]): ScriptedProvider {
+  const requests: ProviderRequest[] = [];
+  let turnIndex = 0;
+
+  return {
+    id: 'scripted',
+    requests,
+
+    remaining() {
+      return script.length - turnIndex;
+    },
+
+    async createMessage(request: ProviderRequest, stream?: ProviderStreamHandlers): Promise<ProviderResponse> {
+      if (request.signal?.aborted) {
+        throw new ProviderError('Request aborted');
+      }
+
+      requests.push(request);
+
+      const step = script[turnIndex];
+      if (!step) {
+        throw new ProviderError(`Scripted provider exhausted after ${script.length} turns`);
+      }
+
+      const turn = typeof step === 'function' ? step(request, turnIndex) : step;
+      const content: Array<ProviderTextBlock | ProviderToolUseBlock> = [];
+
+      if (turn.text) {
+        content.push({ type: 'text', text: turn.text });
+        // Stream word by word so UIs can be exercised deterministically
+        for (const piece of turn.text.match(/\S+\s*|\s+/g) || []) {
+          stream?.onTextDelta?.(piece);
+        }
+      }
+
+      (turn.toolCalls || []).forEach((call, i) => {
+        content.push({
+          type: 'tool_use',
+          id: call.id || `scripted_${turnIndex}_${i}`,
+          name: call.name,
+          input: call.input,
+        });
+        stream?.onToolUseStart?.({ id: call.id || `scripted_${turnIndex}_${i}`, name: call.name });
+      });
+
+      turnIndex++;
+
+      return {
+        model: request.model,
+        content,
+        stopReason: turn.toolCalls && turn.toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+        usage: turn.usage || { input_tokens: 0, output_tokens: 0 },
+      };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * LLM Provider Types
+ * Provider-neutral message, tool and response shapes used by the agent loop.
+ *
+ * The shapes deliberately mirror Anthropic's Messages API so existing
+ * conversation history (stored in App.tsx) keeps working unchanged.
+ */
+
+export interface ProviderTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ProviderToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export interface ProviderToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type ProviderContentBlock = ProviderTextBlock | ProviderToolUseBlock | ProviderToolResultBlock;
+
+export interface ProviderMessage {
+  role: 'user' | 'assistant';
+  content: string | ProviderContentBlock[];
+}
+
+export interface ProviderTool {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+    [key: string]: unknown;
+  };
+}
+
+export type ProviderToolChoice =
+  | { type: 'auto' }
+  | { type: 'any' }
+  | { type: 'tool'; name: string };
+
+export interface ProviderRequest {
+  model: string;
+  system?: string;
+  messages: ProviderMessage[];
+  tools?: ProviderTool[];
+  toolChoice?: ProviderToolChoice;
+  maxTokens: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface ProviderUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export type ProviderStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence' | null;
+
+export interface ProviderResponse {
+  model: string;
+  content: Array<ProviderTextBlock | ProviderToolUseBlock>;
+  stopReason: ProviderStopReason;
+  usage: ProviderUsage;
+}
+
+/**
+ * Streaming callbacks. When passed to createMessage the provider streams the
+ * response and reports deltas as they arrive; the returned promise still
+ * resolves with the complete response.
+ */
+export interface ProviderStreamHandlers {
+  onTextDelta?: (text: string) => void;
+  onToolUseStart?: (block: { id: string; name: string }) => void;
+}
+
+export interface LLMProvider {
+  /** Stable identifier, e.g. "anthropic", "openai-compatible", "scripted" */
+  readonly id: string;
+  createMessage(request: ProviderRequest, stream?: ProviderStreamHandlers): Promise<ProviderResponse>;
+}
+
+/**
+ * Error thrown by providers. `status` mirrors the HTTP status so the agent's
+ * rate-limit handling (429) works the same for every provider.
+ */
+export class ProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
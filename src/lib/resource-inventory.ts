@@ -0,0 +1,263 @@
+/**
+ * Resource Inventory
+ * Lists the GitHub repos, Vercel projects and Supabase projects the user's
+ * keys can see, groups the ones that belong to the same Brainiac build and
+ * flags orphans (resources whose build lost its repo), so free-tier slots can
+ * be reclaimed.
+ */
+
+import { ProjectHistory } from '@/types';
+import { RunJournal } from './run-journal';
+import { CreatedResource, ResourceKind, RollbackResult, rollbackResources } from './resource-ledger';
+import { ToolBackend } from './tools/backend';
+import { GitHubRepo } from './tools/github-manager';
+import { SupabaseProjectSummary } from './tools/supabase-backend';
+import { VercelProjectSummary } from './tools/vercel';
+
+export interface InventoryResource extends CreatedResource {
+  url?: string;
+  linkedRepo?: string; // Vercel: repo the project deploys from
+  orphanReason?: string; // Set when nothing that uses the resource is left
+  missingRepo?: string; // Repo the orphan depended on that was not in the listing
+}
+
+export interface InventoryBuild {
+  name: string;
+  githubRepo?: string; // Builds that failed before creating a repo have none
+  lastBuiltAt: string;
+  resources: InventoryResource[];
+}
+
+export interface ResourceListing {
+  githubRepos?: GitHubRepo[]; // Undefined when the provider could not be listed
+  vercelProjects?: VercelProjectSummary[];
+  supabaseProjects?: SupabaseProjectSummary[];
+}
+
+export interface ResourceInventory {
+  builds: InventoryBuild[]; // Most recently built first
+  unlinked: InventoryResource[]; // Not recorded by any Brainiac build
+  orphans: InventoryResource[];
+  errors: Partial<Record<ResourceKind, string>>; // Providers that could not be listed
+}
+
+// Supabase projects created by Brainiac are named brainiac-<app>-<timestamp>
+const BRAINIAC_SUPABASE_PREFIX = 'brainiac-';
+
+// Build as recorded locally, before it is matched against the listing
+interface RecordedBuild {
+  name: string;
+  githubRepo?: string;
+  lastBuiltAt: string;
+  vercelProjectIds: Set<string>;
+  supabaseProjectRefs: Set<string>;
+}
+
+/**
+ * List all three providers. One failing (e.g. no Supabase token) leaves the
+ * others usable; its error is reported instead.
+ */
+export async function loadResourceInventory(
+  backend: ToolBackend,
+  history: ProjectHistory[],
+  journals: RunJournal[]
+): Promise<ResourceInventory> {
+  const [githubRepos, vercelProjects, supabaseProjects] = await Promise.allSettled([
+    backend.listGithubRepos(),
+    backend.listVercelProjects(),
+    backend.listSupabaseProjects(),
+  ]);
+
+  const errors: ResourceInventory['errors'] = {};
+  const value = <T>(result: PromiseSettledResult<T>, kind: ResourceKind): T | undefined => {
+    if (result.status === 'fulfilled') return result.value;
+    console.error(`❌ Could not list ${kind}:`, result.reason);
+    errors[kind] = result.reason?.message || String(result.reason);
+    return undefined;
+  };
+
+  const inventory = buildInventory(
+    {
+      githubRepos: value(githubRepos, 'github_repo'),
+      vercelProjects: value(vercelProjects, 'vercel_project'),
+      supabaseProjects: value(supabaseProjects, 'supabase_project'),
+    },
+    history,
+    journals
+  );
+  return { ...(await confirmMissingRepos(backend, inventory)), errors };
+}
+
+/**
+ * A repo missing from the listing may just be out of its reach (an org the
+ * token cannot list); only a 404 proves it was deleted. Orphans of repos that
+ * still exist, or could not be checked, are not orphans.
+ */
+async function confirmMissingRepos(backend: ToolBackend, inventory: ResourceInventory): Promise<ResourceInventory> {
+  const missingRepos = [...new Set(inventory.orphans.flatMap(resource => resource.missingRepo ?? []))];
+  if (missingRepos.length === 0) return inventory;
+
+  const existing = new Set<string>();
+  await Promise.all(missingRepos.map(async repo => {
+    try {
+      if (await backend.githubRepoExists({ repo })) existing.add(repo);
+    } catch (error) {
+      console.warn(`⚠️ Could not check whether ${repo} still exists:`, error);
+      existing.add(repo);
+    }
+  }));
+
+  for (const resource of inventory.orphans) {
+    if (resource.missingRepo && existing.has(resource.missingRepo)) {
+      delete resource.orphanReason;
+      delete resource.missingRepo;
+    }
+  }
+  return { ...inventory, orphans: inventory.orphans.filter(resource => resource.orphanReason) };
+}
+
+/**
+ * Match listed resources to the builds in project history and run journals
+ */
+export function buildInventory(
+  listing: ResourceListing,
+  history: ProjectHistory[],
+  journals: RunJournal[]
+): ResourceInventory {
+  const recorded = recordedBuilds(history, journals);
+  const repoNames = listing.githubRepos && new Set(listing.githubRepos.map(repo => repo.full_name.toLowerCase()));
+
+  const remaining: InventoryResource[] = [
+    ...(listing.githubRepos ?? []).map((repo): InventoryResource => ({
+      kind: 'github_repo',
+      id: repo.full_name,
+      name: repo.name,
+      createdAt: repo.created_at,
+      url: repo.html_url,
+    })),
+    ...(listing.vercelProjects ?? []).map((project): InventoryResource => ({
+      kind: 'vercel_project',
+      id: project.id,
+      name: project.name,
+      createdAt: project.created_at,
+      linkedRepo: project.github_repo,
+    })),
+    ...(listing.supabaseProjects ?? []).map((project): InventoryResource => ({
+      kind: 'supabase_project',
+      id: project.ref,
+      name: project.name,
+      createdAt: project.created_at,
+      url: `https://supabase.com/dashboard/project/${project.ref}`,
+    })),
+  ];
+
+  const belongsTo = (resource: InventoryResource, build: RecordedBuild): boolean => {
+    const repo = build.githubRepo?.toLowerCase();
+    switch (resource.kind) {
+      case 'github_repo':
+        return resource.id.toLowerCase() === repo;
+      case 'vercel_project':
+        return build.vercelProjectIds.has(resource.id) || (!!repo && resource.linkedRepo?.toLowerCase() === repo);
+      case 'supabase_project':
+        return build.supabaseProjectRefs.has(resource.id);
+    }
+  };
+
+  const builds: InventoryBuild[] = [];
+  for (const build of recorded) {
+    const resources = remaining.filter(resource => belongsTo(resource, build));
+    if (resources.length === 0) continue; // Everything it made is gone already
+
+    const repoGone = !!repoNames && (!build.githubRepo || !repoNames.has(build.githubRepo.toLowerCase()));
+    for (const resource of resources) {
+      remaining.splice(remaining.indexOf(resource), 1);
+      if (resource.kind === 'supabase_project' && repoGone) {
+        resource.orphanReason = build.githubRepo
+          ? `Repo ${build.githubRepo} was deleted`
+          : 'Its build never created a repo';
+        resource.missingRepo = build.githubRepo;
+      }
+    }
+    builds.push({ name: build.name, githubRepo: build.githubRepo, lastBuiltAt: build.lastBuiltAt, resources });
+  }
+
+  for (const resource of remaining) {
+    if (resource.kind === 'supabase_project' && resource.name.startsWith(BRAINIAC_SUPABASE_PREFIX)) {
+      resource.orphanReason = 'No Brainiac build uses it';
+    }
+  }
+
+  // A Vercel project can only deploy while its repo exists
+  if (repoNames) {
+    const vercelProjects = [...builds.flatMap(build => build.resources), ...remaining]
+      .filter(resource => resource.kind === 'vercel_project');
+    for (const project of vercelProjects) {
+      if (project.linkedRepo && !repoNames.has(project.linkedRepo.toLowerCase())) {
+        project.orphanReason = `Repo ${project.linkedRepo} was deleted`;
+        project.missingRepo = project.linkedRepo;
+      }
+    }
+  }
+
+  return {
+    builds,
+    unlinked: remaining,
+    orphans: [...builds.flatMap(build => build.resources), ...remaining].filter(resource => resource.orphanReason),
+    errors: {},
+  };
+}
+
+/**
+ * One record per build: history entries of the same repo merge (follow-ups,
+ * restores), and journals add failed builds that never reached history.
+ */
+function recordedBuilds(history: ProjectHistory[], journals: RunJournal[]): RecordedBuild[] {
+  const builds = new Map<string, RecordedBuild>();
+
+  const record = (key: string, name: string, at: string, githubRepo?: string): RecordedBuild => {
+    const build = builds.get(key) ?? {
+      name,
+      githubRepo,
+      lastBuiltAt: at,
+      vercelProjectIds: new Set<string>(),
+      supabaseProjectRefs: new Set<string>(),
+    };
+    if (at > build.lastBuiltAt) build.lastBuiltAt = at;
+    builds.set(key, build);
+    return build;
+  };
+
+  for (const entry of history) {
+    const project = entry.projectContext;
+    if (!project?.githubRepo) continue;
+    const build = record(project.githubRepo.toLowerCase(), entry.name, entry.createdAt, project.githubRepo);
+    if (project.vercelProjectId) build.vercelProjectIds.add(project.vercelProjectId);
+    if (project.supabaseProjectRef) build.supabaseProjectRefs.add(project.supabaseProjectRef);
+  }
+
+  for (const journal of journals) {
+    if (!journal.resources?.length) continue;
+    const repo = journal.resources.find(resource => resource.kind === 'github_repo');
+    const build = repo
+      ? record(repo.id.toLowerCase(), repo.name, journal.createdAt, repo.id)
+      : record(`run:${journal.runId}`, journal.resources[0].name, journal.createdAt);
+    for (const resource of journal.resources) {
+      if (resource.kind === 'vercel_project') build.vercelProjectIds.add(resource.id);
+      if (resource.kind === 'supabase_project') build.supabaseProjectRefs.add(resource.id);
+    }
+  }
+
+  return [...builds.values()].sort((a, b) => b.lastBuiltAt.localeCompare(a.lastBuiltAt));
+}
+
+const CLEANUP_ORDER: ResourceKind[] = ['github_repo', 'supabase_project', 'vercel_project'];
+
+/**
+ * Delete the selected resources, Vercel projects first so none of them is
+ * left pointing at a repo that no longer exists
+ */
+export function cleanupResources(backend: ToolBackend, resources: InventoryResource[]): Promise<RollbackResult[]> {
+  // rollbackResources deletes newest first, so order them as a build would have created them
+  const creationOrder = [...resources].sort((a, b) => CLEANUP_ORDER.indexOf(a.kind) - CLEANUP_ORDER.indexOf(b.kind));
+  return rollbackResources(backend, creationOrder);
+}
@@ -0,0 +1,98 @@
+/**
+ * Resource Ledger
+ * Records every cloud resource a run creates (GitHub repo, Vercel project,
+ * Supabase project) the moment it exists, so a failed or cancelled build can
+ * be rolled back by deleting them again.
+ */
+
+import { ToolBackend } from './tools/backend';
+
+export type ResourceKind = 'github_repo' | 'vercel_project' | 'supabase_project';
+
+export interface CreatedResource {
+  kind: ResourceKind;
+  id: string; // owner/repo, Vercel project ID or Supabase project ref
+  name: string;
+  createdAt: string;
+}
+
+export interface RollbackResult {
+  resource: CreatedResource;
+  success: boolean;
+  error?: string;
+}
+
+export const RESOURCE_LABELS: Record<ResourceKind, string> = {
+  github_repo: 'GitHub repo',
+  vercel_project: 'Vercel project',
+  supabase_project: 'Supabase project',
+};
+
+export function describeResource(resource: CreatedResource): string {
+  return `${RESOURCE_LABELS[resource.kind]} ${resource.name}`;
+}
+
+/**
+ * Backend that reports each resource it creates. Supabase projects are
+ * reported as soon as they exist, before the (long) provisioning finishes.
+ */
+export function withResourceLedger(
+  backend: ToolBackend,
+  onCreated: (resource: CreatedResource) => void
+): ToolBackend {
+  const record = (kind: ResourceKind, id: string, name: string) => {
+    console.log(`🧾 Recorded ${RESOURCE_LABELS[kind]}: ${name}`);
+    onCreated({ kind, id, name, createdAt: new Date().toISOString() });
+  };
+
+  return {
+    ...backend,
+
+    async createGithubRepo(input) {
+      const repo = await backend.createGithubRepo(input);
+      record('github_repo', repo.full_name, repo.name);
+      return repo;
+    },
+
+    async createVercelProject(input) {
+      const project = await backend.createVercelProject(input);
+      // Placeholder IDs ("pending", "manual-import-needed") mean no project was confirmed
+      if (project.id.startsWith('prj_')) record('vercel_project', project.id, project.name);
+      return project;
+    },
+
+    createSupabaseProject(appName, onProgress, onCreated) {
+      return backend.createSupabaseProject(appName, onProgress, (projectRef) => {
+        record('supabase_project', projectRef, appName);
+        onCreated?.(projectRef);
+      });
+    },
+  };
+}
+
+const COMPENSATIONS: Record<ResourceKind, (backend: ToolBackend, id: string) => Promise<unknown>> = {
+  github_repo: (backend, id) => backend.deleteGithubRepo({ repo: id }),
+  vercel_project: (backend, id) => backend.deleteVercelProject({ project_id: id }),
+  supabase_project: (backend, id) => backend.deleteSupabaseProject({ project_ref: id }),
+};
+
+/**
+ * Delete the resources in reverse creation order (deployments before the repo
+ * they build from). A failed deletion does not stop the others.
+ */
+export async function rollbackResources(backend: ToolBackend, resources: CreatedResource[]): Promise<RollbackResult[]> {
+  const results: RollbackResult[] = [];
+
+  for (const resource of [...resources].reverse()) {
+    try {
+      await COMPENSATIONS[resource.kind](backend, resource.id);
+      console.log(`🗑️ Deleted ${describeResource(resource)}`);
+      results.push({ resource, success: true });
+    } catch (error: any) {
+      console.error(`❌ Could not delete ${describeResource(resource)}:`, error);
+      results.push({ resource, success: false, error: error?.message || String(error) });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,215 @@
+/**
+ * Run Journal
+ * Checkpoints every tool call of an agent run so a failed or cancelled build
+ * can be resumed without re-creating resources that already exist.
+ */
+
+import { FileSet } from './error-checker';
+import { BuildPlan } from './planner';
+import { CreatedResource } from './resource-ledger';
+import { saveRunJournal } from './storage';
+import { firstUnresolvedCall } from './tool-registry';
+import {
+  ProviderMessage,
+  ProviderTextBlock,
+  ProviderToolResultBlock,
+  ProviderToolUseBlock,
+} from './providers';
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'rolled_back';
+
+export interface JournalStep {
+  toolUseId: string;
+  name: string;
+  input: unknown;
+  status: 'succeeded' | 'failed';
+  result: unknown;
+  isError?: boolean; // Tool threw (vs. returned an error payload)
+  completedAt: string;
+}
+
+export interface JournalTurn {
+  assistantContent: Array<ProviderTextBlock | ProviderToolUseBlock>;
+  steps: JournalStep[];
+}
+
+export interface RunJournal {
+  runId: string;
+  prompt: string;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
+  status: RunStatus;
+  error?: string;
+  resumedAt?: string;
+  initialMessages: ProviderMessage[];
+  approvedPlan?: BuildPlan; // Plan the user approved before the run (plan-first mode)
+  workspaceId?: string; // Workspace whose keys the run used
+  turns: JournalTurn[];
+  projectData: Record<string, any>;
+  files: FileSet;
+  resources?: CreatedResource[]; // Cloud resources created so far, for rollback
+}
+
+export interface ResumePoint {
+  /** Conversation to continue from (ends with an assistant turn when pendingTurn is set) */
+  messages: ProviderMessage[];
+  /** Turn whose tool calls must be (re-)executed before the next model call */
+  pendingTurn?: JournalTurn;
+}
+
+export function createRunJournal(
+  runId: string,
+  prompt: string,
+  model: string,
+  initialMessages: ProviderMessage[],
+  approvedPlan?: BuildPlan,
+  workspaceId?: string
+): RunJournal {
+  const now = new Date().toISOString();
+  const journal: RunJournal = {
+    runId,
+    prompt,
+    model,
+    createdAt: now,
+    updatedAt: now,
+    status: 'running',
+    initialMessages: [...initialMessages],
+    approvedPlan,
+    workspaceId,
+    turns: [],
+    projectData: {},
+    files: {},
+  };
+  persist(journal);
+  return journal;
+}
+
+export function recordTurn(journal: RunJournal, assistantContent: JournalTurn['assistantContent']): JournalTurn {
+  const turn: JournalTurn = { assistantContent, steps: [] };
+  journal.turns.push(turn);
+  persist(journal);
+  return turn;
+}
+
+export function recordStep(
+  journal: RunJournal,
+  turn: JournalTurn,
+  step: Omit<JournalStep, 'completedAt'>,
+  projectData: Record<string, any>
+): void {
+  turn.steps = turn.steps.filter(s => s.toolUseId !== step.toolUseId);
+  turn.steps.push({ ...step, completedAt: new Date().toISOString() });
+  journal.projectData = JSON.parse(JSON.stringify(projectData));
+  persist(journal);
+}
+
+export function recordFiles(journal: RunJournal, files: FileSet): void {
+  journal.files = { ...journal.files, ...files };
+  persist(journal);
+}
+
+export function recordResource(journal: RunJournal, resource: CreatedResource): void {
+  journal.resources = [...(journal.resources ?? []), resource];
+  persist(journal);
+}
+
+export function finishRunJournal(journal: RunJournal, status: RunStatus, error?: string): void {
+  journal.status = status;
+  journal.error = error;
+  persist(journal);
+}
+
+/**
+ * A run has an unresolved failure when a side-effecting tool failed and was
+ * never successfully called again afterwards (see firstUnresolvedCall).
+ */
+export function hasUnresolvedFailure(journal: RunJournal, hasSideEffects: (name: string) => boolean): boolean {
+  const steps = journal.turns.flatMap(turn => turn.steps);
+  return firstUnresolvedCall(steps, hasSideEffects) !== -1;
+}
+
+export function isResumable(journal: RunJournal): boolean {
+  return journal.status === 'failed' || journal.status === 'cancelled';
+}
+
+function toolUsesOf(turn: JournalTurn): ProviderToolUseBlock[] {
+  return turn.assistantContent.filter((b): b is ProviderToolUseBlock => b.type === 'tool_use');
+}
+
+/**
+ * Find where a resumed run should continue: the turn holding the first
+ * unresolved call (the same rule as hasUnresolvedFailure). Turns before it are
+ * kept verbatim; anything the model did after it is discarded.
+ */
+export function getResumePoint(journal: RunJournal, hasSideEffects: (name: string) => boolean): ResumePoint {
+  const messages: ProviderMessage[] = [...journal.initialMessages];
+
+  const calls = journal.turns.flatMap((turn, turnIndex) => toolUsesOf(turn).map(toolUse => ({
+    turnIndex,
+    name: toolUse.name,
+    status: turn.steps.find(s => s.toolUseId === toolUse.id && s.name === toolUse.name)?.status,
+  })));
+  const first = firstUnresolvedCall(calls, hasSideEffects);
+  const resumeTurn = first === -1 ? -1 : calls[first].turnIndex;
+
+  for (let i = 0; i < journal.turns.length; i++) {
+    const turn = journal.turns[i];
+    const toolUses = toolUsesOf(turn);
+
+    messages.push({ role: 'assistant', content: turn.assistantContent });
+
+    if (i === resumeTurn) {
+      journal.turns = journal.turns.slice(0, i + 1);
+      turn.steps = turn.steps.filter(s => s.status === 'succeeded');
+      return { messages, pendingTurn: turn };
+    }
+
+    if (toolUses.length > 0) {
+      messages.push({ role: 'user', content: toolResultsFor(turn) });
+    }
+  }
+
+  return { messages };
+}
+
+/**
+ * Completed step that can be replayed instead of executed again: either the
+ * same tool_use id and tool, or (for side-effecting tools) an identical
+ * earlier call.
+ */
+export function findReplayableStep(
+  journal: RunJournal,
+  toolUse: ProviderToolUseBlock,
+  sideEffectingTools: string[]
+): JournalStep | undefined {
+  const inputKey = JSON.stringify(toolUse.input);
+  for (const turn of journal.turns) {
+    for (const step of turn.steps) {
+      if (step.status !== 'succeeded') continue;
+      if (step.toolUseId === toolUse.id && step.name === toolUse.name) return step;
+      if (
+        sideEffectingTools.includes(toolUse.name) &&
+        step.name === toolUse.name &&
+        JSON.stringify(step.input) === inputKey
+      ) {
+        return step;
+      }
+    }
+  }
+  return undefined;
+}
+
+function toolResultsFor(turn: JournalTurn): ProviderToolResultBlock[] {
+  return turn.steps.map(step => ({
+    type: 'tool_result',
+    tool_use_id: step.toolUseId,
+    content: JSON.stringify(step.result),
+    ...(step.isError ? { is_error: true } : {}),
+  }));
+}
+
+function persist(journal: RunJournal): void {
+  journal.updatedAt = new Date().toISOString();
+  saveRunJournal(journal);
+}
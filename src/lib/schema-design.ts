@@ -0,0 +1,105 @@
+/**
+ * Schema Design
+ * Turns an app's data requirements into a database schema (forced tool call,
+ * like the build planner) and keeps the repo's migrations in step with it:
+ * supabase/schema.json holds the current schema, and every change adds one
+ * timestamped file under supabase/migrations/.
+ */
+
+import { LLMProvider, ProviderToolUseBlock } from './providers';
+import { decodeBase64Utf8 } from './self-heal';
+import { ToolBackend } from './tools/backend';
+import { DATABASE_SCHEMA_SCHEMA, DatabaseSchema, MIGRATIONS_DIR, SCHEMA_FILE, validateDatabaseSchema } from './schema-sql';
+
+export const SUBMIT_SCHEMA_TOOL = 'submit_database_schema';
+
+const SCHEMA_DESIGNER_PROMPT = `You are Brainiac's database designer for Supabase (Postgres).
+Turn the app requirements into a schema by calling ${SUBMIT_SCHEMA_TOOL} exactly once.
+
+Guidelines:
+- Every table gets "id uuid primary key default gen_random_uuid()" and "created_at timestamptz default now()".
+- Rows owned by a user get "user_id uuid references auth.users(id) on delete cascade" with default auth.uid().
+- Model relations as foreign keys (table(column)) and index every foreign key and every column the app filters or sorts by.
+- Row level security is always on: give every table the policies the app needs (usually auth.uid() = user_id for select, insert, update and delete). Public read-only data gets a select policy with using "true".
+- Only create tables the requirements need.
+- When a current schema is given, return the COMPLETE new schema: keep every existing table, column and policy unless the requirements change it, and add what is new. Never rename existing columns.`;
+
+/**
+ * Ask the model for the complete schema the app should have now
+ */
+export async function designDatabaseSchema(
+  requirements: string,
+  current: DatabaseSchema | null,
+  provider: LLMProvider,
+  model: string,
+  signal?: AbortSignal
+): Promise<DatabaseSchema> {
+  const currentContext = current
+    ? `\n\nCurrent schema (already in the database):\n${JSON.stringify(current, null, 2)}`
+    : '';
+
+  const response = await provider.createMessage({
+    model,
+    maxTokens: 8000,
+    system: SCHEMA_DESIGNER_PROMPT,
+    messages: [{ role: 'user', content: `App requirements:\n${requirements}${currentContext}` }],
+    tools: [
+      {
+        name: SUBMIT_SCHEMA_TOOL,
+        description: 'Submit the complete database schema',
+        input_schema: { ...DATABASE_SCHEMA_SCHEMA },
+      },
+    ],
+    toolChoice: { type: 'tool', name: SUBMIT_SCHEMA_TOOL },
+    signal,
+  });
+
+  const call = response.content.find(
+    (block): block is ProviderToolUseBlock => block.type === 'tool_use' && block.name === SUBMIT_SCHEMA_TOOL
+  );
+  if (!call) {
+    throw new Error('The model did not return a database schema');
+  }
+
+  const errors = validateDatabaseSchema(call.input);
+  if (errors.length > 0) {
+    throw new Error(`The model returned an invalid database schema: ${errors.join('; ')}`);
+  }
+
+  return call.input as DatabaseSchema;
+}
+
+/**
+ * Schema recorded in the repo, or null before the first migration
+ */
+export async function loadRepoSchema(backend: ToolBackend, repo: string, branch?: string): Promise<DatabaseSchema | null> {
+  const entries = await backend.listGithubFiles({ repo, branch });
+  if (!entries.some(entry => entry.path === SCHEMA_FILE)) return null;
+
+  const file = await backend.getGithubFile({ repo, path: SCHEMA_FILE, branch });
+  return JSON.parse(decodeBase64Utf8(file.content));
+}
+
+/**
+ * Run every migration in the repo, oldest first. They are written to be
+ * re-runnable, so a database that already has some of them only gains what
+ * it is missing (e.g. a freshly attached project).
+ */
+export async function applyRepoMigrations(
+  backend: ToolBackend,
+  repo: string,
+  projectRef: string,
+  branch?: string
+): Promise<string[]> {
+  const paths = (await backend.listGithubFiles({ repo, branch }))
+    .map(entry => entry.path)
+    .filter(path => path.startsWith(`${MIGRATIONS_DIR}/`) && path.endsWith('.sql'))
+    .sort();
+
+  for (const path of paths) {
+    const file = await backend.getGithubFile({ repo, path, branch });
+    await backend.applySupabaseMigration({ project_ref: projectRef, sql: decodeBase64Utf8(file.content) });
+    console.log(`🗄️ Applied ${path}`);
+  }
+  return paths;
+}
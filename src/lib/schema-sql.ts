@@ -0,0 +1,302 @@
+/**
+ * Schema SQL
+ * Database schema as data (tables, relations, indexes, RLS policies) and the
+ * Postgres it turns into. Migrations are the difference between two schemas,
+ * so a later change only adds what is new. Every statement can run twice
+ * without failing, which keeps re-applying a repo's migrations safe.
+ */
+
+import { JsonSchema, validateJsonSchema } from './json-schema';
+
+export interface ColumnSpec {
+  name: string;
+  type: string; // Postgres type, e.g. "text", "uuid", "timestamptz", "numeric(10,2)"
+  primary_key?: boolean;
+  nullable?: boolean; // Columns are NOT NULL unless nullable
+  unique?: boolean;
+  default?: string; // SQL expression, e.g. "now()", "gen_random_uuid()", "false"
+  references?: string; // "table(column)"; auth.users(id) for the signed-in user
+  on_delete?: 'cascade' | 'set null' | 'restrict';
+}
+
+export interface IndexSpec {
+  columns: string[];
+  unique?: boolean;
+}
+
+export type PolicyCommand = 'select' | 'insert' | 'update' | 'delete' | 'all';
+
+export interface PolicySpec {
+  name: string;
+  command: PolicyCommand;
+  using?: string; // Which existing rows the policy applies to
+  with_check?: string; // Which new or updated rows are allowed
+}
+
+export interface TableSpec {
+  name: string;
+  description?: string;
+  columns: ColumnSpec[];
+  indexes?: IndexSpec[];
+  policies: PolicySpec[]; // Row level security is always enabled
+}
+
+export interface DatabaseSchema {
+  tables: TableSpec[];
+}
+
+export interface SchemaDiff {
+  statements: string[];
+  notes: string[]; // Changes left out on purpose (drops, type changes)
+}
+
+export const DATABASE_SCHEMA_SCHEMA: JsonSchema & { type: 'object' } = {
+  type: 'object',
+  properties: {
+    tables: {
+      type: 'array',
+      description: 'Every table of the app (the complete schema, not just changes)',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'snake_case, plural (e.g. "order_items")' },
+          description: { type: 'string' },
+          columns: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'snake_case' },
+                type: { type: 'string', description: 'Postgres type: uuid, text, integer, bigint, numeric(10,2), boolean, timestamptz, date, jsonb' },
+                primary_key: { type: 'boolean' },
+                nullable: { type: 'boolean', description: 'Columns are NOT NULL unless true' },
+                unique: { type: 'boolean' },
+                default: { type: 'string', description: 'SQL default, e.g. gen_random_uuid(), now(), false, auth.uid()' },
+                references: { type: 'string', description: 'Foreign key as table(column), e.g. projects(id) or auth.users(id)' },
+                on_delete: { type: 'string', enum: ['cascade', 'set null', 'restrict'] },
+              },
+              required: ['name', 'type'],
+            },
+          },
+          indexes: {
+            type: 'array',
+            description: 'Indexes for foreign keys and columns the app filters or sorts by',
+            items: {
+              type: 'object',
+              properties: {
+                columns: { type: 'array', minItems: 1, items: { type: 'string' } },
+                unique: { type: 'boolean' },
+              },
+              required: ['columns'],
+            },
+          },
+          policies: {
+            type: 'array',
+            description: 'Row level security policies (RLS is always enabled, so a table without policies is unreachable)',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'snake_case, unique within the table' },
+                command: { type: 'string', enum: ['select', 'insert', 'update', 'delete', 'all'] },
+                using: { type: 'string', description: 'SQL condition on existing rows, e.g. auth.uid() = user_id' },
+                with_check: { type: 'string', description: 'SQL condition on new rows (insert, update)' },
+              },
+              required: ['name', 'command'],
+            },
+          },
+        },
+        required: ['name', 'columns', 'policies'],
+      },
+    },
+  },
+  required: ['tables'],
+};
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+const COLUMN_TYPE = /^[a-z][a-z0-9_ ]*(\(\d+(,\s*\d+)?\))?(\[\])?$/i;
+const REFERENCE = /^(?:(auth)\.)?([a-z_][a-z0-9_]*)\(([a-z_][a-z0-9_]*)\)$/;
+
+/**
+ * Problems that would make the generated SQL invalid or unsafe (empty when valid)
+ */
+export function validateDatabaseSchema(schema: unknown): string[] {
+  const errors = validateJsonSchema(schema, DATABASE_SCHEMA_SCHEMA, 'schema').map(e => `${e.path}: ${e.message}`);
+  if (errors.length > 0) return errors;
+
+  const { tables } = schema as DatabaseSchema;
+  const tableNames = new Set(tables.map(t => t.name));
+
+  tables.forEach((table, t) => {
+    const at = `schema.tables[${t}]`;
+    if (!IDENTIFIER.test(table.name)) errors.push(`${at}.name: "${table.name}" is not a snake_case identifier`);
+    if (tables.findIndex(other => other.name === table.name) !== t) errors.push(`${at}.name: duplicate table "${table.name}"`);
+
+    const columnNames = new Set(table.columns.map(c => c.name));
+    if (!table.columns.some(c => c.primary_key)) errors.push(`${at}: table "${table.name}" has no primary key`);
+
+    table.columns.forEach((column, c) => {
+      const columnAt = `${at}.columns[${c}]`;
+      if (!IDENTIFIER.test(column.name)) errors.push(`${columnAt}.name: "${column.name}" is not a snake_case identifier`);
+      if (!COLUMN_TYPE.test(column.type)) errors.push(`${columnAt}.type: "${column.type}" is not a Postgres type`);
+      if (column.references) {
+        const match = REFERENCE.exec(column.references);
+        if (!match) {
+          errors.push(`${columnAt}.references: "${column.references}" must look like table(column)`);
+        } else if (!match[1] && !tableNames.has(match[2])) {
+          errors.push(`${columnAt}.references: table "${match[2]}" is not in the schema`);
+        }
+      }
+    });
+
+    table.indexes?.forEach((index, i) => {
+      const missing = index.columns.filter(column => !columnNames.has(column));
+      if (missing.length > 0) errors.push(`${at}.indexes[${i}]: unknown column(s) ${missing.join(', ')}`);
+    });
+
+    table.policies.forEach((policy, p) => {
+      if (!IDENTIFIER.test(policy.name)) errors.push(`${at}.policies[${p}].name: "${policy.name}" is not a snake_case identifier`);
+      if (!policy.using && !policy.with_check) errors.push(`${at}.policies[${p}]: needs using or with_check`);
+    });
+  });
+
+  return errors;
+}
+
+function columnSql(column: ColumnSpec): string {
+  const parts = [column.name, column.type];
+  if (column.primary_key) parts.push('PRIMARY KEY');
+  else if (!column.nullable) parts.push('NOT NULL');
+  if (column.unique) parts.push('UNIQUE');
+  if (column.default) parts.push(`DEFAULT ${column.default}`);
+  if (column.references) {
+    parts.push(`REFERENCES ${column.references}`);
+    if (column.on_delete) parts.push(`ON DELETE ${column.on_delete.toUpperCase()}`);
+  }
+  return parts.join(' ');
+}
+
+function indexName(table: string, index: IndexSpec): string {
+  return `${table}_${index.columns.join('_')}_${index.unique ? 'key' : 'idx'}`;
+}
+
+function indexSql(table: string, index: IndexSpec): string {
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${indexName(table, index)} ON ${table} (${index.columns.join(', ')});`;
+}
+
+function policySql(table: string, policy: PolicySpec): string[] {
+  const clauses = [`CREATE POLICY "${policy.name}" ON ${table} FOR ${policy.command.toUpperCase()}`];
+  if (policy.using) clauses.push(`USING (${policy.using})`);
+  if (policy.with_check) clauses.push(`WITH CHECK (${policy.with_check})`);
+  return [
+    `DROP POLICY IF EXISTS "${policy.name}" ON ${table};`,
+    `${clauses.join(' ')};`,
+  ];
+}
+
+function createTableSql(table: TableSpec): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${table.name} (\n${table.columns.map(c => `  ${columnSql(c)}`).join(',\n')}\n);`,
+    `ALTER TABLE ${table.name} ENABLE ROW LEVEL SECURITY;`,
+    ...(table.indexes ?? []).map(index => indexSql(table.name, index)),
+    ...table.policies.flatMap(policy => policySql(table.name, policy)),
+  ];
+}
+
+// Referenced tables first, so foreign keys can be created
+function inDependencyOrder(tables: TableSpec[]): TableSpec[] {
+  const ordered: TableSpec[] = [];
+  const visiting = new Set<string>();
+  const visit = (table: TableSpec) => {
+    if (ordered.includes(table) || visiting.has(table.name)) return; // Cycles keep the given order
+    visiting.add(table.name);
+    for (const column of table.columns) {
+      const target = column.references && REFERENCE.exec(column.references);
+      const dependency = target && !target[1] ? tables.find(t => t.name === target[2]) : undefined;
+      if (dependency) visit(dependency);
+    }
+    ordered.push(table);
+  };
+  tables.forEach(visit);
+  return ordered;
+}
+
+function samePolicy(a: PolicySpec, b: PolicySpec): boolean {
+  return a.command === b.command && (a.using ?? '') === (b.using ?? '') && (a.with_check ?? '') === (b.with_check ?? '');
+}
+
+/**
+ * Statements that take a database from one schema to the next. Nothing is
+ * dropped: removed tables and columns and changed types only become notes,
+ * since applying them could lose data.
+ */
+export function diffSchemas(previous: DatabaseSchema | null, next: DatabaseSchema): SchemaDiff {
+  const statements: string[] = [];
+  const notes: string[] = [];
+  const before = new Map((previous?.tables ?? []).map(t => [t.name, t]));
+
+  for (const table of inDependencyOrder(next.tables)) {
+    const old = before.get(table.name);
+    if (!old) {
+      statements.push(...createTableSql(table));
+      continue;
+    }
+
+    for (const column of table.columns) {
+      const oldColumn = old.columns.find(c => c.name === column.name);
+      if (!oldColumn) {
+        // A new NOT NULL column needs a default to fill the existing rows
+        const addable = column.nullable || column.default || column.primary_key ? column : { ...column, nullable: true };
+        statements.push(`ALTER TABLE ${table.name} ADD COLUMN IF NOT EXISTS ${columnSql(addable)};`);
+        if (addable !== column) notes.push(`${table.name}.${column.name} was added as nullable because it has no default`);
+      } else if (oldColumn.type !== column.type) {
+        notes.push(`${table.name}.${column.name} changed type from ${oldColumn.type} to ${column.type}; convert it by hand`);
+      }
+    }
+    for (const oldColumn of old.columns) {
+      if (!table.columns.some(c => c.name === oldColumn.name)) {
+        notes.push(`${table.name}.${oldColumn.name} is no longer in the schema; drop it by hand once its data is not needed`);
+      }
+    }
+
+    const oldIndexes = new Set((old.indexes ?? []).map(index => indexName(table.name, index)));
+    for (const index of table.indexes ?? []) {
+      if (!oldIndexes.has(indexName(table.name, index))) statements.push(indexSql(table.name, index));
+    }
+
+    for (const policy of table.policies) {
+      const oldPolicy = old.policies.find(p => p.name === policy.name);
+      if (!oldPolicy || !samePolicy(oldPolicy, policy)) statements.push(...policySql(table.name, policy));
+    }
+    for (const oldPolicy of old.policies) {
+      if (!table.policies.some(p => p.name === oldPolicy.name)) {
+        statements.push(`DROP POLICY IF EXISTS "${oldPolicy.name}" ON ${table.name};`);
+      }
+    }
+  }
+
+  for (const name of before.keys()) {
+    if (!next.tables.some(t => t.name === name)) {
+      notes.push(`Table ${name} is no longer in the schema; drop it by hand once its data is not needed`);
+    }
+  }
+
+  return { statements, notes };
+}
+
+export const MIGRATIONS_DIR = 'supabase/migrations';
+export const SCHEMA_FILE = 'supabase/schema.json';
+
+/**
+ * supabase/migrations/<YYYYMMDDHHMMSS>_<name>.sql, the Supabase CLI layout
+ */
+export function migrationPath(name: string, date: Date = new Date()): string {
+  const timestamp = date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'schema';
+  return `${MIGRATIONS_DIR}/${timestamp}_${slug}.sql`;
+}
+
+export function renderMigration(title: string, diff: SchemaDiff): string {
+  const notes = diff.notes.map(note => `-- NOTE: ${note}\n`).join('');
+  return `-- ${title}\n-- Generated by Brainiac; safe to run more than once.\n${notes}\n${diff.statements.join('\n\n')}\n`;
+}
@@ -0,0 +1,150 @@
+/**
+ * Secrets
+ * Credentials the model must never see. Tools hand out opaque handles such as
+ * secret://supabase/<ref>/service_key, only tool handlers resolve them, and
+ * anything that leaves a run (tool results, logs, saved chats) is redacted.
+ */
+
+export const SECRET_SCHEME = 'secret://';
+
+// Secrets minted before this session (older journals, pasted keys) are still
+// recognisable: new-style secret keys and service_role JWTs
+const SECRET_KEY_PATTERN = /\bsb_secret_[A-Za-z0-9_-]{8,}/g;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.(eyJ[A-Za-z0-9_-]+)\.[A-Za-z0-9_-]+/g;
+const REDACTED = '[redacted]';
+
+// Shorter values would turn common words into redactions
+const MIN_SECRET_LENGTH = 8;
+
+// handle → value, for this browser session only (never persisted)
+const secrets = new Map<string, string>();
+
+/**
+ * Thrown when a handle's value is not known in this session (e.g. after a reload)
+ */
+export class SecretUnavailableError extends Error {
+  handle: string;
+
+  constructor(handle: string, message = `Secret ${handle} is not available in this session`) {
+    super(message);
+    this.name = 'SecretUnavailableError';
+    this.handle = handle;
+  }
+}
+
+export function secretHandle(service: string, scope: string, name: string): string {
+  return `${SECRET_SCHEME}${service}/${scope}/${name}`;
+}
+
+export function isSecretHandle(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(SECRET_SCHEME);
+}
+
+/**
+ * Service, scope and name of a handle (null for anything else)
+ */
+export function parseSecretHandle(value: string): { service: string; scope: string; name: string } | null {
+  const match = /^secret:\/\/([^/]+)\/([^/]+)\/([^/]+)$/.exec(value);
+  return match ? { service: match[1], scope: match[2], name: match[3] } : null;
+}
+
+/**
+ * Keep a value for this session and get the handle that stands for it
+ */
+export function storeSecret(service: string, scope: string, name: string, value: string): string {
+  const handle = secretHandle(service, scope, name);
+  if (value && !isSecretHandle(value)) secrets.set(handle, value);
+  return handle;
+}
+
+export function hasSecret(handle: string): boolean {
+  return secrets.has(handle);
+}
+
+/**
+ * Real value behind a handle; other strings are returned unchanged
+ */
+export function resolveSecret(value: string): string {
+  if (!isSecretHandle(value)) return value;
+  const secret = secrets.get(value);
+  if (secret === undefined) throw new SecretUnavailableError(value);
+  return secret;
+}
+
+/**
+ * Store the given fields of a credentials object and replace them with handles
+ */
+export function sealSecrets<T extends object>(record: T, service: string, scope: string, fields: Array<keyof T & string>): T {
+  const sealed = { ...record };
+  for (const field of fields) {
+    const value = sealed[field];
+    if (typeof value === 'string' && value) {
+      (sealed as Record<string, unknown>)[field] = storeSecret(service, scope, field, value);
+    }
+  }
+  return sealed;
+}
+
+export function clearSecrets(): void {
+  secrets.clear();
+}
+
+function isServiceRoleJwt(payload: string): boolean {
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(json).role === 'service_role';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replace known secret values with their handles, and anything that looks
+ * like a service key with a placeholder
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const [handle, value] of secrets) {
+    if (value.length >= MIN_SECRET_LENGTH && redacted.includes(value)) {
+      redacted = redacted.split(value).join(handle);
+    }
+  }
+  return redacted
+    .replace(SECRET_KEY_PATTERN, REDACTED)
+    .replace(JWT_PATTERN, (token, payload) => (isServiceRoleJwt(payload) ? REDACTED : token));
+}
+
+/**
+ * redactSecrets applied to every string inside a value (objects, arrays and
+ * errors are copied)
+ */
+export function redactValue<T>(value: T): T {
+  if (typeof value === 'string') return redactSecrets(value) as T;
+  if (Array.isArray(value)) return value.map(item => redactValue(item)) as T;
+  if (value instanceof Error) {
+    // message and stack are not enumerable, so copy them by hand
+    const copy: Error = Object.assign(Object.create(Object.getPrototypeOf(value)), redactValue({ ...value }));
+    copy.message = redactSecrets(value.message);
+    if (value.stack !== undefined) copy.stack = redactSecrets(value.stack);
+    return copy as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)])) as T;
+  }
+  return value;
+}
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+let consoleRedacted = false;
+
+/**
+ * Redact everything written to the browser console from now on
+ */
+export function installConsoleRedaction(target: Console = console): void {
+  if (consoleRedacted && target === console) return;
+  for (const method of CONSOLE_METHODS) {
+    const original = target[method].bind(target);
+    target[method] = (...args: unknown[]) => original(...args.map(arg => redactValue(arg)));
+  }
+  if (target === console) consoleRedacted = true;
+}
@@ -0,0 +1,175 @@
+import { sleep } from './utils';
+import { ProgressCallback } from './agent-types';
+import { DetectedError, FileSet } from './error-checker';
+import { LLMProvider, ProviderResponse, ProviderTextBlock } from './providers';
+
+// =============================================================================
+// SELF-HEAL: ask the model to fix files that fail pre-deployment checks
+// =============================================================================
+
+export type SelfHealResult = {
+  updatedFiles: FileSet;
+  rawResponseText: string;
+};
+
+export function decodeBase64Utf8(b64: string): string {
+  // atob returns a binary string; decode it as UTF-8
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new TextDecoder('utf-8', { fatal: false }).decode(bytes);
+}
+
+function pickFilesForSelfHeal(files: FileSet, errors: DetectedError[], maxFiles: number = 3): string[] {
+  const counts = new Map<string, number>();
+  for (const e of errors) {
+    const m = /^\[([^\]]+)\]/.exec(e.message || '');
+    const path = m?.[1];
+    if (path && files[path]) {
+      counts.set(path, (counts.get(path) || 0) + 1);
+    }
+  }
+  const sorted = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([p]) => p);
+  if (sorted.length > 0) return sorted.slice(0, maxFiles);
+  // Fallback
+  return files['src/App.tsx'] ? ['src/App.tsx'] : Object.keys(files).slice(0, maxFiles);
+}
+
+export function responseText(response: ProviderResponse): string {
+  return response.content
+    .filter((b): b is ProviderTextBlock => b.type === 'text')
+    .map(b => b.text)
+    .join('\n')
+    .trim();
+}
+
+export async function selfHealFilesWithModel(
+  provider: LLMProvider,
+  model: string,
+  files: FileSet,
+  errors: DetectedError[],
+  onProgress: ProgressCallback,
+  attempt: number,
+  maxAttempts: number
+): Promise<SelfHealResult> {
+  const targetFiles = pickFilesForSelfHeal(files, errors, 3);
+  const errorList = errors
+    .filter(e => e.severity === 'error' || e.severity === 'critical' || e.action === 'BLOCK_DEPLOYMENT')
+    .slice(0, 25)
+    .map(e => `- ${e.message}`)
+    .join('\n');
+
+  onProgress('self_heal', `🩹 Self-healing code (attempt ${attempt}/${maxAttempts})...`, 46);
+  await sleep(200);
+
+  const prompt = `You are a TypeScript/Vite build fixer.\n\nYour task:\n- Fix the provided files so they compile with: \"tsc && vite build\".\n- Address ALL listed errors.\n- DO NOT add new dependencies.\n- DO NOT use template literals (backticks) inside JSX attributes like className.\n- Escape JSX text special characters properly (e.g. use &gt; for > and &rbrace; for }).\n- Remove any invisible/invalid Unicode characters.\n- Keep the app's behavior and layout the same unless needed for correctness.\n\nReturn STRICT JSON ONLY (no markdown, no code fences). IMPORTANT: file contents MUST be base64 encoded so the JSON is always valid.\n\nFormat:\n{\n  \"files\": {\n    \"path/to/file\": { \"encoding\": \"base64\", \"content\": \"...\" },\n    ...\n  }\n}\nOnly include files you changed.\n\nErrors:\n${errorList}\n\nFiles:\n${targetFiles.map(p => `--- ${p} ---\n${files[p]}\n`).join('\n')}\n`;
+
+  const response = await provider.createMessage({
+    model,
+    maxTokens: 6000,
+    temperature: 0,
+    messages: [{ role: 'user', content: prompt }],
+  });
+
+  const text = responseText(response);
+
+  // Extract JSON (some models may prefix/suffix whitespace)
+  const jsonStart = text.indexOf('{');
+  const jsonEnd = text.lastIndexOf('}');
+  const jsonText = jsonStart >= 0 && jsonEnd >= 0 ? text.slice(jsonStart, jsonEnd + 1) : text;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (e) {
+    console.warn('⚠️ Self-heal produced non-JSON output');
+    // One retry with an even stricter prompt and smaller output request
+    onProgress('self_heal', '🩹 Self-heal output was invalid JSON. Retrying...', 47);
+
+    const retryPrompt = `Return ONLY valid JSON (no markdown, no code fences). File contents MUST be base64.\n\nFormat:\n{\n  \"files\": {\n    \"path/to/file\": { \"encoding\": \"base64\", \"content\": \"...\" }\n  }\n}\n\nOnly include the files you changed.\n\nErrors:\n${errorList}\n\nFiles:\n${targetFiles.map(p => `--- ${p} ---\n${files[p]}\n`).join('\n')}\n`;
+
+    const retry = await provider.createMessage({
+      model,
+      maxTokens: 4000,
+      temperature: 0,
+      messages: [{ role: 'user', content: retryPrompt }],
+    });
+
+    const retryText = responseText(retry);
+
+    const rs = retryText.indexOf('{');
+    const re = retryText.lastIndexOf('}');
+    const retryJsonText = rs >= 0 && re >= 0 ? retryText.slice(rs, re + 1) : retryText;
+
+    try {
+      parsed = JSON.parse(retryJsonText);
+    } catch {
+      throw new Error(`Self-heal failed: model did not return valid JSON. Output starts with: ${retryText.slice(0, 120)}`);
+    }
+  }
+
+  const patchFilesRaw: any = parsed?.files && typeof parsed.files === 'object' ? parsed.files : {};
+  const updatedFiles: FileSet = { ...files };
+  for (const [p, v] of Object.entries(patchFilesRaw)) {
+    // Only accept edits for files we asked the model to heal
+    if (!targetFiles.includes(p)) continue;
+
+    // Backwards compatibility: older format where value is raw string
+    if (typeof v === 'string' && v.length > 0) {
+      updatedFiles[p] = v;
+      continue;
+    }
+
+    // New format: base64 object
+    if (v && typeof v === 'object' && (v as any).encoding === 'base64' && typeof (v as any).content === 'string') {
+      updatedFiles[p] = decodeBase64Utf8((v as any).content);
+      continue;
+    }
+  }
+
+  return { updatedFiles, rawResponseText: text };
+}
+
+export function buildHealerModelCandidates(provider: LLMProvider, selectedModel: string): string[] {
+  // Other providers only know their own model names
+  if (provider.id !== 'anthropic') return [selectedModel];
+
+  // Prefer a stable, instruction-following model for structured self-heal.
+  // Keep the user's selected model as a fallback if desired.
+  const preferred = [
+    'claude-3-5-sonnet-20241022',
+    'claude-3-7-sonnet-20250219',
+    'claude-sonnet-4-20250514',
+    'claude-3-haiku-20240307',
+  ];
+  const candidates = [selectedModel, ...preferred].filter(Boolean);
+  // Deduplicate preserving order
+  return candidates.filter((m, i) => candidates.indexOf(m) === i);
+}
+
+/**
+ * Self-heal with each healer model in turn until one returns usable output
+ */
+export async function selfHealWithFallbackModels(
+  provider: LLMProvider,
+  model: string,
+  files: FileSet,
+  errors: DetectedError[],
+  onProgress: ProgressCallback,
+  attempt: number,
+  maxAttempts: number
+): Promise<SelfHealResult> {
+  let lastHealError: any = null;
+
+  for (const healerModel of buildHealerModelCandidates(provider, model)) {
+    try {
+      onProgress('self_heal', `🩹 Healing with ${healerModel}...`, 45);
+      return await selfHealFilesWithModel(provider, healerModel, files, errors, onProgress, attempt, maxAttempts);
+    } catch (hmErr: any) {
+      lastHealError = hmErr;
+      console.warn(`⚠️ Self-heal failed with model ${healerModel}:`, hmErr?.message || hmErr);
+    }
+  }
+
+  throw lastHealError || new Error('Self-heal failed with all healer models');
+}
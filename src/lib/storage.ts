@@ -1,69 +1,154 @@
-import { Settings, ProjectHistory } from '@/types';
+import { Settings, ProjectHistory, Workspace } from '@/types';
+import { ConversationRecord, deleteRecords, getRecord, getRecords, putRecord } from './db';
+import type { RunJournal } from './run-journal';
+import { redactValue } from './secrets';
+import { readVaultWorkspaces, writeVaultWorkspaces } from './vault';
+import { DEFAULT_WORKSPACE_ID, WorkspaceStore, activeWorkspace, createWorkspace, emptySettings, inWorkspace } from './workspaces';
 
-const STORAGE_KEYS = {
-  SETTINGS: 'brainiac_settings',
-  HISTORY: 'brainiac_history',
-  THEME: 'brainiac_theme',
-};
+// Journals hold full conversations and file sets, so keep only the most recent runs
+const MAX_RUN_JOURNALS = 10;
 
-// Settings Management
+// Settings Management (the active workspace, encrypted in the vault; see vault.ts)
 export const saveSettings = (settings: Settings): void => {
-  try {
-    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
-  } catch (error) {
-    console.error('Failed to save settings:', error);
-  }
+  updateWorkspace(settings);
 };
 
-export const loadSettings = (): Settings | null => {
-  try {
-    const data = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-    return data ? JSON.parse(data) : null;
-  } catch (error) {
-    console.error('Failed to load settings:', error);
-    return null;
-  }
+export const loadSettings = (): Workspace | null => {
+  const store = readVaultWorkspaces();
+  return store ? activeWorkspace(store) : null;
 };
 
 export const clearSettings = (): void => {
-  localStorage.removeItem(STORAGE_KEYS.SETTINGS);
+  updateWorkspace(emptySettings());
+};
+
+// Workspace Management
+const persistWorkspaces = (store: WorkspaceStore): void => {
+  writeVaultWorkspaces(store).catch(error => {
+    console.error('Failed to save workspaces:', error);
+  });
+};
+
+export const loadWorkspaces = (): WorkspaceStore | null => {
+  return readVaultWorkspaces();
+};
+
+// Falls back to the default workspace while the vault is locked
+export const currentWorkspaceId = (): string => {
+  return readVaultWorkspaces()?.activeWorkspaceId ?? DEFAULT_WORKSPACE_ID;
+};
+
+export const updateWorkspace = (changes: Partial<Omit<Workspace, 'id'>>, workspaceId: string = currentWorkspaceId()): void => {
+  const store = readVaultWorkspaces();
+  if (!store) {
+    console.error('Failed to save settings: vault is locked');
+    return;
+  }
+  persistWorkspaces({
+    ...store,
+    workspaces: store.workspaces.map(w => (w.id === workspaceId ? { ...w, ...changes, id: w.id } : w)),
+  });
+};
+
+export const addWorkspace = (name: string): Workspace | null => {
+  const store = readVaultWorkspaces();
+  if (!store) return null;
+  const workspace = createWorkspace(name);
+  persistWorkspaces({ activeWorkspaceId: workspace.id, workspaces: [...store.workspaces, workspace] });
+  return workspace;
+};
+
+export const switchWorkspace = (workspaceId: string): void => {
+  const store = readVaultWorkspaces();
+  if (!store || !store.workspaces.some(w => w.id === workspaceId)) return;
+  persistWorkspaces({ ...store, activeWorkspaceId: workspaceId });
 };
 
-// Project History Management
+// Also drops the workspace's history and run journals; the last workspace stays
+export const deleteWorkspace = (workspaceId: string): void => {
+  const store = readVaultWorkspaces();
+  if (!store || store.workspaces.length <= 1) return;
+  const workspaces = store.workspaces.filter(w => w.id !== workspaceId);
+  persistWorkspaces({
+    activeWorkspaceId: store.activeWorkspaceId === workspaceId ? workspaces[0].id : store.activeWorkspaceId,
+    workspaces,
+  });
+  deleteRecords('projects', p => inWorkspace(p, workspaceId));
+  deleteRunJournals(j => inWorkspace(j, workspaceId));
+};
+
+// Project History Management (entries are kept per workspace)
 export const saveProject = (project: ProjectHistory): void => {
   try {
-    const history = loadHistory();
-    history.unshift(project); // Add to beginning
-    
-    // Keep only last 50 projects
-    if (history.length > 50) {
-      history.splice(50);
-    }
-    
-    localStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(history));
+    putRecord('projects', redactValue({ ...project, workspaceId: project.workspaceId ?? currentWorkspaceId() }));
   } catch (error) {
     console.error('Failed to save project:', error);
   }
 };
 
 export const loadHistory = (): ProjectHistory[] => {
+  const workspaceId = currentWorkspaceId();
+  return getRecords('projects').filter(p => inWorkspace(p, workspaceId));
+};
+
+export const clearHistory = (): void => {
+  const workspaceId = currentWorkspaceId();
+  deleteRecords('projects', p => inWorkspace(p, workspaceId));
+};
+
+// Run Journal Management (the conversation and its files are stored apart)
+const deleteRunJournals = (matches: (journal: ConversationRecord) => boolean): void => {
+  const runIds = new Set(getRecords('conversations').filter(matches).map(j => j.runId));
+  deleteRecords('conversations', j => runIds.has(j.runId));
+  deleteRecords('snapshots', s => runIds.has(s.id));
+};
+
+const withFiles = (conversation: ConversationRecord): RunJournal => ({
+  ...conversation,
+  files: getRecord('snapshots', conversation.runId)?.files ?? {},
+});
+
+export const saveRunJournal = (journal: RunJournal): void => {
   try {
-    const data = localStorage.getItem(STORAGE_KEYS.HISTORY);
-    return data ? JSON.parse(data) : [];
+    const { files, ...conversation } = redactValue(journal); // Keys stay in memory; a resume fetches them again
+    if (Object.keys(files).length > 0) {
+      putRecord('snapshots', { id: journal.runId, createdAt: journal.updatedAt, files });
+    }
+    putRecord('conversations', conversation);
+
+    // Each workspace keeps its own newest journals
+    const workspaceId = journal.workspaceId ?? DEFAULT_WORKSPACE_ID;
+    const stale = new Set(getRecords('conversations').filter(j => inWorkspace(j, workspaceId)).slice(MAX_RUN_JOURNALS).map(j => j.runId));
+    if (stale.size > 0) deleteRunJournals(j => stale.has(j.runId));
   } catch (error) {
-    console.error('Failed to load history:', error);
-    return [];
+    console.error('Failed to save run journal:', error);
   }
 };
 
-export const clearHistory = (): void => {
-  localStorage.removeItem(STORAGE_KEYS.HISTORY);
+// Journals of the current workspace
+export const loadRunJournals = (): RunJournal[] => {
+  const workspaceId = currentWorkspaceId();
+  return getRecords('conversations').filter(j => inWorkspace(j, workspaceId)).map(withFiles);
+};
+
+export const loadRunJournal = (runId: string): RunJournal | null => {
+  const conversation = getRecord('conversations', runId);
+  return conversation ? withFiles(conversation) : null;
 };
 
 // Validation
 export const validateSettings = (settings: Settings): boolean => {
+  const llmConfigured = settings.llm?.provider === 'openai-compatible'
+    ? !!(settings.llm.baseUrl && settings.llm.model)
+    : !!settings.apiKeys.anthropic;
+
+  // Dry runs never touch Supabase, GitHub or Vercel
+  if (settings.preferences?.dryRun) {
+    return llmConfigured;
+  }
+
   return !!(
-    settings.apiKeys.anthropic &&
+    llmConfigured &&
     settings.apiKeys.supabase.token &&
     settings.apiKeys.supabase.orgId &&
     settings.apiKeys.github.token &&
@@ -264,13 +264,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card } from '@/components/ui/card'
 import { Plus, Trash2, Check } from 'lucide-react'
+import type { Tables } from './types/database'
 
-interface Todo {
-  id: string
-  title: string
-  completed: boolean
-  created_at: string
-}
+type Todo = Tables<'todos'>
 
 function App() {
   const [todos, setTodos] = useState<Todo[]>([])
@@ -420,11 +416,58 @@ function App() {
 
 export default App`,
       'src/lib/supabase.ts': `import { createClient } from '@supabase/supabase-js'
+import type { Database } from '../types/database'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)`,
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey)`,
+      'src/types/database.ts': `// Starter types for the todos table. generate_database_types replaces this
+// file with the tables the app's Supabase project really has.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      todos: {
+        Row: {
+          id: string
+          title: string
+          completed: boolean
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          completed?: boolean
+          user_id?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          completed?: boolean
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: { [_ in never]: never }
+    Functions: { [_ in never]: never }
+    Enums: { [_ in never]: never }
+    CompositeTypes: { [_ in never]: never }
+  }
+}
+
+type PublicTables = Database['public']['Tables']
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row']
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert']
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update']
+`,
       'src/lib/utils.ts': `import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 
@@ -0,0 +1,187 @@
+/**
+ * Tool Registry
+ * Each agent tool declares its schema, handler, progress stage and side
+ * effects in one place. The agent loop only looks tools up here, so adding a
+ * tool never touches the loop itself.
+ */
+
+import { BuildStatus, ProjectContext } from '@/types';
+import { FileUpdateCallback, ProgressCallback } from './agent-types';
+import { JsonSchema, SchemaValidationError, validateJsonSchema } from './json-schema';
+import { LLMProvider, ProviderTool } from './providers';
+import { ToolBackend } from './tools/backend';
+
+/**
+ * Everything a tool handler may use while it runs
+ */
+export interface ToolContext {
+  backend: ToolBackend;
+  provider: LLMProvider;
+  model: string;
+  onProgress: ProgressCallback;
+  /** Send files to the preview (and checkpoint them in the run journal) */
+  reportFiles: FileUpdateCallback;
+  /** Resources created so far in this run (github, vercel, supabase) */
+  projectData: Record<string, any>;
+  /** Project being edited on a follow-up turn */
+  projectContext?: ProjectContext;
+  /** Existing Supabase project picked for this build (attach_supabase_project) */
+  supabaseProjectRef?: string;
+  /** Branch workflow: follow-up changes go to this branch (created on the first write) */
+  branch?: string;
+  /** How many times a failed Vercel build is healed and redeployed */
+  deployHealAttempts?: number;
+  /** Position of this call among the tool calls of the current turn */
+  callIndex: number;
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition<TInput = any> {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  /** Build stage reported when the tool starts */
+  stage: BuildStatus['stage'];
+  progress: number | ((ctx: ToolContext) => number);
+  progressMessage?: (input: TInput) => string;
+  /** Creates or changes something outside the app (repos, projects, deployments) */
+  sideEffects: boolean;
+  /** On resume, an identical successful call is replayed from the journal instead of run again */
+  replayOnResume?: boolean;
+  handler: (input: TInput, ctx: ToolContext) => Promise<any>;
+}
+
+export interface ToolExecution {
+  status: 'succeeded' | 'failed';
+  result: any;
+  isError?: boolean; // Tool threw or its input was invalid (vs. returned an error payload)
+}
+
+export interface ToolCallOutcome {
+  name: string;
+  status?: ToolExecution['status']; // Missing while the call has no result
+}
+
+/**
+ * Index of the first call that leaves work unfinished: one without a result,
+ * or a failed side-effecting call that no later call of the same tool
+ * succeeded. Failed reads (a guessed path, a bad search pattern) change
+ * nothing and never count. -1 when every call is resolved.
+ */
+export function firstUnresolvedCall(calls: ToolCallOutcome[], hasSideEffects: (name: string) => boolean): number {
+  const lastCallByTool = new Map<string, number>();
+  let first = -1;
+  const mark = (index: number) => {
+    if (first === -1 || index < first) first = index;
+  };
+
+  calls.forEach((call, index) => {
+    if (!call.status) mark(index);
+    else if (hasSideEffects(call.name)) lastCallByTool.set(call.name, index);
+  });
+  lastCallByTool.forEach(index => {
+    if (calls[index].status === 'failed') mark(index);
+  });
+
+  return first;
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  register<TInput>(tool: ToolDefinition<TInput>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool as ToolDefinition);
+    return this;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Unknown tools never ran, so they changed nothing
+   */
+  hasSideEffects(name: string): boolean {
+    return this.tools.get(name)?.sideEffects ?? false;
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Tool definitions in the shape the LLM providers expect
+   */
+  toProviderTools(): ProviderTool[] {
+    return this.list().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: { ...tool.inputSchema },
+    }));
+  }
+
+  /**
+   * New registry with only the tools that match (e.g. to hide tools a plan rules out)
+   */
+  filter(predicate: (tool: ToolDefinition) => boolean): ToolRegistry {
+    const filtered = new ToolRegistry();
+    this.list().filter(predicate).forEach(tool => filtered.register(tool));
+    return filtered;
+  }
+
+  /**
+   * Names of tools whose successful calls are replayed when a run is resumed
+   */
+  replayableTools(): string[] {
+    return this.list().filter(tool => tool.replayOnResume).map(tool => tool.name);
+  }
+
+  validate(name: string, input: unknown): SchemaValidationError[] {
+    const tool = this.tools.get(name);
+    if (!tool) return [{ path: 'tool', message: `Unknown tool: ${name}` }];
+    return validateJsonSchema(input, tool.inputSchema);
+  }
+
+  /**
+   * Validate the input, report progress and run the handler. Never throws:
+   * failures come back as an error result for the model.
+   */
+  async execute(name: string, input: unknown, ctx: ToolContext): Promise<ToolExecution> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { status: 'failed', isError: true, result: { error: `Unknown tool: ${name}` } };
+    }
+
+    const validationErrors = validateJsonSchema(input, tool.inputSchema);
+    if (validationErrors.length > 0) {
+      console.warn(`⚠️ Invalid input for ${name}:`, validationErrors);
+      return {
+        status: 'failed',
+        isError: true,
+        result: {
+          error: `Invalid input for ${name}. Fix the listed fields and call the tool again.`,
+          validation_errors: validationErrors,
+        },
+      };
+    }
+
+    const progress = typeof tool.progress === 'function' ? tool.progress(ctx) : tool.progress;
+    ctx.onProgress(tool.stage, tool.progressMessage ? tool.progressMessage(input) : `Running ${name}...`, progress);
+
+    try {
+      const result = await tool.handler(input, ctx);
+      const failed = result && typeof result === 'object' && result.error;
+      return { status: failed ? 'failed' : 'succeeded', result };
+    } catch (error: any) {
+      console.error(`Tool ${name} failed:`, error);
+      return {
+        status: 'failed',
+        isError: true,
+        result: { error: error.message || 'Tool execution failed' },
+      };
+    }
+  }
+}
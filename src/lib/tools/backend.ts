@@ -0,0 +1,153 @@
+import { ApiKeys } from '@/types';
+import {
+  createSupabaseProject,
+  attachSupabaseProject,
+  applySupabaseMigration,
+  getSupabaseSchema,
+  deleteSupabaseProject,
+  listSupabaseProjects,
+  SupabaseProject,
+  AttachedSupabaseProject,
+  SupabaseProjectSummary,
+} from './supabase-backend';
+import { deleteGithubRepo, githubRepoExists, listGithubRepos, GitHubRepo } from './github-manager';
+import {
+  createGithubRepo,
+  createGithubFile,
+  getGithubFile,
+  updateGithubFile,
+  createGithubCommit,
+  listGithubFiles,
+  getGithubRepoFiles,
+  createGithubBranch,
+  createGithubPullRequest,
+  mergeGithubPullRequest,
+  closeGithubPullRequest,
+  restoreGithubCommit,
+  GithubRepo,
+  GithubCommitResult,
+  GithubTreeEntry,
+  GithubRepoFiles,
+  GithubPullRequest,
+  GithubRestoreMode,
+} from './github';
+import {
+  createVercelProject,
+  addVercelEnvVar,
+  triggerVercelDeployment,
+  waitForVercelDeployment,
+  deleteVercelProject,
+  listVercelProjects,
+  VercelProject,
+  VercelProjectSummary,
+  VercelDeploymentStatus,
+} from './vercel';
+import { DatabaseTable } from '../database-types';
+
+/**
+ * Tool Backend
+ * Everything the agent's side-effecting tools call, behind one interface so a
+ * run can target the real APIs or an in-memory workspace (dry run).
+ */
+export interface ToolBackend {
+  readonly mode: 'live' | 'dry-run';
+
+  createGithubRepo(input: { name: string; description?: string; private?: boolean }): Promise<GithubRepo>;
+  // File reads and writes use the default branch unless a branch is given
+  getGithubFile(input: { repo: string; path: string; branch?: string }): Promise<any>;
+  createGithubFile(input: { repo: string; path: string; content: string; message: string; branch?: string }): Promise<{ success: boolean; commit_sha?: string }>;
+  updateGithubFile(input: { repo: string; path: string; content: string; message: string; sha: string; branch?: string }): Promise<{ success: boolean; commit_sha?: string }>;
+  /** Write many files as a single commit (all or nothing) */
+  createGithubCommit(input: { repo: string; message: string; files: Record<string, string>; branch?: string }): Promise<GithubCommitResult>;
+  listGithubFiles(input: { repo: string; branch?: string }): Promise<GithubTreeEntry[]>;
+  /** Contents of the repo's text files, up to a limit (branch may also be a commit SHA) */
+  getGithubRepoFiles(input: { repo: string; branch?: string }): Promise<GithubRepoFiles>;
+  /** Bring the branch back to an earlier commit (see restoreGithubCommit) */
+  restoreGithubCommit(input: { repo: string; sha: string; mode: GithubRestoreMode; branch?: string; message?: string }): Promise<{ sha: string }>;
+  /** Branch off the default branch (branch workflow) */
+  createGithubBranch(input: { repo: string; branch: string }): Promise<{ branch: string; sha: string }>;
+  createGithubPullRequest(input: { repo: string; head: string; title: string; body: string }): Promise<GithubPullRequest>;
+  /** Merge into the default branch and delete the PR's branch */
+  mergeGithubPullRequest(input: { repo: string; number: number }): Promise<{ merged: boolean; sha: string }>;
+  /** Close without merging and delete the PR's branch */
+  closeGithubPullRequest(input: { repo: string; number: number }): Promise<{ success: boolean }>;
+
+  createVercelProject(input: { name: string; github_repo: string }): Promise<VercelProject>;
+  addVercelEnvVar(input: { project_id: string; key: string; value: string }): Promise<{ success: boolean }>;
+  /** With a ref (branch), a preview deployment whose URL is returned */
+  triggerVercelDeployment(input: { project_id?: string; project_name?: string; ref?: string }): Promise<{ success: boolean; url: string; id: string }>;
+  /** Wait for a deployment to finish building; failed ones include the build log */
+  waitForVercelDeployment(input: { deployment_id: string }, signal?: AbortSignal): Promise<VercelDeploymentStatus>;
+
+  createSupabaseProject(
+    appName: string,
+    onProgress: (stage: string, message: string, progress: number) => void,
+    onCreated?: (projectRef: string) => void
+  ): Promise<SupabaseProject>;
+  /** Use an existing project: its keys and the tables it already has */
+  attachSupabaseProject(
+    input: { project_ref: string },
+    onProgress: (stage: string, message: string, progress: number) => void
+  ): Promise<AttachedSupabaseProject>;
+  /** Run a migration's SQL against the project's database */
+  applySupabaseMigration(input: { project_ref: string; sql: string }): Promise<{ success: boolean }>;
+  getSupabaseSchema(input: { project_ref: string }): Promise<DatabaseTable[]>;
+
+  // Compensating actions for rolling back a failed build
+  deleteGithubRepo(input: { repo: string }): Promise<{ success: boolean }>;
+  deleteVercelProject(input: { project_id: string }): Promise<{ success: boolean }>;
+  deleteSupabaseProject(input: { project_ref: string }): Promise<{ success: boolean }>;
+
+  // Everything the keys can see (resource inventory)
+  listGithubRepos(): Promise<GitHubRepo[]>;
+  listVercelProjects(): Promise<VercelProjectSummary[]>;
+  listSupabaseProjects(): Promise<SupabaseProjectSummary[]>;
+  githubRepoExists(input: { repo: string }): Promise<boolean>;
+}
+
+/**
+ * Backend that talks to GitHub, Vercel and Supabase with the user's keys
+ */
+export function createLiveBackend(apiKeys: ApiKeys): ToolBackend {
+  return {
+    mode: 'live',
+
+    createGithubRepo: (input) => createGithubRepo(input, apiKeys.github),
+    getGithubFile: (input) => getGithubFile(input, apiKeys.github),
+    createGithubFile: (input) => createGithubFile(input, apiKeys.github),
+    updateGithubFile: (input) => updateGithubFile(input, apiKeys.github),
+    createGithubCommit: (input) => createGithubCommit(input, apiKeys.github),
+    listGithubFiles: (input) => listGithubFiles(input, apiKeys.github),
+    getGithubRepoFiles: (input) => getGithubRepoFiles(input, apiKeys.github),
+    restoreGithubCommit: (input) => restoreGithubCommit(input, apiKeys.github),
+    createGithubBranch: (input) => createGithubBranch(input, apiKeys.github),
+    createGithubPullRequest: (input) => createGithubPullRequest(input, apiKeys.github),
+    mergeGithubPullRequest: (input) => mergeGithubPullRequest(input, apiKeys.github),
+    closeGithubPullRequest: (input) => closeGithubPullRequest(input, apiKeys.github),
+
+    createVercelProject: (input) => createVercelProject(input, apiKeys.vercel),
+    addVercelEnvVar: (input) => addVercelEnvVar(input, apiKeys.vercel),
+    triggerVercelDeployment: (input) => triggerVercelDeployment(input, apiKeys.vercel),
+    waitForVercelDeployment: (input, signal) => waitForVercelDeployment(input, apiKeys.vercel, signal),
+
+    createSupabaseProject: (appName, onProgress, onCreated) => createSupabaseProject(appName, apiKeys.supabase, onProgress, onCreated),
+    attachSupabaseProject: (input, onProgress) => attachSupabaseProject(input.project_ref, apiKeys.supabase, onProgress),
+    applySupabaseMigration: (input) => applySupabaseMigration(input.project_ref, input.sql, apiKeys.supabase),
+    getSupabaseSchema: (input) => getSupabaseSchema(input.project_ref, apiKeys.supabase),
+
+    deleteGithubRepo: (input) => deleteGithubRepo(
+      input.repo.includes('/') ? input.repo : `${apiKeys.github.owner}/${input.repo}`,
+      apiKeys.github.token
+    ),
+    deleteVercelProject: (input) => deleteVercelProject(input, apiKeys.vercel),
+    deleteSupabaseProject: (input) => deleteSupabaseProject(input.project_ref, apiKeys.supabase),
+
+    listGithubRepos: () => listGithubRepos(apiKeys.github.token),
+    listVercelProjects: () => listVercelProjects(apiKeys.vercel),
+    listSupabaseProjects: () => listSupabaseProjects(apiKeys.supabase),
+    githubRepoExists: (input) => githubRepoExists(
+      input.repo.includes('/') ? input.repo : `${apiKeys.github.owner}/${input.repo}`,
+      apiKeys.github.token
+    ),
+  };
+}
@@ -12,23 +12,50 @@ export interface GitHubRepo {
   default_branch: string;
 }
 
-// List all repositories for the authenticated user
+// List all repositories for the authenticated user (every page)
 export async function listGithubRepos(
   githubToken: string
 ): Promise<GitHubRepo[]> {
-  const response = await fetch('https://api.github.com/user/repos?per_page=100&sort=updated', {
+  const perPage = 100;
+  const repos: GitHubRepo[] = [];
+
+  for (let page = 1; ; page++) {
+    const response = await fetch(`https://api.github.com/user/repos?per_page=${perPage}&sort=updated&page=${page}`, {
+      headers: {
+        'Authorization': `token ${githubToken}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to list repositories: ${error}`);
+    }
+
+    const batch: GitHubRepo[] = await response.json();
+    repos.push(...batch);
+    if (batch.length < perPage) return repos;
+  }
+}
+
+// Whether a repository still exists; only a 404 means it is gone
+export async function githubRepoExists(
+  repoFullName: string,
+  githubToken: string
+): Promise<boolean> {
+  const response = await fetch(`https://api.github.com/repos/${repoFullName}`, {
     headers: {
       'Authorization': `token ${githubToken}`,
       'Accept': 'application/vnd.github.v3+json',
     },
   });
 
+  if (response.status === 404) return false;
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Failed to list repositories: ${error}`);
+    throw new Error(`Failed to check repository: ${error}`);
   }
-
-  return await response.json();
+  return true;
 }
 
 // Get detailed information about a specific repository
@@ -53,11 +53,11 @@ export async function createGithubRepo(
 }
 
 export async function getGithubFile(
-  input: { repo: string; path: string },
+  input: { repo: string; path: string; branch?: string },
   githubKeys: ApiKeys['github']
 ): Promise<any> {
   const response = await fetch(
-    `https://api.github.com/repos/${githubKeys.owner}/${input.repo}/contents/${input.path}`,
+    `https://api.github.com${repoApiPath(input.repo, githubKeys)}/contents/${input.path}${input.branch ? `?ref=${encodeURIComponent(input.branch)}` : ''}`,
     {
       headers: {
         'Authorization': `Bearer ${githubKeys.token}`,
@@ -75,14 +75,14 @@ export async function getGithubFile(
 }
 
 export async function createGithubFile(
-  input: { repo: string; path: string; content: string; message: string },
+  input: { repo: string; path: string; content: string; message: string; branch?: string },
   githubKeys: ApiKeys['github']
-): Promise<{ success: boolean }> {
+): Promise<{ success: boolean; commit_sha?: string }> {
   // Encode content to base64
   const encodedContent = btoa(unescape(encodeURIComponent(input.content)));
 
   const response = await fetch(
-    `https://api.github.com/repos/${githubKeys.owner}/${input.repo}/contents/${input.path}`,
+    `https://api.github.com${repoApiPath(input.repo, githubKeys)}/contents/${input.path}`,
     {
       method: 'PUT',
       headers: {
@@ -93,6 +93,7 @@ export async function createGithubFile(
       body: JSON.stringify({
         message: input.message,
         content: encodedContent,
+        branch: input.branch,
       }),
     }
   );
@@ -102,18 +103,19 @@ export async function createGithubFile(
     throw new Error(`Failed to create file ${input.path}: ${error}`);
   }
 
-  return { success: true };
+  const data = await response.json().catch(() => ({}));
+  return { success: true, commit_sha: data.commit?.sha };
 }
 
 export async function updateGithubFile(
-  input: { repo: string; path: string; content: string; message: string; sha: string },
+  input: { repo: string; path: string; content: string; message: string; sha: string; branch?: string },
   githubKeys: ApiKeys['github']
-): Promise<{ success: boolean }> {
+): Promise<{ success: boolean; commit_sha?: string }> {
   // Encode content to base64
   const encodedContent = btoa(unescape(encodeURIComponent(input.content)));
 
   const response = await fetch(
-    `https://api.github.com/repos/${githubKeys.owner}/${input.repo}/contents/${input.path}`,
+    `https://api.github.com${repoApiPath(input.repo, githubKeys)}/contents/${input.path}`,
     {
       method: 'PUT',
       headers: {
@@ -125,6 +127,7 @@ export async function updateGithubFile(
         message: input.message,
         content: encodedContent,
         sha: input.sha,
+        branch: input.branch,
       }),
     }
   );
@@ -134,5 +137,352 @@ export async function updateGithubFile(
     throw new Error(`Failed to update file ${input.path}: ${error}`);
   }
 
+  const data = await response.json().catch(() => ({}));
+  return { success: true, commit_sha: data.commit?.sha };
+}
+
+export interface GithubTreeEntry {
+  path: string;
+  sha: string;
+  size: number;
+}
+
+export interface GithubCommitResult {
+  success: boolean;
+  sha: string;
+  files_committed: number;
+}
+
+async function githubApi<T = any>(
+  path: string,
+  githubKeys: ApiKeys['github'],
+  init: { method?: string; body?: unknown } = {}
+): Promise<{ ok: boolean; status: number; data: T; errorText: string }> {
+  const response = await fetch(`https://api.github.com${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      'Authorization': `Bearer ${githubKeys.token}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/vnd.github+json',
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    return { ok: false, status: response.status, data: undefined as T, errorText: await response.text() };
+  }
+  // 204 (e.g. deleting a ref) has no body
+  const data = response.status === 204 ? undefined as T : await response.json();
+  return { ok: true, status: response.status, data, errorText: '' };
+}
+
+// Accept both "repo" and "owner/repo" (projectContext.githubRepo is the full name)
+function repoApiPath(repo: string, githubKeys: ApiKeys['github']): string {
+  return repo.includes('/') ? `/repos/${repo}` : `/repos/${githubKeys.owner}/${repo}`;
+}
+
+async function getDefaultBranch(repoPath: string, githubKeys: ApiKeys['github']): Promise<string> {
+  const repo = await githubApi<{ default_branch: string }>(repoPath, githubKeys);
+  if (!repo.ok) throw new Error(`Failed to read repository: ${repo.errorText}`);
+  return repo.data.default_branch || 'main';
+}
+
+/**
+ * Commit many files at once through the Git Data API (blobs → tree → commit → ref).
+ * The branch only moves at the very end, so a failure midway leaves the repo untouched.
+ * Empty repos have no ref to build on yet, so the first file is written with the
+ * contents API and the rest are committed on top of it.
+ */
+export async function createGithubCommit(
+  input: { repo: string; message: string; files: Record<string, string>; branch?: string },
+  githubKeys: ApiKeys['github']
+): Promise<GithubCommitResult> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const entries = Object.entries(input.files);
+  if (entries.length === 0) {
+    throw new Error('Failed to create commit: no files to commit');
+  }
+
+  const branch = input.branch || await getDefaultBranch(repoPath, githubKeys);
+
+  let ref = await githubApi<{ object: { sha: string } }>(`${repoPath}/git/ref/heads/${branch}`, githubKeys);
+
+  // 409 = "Git Repository is empty", 404 = branch does not exist yet
+  if (!ref.ok && (ref.status === 409 || ref.status === 404)) {
+    const bootstrapIndex = Math.max(0, entries.findIndex(([path]) => path === 'README.md'));
+    const [[bootstrapPath, bootstrapContent]] = entries.splice(bootstrapIndex, 1);
+    console.log(`🌱 Empty repository, bootstrapping with ${bootstrapPath}`);
+
+    await createGithubFile(
+      { repo: input.repo, path: bootstrapPath, content: bootstrapContent, message: input.message, branch: input.branch },
+      githubKeys
+    );
+
+    ref = await githubApi<{ object: { sha: string } }>(`${repoPath}/git/ref/heads/${branch}`, githubKeys);
+    if (ref.ok && entries.length === 0) {
+      return { success: true, sha: ref.data.object.sha, files_committed: 1 };
+    }
+  }
+
+  if (!ref.ok) {
+    throw new Error(`Failed to read branch ${branch}: ${ref.errorText}`);
+  }
+
+  const parentSha = ref.data.object.sha;
+  const parent = await githubApi<{ tree: { sha: string } }>(`${repoPath}/git/commits/${parentSha}`, githubKeys);
+  if (!parent.ok) throw new Error(`Failed to read commit ${parentSha}: ${parent.errorText}`);
+
+  // Blobs in small batches to stay clear of secondary rate limits
+  const tree: { path: string; mode: '100644'; type: 'blob'; sha: string }[] = [];
+  const batchSize = 5;
+  for (let i = 0; i < entries.length; i += batchSize) {
+    const batch = await Promise.all(
+      entries.slice(i, i + batchSize).map(async ([path, content]) => {
+        const blob = await githubApi<{ sha: string }>(`${repoPath}/git/blobs`, githubKeys, {
+          method: 'POST',
+          body: { content, encoding: 'utf-8' },
+        });
+        if (!blob.ok) throw new Error(`Failed to upload ${path}: ${blob.errorText}`);
+        return { path, mode: '100644' as const, type: 'blob' as const, sha: blob.data.sha };
+      })
+    );
+    tree.push(...batch);
+  }
+
+  const newTree = await githubApi<{ sha: string }>(`${repoPath}/git/trees`, githubKeys, {
+    method: 'POST',
+    body: { base_tree: parent.data.tree.sha, tree },
+  });
+  if (!newTree.ok) throw new Error(`Failed to create tree: ${newTree.errorText}`);
+
+  const commit = await githubApi<{ sha: string }>(`${repoPath}/git/commits`, githubKeys, {
+    method: 'POST',
+    body: { message: input.message, tree: newTree.data.sha, parents: [parentSha] },
+  });
+  if (!commit.ok) throw new Error(`Failed to create commit: ${commit.errorText}`);
+
+  const updated = await githubApi(`${repoPath}/git/refs/heads/${branch}`, githubKeys, {
+    method: 'PATCH',
+    body: { sha: commit.data.sha },
+  });
+  if (!updated.ok) throw new Error(`Failed to update branch ${branch}: ${updated.errorText}`);
+
+  return {
+    success: true,
+    sha: commit.data.sha,
+    files_committed: Object.keys(input.files).length,
+  };
+}
+
+const BINARY_EXTENSIONS = /\.(png|jpe?g|gif|webp|ico|svg|woff2?|ttf|eot|otf|mp4|mp3|zip|pdf|lock)$/i;
+const MAX_FILE_BYTES = 200_000;
+export const MAX_REPO_FILES = 150;
+
+export interface GithubRepoFiles {
+  files: Record<string, string>;
+  truncated: boolean; // More text files than MAX_REPO_FILES; only the first ones were read
+  total_files: number; // Text files in the repo, read or not
+}
+
+/**
+ * Every file (blob) in a branch or commit (default branch unless given), from one recursive tree request
+ */
+export async function listGithubFiles(
+  input: { repo: string; branch?: string },
+  githubKeys: ApiKeys['github']
+): Promise<GithubTreeEntry[]> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const branch = input.branch || await getDefaultBranch(repoPath, githubKeys);
+
+  const tree = await githubApi<{ tree: Array<GithubTreeEntry & { type: string }>; truncated: boolean }>(
+    `${repoPath}/git/trees/${branch}?recursive=1`,
+    githubKeys
+  );
+  if (!tree.ok) throw new Error(`Failed to list files: ${tree.errorText}`);
+  if (tree.data.truncated) {
+    console.warn(`⚠️ File tree of ${input.repo} is truncated by GitHub`);
+  }
+
+  return tree.data.tree
+    .filter(entry => entry.type === 'blob')
+    .map(({ path, sha, size }) => ({ path, sha, size }));
+}
+
+/**
+ * Contents of the repo's text files (binary, huge and lock files are skipped).
+ * At most MAX_REPO_FILES are read; `truncated` says when there were more.
+ */
+export async function getGithubRepoFiles(
+  input: { repo: string; branch?: string },
+  githubKeys: ApiKeys['github']
+): Promise<GithubRepoFiles> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const textEntries = (await listGithubFiles(input, githubKeys))
+    .filter(entry => !BINARY_EXTENSIONS.test(entry.path) && entry.size <= MAX_FILE_BYTES);
+  const entries = textEntries.slice(0, MAX_REPO_FILES);
+  if (textEntries.length > entries.length) {
+    console.warn(`⚠️ Reading only ${entries.length} of ${textEntries.length} files from ${input.repo}`);
+  }
+
+  const files: Record<string, string> = {};
+  const batchSize = 5;
+  for (let i = 0; i < entries.length; i += batchSize) {
+    await Promise.all(
+      entries.slice(i, i + batchSize).map(async entry => {
+        const blob = await githubApi<{ content: string }>(`${repoPath}/git/blobs/${entry.sha}`, githubKeys);
+        if (!blob.ok) throw new Error(`Failed to read ${entry.path}: ${blob.errorText}`);
+        files[entry.path] = decodeURIComponent(escape(atob(blob.data.content.replace(/\n/g, ''))));
+      })
+    );
+  }
+
+  return { files, truncated: textEntries.length > entries.length, total_files: textEntries.length };
+}
+
+export interface GithubPullRequest {
+  number: number;
+  html_url: string;
+  head: string; // Branch with the changes
+  base: string; // Branch it merges into
+  state: 'open' | 'closed' | 'merged';
+}
+
+/**
+ * New branch pointing at the head of another one (the default branch unless given)
+ */
+export async function createGithubBranch(
+  input: { repo: string; branch: string; from?: string },
+  githubKeys: ApiKeys['github']
+): Promise<{ branch: string; sha: string }> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const from = input.from || await getDefaultBranch(repoPath, githubKeys);
+
+  const base = await githubApi<{ object: { sha: string } }>(`${repoPath}/git/ref/heads/${from}`, githubKeys);
+  if (!base.ok) throw new Error(`Failed to read branch ${from}: ${base.errorText}`);
+
+  const created = await githubApi(`${repoPath}/git/refs`, githubKeys, {
+    method: 'POST',
+    body: { ref: `refs/heads/${input.branch}`, sha: base.data.object.sha },
+  });
+  if (!created.ok) throw new Error(`Failed to create branch ${input.branch}: ${created.errorText}`);
+
+  return { branch: input.branch, sha: base.data.object.sha };
+}
+
+export async function createGithubPullRequest(
+  input: { repo: string; head: string; base?: string; title: string; body: string },
+  githubKeys: ApiKeys['github']
+): Promise<GithubPullRequest> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const base = input.base || await getDefaultBranch(repoPath, githubKeys);
+
+  const pr = await githubApi<{ number: number; html_url: string }>(`${repoPath}/pulls`, githubKeys, {
+    method: 'POST',
+    body: { title: input.title, body: input.body, head: input.head, base },
+  });
+  if (!pr.ok) throw new Error(`Failed to open pull request: ${pr.errorText}`);
+
+  return { number: pr.data.number, html_url: pr.data.html_url, head: input.head, base, state: 'open' };
+}
+
+async function getPullRequestHead(repoPath: string, number: number, githubKeys: ApiKeys['github']): Promise<string> {
+  const pr = await githubApi<{ head: { ref: string } }>(`${repoPath}/pulls/${number}`, githubKeys);
+  if (!pr.ok) throw new Error(`Failed to read pull request #${number}: ${pr.errorText}`);
+  return pr.data.head.ref;
+}
+
+async function deleteBranch(repoPath: string, branch: string, githubKeys: ApiKeys['github']): Promise<void> {
+  const deleted = await githubApi(`${repoPath}/git/refs/heads/${branch}`, githubKeys, { method: 'DELETE' });
+  // 422 = already gone (e.g. GitHub's "delete branch on merge"); anything else only leaves a stale branch
+  if (!deleted.ok && deleted.status !== 422) {
+    console.warn(`⚠️ Could not delete branch ${branch}: ${deleted.errorText}`);
+  }
+}
+
+/**
+ * Squash-merge a pull request and delete its branch
+ */
+export async function mergeGithubPullRequest(
+  input: { repo: string; number: number },
+  githubKeys: ApiKeys['github']
+): Promise<{ merged: boolean; sha: string }> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const head = await getPullRequestHead(repoPath, input.number, githubKeys);
+
+  const merge = await githubApi<{ merged: boolean; sha: string }>(`${repoPath}/pulls/${input.number}/merge`, githubKeys, {
+    method: 'PUT',
+    body: { merge_method: 'squash' },
+  });
+  if (!merge.ok) throw new Error(`Failed to merge pull request #${input.number}: ${merge.errorText}`);
+
+  await deleteBranch(repoPath, head, githubKeys);
+  return { merged: merge.data.merged, sha: merge.data.sha };
+}
+
+/**
+ * Close a pull request without merging and delete its branch
+ */
+export async function closeGithubPullRequest(
+  input: { repo: string; number: number },
+  githubKeys: ApiKeys['github']
+): Promise<{ success: boolean }> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const head = await getPullRequestHead(repoPath, input.number, githubKeys);
+
+  const closed = await githubApi(`${repoPath}/pulls/${input.number}`, githubKeys, {
+    method: 'PATCH',
+    body: { state: 'closed' },
+  });
+  if (!closed.ok) throw new Error(`Failed to close pull request #${input.number}: ${closed.errorText}`);
+
+  await deleteBranch(repoPath, head, githubKeys);
   return { success: true };
 }
+
+/** How a previous commit is brought back: a new commit with its files, or moving the branch to it */
+export type GithubRestoreMode = 'revert' | 'reset';
+
+async function getHeadSha(repoPath: string, branch: string, githubKeys: ApiKeys['github']): Promise<string> {
+  const ref = await githubApi<{ object: { sha: string } }>(`${repoPath}/git/ref/heads/${branch}`, githubKeys);
+  if (!ref.ok) throw new Error(`Failed to read branch ${branch}: ${ref.errorText}`);
+  return ref.data.object.sha;
+}
+
+/**
+ * Bring a branch back to the files of an earlier commit. "revert" keeps history
+ * and adds a commit with that commit's tree on top; "reset" force-moves the
+ * branch to it, dropping every later commit.
+ */
+export async function restoreGithubCommit(
+  input: { repo: string; sha: string; mode: GithubRestoreMode; branch?: string; message?: string },
+  githubKeys: ApiKeys['github']
+): Promise<{ sha: string }> {
+  const repoPath = repoApiPath(input.repo, githubKeys);
+  const branch = input.branch || await getDefaultBranch(repoPath, githubKeys);
+
+  let sha = input.sha;
+  if (input.mode === 'revert') {
+    const target = await githubApi<{ tree: { sha: string } }>(`${repoPath}/git/commits/${input.sha}`, githubKeys);
+    if (!target.ok) throw new Error(`Failed to read commit ${input.sha}: ${target.errorText}`);
+    const head = await getHeadSha(repoPath, branch, githubKeys);
+
+    const commit = await githubApi<{ sha: string }>(`${repoPath}/git/commits`, githubKeys, {
+      method: 'POST',
+      body: {
+        message: input.message || `Restore ${input.sha.slice(0, 7)}`,
+        tree: target.data.tree.sha,
+        parents: [head],
+      },
+    });
+    if (!commit.ok) throw new Error(`Failed to create commit: ${commit.errorText}`);
+    sha = commit.data.sha;
+  }
+
+  const updated = await githubApi(`${repoPath}/git/refs/heads/${branch}`, githubKeys, {
+    method: 'PATCH',
+    body: { sha, force: input.mode === 'reset' },
+  });
+  if (!updated.ok) throw new Error(`Failed to update branch ${branch}: ${updated.errorText}`);
+
+  return { sha };
+}
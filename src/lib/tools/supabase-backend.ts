@@ -1,5 +1,6 @@
 import { ApiKeys } from '@/types';
 import { sleep } from '@/lib/utils';
+import { DatabaseTable } from '@/lib/database-types';
 
 export interface SupabaseProject {
   success: boolean;
@@ -9,7 +10,18 @@ export interface SupabaseProject {
   service_key: string;
   db_password: string;
   dashboard_url: string;
-  table_created: boolean;
+}
+
+export interface SupabaseProjectSummary {
+  ref: string;
+  name: string;
+  region: string;
+  status: string; // ACTIVE_HEALTHY, COMING_UP, INACTIVE, ...
+  created_at: string;
+}
+
+export interface AttachedSupabaseProject extends Omit<SupabaseProject, 'db_password'> {
+  existing_tables: string[];
 }
 
 // Backend API URL - relative path when deployed together!
@@ -24,10 +36,61 @@ function generatePassword(length: number = 32): string {
   return password;
 }
 
+async function getSupabaseApiKeys(
+  projectRef: string,
+  supabaseKeys: ApiKeys['supabase']
+): Promise<{ anon_key: string; service_key: string }> {
+  const keysResponse = await fetch(
+    `${BACKEND_URL}/api/supabase/project/${projectRef}/api-keys?token=${supabaseKeys.token}`
+  );
+
+  if (!keysResponse.ok) {
+    throw new Error('Failed to retrieve API keys');
+  }
+
+  const keys = await keysResponse.json();
+  const anonKeyObj = keys.find((k: any) => k.type === 'publishable');
+  const serviceKeyObj = keys.find((k: any) => k.type === 'secret');
+
+  if (!anonKeyObj || !serviceKeyObj) {
+    throw new Error('Failed to find required API keys');
+  }
+
+  return { anon_key: anonKeyObj.api_key, service_key: serviceKeyObj.api_key };
+}
+
+async function runSupabaseQuery(
+  projectRef: string,
+  supabaseKeys: ApiKeys['supabase'],
+  query: string
+): Promise<any> {
+  const response = await fetch(
+    `${BACKEND_URL}/api/supabase/project/${projectRef}/database/query`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        token: supabaseKeys.token,
+        query,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Database query failed: ${error}`);
+  }
+
+  return response.json();
+}
+
 export async function createSupabaseProject(
   appName: string,
   supabaseKeys: ApiKeys['supabase'],
-  onProgress: (stage: string, message: string, progress: number) => void
+  onProgress: (stage: string, message: string, progress: number) => void,
+  onCreated?: (projectRef: string) => void // ← Project exists from here on, even if provisioning fails
 ): Promise<SupabaseProject> {
   const timestamp = Date.now();
   const projectName = `brainiac-${appName}-${timestamp}`;
@@ -58,6 +121,7 @@ export async function createSupabaseProject(
 
   const project = await createResponse.json();
   const projectRef = project.id || project.ref;
+  onCreated?.(projectRef);
 
   onProgress('waiting_provisioning', 'Waiting for project to provision...', 20);
 
@@ -94,85 +158,162 @@ export async function createSupabaseProject(
   onProgress('getting_keys', 'Retrieving API keys...', 52);
 
   // Step 3: Get API keys via backend
-  const keysResponse = await fetch(
-    `${BACKEND_URL}/api/supabase/project/${projectRef}/api-keys?token=${supabaseKeys.token}`
+  const keys = await getSupabaseApiKeys(projectRef, supabaseKeys);
+
+  // Tables come from the app's migrations (design_database_schema), which need the database up
+  onProgress('getting_keys', 'API keys retrieved! Waiting 60 seconds for database...', 54);
+  await sleep(60000); // Wait for database to be fully ready
+  onProgress('getting_keys', 'Database ready', 58);
+
+  return {
+    success: true,
+    project_ref: projectRef,
+    project_url: `https://${projectRef}.supabase.co`,
+    ...keys,
+    db_password: dbPassword,
+    dashboard_url: `https://supabase.com/dashboard/project/${projectRef}`,
+  };
+}
+
+/**
+ * Delete a project and its database (404 counts as already deleted)
+ */
+export async function deleteSupabaseProject(
+  projectRef: string,
+  supabaseKeys: ApiKeys['supabase']
+): Promise<{ success: boolean }> {
+  const response = await fetch(
+    `${BACKEND_URL}/api/supabase/project/${projectRef}?token=${supabaseKeys.token}`,
+    { method: 'DELETE' }
   );
 
-  if (!keysResponse.ok) {
-    throw new Error('Failed to retrieve API keys');
+  if (!response.ok && response.status !== 404) {
+    const error = await response.text();
+    throw new Error(`Failed to delete Supabase project: ${error}`);
   }
 
-  const keys = await keysResponse.json();
-  const anonKeyObj = keys.find((k: any) => k.type === 'publishable');
-  const serviceKeyObj = keys.find((k: any) => k.type === 'secret');
+  return { success: true };
+}
 
-  if (!anonKeyObj || !serviceKeyObj) {
-    throw new Error('Failed to find required API keys');
+/**
+ * Every project the token can see, across its organizations
+ */
+export async function listSupabaseProjects(
+  supabaseKeys: ApiKeys['supabase']
+): Promise<SupabaseProjectSummary[]> {
+  const response = await fetch(`${BACKEND_URL}/api/supabase/projects?token=${supabaseKeys.token}`);
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to list Supabase projects: ${error}`);
   }
 
-  onProgress('getting_keys', 'API keys retrieved! Waiting 60 seconds for database...', 54);
-  await sleep(60000); // Wait for database to be fully ready
+  const projects = await response.json();
+  return projects.map((project: any) => ({
+    ref: project.id,
+    name: project.name,
+    region: project.region,
+    status: project.status,
+    created_at: project.created_at,
+  }));
+}
+
+/**
+ * Tables in the project's public schema
+ */
+export async function listSupabaseTables(
+  projectRef: string,
+  supabaseKeys: ApiKeys['supabase']
+): Promise<string[]> {
+  const rows = await runSupabaseQuery(
+    projectRef,
+    supabaseKeys,
+    "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' ORDER BY table_name;"
+  );
+  return rows.map((row: any) => row.table_name);
+}
 
-  onProgress('getting_keys', 'Creating database table...', 56);
+/**
+ * Use an existing project instead of creating one: check it is running and
+ * fetch its keys and tables. Takes seconds, not minutes.
+ */
+export async function attachSupabaseProject(
+  projectRef: string,
+  supabaseKeys: ApiKeys['supabase'],
+  onProgress: (stage: string, message: string, progress: number) => void
+): Promise<AttachedSupabaseProject> {
+  onProgress('creating_supabase', `Attaching Supabase project ${projectRef}...`, 15);
 
-  // Step 4: Create database table via backend
-  const createTableSQL = `
-    CREATE TABLE IF NOT EXISTS todos (
-      id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-      title TEXT NOT NULL,
-      completed BOOLEAN DEFAULT false,
-      user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
-      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-    );
+  const statusResponse = await fetch(
+    `${BACKEND_URL}/api/supabase/project/${projectRef}?token=${supabaseKeys.token}`
+  );
 
-    ALTER TABLE todos ENABLE ROW LEVEL SECURITY;
-
-    DROP POLICY IF EXISTS "view_own_todos" ON todos;
-    CREATE POLICY "view_own_todos" ON todos FOR SELECT USING (auth.uid() = user_id);
-
-    DROP POLICY IF EXISTS "insert_own_todos" ON todos;
-    CREATE POLICY "insert_own_todos" ON todos FOR INSERT WITH CHECK (auth.uid() = user_id);
-
-    DROP POLICY IF EXISTS "update_own_todos" ON todos;
-    CREATE POLICY "update_own_todos" ON todos FOR UPDATE USING (auth.uid() = user_id);
-
-    DROP POLICY IF EXISTS "delete_own_todos" ON todos;
-    CREATE POLICY "delete_own_todos" ON todos FOR DELETE USING (auth.uid() = user_id);
-  `;
-
-  try {
-    const tableResponse = await fetch(
-      `${BACKEND_URL}/api/supabase/project/${projectRef}/database/query`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          token: supabaseKeys.token,
-          query: createTableSQL,
-        }),
-      }
-    );
+  if (!statusResponse.ok) {
+    const error = await statusResponse.text();
+    throw new Error(`Failed to find Supabase project ${projectRef}: ${error}`);
+  }
 
-    if (tableResponse.ok) {
-      onProgress('getting_keys', 'Database table created!', 58);
-    } else {
-      onProgress('getting_keys', 'Database ready (table creation skipped)', 58);
-    }
-  } catch (error) {
-    console.warn('Table creation warning:', error);
-    // Continue anyway
+  const { status } = await statusResponse.json();
+  if (status !== 'ACTIVE_HEALTHY') {
+    // Paused free-tier projects have to be restored from the dashboard first
+    throw new Error(`Supabase project ${projectRef} is not available (status: ${status})`);
   }
 
+  onProgress('getting_keys', 'Retrieving API keys...', 52);
+  const keys = await getSupabaseApiKeys(projectRef, supabaseKeys);
+
+  const existingTables = await listSupabaseTables(projectRef, supabaseKeys);
+  onProgress('getting_keys', 'Database ready', 58);
+
   return {
     success: true,
     project_ref: projectRef,
     project_url: `https://${projectRef}.supabase.co`,
-    anon_key: anonKeyObj.api_key,
-    service_key: serviceKeyObj.api_key,
-    db_password: dbPassword,
+    ...keys,
     dashboard_url: `https://supabase.com/dashboard/project/${projectRef}`,
-    table_created: true,
+    existing_tables: existingTables,
   };
 }
+
+/**
+ * Run a migration's SQL against the project's database
+ */
+export async function applySupabaseMigration(
+  projectRef: string,
+  sql: string,
+  supabaseKeys: ApiKeys['supabase']
+): Promise<{ success: boolean }> {
+  await runSupabaseQuery(projectRef, supabaseKeys, sql);
+  return { success: true };
+}
+
+/**
+ * Columns of every public table, read from information_schema
+ */
+export async function getSupabaseSchema(
+  projectRef: string,
+  supabaseKeys: ApiKeys['supabase']
+): Promise<DatabaseTable[]> {
+  const rows = await runSupabaseQuery(
+    projectRef,
+    supabaseKeys,
+    `SELECT c.table_name, c.column_name, c.udt_name, c.is_nullable, c.column_default, c.is_identity
+FROM information_schema.columns c
+JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+WHERE c.table_schema = 'public' AND t.table_type = 'BASE TABLE'
+ORDER BY c.table_name, c.ordinal_position;`
+  );
+
+  const tables = new Map<string, DatabaseTable>();
+  for (const row of rows) {
+    const table: DatabaseTable = tables.get(row.table_name) ?? { name: row.table_name, columns: [] };
+    table.columns.push({
+      name: row.column_name,
+      type: row.udt_name,
+      nullable: row.is_nullable === 'YES',
+      has_default: row.column_default !== null || row.is_identity === 'YES',
+    });
+    tables.set(row.table_name, table);
+  }
+  return [...tables.values()];
+}
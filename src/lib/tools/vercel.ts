@@ -5,8 +5,29 @@ export interface VercelProject {
   id: string;
   name: string;
   url: string;
+  deployment_id?: string; // First deployment, when one was started
 }
 
+export type VercelDeploymentState = 'QUEUED' | 'INITIALIZING' | 'BUILDING' | 'READY' | 'ERROR' | 'CANCELED';
+
+export interface VercelDeploymentStatus {
+  id: string;
+  state: VercelDeploymentState;
+  url?: string;
+  error_message?: string;
+  build_log?: string; // Only fetched for failed deployments
+  timed_out?: boolean; // Still building when we stopped waiting
+}
+
+export interface VercelProjectSummary {
+  id: string;
+  name: string;
+  github_repo?: string; // owner/repo the project deploys from, if linked to GitHub
+  created_at: string;
+}
+
+const TERMINAL_STATES: VercelDeploymentState[] = ['READY', 'ERROR', 'CANCELED'];
+
 export async function createVercelProject(
   input: { name: string; github_repo: string },
   vercelKeys: ApiKeys['vercel']
@@ -145,36 +166,13 @@ export async function createVercelProject(
       console.log(`⚠️ Could not verify project name, using: ${actualProjectName}`);
     }
 
-    // Poll deployment status (but don't wait too long)
-    let attempts = 0;
-    const maxAttempts = 24; // 2 minutes max (5 seconds * 24)
-    let deploymentStatus = 'BUILDING';
-
-    while (!['READY', 'ERROR', 'CANCELED'].includes(deploymentStatus) && attempts < maxAttempts) {
-      await sleep(5000);
-
-      const statusResponse = await fetch(
-        `https://api.vercel.com/v13/deployments/${deploymentId || projectId}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${vercelKeys.token}`,
-          },
-        }
-      );
-
-      if (statusResponse.ok) {
-        const statusData = await statusResponse.json();
-        deploymentStatus = statusData.readyState;
-      }
-
-      attempts++;
-    }
-
-    // Return the ACTUAL project URL (may include Vercel suffix like -green)
+    // Return the ACTUAL project URL (may include Vercel suffix like -green).
+    // The deployment is still building; waitForVercelDeployment follows it.
     return {
       id: projectId,
       name: actualProjectName,
       url: `${actualProjectName}.vercel.app`,
+      deployment_id: deploymentId,
     };
   } catch (error: any) {
     console.error('Vercel deployment error:', error);
@@ -300,6 +298,7 @@ async function createVercelProjectAlternative(
             id: projectId,
             name: actualProjectName,
             url: deploymentResult.url, // This will be the actual URL from triggerVercelDeployment
+            deployment_id: deploymentResult.id,
           };
         }
       } catch (deployError) {
@@ -387,6 +386,68 @@ export async function addVercelEnvVar(
   return { success: true };
 }
 
+/**
+ * Delete a project with all its deployments (404 counts as already deleted)
+ */
+export async function deleteVercelProject(
+  input: { project_id: string },
+  vercelKeys: ApiKeys['vercel']
+): Promise<{ success: boolean }> {
+  const response = await fetch(
+    `https://api.vercel.com/v9/projects/${input.project_id}${vercelKeys.teamId ? `?teamId=${vercelKeys.teamId}` : ''}`,
+    {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${vercelKeys.token}`,
+      },
+    }
+  );
+
+  if (!response.ok && response.status !== 404) {
+    const error = await response.text();
+    throw new Error(`Failed to delete Vercel project: ${error}`);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Projects the token can see (every page), with the GitHub repo each one is linked to
+ */
+export async function listVercelProjects(
+  vercelKeys: ApiKeys['vercel']
+): Promise<VercelProjectSummary[]> {
+  const projects: any[] = [];
+  let until: number | undefined;
+
+  do {
+    const params = new URLSearchParams({ limit: '100' });
+    if (vercelKeys.teamId) params.set('teamId', vercelKeys.teamId);
+    if (until) params.set('until', String(until));
+
+    const response = await fetch(`https://api.vercel.com/v9/projects?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${vercelKeys.token}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list Vercel projects: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    projects.push(...(data.projects || []));
+    until = data.pagination?.next ?? undefined;
+  } while (until);
+
+  return projects.map((project: any) => ({
+    id: project.id,
+    name: project.name,
+    github_repo: project.link?.type === 'github' ? `${project.link.org}/${project.link.repo}` : undefined,
+    created_at: new Date(project.createdAt).toISOString(),
+  }));
+}
+
 // Helper function to find project by name
 async function findProjectByName(
   projectName: string,
@@ -421,8 +482,12 @@ async function findProjectByName(
   return project;
 }
 
+/**
+ * Deploy a project from Git. Without a ref, main goes to production; with a
+ * ref (a branch), the result is a preview deployment with its own URL.
+ */
 export async function triggerVercelDeployment(
-  input: { project_id?: string; project_name?: string },
+  input: { project_id?: string; project_name?: string; ref?: string },
   vercelKeys: ApiKeys['vercel']
 ): Promise<{ success: boolean; url: string; id: string }> {
   let project: any;
@@ -476,7 +541,7 @@ export async function triggerVercelDeployment(
 
   const gitSource: any = {
     type: project.link.type, // 'github'
-    ref: 'main', // Default to main branch
+    ref: input.ref || 'main', // Default to main branch
   };
 
   // Add repoId if available (required for v13 API)
@@ -501,7 +566,7 @@ export async function triggerVercelDeployment(
       body: JSON.stringify({
         name: project.name,
         project: project.id,
-        target: 'production',
+        target: input.ref ? undefined : 'production', // Branches get preview deployments
         gitSource: gitSource,
       }),
     }
@@ -515,6 +580,11 @@ export async function triggerVercelDeployment(
 
   const deployment = await response.json();
 
+  if (input.ref) {
+    console.log(`✅ Preview deployment triggered for ${input.ref}: https://${deployment.url}`);
+    return { success: true, url: deployment.url, id: deployment.id };
+  }
+
   // Return the production URL (project.name.vercel.app), not the deployment URL
   const productionUrl = `${project.name}.vercel.app`;
 
@@ -526,3 +596,110 @@ export async function triggerVercelDeployment(
     id: deployment.id,
   };
 }
+
+/**
+ * Current state of a deployment (deployment_id may also be its hostname)
+ */
+export async function getVercelDeploymentStatus(
+  input: { deployment_id: string },
+  vercelKeys: ApiKeys['vercel'],
+  signal?: AbortSignal
+): Promise<VercelDeploymentStatus> {
+  const response = await fetch(
+    `https://api.vercel.com/v13/deployments/${input.deployment_id}${vercelKeys.teamId ? `?teamId=${vercelKeys.teamId}` : ''}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${vercelKeys.token}`,
+      },
+      signal,
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to get deployment status: ${await response.text()}`);
+  }
+
+  const deployment = await response.json();
+  return {
+    id: deployment.id,
+    state: deployment.readyState,
+    url: deployment.url,
+    error_message: deployment.errorMessage,
+  };
+}
+
+/**
+ * Build output of a deployment as plain text (one line per log event)
+ */
+export async function getVercelDeploymentLog(
+  input: { deployment_id: string },
+  vercelKeys: ApiKeys['vercel'],
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await fetch(
+    `https://api.vercel.com/v3/deployments/${input.deployment_id}/events?builds=1&limit=-1${vercelKeys.teamId ? `&teamId=${vercelKeys.teamId}` : ''}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${vercelKeys.token}`,
+      },
+      signal,
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to get deployment logs: ${await response.text()}`);
+  }
+
+  const events = await response.json();
+  return (Array.isArray(events) ? events : [])
+    .map((event: any) => event.payload?.text ?? event.text ?? '')
+    .filter((text: string) => text.length > 0)
+    .join('\n');
+}
+
+export function isTerminalDeploymentState(state: VercelDeploymentState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+/**
+ * Poll a deployment until it is READY, ERROR or CANCELED (or we give up).
+ * Failed deployments come back with their build log. Aborting the signal
+ * stops polling at once (the promise rejects with an AbortError).
+ */
+export async function waitForVercelDeployment(
+  input: { deployment_id: string; timeout_ms?: number },
+  vercelKeys: ApiKeys['vercel'],
+  signal?: AbortSignal
+): Promise<VercelDeploymentStatus> {
+  const timeoutMs = input.timeout_ms ?? 5 * 60 * 1000;
+  const startedAt = Date.now();
+  let status: VercelDeploymentStatus = { id: input.deployment_id, state: 'QUEUED' };
+
+  while (Date.now() - startedAt < timeoutMs) {
+    try {
+      status = await getVercelDeploymentStatus(input, vercelKeys, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // A newly created deployment can 404 for a moment; keep polling
+      console.warn('⚠️ Could not get deployment status:', error);
+    }
+    if (TERMINAL_STATES.includes(status.state)) break;
+    await sleep(5000, signal);
+  }
+
+  if (!TERMINAL_STATES.includes(status.state)) {
+    console.warn(`⚠️ Deployment ${input.deployment_id} still ${status.state} after ${Math.round(timeoutMs / 1000)}s`);
+    return { ...status, timed_out: true };
+  }
+
+  if (status.state === 'ERROR') {
+    try {
+      status.build_log = await getVercelDeploymentLog(input, vercelKeys, signal);
+    } catch (error) {
+      console.warn('⚠️ Could not fetch build log:', error);
+    }
+  }
+
+  console.log(`${status.state === 'READY' ? '✅' : '❌'} Deployment ${input.deployment_id}: ${status.state}`);
+  return status;
+}
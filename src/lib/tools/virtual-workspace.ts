@@ -0,0 +1,549 @@
+/**
+ * Virtual Workspace
+ * In-memory stand-in for GitHub, Vercel and Supabase used by dry-run builds.
+ * Lets prompts and templates be iterated on without creating throwaway
+ * repos and projects on every try.
+ */
+
+import { DatabaseColumn, DatabaseTable } from '../database-types';
+import { FileSet } from '../error-checker';
+import { ToolBackend } from './backend';
+import { GithubPullRequest, GithubRepo, GithubRestoreMode, MAX_REPO_FILES } from './github';
+import { GitHubRepo } from './github-manager';
+import { AttachedSupabaseProject, SupabaseProject } from './supabase-backend';
+import { VercelDeploymentStatus, VercelProject } from './vercel';
+
+export interface VirtualFile {
+  content: string;
+  sha: string;
+}
+
+export interface VirtualRepo {
+  name: string;
+  description: string;
+  private: boolean;
+  files: Map<string, VirtualFile>; // Default branch
+  branches: Map<string, Map<string, VirtualFile>>; // Every other branch
+  pullRequests: VirtualPullRequest[];
+  heads: Map<string, string>; // Branch → commit SHA (DEFAULT_BRANCH for the default branch)
+  snapshots: Map<string, Map<string, VirtualFile>>; // Commit SHA → files at that commit
+  commits: number;
+  createdAt: string;
+}
+
+export interface VirtualPullRequest {
+  number: number;
+  title: string;
+  body: string;
+  head: string;
+  state: 'open' | 'closed' | 'merged';
+}
+
+export interface VirtualVercelProject {
+  id: string;
+  name: string;
+  githubRepo: string;
+  env: Record<string, string>;
+  deployments: string[];
+  createdAt: string;
+}
+
+export interface VirtualSupabaseProject extends SupabaseProject {
+  name: string;
+  createdAt: string;
+  tables: DatabaseTable[]; // Created by applied migrations
+  migrations: string[]; // SQL of every applied migration, in order
+}
+
+const DEFAULT_BRANCH = 'main';
+
+// "title text NOT NULL DEFAULT '' REFERENCES ..." as written by schema-sql
+function parseColumnSql(definition: string): DatabaseColumn {
+  const [, name, rest] = /^\s*(\w+)\s+(.*)$/s.exec(definition) ?? [, definition.trim(), ''];
+  const type = rest.split(/\s+(?:PRIMARY KEY|NOT NULL|UNIQUE|DEFAULT|REFERENCES)\b/)[0].trim();
+  return {
+    name,
+    type,
+    nullable: !/\b(?:PRIMARY KEY|NOT NULL)\b/.test(rest),
+    has_default: /\bDEFAULT\b/.test(rest),
+  };
+}
+
+// Small deterministic content hash (FNV-1a) so SHAs behave like GitHub's
+function hashContent(content: string, salt: number): string {
+  let hash = 0x811c9dc5 ^ salt;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0').repeat(5);
+}
+
+function encodeBase64Utf8(content: string): string {
+  return btoa(unescape(encodeURIComponent(content)));
+}
+
+export class VirtualWorkspace {
+  readonly repos: Map<string, VirtualRepo> = new Map();
+  readonly vercelProjects: Map<string, VirtualVercelProject> = new Map();
+  readonly supabaseProjects: Map<string, VirtualSupabaseProject> = new Map();
+  private counter = 0;
+
+  constructor(readonly owner: string = 'dry-run') {}
+
+  /**
+   * All files of a repo as a FileSet (for the preview and CodeViewer)
+   */
+  getRepoFiles(repoName: string, branch?: string): FileSet {
+    const repo = this.repos.get(repoName);
+    if (!repo) return {};
+    const files: FileSet = {};
+    const source = branch ? repo.branches.get(branch) ?? repo.snapshots.get(branch) : repo.files;
+    (source ?? new Map<string, VirtualFile>()).forEach((file, path) => {
+      files[path] = file.content;
+    });
+    return files;
+  }
+
+  reset(): void {
+    this.repos.clear();
+    this.vercelProjects.clear();
+    this.supabaseProjects.clear();
+    this.counter = 0;
+  }
+
+  nextId(prefix: string): string {
+    this.counter++;
+    return `${prefix}_${this.counter.toString().padStart(4, '0')}`;
+  }
+
+  requireRepo(repoName: string): VirtualRepo {
+    // Accept both "repo" and "owner/repo"
+    const name = repoName.includes('/') ? repoName.split('/')[1] : repoName;
+    const repo = this.repos.get(name);
+    if (!repo) {
+      throw new Error(`[dry run] Repository ${repoName} not found`);
+    }
+    return repo;
+  }
+
+  /**
+   * Files of a branch (the default branch when none is given)
+   */
+  branchFiles(repo: VirtualRepo, branch?: string): Map<string, VirtualFile> {
+    if (!branch) return repo.files;
+    const files = repo.branches.get(branch);
+    if (!files) {
+      throw new Error(`[dry run] Branch ${branch} not found in ${repo.name}`);
+    }
+    return files;
+  }
+
+  writeFile(repo: VirtualRepo, path: string, content: string, branch?: string): VirtualFile {
+    return this.commitFiles(repo, { [path]: content }, branch)[0];
+  }
+
+  /**
+   * Write several files as one commit
+   */
+  commitFiles(repo: VirtualRepo, files: FileSet, branch?: string): VirtualFile[] {
+    const target = this.branchFiles(repo, branch);
+    repo.commits++;
+    const written = Object.entries(files).map(([path, content]) => {
+      const file: VirtualFile = { content, sha: hashContent(content, repo.commits) };
+      target.set(path, file);
+      return file;
+    });
+    this.recordCommit(repo, branch);
+    return written;
+  }
+
+  // Snapshot the branch's files under a new commit SHA and move the branch to it
+  private recordCommit(repo: VirtualRepo, branch?: string): string {
+    const files = this.branchFiles(repo, branch);
+    const tree = [...files.entries()].map(([path, file]) => `${path}:${file.sha}`).join('\n');
+    const sha = hashContent(tree, repo.commits);
+    repo.snapshots.set(sha, new Map(files));
+    repo.heads.set(branch || DEFAULT_BRANCH, sha);
+    return sha;
+  }
+
+  headSha(repo: VirtualRepo, branch?: string): string {
+    const sha = repo.heads.get(branch || DEFAULT_BRANCH);
+    if (!sha) {
+      throw new Error(`[dry run] Branch ${branch || DEFAULT_BRANCH} of ${repo.name} has no commits`);
+    }
+    return sha;
+  }
+
+  /**
+   * Put a branch back to the files of an earlier commit, as a new commit ("revert") or by moving the branch ("reset")
+   */
+  restoreCommit(repo: VirtualRepo, sha: string, mode: GithubRestoreMode, branch?: string): string {
+    const snapshot = repo.snapshots.get(sha);
+    if (!snapshot) {
+      throw new Error(`[dry run] Commit ${sha} not found in ${repo.name}`);
+    }
+    const target = this.branchFiles(repo, branch);
+    target.clear();
+    snapshot.forEach((file, path) => target.set(path, file));
+
+    if (mode === 'reset') {
+      repo.heads.set(branch || DEFAULT_BRANCH, sha);
+      return sha;
+    }
+    repo.commits++;
+    return this.recordCommit(repo, branch);
+  }
+
+  requirePullRequest(repo: VirtualRepo, number: number): VirtualPullRequest {
+    const pr = repo.pullRequests.find(p => p.number === number);
+    if (!pr || pr.state !== 'open') {
+      throw new Error(`[dry run] No open pull request #${number} in ${repo.name}`);
+    }
+    return pr;
+  }
+
+  findVercelProject(input: { project_id?: string; project_name?: string }): VirtualVercelProject {
+    const project = input.project_id
+      ? this.vercelProjects.get(input.project_id)
+      : [...this.vercelProjects.values()].find(p => p.name === input.project_name);
+    if (!project) {
+      throw new Error(`[dry run] Vercel project ${input.project_id || input.project_name} not found`);
+    }
+    return project;
+  }
+}
+
+/**
+ * Backend that performs every side effect against a VirtualWorkspace
+ */
+export function createDryRunBackend(workspace: VirtualWorkspace): ToolBackend {
+  return {
+    mode: 'dry-run',
+
+    async createGithubRepo(input) {
+      // Mirror createGithubRepo's conflict handling
+      let name = input.name;
+      if (workspace.repos.has(name)) {
+        name = `${input.name}-${Date.now().toString().slice(-6)}`;
+      }
+      workspace.repos.set(name, {
+        name,
+        description: input.description || '',
+        private: input.private || false,
+        files: new Map(),
+        branches: new Map(),
+        pullRequests: [],
+        heads: new Map(),
+        snapshots: new Map(),
+        commits: 0,
+        createdAt: new Date().toISOString(),
+      });
+
+      const repo: GithubRepo = {
+        name,
+        full_name: `${workspace.owner}/${name}`,
+        html_url: `https://github.com/${workspace.owner}/${name}`,
+        clone_url: `https://github.com/${workspace.owner}/${name}.git`,
+      };
+      return repo;
+    },
+
+    async getGithubFile(input) {
+      const repo = workspace.requireRepo(input.repo);
+      const file = workspace.branchFiles(repo, input.branch).get(input.path);
+      if (!file) {
+        throw new Error(`Failed to get file: [dry run] ${input.path} not found in ${repo.name}`);
+      }
+      return {
+        name: input.path.split('/').pop(),
+        path: input.path,
+        sha: file.sha,
+        encoding: 'base64',
+        content: encodeBase64Utf8(file.content),
+      };
+    },
+
+    async createGithubFile(input) {
+      const repo = workspace.requireRepo(input.repo);
+      if (workspace.branchFiles(repo, input.branch).has(input.path)) {
+        throw new Error(`Failed to create file ${input.path}: [dry run] file already exists (use update_github_file)`);
+      }
+      workspace.writeFile(repo, input.path, input.content, input.branch);
+      return { success: true, commit_sha: workspace.headSha(repo, input.branch) };
+    },
+
+    async updateGithubFile(input) {
+      const repo = workspace.requireRepo(input.repo);
+      const existing = workspace.branchFiles(repo, input.branch).get(input.path);
+      if (existing && existing.sha !== input.sha) {
+        throw new Error(`Failed to update file ${input.path}: [dry run] sha does not match current file`);
+      }
+      workspace.writeFile(repo, input.path, input.content, input.branch);
+      return { success: true, commit_sha: workspace.headSha(repo, input.branch) };
+    },
+
+    async createGithubCommit(input) {
+      const repo = workspace.requireRepo(input.repo);
+      if (Object.keys(input.files).length === 0) {
+        throw new Error('Failed to create commit: [dry run] no files to commit');
+      }
+      workspace.commitFiles(repo, input.files, input.branch);
+      return {
+        success: true,
+        sha: workspace.headSha(repo, input.branch),
+        files_committed: Object.keys(input.files).length,
+      };
+    },
+
+    async listGithubFiles(input) {
+      const repo = workspace.requireRepo(input.repo);
+      return [...workspace.branchFiles(repo, input.branch).entries()].map(([path, file]) => ({ path, sha: file.sha, size: file.content.length }));
+    },
+
+    async getGithubRepoFiles(input) {
+      const repo = workspace.requireRepo(input.repo);
+      if (!input.branch || !repo.snapshots.has(input.branch)) {
+        workspace.branchFiles(repo, input.branch); // Unknown branches fail like on GitHub
+      }
+      const files = Object.entries(workspace.getRepoFiles(repo.name, input.branch));
+      return {
+        files: Object.fromEntries(files.slice(0, MAX_REPO_FILES)),
+        truncated: files.length > MAX_REPO_FILES,
+        total_files: files.length,
+      };
+    },
+
+    async restoreGithubCommit(input) {
+      const repo = workspace.requireRepo(input.repo);
+      return { sha: workspace.restoreCommit(repo, input.sha, input.mode, input.branch) };
+    },
+
+    async createGithubBranch(input) {
+      const repo = workspace.requireRepo(input.repo);
+      if (repo.branches.has(input.branch)) {
+        throw new Error(`Failed to create branch ${input.branch}: [dry run] Reference already exists`);
+      }
+      repo.branches.set(input.branch, new Map(repo.files));
+      const sha = workspace.headSha(repo);
+      repo.heads.set(input.branch, sha);
+      return { branch: input.branch, sha };
+    },
+
+    async createGithubPullRequest(input) {
+      const repo = workspace.requireRepo(input.repo);
+      workspace.branchFiles(repo, input.head);
+      const pr: VirtualPullRequest = {
+        number: repo.pullRequests.length + 1,
+        title: input.title,
+        body: input.body,
+        head: input.head,
+        state: 'open',
+      };
+      repo.pullRequests.push(pr);
+
+      const result: GithubPullRequest = {
+        number: pr.number,
+        html_url: `https://github.com/${workspace.owner}/${repo.name}/pull/${pr.number}`,
+        head: pr.head,
+        base: 'main',
+        state: 'open',
+      };
+      return result;
+    },
+
+    async mergeGithubPullRequest(input) {
+      const repo = workspace.requireRepo(input.repo);
+      const pr = workspace.requirePullRequest(repo, input.number);
+      workspace.commitFiles(repo, workspace.getRepoFiles(repo.name, pr.head));
+      repo.branches.delete(pr.head);
+      repo.heads.delete(pr.head);
+      pr.state = 'merged';
+      return { merged: true, sha: workspace.headSha(repo) };
+    },
+
+    async closeGithubPullRequest(input) {
+      const repo = workspace.requireRepo(input.repo);
+      const pr = workspace.requirePullRequest(repo, input.number);
+      repo.branches.delete(pr.head);
+      repo.heads.delete(pr.head);
+      pr.state = 'closed';
+      return { success: true };
+    },
+
+    async createVercelProject(input) {
+      workspace.requireRepo(input.github_repo);
+      const id = workspace.nextId('prj_dryrun');
+      const deploymentId = workspace.nextId('dpl_dryrun');
+      workspace.vercelProjects.set(id, {
+        id,
+        name: input.name,
+        githubRepo: input.github_repo,
+        env: {},
+        deployments: [deploymentId],
+        createdAt: new Date().toISOString(),
+      });
+
+      const project: VercelProject = {
+        id,
+        name: input.name,
+        url: `${input.name}.dry-run.local`,
+        deployment_id: deploymentId,
+      };
+      return project;
+    },
+
+    async addVercelEnvVar(input) {
+      const project = workspace.findVercelProject({ project_id: input.project_id });
+      project.env[input.key] = input.value;
+      return { success: true };
+    },
+
+    async triggerVercelDeployment(input) {
+      const project = workspace.findVercelProject(input);
+      const deploymentId = workspace.nextId('dpl_dryrun');
+      project.deployments.push(deploymentId);
+      const host = input.ref ? `${project.name}-git-${input.ref.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}` : project.name;
+      return { success: true, url: `${host}.dry-run.local`, id: deploymentId };
+    },
+
+    async waitForVercelDeployment(input) {
+      // Nothing is built in a dry run; every known deployment is ready at once
+      const project = [...workspace.vercelProjects.values()].find(p => p.deployments.includes(input.deployment_id));
+      if (!project) {
+        throw new Error(`[dry run] Deployment ${input.deployment_id} not found`);
+      }
+      const status: VercelDeploymentStatus = { id: input.deployment_id, state: 'READY', url: `${project.name}.dry-run.local` };
+      return status;
+    },
+
+    async createSupabaseProject(appName, onProgress, onCreated) {
+      onProgress('creating_supabase', `[dry run] Creating Supabase project: ${appName}...`, 15);
+      const ref = workspace.nextId('dryrun').replace('_', '');
+      const project: SupabaseProject = {
+        success: true,
+        project_ref: ref,
+        project_url: `https://${ref}.supabase.co`,
+        anon_key: `dry-run-anon-key-${ref}`,
+        service_key: `dry-run-service-key-${ref}`,
+        db_password: `dry-run-password-${ref}`,
+        dashboard_url: `https://supabase.com/dashboard/project/${ref}`,
+      };
+      workspace.supabaseProjects.set(ref, {
+        ...project,
+        name: `brainiac-${appName}`,
+        createdAt: new Date().toISOString(),
+        tables: [],
+        migrations: [],
+      });
+      onCreated?.(ref);
+      onProgress('getting_keys', '[dry run] Database ready', 58);
+      return project;
+    },
+
+    async attachSupabaseProject(input, onProgress) {
+      onProgress('creating_supabase', `[dry run] Attaching Supabase project ${input.project_ref}...`, 15);
+      const stored = workspace.supabaseProjects.get(input.project_ref);
+      if (!stored) {
+        throw new Error(`Failed to find Supabase project ${input.project_ref}: [dry run] not found`);
+      }
+      onProgress('getting_keys', '[dry run] Database ready', 58);
+
+      const attached: AttachedSupabaseProject = {
+        success: true,
+        project_ref: stored.project_ref,
+        project_url: stored.project_url,
+        anon_key: stored.anon_key,
+        service_key: stored.service_key,
+        dashboard_url: stored.dashboard_url,
+        existing_tables: stored.tables.map(table => table.name),
+      };
+      return attached;
+    },
+
+    async applySupabaseMigration(input) {
+      const project = workspace.supabaseProjects.get(input.project_ref);
+      if (!project) {
+        throw new Error(`Database query failed: [dry run] project ${input.project_ref} not found`);
+      }
+      project.migrations.push(input.sql);
+      // Nothing runs the SQL; tables and columns are read off it for introspection
+      for (const [, name, body] of input.sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*?)\s*\);/g)) {
+        if (project.tables.some(table => table.name === name)) continue;
+        // Commas inside a type's parentheses, e.g. numeric(10,2), do not split
+        project.tables.push({ name, columns: body.split(/,(?![^(]*\))/).map(parseColumnSql) });
+      }
+      for (const [, name, definition] of input.sql.matchAll(/ALTER TABLE (\w+) ADD COLUMN IF NOT EXISTS (.+);/g)) {
+        const table = project.tables.find(t => t.name === name);
+        const column = parseColumnSql(definition);
+        if (table && !table.columns.some(c => c.name === column.name)) table.columns.push(column);
+      }
+      return { success: true };
+    },
+
+    async getSupabaseSchema(input) {
+      const project = workspace.supabaseProjects.get(input.project_ref);
+      if (!project) {
+        throw new Error(`Database query failed: [dry run] project ${input.project_ref} not found`);
+      }
+      return project.tables.map(table => ({ ...table, columns: table.columns.map(column => ({ ...column })) }));
+    },
+
+    async deleteGithubRepo(input) {
+      const repo = workspace.requireRepo(input.repo);
+      workspace.repos.delete(repo.name);
+      return { success: true };
+    },
+
+    // Like the live APIs, deleting a missing project counts as done
+    async deleteVercelProject(input) {
+      workspace.vercelProjects.delete(input.project_id);
+      return { success: true };
+    },
+
+    async deleteSupabaseProject(input) {
+      workspace.supabaseProjects.delete(input.project_ref);
+      return { success: true };
+    },
+
+    async listGithubRepos() {
+      return [...workspace.repos.values()].map((repo, index): GitHubRepo => ({
+        id: index + 1,
+        name: repo.name,
+        full_name: `${workspace.owner}/${repo.name}`,
+        description: repo.description || null,
+        html_url: `https://github.com/${workspace.owner}/${repo.name}`,
+        created_at: repo.createdAt,
+        updated_at: repo.createdAt,
+        size: 0,
+        language: null,
+        private: repo.private,
+        default_branch: DEFAULT_BRANCH,
+      }));
+    },
+
+    async listVercelProjects() {
+      return [...workspace.vercelProjects.values()].map(project => ({
+        id: project.id,
+        name: project.name,
+        github_repo: project.githubRepo.includes('/') ? project.githubRepo : `${workspace.owner}/${project.githubRepo}`,
+        created_at: project.createdAt,
+      }));
+    },
+
+    async listSupabaseProjects() {
+      return [...workspace.supabaseProjects.values()].map(project => ({
+        ref: project.project_ref,
+        name: project.name,
+        region: 'dry-run',
+        status: 'ACTIVE_HEALTHY',
+        created_at: project.createdAt,
+      }));
+    },
+
+    async githubRepoExists(input) {
+      return workspace.repos.has(input.repo.split('/').pop()!);
+    },
+  };
+}
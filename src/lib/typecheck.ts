@@ -0,0 +1,121 @@
+/**
+ * Type Check
+ * Runs the real TypeScript compiler over generated files in a Web Worker, so
+ * errors like TS2322, TS6133 and broken imports are caught before Vercel
+ * builds the app. When the worker is unavailable (tests, old browsers, load
+ * failure) callers fall back to the regex heuristics of the error checker.
+ */
+
+import { DetectedError, FileSet } from './error-checker';
+
+export interface TypeDiagnostic {
+  file: string; // Path in the FileSet, e.g. "src/App.tsx"
+  line: number; // 1-based
+  column: number; // 1-based
+  code: number; // TS error code, e.g. 2322
+  message: string;
+  category: 'error' | 'warning';
+}
+
+export interface TypeCheckResult {
+  /** False when the compiler could not run; diagnostics are then empty */
+  available: boolean;
+  diagnostics: TypeDiagnostic[];
+  durationMs: number;
+  error?: string;
+}
+
+export type TypeChecker = (files: FileSet) => Promise<TypeCheckResult>;
+
+export interface TypeCheckRequest {
+  id: number;
+  files: FileSet;
+}
+
+export type TypeCheckResponse =
+  | { id: number; diagnostics: TypeDiagnostic[] }
+  | { id: number; error: string };
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, (response: TypeCheckResponse) => void>();
+
+function unavailable(error: string, startedAt: number): TypeCheckResult {
+  return { available: false, diagnostics: [], durationMs: Date.now() - startedAt, error };
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/typecheck.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TypeCheckResponse>) => {
+      pending.get(event.data.id)?.(event.data);
+      pending.delete(event.data.id);
+    };
+    worker.onerror = (event) => {
+      console.warn('⚠️ Type-check worker crashed:', event.message);
+      resetWorker(event.message || 'Type-check worker crashed');
+    };
+  }
+  return worker;
+}
+
+// Fail everything in flight and start a fresh worker next time
+function resetWorker(reason: string): void {
+  worker?.terminate();
+  worker = null;
+  pending.forEach((resolve, id) => resolve({ id, error: reason }));
+  pending.clear();
+}
+
+/**
+ * Type-check a FileSet with the compiler in the worker
+ */
+export async function typeCheckFiles(files: FileSet, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<TypeCheckResult> {
+  const startedAt = Date.now();
+  if (typeof Worker === 'undefined') {
+    return unavailable('Web Workers are not supported in this environment', startedAt);
+  }
+
+  let activeWorker: Worker;
+  try {
+    activeWorker = getWorker();
+  } catch (error: any) {
+    return unavailable(`Could not start type-check worker: ${error?.message || error}`, startedAt);
+  }
+
+  const id = ++nextRequestId;
+  const response = await new Promise<TypeCheckResponse>((resolve) => {
+    const timer = setTimeout(() => {
+      // A stuck compiler would block every later check too
+      resetWorker(`Type-check timed out after ${Math.round(timeoutMs / 1000)}s`);
+    }, timeoutMs);
+
+    pending.set(id, (result) => {
+      clearTimeout(timer);
+      resolve(result);
+    });
+    const request: TypeCheckRequest = { id, files };
+    activeWorker.postMessage(request);
+  });
+
+  if ('error' in response) {
+    return unavailable(response.error, startedAt);
+  }
+  return { available: true, diagnostics: response.diagnostics, durationMs: Date.now() - startedAt };
+}
+
+/**
+ * Compiler diagnostics in the error checker's format ("[path] ..." so self-heal can find the file)
+ */
+export function diagnosticsToErrors(diagnostics: TypeDiagnostic[]): DetectedError[] {
+  return diagnostics.map(d => ({
+    id: `ts${d.code}`,
+    line: d.line,
+    column: d.column,
+    message: `[${d.file}] (${d.line}:${d.column}) TS${d.code}: ${d.message}`,
+    severity: d.category,
+    canAutoFix: false,
+  }));
+}
@@ -0,0 +1,117 @@
+/**
+ * Usage Tracking
+ * Accumulates token usage of every model call in a build (agent turns and
+ * self-heal calls alike) and converts it to cost with a price table.
+ */
+
+import { BuildUsage, ModelPrice, PriceTable, UsageTotals } from '@/types';
+import { LLMProvider, ProviderUsage } from './providers';
+
+// USD per million tokens (Anthropic list prices)
+export const DEFAULT_PRICES: PriceTable = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-opus-20240229': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+};
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    costUsd: 0,
+    requests: 0,
+  };
+}
+
+/**
+ * Cost of one response. Models missing from the table (e.g. local models) cost nothing.
+ */
+export function calculateCost(usage: ProviderUsage, price: ModelPrice | undefined): number {
+  if (!price) return 0;
+  const cacheWrite = usage.cache_creation_input_tokens || 0;
+  const cacheRead = usage.cache_read_input_tokens || 0;
+  return (
+    usage.input_tokens * price.input +
+    usage.output_tokens * price.output +
+    cacheWrite * (price.cacheWrite ?? price.input) +
+    cacheRead * (price.cacheRead ?? price.input)
+  ) / 1_000_000;
+}
+
+function addUsage(totals: UsageTotals, usage: ProviderUsage, cost: number): void {
+  totals.inputTokens += usage.input_tokens;
+  totals.outputTokens += usage.output_tokens;
+  totals.cacheCreationTokens += usage.cache_creation_input_tokens || 0;
+  totals.cacheReadTokens += usage.cache_read_input_tokens || 0;
+  totals.costUsd += cost;
+  totals.requests++;
+}
+
+export class UsageTracker {
+  private usage: BuildUsage = { total: emptyUsageTotals(), byModel: {} };
+  private prices: PriceTable;
+
+  constructor(
+    prices: PriceTable = {},
+    private budgetUsd?: number,
+    private onBudgetExceeded?: (usage: BuildUsage) => void
+  ) {
+    this.prices = { ...DEFAULT_PRICES, ...prices };
+  }
+
+  record(model: string, usage: ProviderUsage): void {
+    const cost = calculateCost(usage, this.prices[model]);
+    addUsage(this.usage.total, usage, cost);
+    if (!this.usage.byModel[model]) {
+      this.usage.byModel[model] = emptyUsageTotals();
+    }
+    addUsage(this.usage.byModel[model], usage, cost);
+
+    if (this.isOverBudget()) {
+      console.warn(`💸 Build budget of ${formatCost(this.budgetUsd!)} exceeded (${formatCost(this.usage.total.costUsd)})`);
+      this.onBudgetExceeded?.(this.snapshot());
+    }
+  }
+
+  isOverBudget(): boolean {
+    return this.budgetUsd !== undefined && this.budgetUsd > 0 && this.usage.total.costUsd > this.budgetUsd;
+  }
+
+  get budget(): number | undefined {
+    return this.budgetUsd;
+  }
+
+  snapshot(): BuildUsage {
+    return JSON.parse(JSON.stringify(this.usage));
+  }
+}
+
+/**
+ * Provider that reports the usage of every response (including ones that are
+ * not part of the agent loop, like self-heal) to a tracker.
+ */
+export function withUsageTracking(provider: LLMProvider, tracker: UsageTracker): LLMProvider {
+  return {
+    id: provider.id,
+    async createMessage(request, stream) {
+      const response = await provider.createMessage(request, stream);
+      tracker.record(request.model, response.usage);
+      return response;
+    },
+  };
+}
+
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
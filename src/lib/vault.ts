@@ -0,0 +1,230 @@
+/**
+ * Settings Vault
+ * Workspaces (API keys and preferences) are kept in the settings store (see
+ * db.ts) encrypted with AES-GCM, under a key derived from the user's passphrase (PBKDF2). Once
+ * unlocked the decrypted workspaces live in memory until the vault is locked
+ * again, so the synchronous storage helpers can keep reading them.
+ */
+
+import { Settings } from '@/types';
+import { deleteRecords, getRecord, putRecord } from './db';
+import { WorkspaceStore, toWorkspaceStore } from './workspaces';
+
+const VAULT_RECORD_ID = 'vault';
+// Settings saved before the vault; moved into it when the vault is created
+const PLAINTEXT_RECORD_ID = 'plaintext';
+
+const VAULT_VERSION = 1;
+export const PBKDF2_ITERATIONS = 600_000;
+export const AUTO_LOCK_AFTER_MS = 15 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+interface VaultRecord {
+  version: number;
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64, fresh for every write
+  ciphertext: string; // base64
+}
+
+interface UnlockedVault {
+  key: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  workspaces: WorkspaceStore;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+let unlocked: UnlockedVault | null = null;
+// Writes are queued so a slow encryption never overwrites a newer one
+let pendingWrite: Promise<void> = Promise.resolve();
+const listeners = new Set<(unlocked: boolean) => void>();
+
+function notify(): void {
+  for (const listener of listeners) listener(unlocked !== null);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function readRecord(): VaultRecord | null {
+  return (getRecord('settings', VAULT_RECORD_ID)?.value as VaultRecord | undefined) ?? null;
+}
+
+async function writeRecord(vault: UnlockedVault): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(vault.workspaces));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vault.key, plaintext);
+  const record: VaultRecord = {
+    version: VAULT_VERSION,
+    iterations: vault.iterations,
+    salt: toBase64(vault.salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  putRecord('settings', { id: VAULT_RECORD_ID, value: record });
+}
+
+export function hasVault(): boolean {
+  return readRecord() !== null;
+}
+
+export function isVaultUnlocked(): boolean {
+  return unlocked !== null;
+}
+
+/**
+ * Settings saved by older versions in plain JSON, waiting to be encrypted
+ */
+export function loadPlaintextSettings(): Settings | null {
+  return (getRecord('settings', PLAINTEXT_RECORD_ID)?.value as Settings | undefined) ?? null;
+}
+
+/**
+ * Create a vault protected by the passphrase and unlock it. Any plaintext
+ * settings are moved into it and removed from storage.
+ */
+export async function createVault(passphrase: string, iterations = PBKDF2_ITERATIONS): Promise<void> {
+  if (!passphrase) throw new VaultError('Passphrase is required');
+  if (hasVault()) throw new VaultError('A vault already exists - unlock it or reset it first');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const plaintextSettings = loadPlaintextSettings();
+  const vault: UnlockedVault = {
+    key: await deriveKey(passphrase, salt, iterations),
+    salt,
+    iterations,
+    workspaces: toWorkspaceStore(plaintextSettings),
+  };
+  await writeRecord(vault);
+  deleteRecords('settings', record => record.id === PLAINTEXT_RECORD_ID);
+
+  unlocked = vault;
+  console.log(plaintextSettings ? '🔐 Migrated saved settings into the vault' : '🔐 Vault created');
+  notify();
+}
+
+/**
+ * Decrypt the vault with the passphrase; throws VaultError when it is wrong
+ */
+export async function unlockVault(passphrase: string): Promise<WorkspaceStore> {
+  const record = readRecord();
+  if (!record) throw new VaultError('No vault has been created yet');
+  if (record.version !== VAULT_VERSION) throw new VaultError(`Unsupported vault version ${record.version}`);
+
+  const salt = fromBase64(record.salt);
+  const key = await deriveKey(passphrase, salt, record.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.ciphertext));
+  } catch {
+    throw new VaultError('Wrong passphrase');
+  }
+
+  // Vaults written before workspaces hold a single Settings object
+  const workspaces = toWorkspaceStore(JSON.parse(new TextDecoder().decode(plaintext)));
+  unlocked = { key, salt, iterations: record.iterations, workspaces };
+  console.log('🔓 Vault unlocked');
+  notify();
+  return workspaces;
+}
+
+/**
+ * Forget the key and decrypted settings until the next unlock
+ */
+export function lockVault(): void {
+  if (!unlocked) return;
+  unlocked = null;
+  console.log('🔒 Vault locked');
+  notify();
+}
+
+/**
+ * Delete the vault for good (e.g. a forgotten passphrase); keys must be entered again
+ */
+export function resetVault(): void {
+  unlocked = null;
+  deleteRecords('settings', () => true);
+  notify();
+}
+
+/**
+ * Decrypted workspaces, or null while the vault is locked
+ */
+export function readVaultWorkspaces(): WorkspaceStore | null {
+  return unlocked?.workspaces ?? null;
+}
+
+/**
+ * Replace the workspaces in the unlocked vault. Reads see them straight
+ * away; the returned promise settles once they are encrypted.
+ */
+export function writeVaultWorkspaces(workspaces: WorkspaceStore): Promise<void> {
+  const vault = unlocked;
+  if (!vault) return Promise.reject(new VaultError('Vault is locked'));
+  vault.workspaces = workspaces;
+  pendingWrite = pendingWrite.catch(() => undefined).then(() => writeRecord(vault));
+  return pendingWrite;
+}
+
+/**
+ * Settles once every queued write has been encrypted and stored
+ */
+export function flushVault(): Promise<void> {
+  return pendingWrite.catch(() => undefined);
+}
+
+/**
+ * Called with the new state whenever the vault is unlocked, locked or reset
+ */
+export function onVaultChange(listener: (unlocked: boolean) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Lock the vault after a period without user activity. Returns a function
+ * that stops watching.
+ */
+export function startAutoLock(idleMs = AUTO_LOCK_AFTER_MS, target: EventTarget = window): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restart = () => {
+    clearTimeout(timer);
+    timer = setTimeout(lockVault, idleMs);
+  };
+
+  for (const event of ACTIVITY_EVENTS) target.addEventListener(event, restart, { passive: true });
+  restart();
+
+  return () => {
+    clearTimeout(timer);
+    for (const event of ACTIVITY_EVENTS) target.removeEventListener(event, restart);
+  };
+}
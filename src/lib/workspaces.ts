@@ -0,0 +1,63 @@
+/**
+ * Workspaces
+ * Each workspace carries its own API keys, default plan and region, model and
+ * history. The set of workspaces is what the vault encrypts.
+ */
+
+import { Settings, Workspace } from '@/types';
+import { generateId } from './utils';
+
+// Settings, history and journals from before workspaces belong to this one
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export interface WorkspaceStore {
+  activeWorkspaceId: string;
+  workspaces: Workspace[];
+}
+
+export function emptySettings(): Settings {
+  return {
+    apiKeys: {
+      anthropic: '',
+      supabase: { token: '', orgId: '' },
+      github: { token: '', owner: '' },
+      vercel: { token: '' },
+    },
+    preferences: {
+      defaultPlan: 'free',
+      defaultRegion: 'ap-southeast-2',
+    },
+  };
+}
+
+export function createWorkspace(name: string, settings: Settings = emptySettings(), id: string = generateId()): Workspace {
+  return { ...settings, id, name };
+}
+
+function isWorkspaceStore(data: any): data is WorkspaceStore {
+  return !!data && Array.isArray(data.workspaces) && data.workspaces.length > 0;
+}
+
+/**
+ * Workspaces from whatever was saved: a workspace store, a single Settings
+ * object (before workspaces) or nothing at all
+ */
+export function toWorkspaceStore(data: unknown): WorkspaceStore {
+  if (isWorkspaceStore(data)) return data;
+  const settings = data && typeof data === 'object' && 'apiKeys' in data ? (data as Settings) : emptySettings();
+  return {
+    activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+    workspaces: [createWorkspace('Default', settings, DEFAULT_WORKSPACE_ID)],
+  };
+}
+
+export function activeWorkspace(store: WorkspaceStore): Workspace {
+  return store.workspaces.find(w => w.id === store.activeWorkspaceId) ?? store.workspaces[0];
+}
+
+/**
+ * Whether a history entry or journal belongs to the workspace
+ */
+export function inWorkspace(item: { workspaceId?: string }, workspaceId: string): boolean {
+  return (item.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId;
+}
@@ -19,11 +19,60 @@ export interface ApiKeys {
 export interface UserPreferences {
   defaultPlan: 'free' | 'pro';
   defaultRegion: string;
+  dryRun?: boolean; // Run tools against an in-memory workspace (no real repos/projects)
+  buildBudgetUsd?: number; // Stop a build once its model usage costs more than this
+  planFirst?: boolean; // Review and approve a build plan before anything is created
+  deployHealAttempts?: number; // Times a failed Vercel build is fixed and redeployed (default 2, 0 = off)
+  branchWorkflow?: boolean; // Follow-up changes go to a branch + pull request instead of main
 }
 
+export type LlmProviderType = 'anthropic' | 'openai-compatible';
+
+export interface LlmProviderSettings {
+  provider: LlmProviderType;
+  baseUrl?: string; // OpenAI-compatible only (e.g. http://localhost:11434/v1)
+  apiKey?: string; // OpenAI-compatible only (optional for most local servers)
+  model?: string; // OpenAI-compatible only (e.g. "qwen2.5-coder:32b")
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite?: number; // Defaults to input
+  cacheRead?: number; // Defaults to input
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
 export interface Settings {
   apiKeys: ApiKeys;
   preferences: UserPreferences;
+  llm?: LlmProviderSettings; // Optional: defaults to Anthropic
+  pricing?: PriceTable; // Optional: overrides the built-in model prices
+}
+
+/**
+ * Named set of keys and defaults, e.g. one per client
+ */
+export interface Workspace extends Settings {
+  id: string;
+  name: string;
+  model?: string; // Model picked for new builds
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  requests: number;
+}
+
+export interface BuildUsage {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
 }
 
 export interface SupabaseProject {
@@ -45,12 +94,29 @@ export interface BuildStatus {
   message: string;
   progress: number;
   error?: string;
-  currentProject?: {
-    name: string;
-    githubRepo: string;
-    vercelProjectId: string;
-    supabaseProjectRef: string;
-  };
+  currentProject?: ProjectContext;
+}
+
+/**
+ * Resources of the project being edited (kept for follow-up turns)
+ */
+export interface ProjectContext {
+  name: string;
+  githubRepo: string; // owner/repo
+  vercelProjectId: string;
+  supabaseProjectRef: string;
+}
+
+/**
+ * Pull request opened for a follow-up change (branch workflow)
+ */
+export interface PullRequestInfo {
+  repo: string; // owner/repo
+  number: number;
+  url: string;
+  branch: string;
+  title: string;
+  previewUrl?: string; // Vercel preview of the branch
 }
 
 export interface ProjectHistory {
@@ -62,12 +128,32 @@ export interface ProjectHistory {
   supabaseUrl: string;
   createdAt: string;
   success: boolean;
+  dryRun?: boolean;
+  usage?: BuildUsage;
+  projectContext?: ProjectContext; // Project the run built or edited
+  commitSha?: string; // Commit the run left the repo at (generation timeline)
+  restoredFrom?: string; // Commit SHA this entry restored
+  workspaceId?: string; // Workspace the run used (missing on entries from before workspaces)
+}
+
+export type ToolCallStatus = 'running' | 'succeeded' | 'failed';
+
+export interface ToolCallInfo {
+  id: string;
+  name: string;
+  input: unknown;
+  status: ToolCallStatus;
+  result?: unknown;
 }
 
 export interface AgentMessage {
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  streaming?: boolean; // Assistant text still arriving token by token
+  toolCall?: ToolCallInfo; // Present for live tool-call cards
+  resumeRunId?: string; // Offers a "Resume build" action for this run journal
 }
 
 export interface ToolResponse {
@@ -0,0 +1,211 @@
+/**
+ * Type-check Host
+ * Runs the TypeScript compiler over a FileSet held in memory. Kept free of
+ * worker and bundler specifics so the same code runs in the worker and in tests.
+ */
+
+import type ts from 'typescript';
+import type { FileSet } from '@/lib/error-checker';
+import type { TypeDiagnostic } from '@/lib/typecheck';
+import { VITE_CLIENT_TYPES } from './typecheck-shims';
+
+type TypeScript = typeof ts;
+
+/** Virtual path → contents for lib files and package type declarations */
+export type DeclarationFiles = Record<string, string>;
+
+export const LIB_DIR = '/node_modules/typescript/lib';
+const MAX_DIAGNOSTICS = 100;
+
+// Packages whose real (or bundled) types are available to the checker
+const TYPED_PACKAGES = ['react', 'react-dom', '@supabase/supabase-js', 'vite'];
+
+const FALLBACK_OPTIONS = {
+  target: 'ES2020',
+  lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+  module: 'ESNext',
+  moduleResolution: 'bundler',
+  jsx: 'react-jsx',
+  strict: true,
+  skipLibCheck: true,
+  allowImportingTsExtensions: true,
+  resolveJsonModule: true,
+  isolatedModules: true,
+  baseUrl: '.',
+  paths: { '@/*': ['./src/*'] },
+};
+
+/**
+ * Declarations that ship with the worker instead of coming from node_modules
+ */
+export const BUNDLED_DECLARATIONS: DeclarationFiles = {
+  '/node_modules/vite/client.d.ts': VITE_CLIENT_TYPES,
+};
+
+/**
+ * Compiler options from the app's tsconfig.json (falls back to the template defaults)
+ */
+export function resolveCompilerOptions(tsc: TypeScript, files: FileSet): ts.CompilerOptions {
+  let compilerOptions: Record<string, unknown> = FALLBACK_OPTIONS;
+  if (files['tsconfig.json']) {
+    const parsed = tsc.parseConfigFileTextToJson('tsconfig.json', files['tsconfig.json']);
+    if (!parsed.error && parsed.config?.compilerOptions) {
+      compilerOptions = parsed.config.compilerOptions;
+    }
+  }
+
+  const { options } = tsc.convertCompilerOptionsFromJson(compilerOptions, '/');
+  return {
+    ...options,
+    noEmit: true,
+    skipLibCheck: true,
+    types: [], // No automatic @types lookup; imports resolve what they need
+  };
+}
+
+/**
+ * Lib files the options need, following `/// <reference lib="..." />` chains
+ */
+export async function loadLibFiles(
+  tsc: TypeScript,
+  options: ts.CompilerOptions,
+  readLib: (fileName: string) => Promise<string | undefined>
+): Promise<DeclarationFiles> {
+  const libs: DeclarationFiles = {};
+  const queue = options.lib?.length ? [...options.lib] : [tsc.getDefaultLibFileName(options)];
+
+  while (queue.length > 0) {
+    const fileName = queue.shift()!;
+    if (`${LIB_DIR}/${fileName}` in libs) continue;
+
+    const content = await readLib(fileName);
+    if (content === undefined) continue;
+    libs[`${LIB_DIR}/${fileName}`] = content;
+
+    for (const match of content.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"\s*\/>/g)) {
+      queue.push(`lib.${match[1].toLowerCase()}.d.ts`);
+    }
+  }
+
+  return libs;
+}
+
+function packageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Loose declarations for every imported package without types, so missing
+ * third-party typings never show up as errors (only the app's own code is
+ * checked). Each imported name is declared as both an `any` value and an
+ * `any` type, because shorthand `declare module 'x';` cannot be used in type
+ * positions (e.g. `VariantProps<typeof variants>`).
+ */
+function untypedModuleShims(sources: FileSet): string {
+  const modules = new Map<string, Set<string>>();
+
+  for (const content of Object.values(sources)) {
+    const statements = content.matchAll(/(?:import|export)\s+(?:type\s+)?([\w*{}\s,$]*?)\s*from\s+['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]/g);
+    for (const [, clause = '', fromSpecifier, bareSpecifier] of statements) {
+      const specifier = fromSpecifier ?? bareSpecifier;
+      if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('@/')) continue;
+      if (TYPED_PACKAGES.includes(packageName(specifier))) continue;
+
+      const names = modules.get(specifier) ?? new Set<string>();
+      modules.set(specifier, names);
+
+      const named = /\{([^}]*)\}/.exec(clause);
+      named?.[1].split(',').forEach(part => {
+        const name = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim();
+        if (/^[A-Za-z_$][\w$]*$/.test(name) && name !== 'default') names.add(name);
+      });
+    }
+  }
+
+  return [...modules.entries()]
+    .map(([specifier, names]) => {
+      const members = [...names].map(name => `  export const ${name}: any;\n  export type ${name}<A = any, B = any, C = any> = any;`);
+      return `declare module '${specifier}' {\n  const _default: any;\n  export default _default;\n${members.join('\n')}\n}`;
+    })
+    .join('\n');
+}
+
+function isSourceFile(path: string): boolean {
+  return /\.(tsx?|d\.ts)$/.test(path) && path.startsWith('src/');
+}
+
+/**
+ * Type-check the app's src/ files and return diagnostics for them
+ */
+export function runTypeCheck(tsc: TypeScript, files: FileSet, declarations: DeclarationFiles): TypeDiagnostic[] {
+  const options = resolveCompilerOptions(tsc, files);
+  const sources = Object.fromEntries(Object.entries(files).filter(([path]) => isSourceFile(path)));
+
+  const vfs = new Map<string, string>();
+  Object.entries(declarations).forEach(([path, content]) => vfs.set(path, content));
+  Object.entries(files).forEach(([path, content]) => vfs.set(`/${path}`, content));
+  // Installed packages carry their own package.json; without one the app's
+  // "type": "module" would make CommonJS typings like @types/react look like ESM
+  for (const path of Object.keys(declarations)) {
+    const packageDir = /^\/node_modules\/((?:@[^/]+\/)?[^/]+)\//.exec(path)?.[0];
+    if (packageDir && !vfs.has(`${packageDir}package.json`)) vfs.set(`${packageDir}package.json`, '{}');
+  }
+  vfs.set('/__untyped-modules.d.ts', untypedModuleShims(sources));
+
+  const rootNames = [...Object.keys(sources).map(path => `/${path}`), '/__untyped-modules.d.ts'];
+  const directoryExists = (dir: string) => {
+    const prefix = dir.endsWith('/') ? dir : `${dir}/`;
+    for (const path of vfs.keys()) {
+      if (path.startsWith(prefix)) return true;
+    }
+    return false;
+  };
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const content = vfs.get(fileName);
+      return content === undefined ? undefined : tsc.createSourceFile(fileName, content, languageVersion, true);
+    },
+    getDefaultLibFileName: (opts) => `${LIB_DIR}/${tsc.getDefaultLibFileName(opts)}`,
+    getDefaultLibLocation: () => LIB_DIR,
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => vfs.has(fileName),
+    readFile: (fileName) => vfs.get(fileName),
+    directoryExists,
+    getDirectories: () => [],
+  };
+
+  const program = tsc.createProgram({ rootNames, options, host });
+  const diagnostics: TypeDiagnostic[] = [];
+
+  for (const sourceFile of program.getSourceFiles()) {
+    const path = sourceFile.fileName.slice(1);
+    if (!(path in sources)) continue;
+
+    const fileDiagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ];
+
+    for (const diagnostic of fileDiagnostics) {
+      if (diagnostic.category !== tsc.DiagnosticCategory.Error && diagnostic.category !== tsc.DiagnosticCategory.Warning) continue;
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+      diagnostics.push({
+        file: path,
+        line: line + 1,
+        column: character + 1,
+        code: diagnostic.code,
+        message: tsc.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        category: diagnostic.category === tsc.DiagnosticCategory.Error ? 'error' : 'warning',
+      });
+      if (diagnostics.length >= MAX_DIAGNOSTICS) return diagnostics;
+    }
+  }
+
+  return diagnostics;
+}
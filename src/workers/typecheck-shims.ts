@@ -0,0 +1,32 @@
+/**
+ * Vite client declarations bundled with the type-check worker. They cover the
+ * parts of `import.meta` and asset imports generated apps use; anything else
+ * is typed loosely so it never produces false errors.
+ */
+
+export const VITE_CLIENT_TYPES = `
+interface ImportMetaEnv {
+  [key: string]: any;
+  BASE_URL: string;
+  MODE: string;
+  DEV: boolean;
+  PROD: boolean;
+  SSR: boolean;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+  readonly hot?: any;
+  glob(pattern: string | string[], options?: Record<string, unknown>): Record<string, any>;
+}
+
+declare module '*.css';
+declare module '*.svg' { const src: string; export default src; }
+declare module '*.png' { const src: string; export default src; }
+declare module '*.jpg' { const src: string; export default src; }
+declare module '*.jpeg' { const src: string; export default src; }
+declare module '*.gif' { const src: string; export default src; }
+declare module '*.webp' { const src: string; export default src; }
+declare module '*.ico' { const src: string; export default src; }
+declare module '*?raw' { const content: string; export default content; }
+`;
@@ -0,0 +1,72 @@
+/**
+ * Type-check Worker
+ * Loads the TypeScript compiler off the main thread and answers type-check
+ * requests from src/lib/typecheck.ts. Lib files are fetched on first use and
+ * then cached for the lifetime of the worker.
+ */
+
+import ts from 'typescript';
+import type { TypeCheckRequest, TypeCheckResponse } from '@/lib/typecheck';
+import { BUNDLED_DECLARATIONS, DeclarationFiles, LIB_DIR, loadLibFiles, resolveCompilerOptions, runTypeCheck } from './typecheck-host';
+
+// Package typings: small, so they ship inside the worker bundle
+const packageTypes = import.meta.glob<string>(
+  [
+    '/node_modules/@types/react/{index,global,jsx-runtime,jsx-dev-runtime}.d.ts',
+    '/node_modules/@types/react-dom/{index,client}.d.ts',
+    '/node_modules/@types/prop-types/index.d.ts',
+    '/node_modules/csstype/index.d.ts',
+  ],
+  { query: '?raw', import: 'default', eager: true }
+);
+
+// supabase-js and the clients it re-exports: large, so only loaded for apps that import it
+const supabaseLoaders = import.meta.glob<string>(
+  [
+    '/node_modules/@supabase/*/package.json',
+    '/node_modules/@supabase/{supabase-js,postgrest-js,storage-js}/dist/*.d.mts',
+    '/node_modules/@supabase/{auth-js,functions-js,realtime-js}/dist/module/**/*.d.ts',
+    '/node_modules/@supabase/phoenix/priv/static/types/*.d.ts',
+  ],
+  { query: '?raw', import: 'default' }
+);
+
+// TypeScript's lib files: large, so each is loaded only when a tsconfig needs it
+const libLoaders = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', { query: '?raw', import: 'default' });
+
+const libCache: DeclarationFiles = {};
+let supabaseTypes: Promise<DeclarationFiles> | undefined;
+
+async function readLib(fileName: string): Promise<string | undefined> {
+  const path = `${LIB_DIR}/${fileName}`;
+  if (!(path in libCache)) {
+    const load = libLoaders[path];
+    if (!load) return undefined;
+    libCache[path] = await load();
+  }
+  return libCache[path];
+}
+
+function loadSupabaseTypes(): Promise<DeclarationFiles> {
+  supabaseTypes ??= Promise.all(
+    Object.entries(supabaseLoaders).map(async ([path, load]) => [path, await load()] as const)
+  ).then(entries => Object.fromEntries(entries));
+  return supabaseTypes;
+}
+
+self.onmessage = async (event: MessageEvent<TypeCheckRequest>) => {
+  const { id, files } = event.data;
+  let response: TypeCheckResponse;
+
+  try {
+    const libs = await loadLibFiles(ts, resolveCompilerOptions(ts, files), readLib);
+    const usesSupabase = Object.values(files).some(content => content.includes('@supabase/supabase-js'));
+    const packages = usesSupabase ? { ...packageTypes, ...await loadSupabaseTypes() } : packageTypes;
+    const diagnostics = runTypeCheck(ts, files, { ...libs, ...packages, ...BUNDLED_DECLARATIONS });
+    response = { id, diagnostics };
+  } catch (error: any) {
+    response = { id, error: error?.message || 'Type-check failed' };
+  }
+
+  self.postMessage(response);
+};
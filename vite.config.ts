@@ -9,6 +9,9 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  worker: {
+    format: 'es', // The type-check worker lazy-loads TypeScript lib files
+  },
   server: {
     port: 3000,
     proxy: {